@@ -1,7 +1,7 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
 import { router } from 'expo-router';
-import React, { useCallback, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { RefreshControl, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 
 import { StateBlock } from '@/components/ui/state-block';
@@ -11,11 +11,13 @@ import { useI18n } from '@/hooks/use-i18n';
 import { getErrorMessage } from '@/lib/errors';
 import { formatDateLabel } from '@/lib/format';
 import { fetchAnnouncements } from '@/lib/student-api';
+import { useOfflineSyncStatus } from '@/providers/offline-sync-provider';
 import type { Announcement } from '@/types/supabase';
 
 export default function AnnouncementsScreen() {
   const { colors, cardShadow } = useAppTheme();
   const { t, locale } = useI18n();
+  const { dataVersion } = useOfflineSyncStatus();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [refreshing, setRefreshing] = useState(false);
@@ -50,6 +52,11 @@ export default function AnnouncementsScreen() {
     }, [loadAnnouncements])
   );
 
+  useEffect(() => {
+    if (dataVersion === 0) return;
+    void loadAnnouncements();
+  }, [dataVersion, loadAnnouncements]);
+
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     try {
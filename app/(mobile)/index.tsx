@@ -13,16 +13,29 @@ import { useConnectivity } from '@/hooks/use-connectivity';
 import { useAppTheme } from '@/hooks/use-app-theme';
 import { useI18n } from '@/hooks/use-i18n';
 import { loadAppFlags, saveAppFlags } from '@/lib/app-flags';
+import type { CourseWorkload } from '@/lib/courses';
 import { getErrorMessage } from '@/lib/errors';
+import { getDaysUntilExam } from '@/lib/exams';
 import { fetchDashboardSummary, getCachedDashboardSummary } from '@/lib/student-api';
 import { formatDateLabel, formatDateTimeLabel, humanNow } from '@/lib/format';
+import { orderTasksByDependencies } from '@/lib/task-dependencies';
+import { compareTasksByDue, formatMinutesDuration, formatTaskDueLabel } from '@/lib/task-timing';
 import { getUserPreferences, toggleFavoriteResource, toggleFavoriteTask } from '@/lib/user-preferences';
 import { useAuth } from '@/providers/auth-provider';
 import { useInAppNotification } from '@/providers/notification-provider';
-import type { Announcement, Resource, Task } from '@/types/supabase';
+import { useOfflineSyncStatus } from '@/providers/offline-sync-provider';
+import type { Announcement, Exam, Resource, Task } from '@/types/supabase';
+
+const priorityOrder: Record<Task['priority'], number> = { high: 0, medium: 1, low: 2 };
+const MAX_DUE_REVIEWS_SHOWN = 5;
+
+function compareNextTasks(a: Task, b: Task): number {
+  return compareTasksByDue(a, b) || priorityOrder[a.priority] - priorityOrder[b.priority];
+}
 
 export default function HomeDashboardScreen() {
   const { user, profile } = useAuth();
+  const { dataVersion } = useOfflineSyncStatus();
   const { unreadActivityCount } = useInAppNotification();
   const isOnline = useConnectivity();
   const { colors, cardShadow } = useAppTheme();
@@ -35,6 +48,10 @@ export default function HomeDashboardScreen() {
   const [resourcesCount, setResourcesCount] = useState(0);
   const [nextTasks, setNextTasks] = useState<Task[]>([]);
   const [latestResources, setLatestResources] = useState<Resource[]>([]);
+  const [courseWorkloads, setCourseWorkloads] = useState<CourseWorkload[]>([]);
+  const [upcomingExams, setUpcomingExams] = useState<Exam[]>([]);
+  const [dueReviewResources, setDueReviewResources] = useState<Resource[]>([]);
+  const [allTasks, setAllTasks] = useState<Task[]>([]);
   const [latestAnnouncement, setLatestAnnouncement] = useState<Announcement | null>(null);
   const [favoriteTaskIds, setFavoriteTaskIds] = useState<string[]>([]);
   const [favoriteResourceIds, setFavoriteResourceIds] = useState<string[]>([]);
@@ -240,9 +257,14 @@ export default function HomeDashboardScreen() {
     setOverdueCount(summary.overdueCount);
     setTasksCount(summary.totalTasks);
     setResourcesCount(summary.totalResources);
-    setNextTasks(summary.tasks.filter((task) => task.status !== 'done').slice(0, 3));
+    const openTasks = summary.tasks.filter((task) => task.status !== 'done');
+    setNextTasks(orderTasksByDependencies(openTasks, compareNextTasks).slice(0, 3));
     setLatestResources(summary.latestResources);
     setLatestAnnouncement(summary.latestAnnouncement);
+    setCourseWorkloads(summary.courseWorkloads);
+    setUpcomingExams(summary.upcomingExams);
+    setDueReviewResources(summary.dueReviewResources);
+    setAllTasks(summary.tasks);
   }, []);
 
   const loadData = useCallback(async () => {
@@ -304,6 +326,11 @@ export default function HomeDashboardScreen() {
     }, [loadData, loadPreferences])
   );
 
+  useEffect(() => {
+    if (dataVersion === 0) return;
+    void loadData();
+  }, [dataVersion, loadData]);
+
   useEffect(() => {
     let active = true;
 
@@ -530,11 +557,12 @@ export default function HomeDashboardScreen() {
 
   const prioritizedTasks = useMemo(() => {
     if (nextTasks.length <= 1) return nextTasks;
-    return [...nextTasks].sort((a, b) => {
+    // Favourites go first, but never ahead of a task that blocks them.
+    return orderTasksByDependencies(nextTasks, (a, b) => {
       const aFav = favoriteTaskIds.includes(a.id) ? 0 : 1;
       const bFav = favoriteTaskIds.includes(b.id) ? 0 : 1;
       if (aFav !== bFav) return aFav - bFav;
-      return (a.due_date ?? '9999-12-31').localeCompare(b.due_date ?? '9999-12-31');
+      return compareNextTasks(a, b);
     });
   }, [favoriteTaskIds, nextTasks]);
 
@@ -792,7 +820,7 @@ export default function HomeDashboardScreen() {
                   <TouchableOpacity key={task.id} style={styles.taskCard} onPress={() => router.push(`/task/${task.id}`)}>
                     <View style={styles.taskMain}>
                       <Text style={styles.taskTitle}>{task.title}</Text>
-                      <Text style={styles.taskMeta}>{formatDateLabel(task.due_date, locale, t('common.noDate'))}</Text>
+                      <Text style={styles.taskMeta}>{formatTaskDueLabel(task, locale, t)}</Text>
                       <Text style={styles.taskMetaSecondary}>
                         {t('tasks.createdAt', {
                           date: formatDateTimeLabel(task.created_at, locale, t('common.noDate')),
@@ -822,6 +850,114 @@ export default function HomeDashboardScreen() {
               })
             )}
 
+            <View style={[styles.sectionHeader, styles.resourcesHeader]}>
+              <Text style={[styles.sectionTitle, styles.resourcesTitle]}>{t('home.examCountdown')}</Text>
+              <TouchableOpacity onPress={() => router.push('/exams')}>
+                <Text style={styles.sectionLink}>{upcomingExams.length > 0 ? t('courses.manage') : t('common.add')}</Text>
+              </TouchableOpacity>
+            </View>
+            <View style={styles.workloadCard}>
+              {upcomingExams.length === 0 ? (
+                <Text style={styles.examEmpty}>{t('home.examEmpty')}</Text>
+              ) : (
+                upcomingExams.map((exam) => {
+                  const days = getDaysUntilExam(exam, nowClock);
+                  const revisionsLeft = allTasks.filter(
+                    (task) => task.exam_id === exam.id && task.status !== 'done'
+                  ).length;
+                  return (
+                    <TouchableOpacity key={exam.id} style={styles.workloadRow} onPress={() => router.push('/exams')}>
+                      <View style={styles.examCountdown}>
+                        <Text style={styles.examCountdownValue}>{days === 0 ? t('exams.todayShort') : days}</Text>
+                        {days > 0 ? <Text style={styles.examCountdownUnit}>{t('home.examDays')}</Text> : null}
+                      </View>
+                      <View style={styles.examMain}>
+                        <Text style={styles.workloadName} numberOfLines={1}>
+                          {exam.subject}
+                        </Text>
+                        <Text style={styles.workloadMeta} numberOfLines={1}>
+                          {[formatDateLabel(exam.exam_date, locale), exam.exam_time, exam.location]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </Text>
+                      </View>
+                      {revisionsLeft > 0 ? (
+                        <Text style={styles.workloadMeta}>{t('home.examRevisionsLeft', { count: revisionsLeft })}</Text>
+                      ) : null}
+                    </TouchableOpacity>
+                  );
+                })
+              )}
+            </View>
+
+            {dueReviewResources.length > 0 ? (
+              <>
+                <View style={[styles.sectionHeader, styles.resourcesHeader]}>
+                  <Text style={[styles.sectionTitle, styles.resourcesTitle]}>
+                    {t('home.dueReviews', { count: dueReviewResources.length })}
+                  </Text>
+                  <TouchableOpacity onPress={() => router.push('/schedule-planner')}>
+                    <Text style={styles.sectionLink}>{t('home.dueReviewsPlan')}</Text>
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.workloadCard}>
+                  {dueReviewResources.slice(0, MAX_DUE_REVIEWS_SHOWN).map((resource) => (
+                    <TouchableOpacity
+                      key={resource.id}
+                      style={styles.workloadRow}
+                      onPress={() => router.push(`/resource/${resource.id}`)}>
+                      <Ionicons name="repeat-outline" size={16} color={colors.primary} />
+                      <Text style={styles.workloadName} numberOfLines={1}>
+                        {resource.title}
+                      </Text>
+                      <Ionicons name="chevron-forward" size={16} color={colors.textMuted} />
+                    </TouchableOpacity>
+                  ))}
+                  {dueReviewResources.length > MAX_DUE_REVIEWS_SHOWN ? (
+                    <Text style={styles.examEmpty}>
+                      {t('home.dueReviewsMore', { count: dueReviewResources.length - MAX_DUE_REVIEWS_SHOWN })}
+                    </Text>
+                  ) : null}
+                </View>
+              </>
+            ) : null}
+
+            {courseWorkloads.length > 0 ? (
+              <>
+                <View style={[styles.sectionHeader, styles.resourcesHeader]}>
+                  <Text style={[styles.sectionTitle, styles.resourcesTitle]}>{t('home.courseWorkload')}</Text>
+                  <TouchableOpacity onPress={() => router.push('/courses')}>
+                    <Text style={styles.sectionLink}>{t('courses.manage')}</Text>
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.workloadCard}>
+                  {courseWorkloads.map((workload) => (
+                    <View key={workload.course.id} style={styles.workloadRow}>
+                      <View style={[styles.workloadDot, { backgroundColor: workload.course.color }]} />
+                      <Text style={styles.workloadName} numberOfLines={1}>
+                        {workload.course.name}
+                      </Text>
+                      <Text style={styles.workloadMeta}>
+                        {workload.estimatedMinutes > 0
+                          ? t('home.courseWorkloadMeta', {
+                            count: workload.openCount,
+                            duration: formatMinutesDuration(workload.estimatedMinutes, t),
+                          })
+                          : t('home.courseWorkloadCount', { count: workload.openCount })}
+                      </Text>
+                      {workload.overdueCount > 0 ? (
+                        <View style={[styles.priorityBadge, { backgroundColor: colors.dangerSoft }]}>
+                          <Text style={[styles.priorityText, { color: colors.danger }]}>
+                            {t('home.courseWorkloadOverdue', { count: workload.overdueCount })}
+                          </Text>
+                        </View>
+                      ) : null}
+                    </View>
+                  ))}
+                </View>
+              </>
+            ) : null}
+
             <View style={[styles.sectionHeader, styles.resourcesHeader]}>
               <Text style={[styles.sectionTitle, styles.resourcesTitle]}>{t('home.latestResources')}</Text>
               <TouchableOpacity onPress={() => router.push('/resources')}>
@@ -1340,6 +1476,61 @@ const createStyles = (
     marginTop: 8,
     marginBottom: 2,
   },
+  workloadCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  workloadRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+  workloadDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  workloadName: {
+    flex: 1,
+    color: colors.text,
+    fontWeight: '700',
+  },
+  workloadMeta: {
+    color: colors.textMuted,
+    fontSize: 12,
+  },
+  examEmpty: {
+    color: colors.textMuted,
+    fontSize: 13,
+    paddingVertical: 8,
+  },
+  examCountdown: {
+    minWidth: 46,
+    borderRadius: 10,
+    paddingVertical: 4,
+    paddingHorizontal: 6,
+    alignItems: 'center',
+    backgroundColor: colors.primarySoft,
+  },
+  examCountdownValue: {
+    color: colors.primary,
+    fontSize: 18,
+    fontWeight: '800',
+  },
+  examCountdownUnit: {
+    color: colors.primary,
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  examMain: {
+    flex: 1,
+    gap: 2,
+  },
   resourceCard: {
     backgroundColor: colors.surface,
     borderRadius: 14,
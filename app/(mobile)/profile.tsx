@@ -23,9 +23,12 @@ import { TabSwipeShell } from '@/components/ui/tab-swipe-shell';
 import { useConnectivity } from '@/hooks/use-connectivity';
 import { useAppTheme } from '@/hooks/use-app-theme';
 import { useI18n } from '@/hooks/use-i18n';
+import { getCachedCourses } from '@/lib/courses';
 import { getErrorMessage } from '@/lib/errors';
 import { getFocusStats } from '@/lib/focus-stats';
 import { formatDateTimeLabel } from '@/lib/format';
+import { GRADE_SCALE, buildGradeOverview, formatGrade, getCachedAssessments } from '@/lib/grades';
+import type { GradeOverview } from '@/lib/grades';
 import {
   importEncryptionKeyBackup,
   isEncryptionBackupSupported,
@@ -166,14 +169,16 @@ export default function ProfileScreen() {
     language,
     themeMode,
     syncMode,
+    realtimeSync,
     notificationSoundMode,
     setLanguage,
     setThemeMode,
     setSyncMode,
+    setRealtimeSync,
     setNotificationSoundMode,
     settingsLoading,
   } = useSettings();
-  const { isSyncing, pendingOperations, triggerSync } = useOfflineSyncStatus();
+  const { isSyncing, pendingOperations, realtimeConnected, triggerSync } = useOfflineSyncStatus();
   const { colors, cardShadow } = useAppTheme();
   const { t, locale } = useI18n();
   const [loading, setLoading] = useState(true);
@@ -181,6 +186,7 @@ export default function ProfileScreen() {
   const [doneTasks, setDoneTasks] = useState(0);
   const [streakDays, setStreakDays] = useState(0);
   const [focusWeekSessions, setFocusWeekSessions] = useState(0);
+  const [gradeOverview, setGradeOverview] = useState<GradeOverview | null>(null);
   const [statsError, setStatsError] = useState('');
   const [settingsModalVisible, setSettingsModalVisible] = useState(false);
   const [signOutModalVisible, setSignOutModalVisible] = useState(false);
@@ -254,6 +260,8 @@ export default function ProfileScreen() {
         getCachedTasks(user.id),
       ]);
       const cachedFocusStats = await getFocusStats(user.id);
+      const [courses, assessments] = await Promise.all([getCachedCourses(user.id), getCachedAssessments(user.id)]);
+      setGradeOverview(buildGradeOverview(courses, assessments));
       setTotalTasks(cachedStats.total);
       setDoneTasks(cachedStats.done);
       setFocusWeekSessions(cachedFocusStats.weekSessions);
@@ -544,6 +552,53 @@ export default function ProfileScreen() {
                 </View>
               </View>
             </View>
+            <TouchableOpacity style={themedStyles.gradesRow} onPress={() => router.push('/grades')}>
+              <View style={themedStyles.gradesMain}>
+                <Text style={themedStyles.metaTitle}>{t('profile.gradesTitle')}</Text>
+                {gradeOverview && gradeOverview.average !== null ? (
+                  <View style={themedStyles.gradesValueRow}>
+                    <Text style={themedStyles.gradesValue}>
+                      {`${formatGrade(gradeOverview.average, locale)}/${GRADE_SCALE}`}
+                    </Text>
+                    {gradeOverview.trend !== null && Math.abs(gradeOverview.trend) >= 0.01 ? (
+                      <View style={themedStyles.gradesTrend}>
+                        <Ionicons
+                          name={gradeOverview.trend > 0 ? 'trending-up' : 'trending-down'}
+                          size={14}
+                          color={gradeOverview.trend > 0 ? colors.success : colors.danger}
+                        />
+                        <Text
+                          style={[
+                            themedStyles.gradesTrendText,
+                            { color: gradeOverview.trend > 0 ? colors.success : colors.danger },
+                          ]}>
+                          {t('profile.gradesTrend', {
+                            delta: `${gradeOverview.trend > 0 ? '+' : ''}${formatGrade(gradeOverview.trend, locale)}`,
+                          })}
+                        </Text>
+                      </View>
+                    ) : null}
+                  </View>
+                ) : (
+                  <Text style={themedStyles.gradesEmpty}>{t('profile.gradesEmpty')}</Text>
+                )}
+              </View>
+              <View style={themedStyles.gradesBars}>
+                {(gradeOverview?.recent ?? []).map((item) => (
+                  <View
+                    key={item.id}
+                    style={[
+                      themedStyles.gradesBar,
+                      {
+                        height: Math.max(3, Math.round(item.ratio * 28)),
+                        backgroundColor: item.color || colors.primary,
+                      },
+                    ]}
+                  />
+                ))}
+              </View>
+              <Ionicons name="chevron-forward" size={16} color={colors.textMuted} />
+            </TouchableOpacity>
             <View style={themedStyles.metaRow}>
               <Text style={themedStyles.metaTitle}>{t('profile.registrationDate')}</Text>
               <Text style={themedStyles.metaValue}>
@@ -697,6 +752,27 @@ export default function ProfileScreen() {
                 />
               </View>
 
+              {syncMode === 'auto' ? (
+                <View style={themedStyles.syncRow}>
+                  <View style={themedStyles.syncTextWrap}>
+                    <Text style={themedStyles.syncLabel}>{t('profile.realtimeSyncLabel')}</Text>
+                    <Text style={themedStyles.syncHint}>
+                      {!realtimeSync
+                        ? t('profile.realtimeSyncDisabled')
+                        : realtimeConnected
+                          ? t('profile.realtimeSyncConnected')
+                          : t('profile.realtimeSyncConnecting')}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={realtimeSync}
+                    onValueChange={setRealtimeSync}
+                    trackColor={{ false: colors.border, true: colors.primarySoft }}
+                    thumbColor={realtimeSync ? colors.primary : '#FFFFFF'}
+                  />
+                </View>
+              ) : null}
+
               {syncMode === 'manual' ? (
                 <TouchableOpacity
                   style={[themedStyles.syncNowBtn, isSyncing && themedStyles.syncNowBtnDisabled]}
@@ -710,6 +786,17 @@ export default function ProfileScreen() {
                 </TouchableOpacity>
               ) : null}
 
+              <View style={themedStyles.syncLinksRow}>
+                <TouchableOpacity style={themedStyles.syncIssuesBtn} onPress={() => router.push('/sync-issues')}>
+                  <Ionicons name="warning-outline" size={14} color={colors.text} />
+                  <Text style={themedStyles.syncIssuesBtnText}>{t('profile.syncIssues')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={themedStyles.syncIssuesBtn} onPress={() => router.push('/sync-health')}>
+                  <Ionicons name="pulse-outline" size={14} color={colors.text} />
+                  <Text style={themedStyles.syncIssuesBtnText}>{t('profile.syncHealth')}</Text>
+                </TouchableOpacity>
+              </View>
+
               <Text style={themedStyles.settingsLabel}>{t('profile.notificationSoundTitle')}</Text>
               <Text style={themedStyles.syncHint}>{t('profile.notificationSoundHint')}</Text>
               <View style={themedStyles.settingRow}>
@@ -1146,6 +1233,52 @@ const createStyles = (
       fontSize: 13,
       fontWeight: '800',
     },
+    gradesRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+      paddingVertical: 8,
+      marginBottom: 8,
+    },
+    gradesMain: {
+      flex: 1,
+      gap: 2,
+    },
+    gradesValueRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    gradesValue: {
+      color: colors.primary,
+      fontWeight: '800',
+      fontSize: 18,
+    },
+    gradesTrend: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 2,
+    },
+    gradesTrendText: {
+      fontSize: 11,
+      fontWeight: '700',
+    },
+    gradesEmpty: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    gradesBars: {
+      flexDirection: 'row',
+      alignItems: 'flex-end',
+      gap: 3,
+      height: 28,
+    },
+    gradesBar: {
+      width: 6,
+      borderRadius: 3,
+    },
     metaRow: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -1497,6 +1630,29 @@ const createStyles = (
       fontWeight: '700',
       fontSize: 13,
     },
+    syncLinksRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    syncIssuesBtn: {
+      alignSelf: 'flex-start',
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      paddingHorizontal: 11,
+      paddingVertical: 7,
+      marginTop: 6,
+    },
+    syncIssuesBtnText: {
+      color: colors.text,
+      fontWeight: '700',
+      fontSize: 12,
+    },
     badgeSectionTitle: {
       color: colors.text,
       fontWeight: '800',
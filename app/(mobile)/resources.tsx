@@ -5,18 +5,21 @@ import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { Alert, Linking, RefreshControl, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import Swipeable from 'react-native-gesture-handler/Swipeable';
 
+import { CourseFilterRow } from '@/components/ui/course-chips';
 import { ResourceFileIcon } from '@/components/ui/resource-file-icon';
 import { StateBlock } from '@/components/ui/state-block';
 import { TabSwipeShell } from '@/components/ui/tab-swipe-shell';
 import { useAppTheme } from '@/hooks/use-app-theme';
 import { useI18n } from '@/hooks/use-i18n';
+import { ALL_COURSES, getCachedCourses, indexCoursesById, matchesCourseFilter } from '@/lib/courses';
 import { getErrorMessage } from '@/lib/errors';
 import { formatDateTimeLabel } from '@/lib/format';
 import { getResourceExternalUrl } from '@/lib/resource-open';
 import { deleteResource, fetchResources, getCachedResources } from '@/lib/student-api';
 import { getUserPreferences, toggleFavoriteResource } from '@/lib/user-preferences';
 import { useAuth } from '@/providers/auth-provider';
-import type { Resource } from '@/types/supabase';
+import { useOfflineSyncStatus } from '@/providers/offline-sync-provider';
+import type { Course, Resource } from '@/types/supabase';
 
 type ResourceFilter = 'tout' | 'note' | 'link' | 'file';
 type ResourceSortMode = 'recent' | 'oldest' | 'type' | 'favorites';
@@ -31,12 +34,15 @@ function SwipeAction({ label, color }: { label: string; color: string }) {
 
 export default function ResourcesScreen() {
   const { user } = useAuth();
+  const { dataVersion } = useOfflineSyncStatus();
   const { colors, cardShadow } = useAppTheme();
   const { t, locale } = useI18n();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [filter, setFilter] = useState<ResourceFilter>('tout');
   const [sortMode, setSortMode] = useState<ResourceSortMode>('recent');
+  const [courseFilter, setCourseFilter] = useState<string>(ALL_COURSES);
+  const [courses, setCourses] = useState<Course[]>([]);
   const [query, setQuery] = useState('');
   const [resources, setResources] = useState<Resource[]>([]);
   const [favoriteResourceIds, setFavoriteResourceIds] = useState<string[]>([]);
@@ -74,6 +80,7 @@ export default function ResourcesScreen() {
         setLoading(true);
       }
       setError('');
+      setCourses(await getCachedCourses(user.id));
 
       const cached = await getCachedResources(user.id);
       hasCachedData = cached.length > 0;
@@ -105,6 +112,11 @@ export default function ResourcesScreen() {
     setFavoriteResourceIds(preferences.favoriteResourceIds);
   }, [user?.id]);
 
+  useEffect(() => {
+    if (dataVersion === 0) return;
+    void loadResources();
+  }, [dataVersion, loadResources]);
+
   useFocusEffect(
     useCallback(() => {
       closeAllSwipeables();
@@ -127,12 +139,15 @@ export default function ResourcesScreen() {
     setSelectedResourceIds((prev) => prev.filter((resourceId) => resources.some((resource) => resource.id === resourceId)));
   }, [resources]);
 
+  const coursesById = useMemo(() => indexCoursesById(courses), [courses]);
+
   const filtered = useMemo(() => {
     let data = [...resources];
 
     if (filter !== 'tout') {
       data = data.filter((resource) => resource.type === filter);
     }
+    data = data.filter((resource) => matchesCourseFilter(resource.course_id, courseFilter, coursesById));
 
     if (query.trim()) {
       const normalized = query.toLowerCase();
@@ -157,7 +172,7 @@ export default function ResourcesScreen() {
 
     data.sort((a, b) => (b.created_at ?? '').localeCompare(a.created_at ?? ''));
     return data;
-  }, [favoriteResourceIds, filter, query, resources, sortMode]);
+  }, [courseFilter, coursesById, favoriteResourceIds, filter, query, resources, sortMode]);
 
   const effectiveState = loading ? 'loading' : error ? 'error' : resources.length === 0 ? 'empty' : 'auto';
   const isSelectionMode = selectedResourceIds.length > 0;
@@ -305,9 +320,17 @@ export default function ResourcesScreen() {
       <View style={styles.stickyHeader}>
         <View style={styles.header}>
           <Text style={styles.title}>{t('resources.title')}</Text>
-          <TouchableOpacity style={styles.addBtn} onPress={() => router.push('/resource-editor')}>
-            <Ionicons name="add" size={22} color="#FFFFFF" />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.viewBtn}
+              accessibilityLabel={t('resources.openFlashcards')}
+              onPress={() => router.push('/flashcards')}>
+              <Ionicons name="albums-outline" size={20} color={colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.addBtn} onPress={() => router.push('/resource-editor')}>
+              <Ionicons name="add" size={22} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
         </View>
 
         <View style={styles.searchRow}>
@@ -332,6 +355,8 @@ export default function ResourcesScreen() {
           ))}
         </ScrollView>
 
+        <CourseFilterRow courses={courses} value={courseFilter} onChange={setCourseFilter} />
+
         <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filtersRow}>
           {sortLabels.map((item) => (
             <TouchableOpacity
@@ -418,6 +443,7 @@ export default function ResourcesScreen() {
               filtered.map((resource) => {
                 const selected = selectedResourceIds.includes(resource.id);
                 const linkUrl = resource.type === 'link' ? getResourceExternalUrl(resource) : null;
+                const course = resource.course_id ? coursesById.get(resource.course_id) : undefined;
                 const favorite = favoriteResourceIds.includes(resource.id);
 
                 const card = (
@@ -480,6 +506,11 @@ export default function ResourcesScreen() {
                         </TouchableOpacity>
                       ) : null}
                       <View style={styles.tagsRow}>
+                        {course ? (
+                          <View style={[styles.tag, styles.courseTag, { borderColor: course.color }]}>
+                            <Text style={[styles.tagText, { color: course.color }]}>{course.name}</Text>
+                          </View>
+                        ) : null}
                         {(resource.tags ?? []).map((tag) => (
                           <View key={tag} style={styles.tag}>
                             <Text style={styles.tagText}>#{tag}</Text>
@@ -573,6 +604,21 @@ const createStyles = (
       fontWeight: '800',
       color: colors.text,
     },
+    headerActions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    viewBtn: {
+      width: 42,
+      height: 42,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
     addBtn: {
       width: 42,
       height: 42,
@@ -766,6 +812,10 @@ const createStyles = (
       fontSize: 11,
       fontWeight: '600',
     },
+    courseTag: {
+      borderWidth: 1,
+      backgroundColor: colors.surface,
+    },
     undoBar: {
       position: 'absolute',
       left: 14,
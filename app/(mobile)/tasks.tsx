@@ -5,16 +5,25 @@ import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { Alert, RefreshControl, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import Swipeable from 'react-native-gesture-handler/Swipeable';
 
+import { CourseFilterRow } from '@/components/ui/course-chips';
 import { StateBlock } from '@/components/ui/state-block';
 import { TabSwipeShell } from '@/components/ui/tab-swipe-shell';
+import { TaskBoard } from '@/components/ui/task-board';
 import { useAppTheme } from '@/hooks/use-app-theme';
 import { useI18n } from '@/hooks/use-i18n';
+import { loadAppFlags, saveAppFlags, type TasksView } from '@/lib/app-flags';
+import { ALL_COURSES, getCachedCourses, indexCoursesById, matchesCourseFilter } from '@/lib/courses';
 import { getErrorMessage } from '@/lib/errors';
-import { formatDateLabel, formatDateTimeLabel, toIsoDate } from '@/lib/format';
+import { formatDateTimeLabel, toIsoDate } from '@/lib/format';
 import { deleteTask, fetchTasks, getCachedTasks, updateTask } from '@/lib/student-api';
+import { getBlockingTasks, indexTasksById } from '@/lib/task-dependencies';
+import { describeRecurrence, parseRecurrenceRule } from '@/lib/task-recurrence';
+import { getSubtaskProgress } from '@/lib/task-subtasks';
+import { compareTasksByDue, formatTaskDueLabel } from '@/lib/task-timing';
 import { getUserPreferences, toggleFavoriteTask } from '@/lib/user-preferences';
 import { useAuth } from '@/providers/auth-provider';
-import type { Task } from '@/types/supabase';
+import { useOfflineSyncStatus } from '@/providers/offline-sync-provider';
+import type { Course, Task } from '@/types/supabase';
 
 type Filter = 'toutes' | 'a-faire' | 'archivees';
 type WindowFilter = 'toutes-dates' | 'aujourdhui' | 'semaine';
@@ -42,6 +51,7 @@ function isInThisWeek(dueDate: string | null) {
 
 export default function TasksScreen() {
   const { user } = useAuth();
+  const { dataVersion } = useOfflineSyncStatus();
   const { colors, cardShadow } = useAppTheme();
   const { t, locale } = useI18n();
   const [loading, setLoading] = useState(true);
@@ -49,7 +59,11 @@ export default function TasksScreen() {
   const [filter, setFilter] = useState<Filter>('toutes');
   const [windowFilter, setWindowFilter] = useState<WindowFilter>('toutes-dates');
   const [sortMode, setSortMode] = useState<SortMode>('due');
+  const [courseFilter, setCourseFilter] = useState<string>(ALL_COURSES);
+  const [view, setView] = useState<TasksView>('list');
+  const [dragging, setDragging] = useState(false);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
   const [favoriteTaskIds, setFavoriteTaskIds] = useState<string[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([]);
@@ -93,6 +107,7 @@ export default function TasksScreen() {
         setLoading(true);
       }
       setError('');
+      setCourses(await getCachedCourses(user.id));
 
       const cached = await getCachedTasks(user.id);
       hasCachedData = cached.length > 0;
@@ -124,6 +139,15 @@ export default function TasksScreen() {
     setFavoriteTaskIds(preferences.favoriteTaskIds);
   }, [user?.id]);
 
+  useEffect(() => {
+    void loadAppFlags().then((flags) => setView(flags.tasksView));
+  }, []);
+
+  useEffect(() => {
+    if (dataVersion === 0) return;
+    void loadTasks();
+  }, [dataVersion, loadTasks]);
+
   useFocusEffect(
     useCallback(() => {
       closeAllSwipeables();
@@ -146,11 +170,14 @@ export default function TasksScreen() {
     setSelectedTaskIds((prev) => prev.filter((taskId) => tasks.some((task) => task.id === taskId)));
   }, [tasks]);
 
-  const filteredTasks = useMemo(() => {
+  const tasksById = useMemo(() => indexTasksById(tasks), [tasks]);
+  const coursesById = useMemo(() => indexCoursesById(courses), [courses]);
+
+  // The board shows every status in its own column, so the status filter only applies to the list.
+  const sortedTasks = useMemo(() => {
     let data = [...tasks];
 
-    if (filter === 'a-faire') data = data.filter((task) => task.status !== 'done');
-    if (filter === 'archivees') data = data.filter((task) => task.status === 'done');
+    data = data.filter((task) => matchesCourseFilter(task.course_id, courseFilter, coursesById));
 
     if (windowFilter === 'aujourdhui') {
       data = data.filter((task) => task.due_date === toIsoDate());
@@ -173,22 +200,32 @@ export default function TasksScreen() {
 
     if (sortMode === 'favorites') {
       data = data.filter((task) => favoriteTaskIds.includes(task.id));
-      data.sort((a, b) => {
-        const aDate = a.due_date ?? '9999-12-31';
-        const bDate = b.due_date ?? '9999-12-31';
-        return aDate.localeCompare(bDate);
-      });
+      data.sort(compareTasksByDue);
       return data;
     }
 
     data.sort((a, b) => {
       if (!a.due_date && !b.due_date) return (b.created_at ?? '').localeCompare(a.created_at ?? '');
-      if (!a.due_date) return 1;
-      if (!b.due_date) return -1;
-      return a.due_date.localeCompare(b.due_date);
+      return compareTasksByDue(a, b);
     });
     return data;
-  }, [favoriteTaskIds, filter, sortMode, tasks, windowFilter]);
+  }, [courseFilter, coursesById, favoriteTaskIds, sortMode, tasks, windowFilter]);
+
+  const filteredTasks = useMemo(() => {
+    if (filter === 'a-faire') return sortedTasks.filter((task) => task.status !== 'done');
+    if (filter === 'archivees') return sortedTasks.filter((task) => task.status === 'done');
+    return sortedTasks;
+  }, [filter, sortedTasks]);
+
+  const blockedTaskIds = useMemo(
+    () =>
+      new Set(
+        tasks
+          .filter((task) => task.status !== 'done' && getBlockingTasks(task, tasksById).length > 0)
+          .map((task) => task.id)
+      ),
+    [tasks, tasksById]
+  );
 
   const effectiveState = loading ? 'loading' : error ? 'error' : tasks.length === 0 ? 'empty' : 'auto';
   const isSelectionMode = selectedTaskIds.length > 0;
@@ -205,23 +242,33 @@ export default function TasksScreen() {
     setSelectedTaskIds([]);
   };
 
-  const toggleTask = async (task: Task) => {
+  const moveTask = async (task: Task, status: Task['status']) => {
     if (!user?.id) return;
 
-    const nextStatus = task.status === 'done' ? 'todo' : 'done';
-    const completedAt = nextStatus === 'done' ? new Date().toISOString() : null;
-    setTasks((prev) =>
-      prev.map((row) => (row.id === task.id ? { ...row, status: nextStatus, completed_at: completedAt } : row))
-    );
+    const completedAt = status === 'done' ? new Date().toISOString() : null;
+    setTasks((prev) => prev.map((row) => (row.id === task.id ? { ...row, status, completed_at: completedAt } : row)));
 
     try {
-      await updateTask(task.id, user.id, { status: nextStatus, completed_at: completedAt });
+      await updateTask(task.id, user.id, { status, completed_at: completedAt });
+      if (status === 'done' && task.recurrence) {
+        // Completing a recurring task creates its next occurrence locally.
+        setTasks(await getCachedTasks(user.id));
+      }
     } catch {
       setTasks((prev) => prev.map((row) => (row.id === task.id ? task : row)));
       Alert.alert(t('common.networkErrorTitle'), t('tasks.updateError'));
     }
   };
 
+  const toggleTask = (task: Task) => moveTask(task, task.status === 'done' ? 'todo' : 'done');
+
+  const changeView = (next: TasksView) => {
+    setView(next);
+    clearSelection();
+    closeAllSwipeables();
+    void saveAppFlags({ tasksView: next });
+  };
+
   const removeTasks = async (taskIds: string[]) => {
     if (!user?.id) return;
     if (taskIds.length === 0) return;
@@ -348,6 +395,7 @@ export default function TasksScreen() {
       <ScrollView
         contentContainerStyle={themedStyles.content}
         showsVerticalScrollIndicator={false}
+        scrollEnabled={!dragging}
         onScrollBeginDrag={() => closeAllSwipeables()}
         refreshControl={<RefreshControl refreshing={refreshing} onRefresh={() => void onRefresh()} tintColor={colors.primary} />}>
         <View style={themedStyles.header}>
@@ -355,22 +403,40 @@ export default function TasksScreen() {
             <Text style={themedStyles.title}>{t('tasks.title')}</Text>
             <Text style={themedStyles.subtitle}>{t('tasks.subtitle')}</Text>
           </View>
-          <TouchableOpacity style={themedStyles.addBtn} onPress={() => router.push('/task-editor')}>
-            <Ionicons name="add" size={22} color="#FFFFFF" />
-          </TouchableOpacity>
-        </View>
-
-        <View style={themedStyles.filterRow}>
-          {filterLabels.map((item) => (
+          <View style={themedStyles.headerActions}>
             <TouchableOpacity
-              key={item.key}
-              style={[themedStyles.filterChip, filter === item.key && themedStyles.filterChipActive]}
-              onPress={() => setFilter(item.key)}>
-              <Text style={[themedStyles.filterText, filter === item.key && themedStyles.filterTextActive]}>{item.label}</Text>
+              style={themedStyles.viewBtn}
+              accessibilityLabel={t('tasks.openCalendar')}
+              onPress={() => router.push('/calendar')}>
+              <Ionicons name="calendar-outline" size={20} color={colors.primary} />
             </TouchableOpacity>
-          ))}
+            <TouchableOpacity
+              style={themedStyles.viewBtn}
+              accessibilityLabel={view === 'list' ? t('tasks.viewBoard') : t('tasks.viewList')}
+              onPress={() => changeView(view === 'list' ? 'board' : 'list')}>
+              <Ionicons name={view === 'list' ? 'grid-outline' : 'list-outline'} size={20} color={colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity style={themedStyles.addBtn} onPress={() => router.push('/task-editor')}>
+              <Ionicons name="add" size={22} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
         </View>
 
+        {view === 'list' ? (
+          <View style={themedStyles.filterRow}>
+            {filterLabels.map((item) => (
+              <TouchableOpacity
+                key={item.key}
+                style={[themedStyles.filterChip, filter === item.key && themedStyles.filterChipActive]}
+                onPress={() => setFilter(item.key)}>
+                <Text style={[themedStyles.filterText, filter === item.key && themedStyles.filterTextActive]}>{item.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ) : null}
+
+        <CourseFilterRow courses={courses} value={courseFilter} onChange={setCourseFilter} />
+
         <View style={themedStyles.windowRow}>
           {windowLabels.map((item) => (
             <TouchableOpacity
@@ -395,7 +461,9 @@ export default function TasksScreen() {
 
         <View style={themedStyles.noticeBox}>
           <Ionicons name="information-circle-outline" size={16} color={colors.primary} />
-          <Text style={themedStyles.noticeText}>{t('tasks.archiveNotice')}</Text>
+          <Text style={themedStyles.noticeText}>
+            {view === 'board' ? t('tasks.board.hint') : t('tasks.archiveNotice')}
+          </Text>
         </View>
 
         {isSelectionMode ? (
@@ -457,7 +525,21 @@ export default function TasksScreen() {
           />
         ) : null}
 
-        {effectiveState === 'auto' ? (
+        {effectiveState === 'auto' && view === 'board' ? (
+          <TaskBoard
+            tasks={sortedTasks}
+            coursesById={coursesById}
+            favoriteTaskIds={favoriteTaskIds}
+            blockedTaskIds={blockedTaskIds}
+            priorityStyle={priorityStyle}
+            onMoveTask={(task, status) => void moveTask(task, status)}
+            onOpenTask={(task) => router.push(`/task/${task.id}`)}
+            onToggleFavorite={(taskId) => void onToggleFavoriteTask(taskId)}
+            onDragChange={setDragging}
+          />
+        ) : null}
+
+        {effectiveState === 'auto' && view === 'list' ? (
           <View style={themedStyles.stackGap}>
             {filteredTasks.length === 0 ? (
               <StateBlock
@@ -472,6 +554,10 @@ export default function TasksScreen() {
                 const selected = selectedTaskIds.includes(task.id);
                 const isMarked = isSelectionMode ? selected : done;
                 const favorite = favoriteTaskIds.includes(task.id);
+                const progress = getSubtaskProgress(task);
+                const recurrenceRule = parseRecurrenceRule(task.recurrence?.rule);
+                const blockers = done ? [] : getBlockingTasks(task, tasksById);
+                const course = task.course_id ? coursesById.get(task.course_id) : undefined;
 
                 const card = (
                   <TouchableOpacity
@@ -500,7 +586,48 @@ export default function TasksScreen() {
 
                     <View style={themedStyles.cardMain}>
                       <Text style={[themedStyles.taskTitle, done && themedStyles.taskTitleDone]}>{task.title}</Text>
-                      <Text style={themedStyles.meta}>{formatDateLabel(task.due_date, locale, t('common.noDate'))}</Text>
+                      {course ? (
+                        <View style={themedStyles.recurrenceRow}>
+                          <View style={[themedStyles.courseDot, { backgroundColor: course.color }]} />
+                          <Text style={themedStyles.courseText} numberOfLines={1}>
+                            {course.name}
+                          </Text>
+                        </View>
+                      ) : null}
+                      <Text style={themedStyles.meta}>{formatTaskDueLabel(task, locale, t)}</Text>
+                      {blockers.length > 0 ? (
+                        <View style={themedStyles.recurrenceRow}>
+                          <Ionicons name="lock-closed" size={12} color={colors.warning} />
+                          <Text style={themedStyles.blockedText} numberOfLines={1}>
+                            {blockers.length > 1
+                              ? t('tasks.blockedByMany', { title: blockers[0].title, count: blockers.length - 1 })
+                              : t('tasks.blockedBy', { title: blockers[0].title })}
+                          </Text>
+                        </View>
+                      ) : null}
+                      {recurrenceRule ? (
+                        <View style={themedStyles.recurrenceRow}>
+                          <Ionicons name="repeat" size={12} color={colors.primary} />
+                          <Text style={themedStyles.recurrenceText} numberOfLines={1}>
+                            {describeRecurrence(recurrenceRule, t, locale)}
+                          </Text>
+                        </View>
+                      ) : null}
+                      {progress.total > 0 ? (
+                        <View style={themedStyles.subtaskProgressRow}>
+                          <View style={themedStyles.subtaskProgressTrack}>
+                            <View
+                              style={[
+                                themedStyles.subtaskProgressFill,
+                                { width: `${Math.round((progress.done / progress.total) * 100)}%` },
+                              ]}
+                            />
+                          </View>
+                          <Text style={themedStyles.subtaskProgressText}>
+                            {t('tasks.subtaskProgress', { done: progress.done, total: progress.total })}
+                          </Text>
+                        </View>
+                      ) : null}
                       <Text style={themedStyles.metaSecondary}>
                         {t('tasks.createdAt', {
                           date: formatDateTimeLabel(task.created_at, locale, t('common.noDate')),
@@ -605,6 +732,21 @@ const createStyles = (
       marginTop: 4,
       color: colors.textMuted,
     },
+    headerActions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    viewBtn: {
+      width: 42,
+      height: 42,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
     addBtn: {
       width: 42,
       height: 42,
@@ -794,6 +936,58 @@ const createStyles = (
       color: colors.textMuted,
       marginTop: 2,
     },
+    recurrenceRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      marginTop: 3,
+    },
+    blockedText: {
+      flex: 1,
+      fontSize: 11,
+      fontWeight: '700',
+      color: colors.warning,
+    },
+    recurrenceText: {
+      flex: 1,
+      fontSize: 11,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+    courseDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+    },
+    courseText: {
+      flex: 1,
+      fontSize: 11,
+      fontWeight: '700',
+      color: colors.textMuted,
+    },
+    subtaskProgressRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginTop: 5,
+    },
+    subtaskProgressTrack: {
+      flex: 1,
+      height: 4,
+      borderRadius: 999,
+      backgroundColor: colors.border,
+      overflow: 'hidden',
+    },
+    subtaskProgressFill: {
+      height: 4,
+      borderRadius: 999,
+      backgroundColor: colors.success,
+    },
+    subtaskProgressText: {
+      fontSize: 11,
+      fontWeight: '700',
+      color: colors.textMuted,
+    },
     priorityBadge: {
       borderRadius: 999,
       paddingHorizontal: 10,
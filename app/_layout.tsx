@@ -75,6 +75,14 @@ function RootNavigator() {
         <Stack.Screen name="search" />
         <Stack.Screen name="ai-toolbox" />
         <Stack.Screen name="schedule-planner" />
+        <Stack.Screen name="sync-issues" />
+        <Stack.Screen name="sync-health" />
+        <Stack.Screen name="courses" />
+        <Stack.Screen name="grades" />
+        <Stack.Screen name="timetable" />
+        <Stack.Screen name="exams" />
+        <Stack.Screen name="calendar" />
+        <Stack.Screen name="flashcards" />
       </Stack>
       <StatusBar style={isDark ? 'light' : 'dark'} />
     </ThemeProvider>
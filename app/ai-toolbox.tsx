@@ -18,12 +18,17 @@ import { useAppTheme } from '@/hooks/use-app-theme';
 import { useI18n } from '@/hooks/use-i18n';
 import { runAiToolbox, type AiFeatureId } from '@/lib/ai-toolbox';
 import { getErrorMessage } from '@/lib/errors';
+import { createFlashcards, parseFlashcards } from '@/lib/flashcards';
 import {
+  createTask,
   fetchResources,
   fetchTasks,
   getCachedResources,
+  getCachedTaskById,
   getCachedTasks,
+  updateTask,
 } from '@/lib/student-api';
+import { createSubtask, parseBreakdownSteps } from '@/lib/task-subtasks';
 import { useAuth } from '@/providers/auth-provider';
 
 type FeatureOption = {
@@ -55,7 +60,13 @@ function isAiFeatureId(value: string): value is AiFeatureId {
 
 export default function AiToolboxScreen() {
   const { user } = useAuth();
-  const params = useLocalSearchParams<{ feature?: string; seed?: string; autorun?: string }>();
+  const params = useLocalSearchParams<{
+    feature?: string;
+    seed?: string;
+    autorun?: string;
+    taskId?: string;
+    resourceId?: string;
+  }>();
   const isOnline = useConnectivity();
   const { colors } = useAppTheme();
   const { t, locale } = useI18n();
@@ -71,6 +82,16 @@ export default function AiToolboxScreen() {
   const [tasks, setTasks] = useState<Awaited<ReturnType<typeof getCachedTasks>>>([]);
   const [resources, setResources] = useState<Awaited<ReturnType<typeof getCachedResources>>>([]);
   const [autoRan, setAutoRan] = useState(false);
+  const [applyingBreakdown, setApplyingBreakdown] = useState(false);
+  const [savingFlashcards, setSavingFlashcards] = useState(false);
+  const breakdownSteps = useMemo(
+    () => (selected === 'task_breakdown' ? parseBreakdownSteps(output) : []),
+    [output, selected]
+  );
+  const flashcardDrafts = useMemo(
+    () => (selected === 'quiz_generator' ? parseFlashcards(output) : []),
+    [output, selected]
+  );
 
   useEffect(() => {
     const feature = params.feature?.trim();
@@ -155,6 +176,61 @@ export default function AiToolboxScreen() {
     void runFeature();
   }, [autoRan, contextLoading, loading, params.autorun, runFeature, user?.id]);
 
+  // Appends to the task the breakdown was opened from, otherwise creates a task named after the objective.
+  const applyBreakdown = async () => {
+    if (!user?.id || applyingBreakdown) return;
+    if (breakdownSteps.length === 0) {
+      Alert.alert(t('aiToolbox.applyBreakdown'), t('aiToolbox.applyBreakdownEmpty'));
+      return;
+    }
+
+    setApplyingBreakdown(true);
+    try {
+      const taskId = params.taskId?.trim();
+      const target = taskId ? await getCachedTaskById(user.id, taskId) : null;
+      if (target) {
+        await updateTask(target.id, user.id, {
+          subtasks: [...target.subtasks, ...breakdownSteps.map(createSubtask)],
+        });
+        Alert.alert(t('aiToolbox.applyBreakdown'), t('aiToolbox.applyBreakdownSuccess', { count: breakdownSteps.length }));
+        router.back();
+        return;
+      }
+
+      const title = input.split('\n')[0]?.trim().slice(0, 120) || t('aiToolbox.featureTaskBreakdown');
+      const created = await createTask({
+        userId: user.id,
+        title,
+        priority: 'medium',
+        subtasks: breakdownSteps,
+      });
+      router.push(`/task/${created.id}`);
+    } catch (error) {
+      Alert.alert(t('common.genericError'), getErrorMessage(error, t('aiToolbox.applyBreakdownError')));
+    } finally {
+      setApplyingBreakdown(false);
+    }
+  };
+
+  // Quiz cards join a deck named after the source resource, or after the first line of the request.
+  const saveFlashcards = async () => {
+    if (!user?.id || savingFlashcards || flashcardDrafts.length === 0) return;
+
+    setSavingFlashcards(true);
+    try {
+      const resourceId = params.resourceId?.trim() || null;
+      const source = resourceId ? resources.find((resource) => resource.id === resourceId) : undefined;
+      const deck =
+        (source?.title?.trim() || input.split('\n')[0]?.trim() || t('aiToolbox.flashcardsDefaultDeck')).slice(0, 80);
+      await createFlashcards(user.id, { deck, resourceId: source ? source.id : null, cards: flashcardDrafts });
+      router.push(`/flashcards?review=${encodeURIComponent(deck)}`);
+    } catch (error) {
+      Alert.alert(t('common.genericError'), getErrorMessage(error, t('aiToolbox.saveFlashcardsError')));
+    } finally {
+      setSavingFlashcards(false);
+    }
+  };
+
   const copyOutput = async () => {
     if (!output.trim()) return;
     try {
@@ -252,6 +328,45 @@ export default function AiToolboxScreen() {
           <Ionicons name="copy-outline" size={16} color={colors.text} />
           <Text style={styles.copyButtonText}>{t('aiToolbox.copy')}</Text>
         </TouchableOpacity>
+
+        {breakdownSteps.length > 0 ? (
+          <TouchableOpacity
+            style={[styles.copyButton, applyingBreakdown && styles.disabled]}
+            disabled={applyingBreakdown}
+            onPress={() => void applyBreakdown()}>
+            {applyingBreakdown ? (
+              <ActivityIndicator size="small" color={colors.text} />
+            ) : (
+              <Ionicons name="list-outline" size={16} color={colors.text} />
+            )}
+            <Text style={styles.copyButtonText}>
+              {`${t('aiToolbox.applyBreakdown')} (${breakdownSteps.length})`}
+            </Text>
+          </TouchableOpacity>
+        ) : null}
+
+        {flashcardDrafts.length > 0 ? (
+          <TouchableOpacity
+            style={[styles.copyButton, savingFlashcards && styles.disabled]}
+            disabled={savingFlashcards}
+            onPress={() => void saveFlashcards()}>
+            {savingFlashcards ? (
+              <ActivityIndicator size="small" color={colors.text} />
+            ) : (
+              <Ionicons name="albums-outline" size={16} color={colors.text} />
+            )}
+            <Text style={styles.copyButtonText}>
+              {t('aiToolbox.saveFlashcards', { count: flashcardDrafts.length })}
+            </Text>
+          </TouchableOpacity>
+        ) : null}
+
+        {selected === 'exam_mode' ? (
+          <TouchableOpacity style={styles.copyButton} onPress={() => router.push('/exams')}>
+            <Ionicons name="school-outline" size={16} color={colors.text} />
+            <Text style={styles.copyButtonText}>{t('aiToolbox.openExams')}</Text>
+          </TouchableOpacity>
+        ) : null}
       </ScrollView>
     </View>
   );
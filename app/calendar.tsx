@@ -0,0 +1,651 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TouchableOpacity, View, type PanResponderGestureState } from 'react-native';
+
+import { DraggableCard } from '@/components/ui/draggable-card';
+import { useAppTheme } from '@/hooks/use-app-theme';
+import { useI18n } from '@/hooks/use-i18n';
+import {
+  CALENDAR_MODES,
+  buildCalendarItems,
+  getAgendaDates,
+  getMonthGridDates,
+  getPinnedPlan,
+  getWeekDates,
+  isSameCalendarMonth,
+  shiftCalendarDate,
+  shiftCalendarMonth,
+  type CalendarItem,
+  type CalendarMode,
+} from '@/lib/calendar';
+import { getCachedCourses, indexCoursesById } from '@/lib/courses';
+import { getCachedExams } from '@/lib/exams';
+import { formatDateLabel, toIsoDate } from '@/lib/format';
+import { fetchAnnouncements, getCachedTasks, updateTask } from '@/lib/student-api';
+import { getCachedStudySchedulePlans, getStudySessionStatus } from '@/lib/study-schedule';
+import { buildDueAt, formatDueTime, getDueTimeInput } from '@/lib/task-timing';
+import { useAuth } from '@/providers/auth-provider';
+import { useOfflineSyncStatus } from '@/providers/offline-sync-provider';
+import type { StudyDayKey, StudySchedulePlan } from '@/types/study-schedule';
+import type { Announcement, Course, Exam, Task } from '@/types/supabase';
+
+const AGENDA_DAYS = 30;
+const MAX_CELL_DOTS = 3;
+const WEEKDAY_KEYS: StudyDayKey[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+type DropZone = { date: string; x: number; y: number; width: number; height: number };
+
+function findDropDate(zones: DropZone[], gesture: PanResponderGestureState): string | null {
+  const zone = zones.find(
+    (item) =>
+      gesture.moveX >= item.x &&
+      gesture.moveX <= item.x + item.width &&
+      gesture.moveY >= item.y &&
+      gesture.moveY <= item.y + item.height
+  );
+  return zone?.date ?? null;
+}
+
+export default function CalendarScreen() {
+  const { colors } = useAppTheme();
+  const { t, locale } = useI18n();
+  const { user } = useAuth();
+  const { dataVersion } = useOfflineSyncStatus();
+  const today = toIsoDate();
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [selectedDate, setSelectedDate] = useState(today);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [plan, setPlan] = useState<StudySchedulePlan | null>(null);
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [exams, setExams] = useState<Exam[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const [hoverDate, setHoverDate] = useState<string | null>(null);
+  const zoneNodes = useRef(new Map<string, View>());
+  const zones = useRef<DropZone[]>([]);
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const coursesById = useMemo(() => indexCoursesById(courses), [courses]);
+
+  const load = useCallback(async () => {
+    if (!user?.id) return;
+    const [nextTasks, nextPlans, nextAnnouncements, nextExams, nextCourses] = await Promise.all([
+      getCachedTasks(user.id),
+      getCachedStudySchedulePlans(user.id),
+      fetchAnnouncements(),
+      getCachedExams(user.id),
+      getCachedCourses(user.id),
+    ]);
+    setTasks(nextTasks);
+    setPlan(getPinnedPlan(nextPlans));
+    setAnnouncements(nextAnnouncements);
+    setExams(nextExams);
+    setCourses(nextCourses);
+  }, [user?.id]);
+
+  useEffect(() => {
+    void load();
+  }, [dataVersion, load]);
+
+  const itemsByDate = useMemo(
+    () => buildCalendarItems({ tasks, plan, announcements, exams }),
+    [announcements, exams, plan, tasks]
+  );
+
+  const monthDates = useMemo(() => getMonthGridDates(selectedDate), [selectedDate]);
+  const weekDates = useMemo(() => getWeekDates(selectedDate), [selectedDate]);
+  const agendaDates = useMemo(() => getAgendaDates(itemsByDate, today, AGENDA_DAYS), [itemsByDate, today]);
+
+  const registerZone = (date: string) => (node: View | null) => {
+    if (node) {
+      zoneNodes.current.set(date, node);
+    } else {
+      zoneNodes.current.delete(date);
+    }
+  };
+
+  // Zones are measured once per drag: the scroll view is locked while a card is lifted.
+  const measureZones = () => {
+    zones.current = [];
+    zoneNodes.current.forEach((node, date) => {
+      node.measureInWindow((x, y, width, height) => {
+        zones.current.push({ date, x, y, width, height });
+      });
+    });
+  };
+
+  const moveTask = async (task: Task, date: string) => {
+    if (!user?.id || task.due_date === date) return;
+
+    const patch = { due_date: date, due_at: buildDueAt(date, getDueTimeInput(task.due_at)) };
+    setTasks((prev) => prev.map((row) => (row.id === task.id ? { ...row, ...patch } : row)));
+
+    try {
+      await updateTask(task.id, user.id, patch);
+    } catch {
+      setTasks((prev) => prev.map((row) => (row.id === task.id ? task : row)));
+      Alert.alert(t('common.networkErrorTitle'), t('calendar.moveError'));
+    }
+  };
+
+  const shiftPeriod = (direction: 1 | -1) => {
+    if (mode === 'month') {
+      const next = shiftCalendarMonth(selectedDate, direction);
+      setSelectedDate(isSameCalendarMonth(next, today) ? today : next);
+    } else {
+      setSelectedDate(shiftCalendarDate(selectedDate, direction * 7));
+    }
+  };
+
+  const getPeriodLabel = () => {
+    if (mode === 'agenda') return t('calendar.agendaRange', { days: AGENDA_DAYS });
+    if (mode === 'week') {
+      return t('calendar.weekRange', {
+        start: formatDateLabel(weekDates[0], locale),
+        end: formatDateLabel(weekDates[6], locale),
+      });
+    }
+    return new Intl.DateTimeFormat(locale, { month: 'long', year: 'numeric' }).format(
+      new Date(`${selectedDate}T12:00:00`)
+    );
+  };
+
+  const getItemColor = (item: CalendarItem) => {
+    if (item.kind === 'exam') return colors.danger;
+    if (item.kind === 'session') return colors.success;
+    if (item.kind === 'announcement') return colors.warning;
+    return (item.task.course_id ? coursesById.get(item.task.course_id)?.color : undefined) ?? colors.primary;
+  };
+
+  const openItem = (item: CalendarItem) => {
+    if (item.kind === 'task') router.push(`/task/${item.task.id}`);
+    else if (item.kind === 'exam') router.push('/exams');
+    else if (item.kind === 'session') router.push('/schedule-planner');
+    else router.push(`/announcement/${item.announcement.id}`);
+  };
+
+  const getItemContent = (item: CalendarItem): { icon: keyof typeof Ionicons.glyphMap; title: string; meta: string } => {
+    if (item.kind === 'exam') {
+      return {
+        icon: 'school-outline',
+        title: item.exam.subject,
+        meta: [t('calendar.kind.exam'), item.exam.exam_time, item.exam.location].filter(Boolean).join(' · '),
+      };
+    }
+    if (item.kind === 'session') {
+      const course = item.session.courseId ? coursesById.get(item.session.courseId) : undefined;
+      return {
+        icon: getStudySessionStatus(item.session) === 'done' ? 'checkmark-circle' : 'book-outline',
+        title: item.session.focus,
+        meta: [
+          t(`schedulePlanner.slot.${item.session.slot}`),
+          t('calendar.sessionMinutes', { minutes: item.session.durationMinutes }),
+          course?.name,
+        ]
+          .filter(Boolean)
+          .join(' · '),
+      };
+    }
+    if (item.kind === 'announcement') {
+      return { icon: 'megaphone-outline', title: item.announcement.title, meta: t('calendar.announcementExpires') };
+    }
+    const course = item.task.course_id ? coursesById.get(item.task.course_id) : undefined;
+    return {
+      icon: item.task.status === 'done' ? 'checkmark-circle' : 'ellipse-outline',
+      title: item.task.title,
+      meta: [t('calendar.kind.task'), formatDueTime(item.task.due_at, locale), course?.name].filter(Boolean).join(' · '),
+    };
+  };
+
+  const renderItem = (item: CalendarItem) => {
+    const content = getItemContent(item);
+    const color = getItemColor(item);
+    const done = item.kind === 'task' && item.task.status === 'done';
+    const card = (
+      <View style={styles.itemCard}>
+        <View style={[styles.colorBar, { backgroundColor: color }]} />
+        <Ionicons name={content.icon} size={16} color={color} />
+        <View style={styles.itemMain}>
+          <Text style={[styles.itemTitle, done && styles.itemTitleDone]} numberOfLines={1}>
+            {content.title}
+          </Text>
+          <Text style={styles.metaText} numberOfLines={1}>
+            {content.meta}
+          </Text>
+        </View>
+      </View>
+    );
+
+    if (item.kind !== 'task' || done) {
+      return (
+        <TouchableOpacity key={`${item.kind}-${item.id}`} onPress={() => openItem(item)}>
+          {card}
+        </TouchableOpacity>
+      );
+    }
+
+    const task = item.task;
+    return (
+      <DraggableCard
+        key={`${item.kind}-${item.id}`}
+        onPress={() => openItem(item)}
+        onDragChange={(next) => {
+          if (next) measureZones();
+          setDragging(next);
+          setHoverDate(next ? task.due_date : null);
+        }}
+        onDragMove={(gesture) => setHoverDate(findDropDate(zones.current, gesture))}
+        onDrop={(gesture) => {
+          const date = findDropDate(zones.current, gesture);
+          if (date) void moveTask(task, date);
+        }}>
+        {card}
+      </DraggableCard>
+    );
+  };
+
+  const renderDayItems = (date: string) => {
+    const items = itemsByDate.get(date) ?? [];
+    if (items.length === 0) return <Text style={styles.emptyText}>{t('calendar.dayEmpty')}</Text>;
+    return items.map(renderItem);
+  };
+
+  const renderMonth = () => (
+    <>
+      <View style={styles.monthCard}>
+        <View style={styles.weekdayRow}>
+          {WEEKDAY_KEYS.map((day) => (
+            <Text key={day} style={styles.weekdayText}>
+              {t(`schedulePlanner.day.${day}`)}
+            </Text>
+          ))}
+        </View>
+        <View style={styles.monthGrid}>
+          {monthDates.map((date) => {
+            const items = itemsByDate.get(date) ?? [];
+            const selected = date === selectedDate;
+            return (
+              <TouchableOpacity
+                key={date}
+                ref={registerZone(date)}
+                style={[
+                  styles.dayCell,
+                  date === today && styles.dayCellToday,
+                  selected && styles.dayCellSelected,
+                  hoverDate === date && styles.dayCellHover,
+                ]}
+                onPress={() => setSelectedDate(date)}>
+                <Text
+                  style={[
+                    styles.dayNumber,
+                    !isSameCalendarMonth(date, selectedDate) && styles.dayNumberMuted,
+                    selected && styles.dayNumberSelected,
+                  ]}>
+                  {Number(date.slice(8, 10))}
+                </Text>
+                <View style={styles.dotRow}>
+                  {items.slice(0, MAX_CELL_DOTS).map((item) => (
+                    <View
+                      key={`${item.kind}-${item.id}`}
+                      style={[styles.dot, { backgroundColor: getItemColor(item) }]}
+                    />
+                  ))}
+                </View>
+                {items.length > MAX_CELL_DOTS ? (
+                  <Text style={styles.moreText}>{`+${items.length - MAX_CELL_DOTS}`}</Text>
+                ) : null}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      <View style={styles.daySection}>
+        <Text style={styles.sectionTitle}>{formatDateLabel(selectedDate, locale)}</Text>
+        {renderDayItems(selectedDate)}
+      </View>
+    </>
+  );
+
+  const renderWeek = () =>
+    weekDates.map((date, index) => (
+      <View
+        key={date}
+        ref={registerZone(date)}
+        style={[styles.weekDay, date === today && styles.dayCellToday, hoverDate === date && styles.dayCellHover]}>
+        <Text style={styles.sectionTitle}>
+          {`${t(`schedulePlanner.day.${WEEKDAY_KEYS[index]}`)} · ${formatDateLabel(date, locale)}`}
+        </Text>
+        {renderDayItems(date)}
+      </View>
+    ));
+
+  const renderAgenda = () => {
+    if (agendaDates.length === 0) return <Text style={styles.emptyText}>{t('calendar.agendaEmpty')}</Text>;
+    return agendaDates.map((date) => (
+      <View
+        key={date}
+        ref={registerZone(date)}
+        style={[styles.daySection, hoverDate === date && styles.agendaHover]}>
+        <Text style={styles.sectionTitle}>
+          {date === today ? `${t('calendar.today')} · ${formatDateLabel(date, locale)}` : formatDateLabel(date, locale)}
+        </Text>
+        {renderDayItems(date)}
+      </View>
+    ));
+  };
+
+  return (
+    <View style={styles.page}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={18} color={colors.text} />
+          <Text style={styles.backText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <View style={styles.headerRow}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{t('calendar.title')}</Text>
+            <Text style={styles.subtitle}>{t('calendar.subtitle')}</Text>
+          </View>
+          <TouchableOpacity style={styles.addBtn} onPress={() => router.push('/task-editor')}>
+            <Ionicons name="add" size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.modeRow}>
+          {CALENDAR_MODES.map((item) => (
+            <TouchableOpacity
+              key={item}
+              style={[styles.modeChip, mode === item && styles.modeChipActive]}
+              onPress={() => setMode(item)}>
+              <Text style={[styles.modeText, mode === item && styles.modeTextActive]}>{t(`calendar.mode.${item}`)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.periodRow}>
+          {mode !== 'agenda' ? (
+            <TouchableOpacity
+              style={styles.periodBtn}
+              accessibilityLabel={t('calendar.previous')}
+              onPress={() => shiftPeriod(-1)}>
+              <Ionicons name="chevron-back" size={18} color={colors.text} />
+            </TouchableOpacity>
+          ) : null}
+          <Text style={styles.periodLabel}>{getPeriodLabel()}</Text>
+          {mode !== 'agenda' ? (
+            <>
+              <TouchableOpacity style={styles.todayBtn} onPress={() => setSelectedDate(today)}>
+                <Text style={styles.todayText}>{t('calendar.today')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.periodBtn}
+                accessibilityLabel={t('calendar.next')}
+                onPress={() => shiftPeriod(1)}>
+                <Ionicons name="chevron-forward" size={18} color={colors.text} />
+              </TouchableOpacity>
+            </>
+          ) : null}
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        scrollEnabled={!dragging}>
+        <Text style={styles.hint}>{t('calendar.dragHint')}</Text>
+        {mode === 'month' ? renderMonth() : null}
+        {mode === 'week' ? renderWeek() : null}
+        {mode === 'agenda' ? renderAgenda() : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
+  StyleSheet.create({
+    page: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      paddingHorizontal: 16,
+      paddingTop: 56,
+      paddingBottom: 12,
+    },
+    backBtn: {
+      alignSelf: 'flex-start',
+      flexDirection: 'row',
+      alignItems: 'center',
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingHorizontal: 10,
+      paddingVertical: 7,
+      backgroundColor: colors.surface,
+      marginBottom: 14,
+    },
+    backText: {
+      color: colors.text,
+      fontWeight: '600',
+    },
+    headerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    headerText: {
+      flex: 1,
+    },
+    title: {
+      fontSize: 24,
+      color: colors.text,
+      fontWeight: '800',
+      marginBottom: 4,
+    },
+    subtitle: {
+      color: colors.textMuted,
+    },
+    addBtn: {
+      width: 42,
+      height: 42,
+      borderRadius: 14,
+      backgroundColor: colors.primary,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    modeRow: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 14,
+    },
+    modeChip: {
+      borderRadius: 999,
+      paddingHorizontal: 14,
+      paddingVertical: 7,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    modeChipActive: {
+      backgroundColor: colors.primarySoft,
+      borderColor: colors.primary,
+    },
+    modeText: {
+      color: colors.textMuted,
+      fontWeight: '600',
+      fontSize: 13,
+    },
+    modeTextActive: {
+      color: colors.primary,
+    },
+    periodRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginTop: 12,
+    },
+    periodBtn: {
+      width: 34,
+      height: 34,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    periodLabel: {
+      flex: 1,
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: '700',
+      textTransform: 'capitalize',
+    },
+    todayBtn: {
+      borderRadius: 999,
+      paddingHorizontal: 10,
+      paddingVertical: 6,
+      backgroundColor: colors.primarySoft,
+    },
+    todayText: {
+      color: colors.primary,
+      fontWeight: '700',
+      fontSize: 12,
+    },
+    content: {
+      paddingHorizontal: 16,
+      paddingTop: 6,
+      paddingBottom: 34,
+      gap: 12,
+    },
+    hint: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    monthCard: {
+      backgroundColor: colors.surface,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 8,
+    },
+    weekdayRow: {
+      flexDirection: 'row',
+      marginBottom: 4,
+    },
+    weekdayText: {
+      width: `${100 / 7}%`,
+      textAlign: 'center',
+      color: colors.textMuted,
+      fontSize: 11,
+      fontWeight: '700',
+    },
+    monthGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    dayCell: {
+      width: `${100 / 7}%`,
+      height: 52,
+      alignItems: 'center',
+      paddingTop: 6,
+      gap: 3,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: 'transparent',
+    },
+    dayCellToday: {
+      borderColor: colors.primary,
+    },
+    dayCellSelected: {
+      backgroundColor: colors.primarySoft,
+    },
+    dayCellHover: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primarySoft,
+    },
+    dayNumber: {
+      color: colors.text,
+      fontSize: 13,
+      fontWeight: '600',
+    },
+    dayNumberMuted: {
+      color: colors.textMuted,
+      opacity: 0.6,
+    },
+    dayNumberSelected: {
+      color: colors.primary,
+      fontWeight: '800',
+    },
+    dotRow: {
+      flexDirection: 'row',
+      gap: 3,
+    },
+    dot: {
+      width: 6,
+      height: 6,
+      borderRadius: 3,
+    },
+    moreText: {
+      color: colors.textMuted,
+      fontSize: 9,
+      fontWeight: '700',
+    },
+    daySection: {
+      gap: 8,
+    },
+    agendaHover: {
+      borderRadius: 14,
+      backgroundColor: colors.primarySoft,
+    },
+    weekDay: {
+      gap: 8,
+      padding: 10,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    sectionTitle: {
+      color: colors.text,
+      fontSize: 15,
+      fontWeight: '700',
+    },
+    itemCard: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 10,
+      gap: 10,
+    },
+    colorBar: {
+      width: 4,
+      alignSelf: 'stretch',
+      borderRadius: 2,
+    },
+    itemMain: {
+      flex: 1,
+      gap: 2,
+    },
+    itemTitle: {
+      color: colors.text,
+      fontSize: 14,
+      fontWeight: '700',
+    },
+    itemTitleDone: {
+      textDecorationLine: 'line-through',
+      color: colors.textMuted,
+    },
+    metaText: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    emptyText: {
+      color: colors.textMuted,
+      fontSize: 13,
+    },
+  });
@@ -0,0 +1,480 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { StateBlock } from '@/components/ui/state-block';
+import { useAppTheme } from '@/hooks/use-app-theme';
+import { useI18n } from '@/hooks/use-i18n';
+import {
+  COURSE_COLORS,
+  createCourse,
+  deleteCourse,
+  getCachedCourses,
+  normalizeCoefficient,
+  updateCourse,
+} from '@/lib/courses';
+import { getErrorMessage } from '@/lib/errors';
+import { detachCourseFromExams } from '@/lib/exams';
+import { detachCourse, getCachedResources, getCachedTasks } from '@/lib/student-api';
+import { detachCourseFromTimetable } from '@/lib/timetable';
+import { useAuth } from '@/providers/auth-provider';
+import { useOfflineSyncStatus } from '@/providers/offline-sync-provider';
+import type { Course } from '@/types/supabase';
+
+type CourseForm = {
+  name: string;
+  color: string;
+  teacher: string;
+  term: string;
+  coefficient: string;
+};
+
+const emptyForm: CourseForm = { name: '', color: COURSE_COLORS[0], teacher: '', term: '', coefficient: '' };
+
+function toForm(course: Course): CourseForm {
+  return {
+    name: course.name,
+    color: course.color,
+    teacher: course.teacher ?? '',
+    term: course.term ?? '',
+    coefficient: course.coefficient !== null ? String(course.coefficient) : '',
+  };
+}
+
+export default function CoursesScreen() {
+  const { colors } = useAppTheme();
+  const { t } = useI18n();
+  const { user } = useAuth();
+  const { dataVersion } = useOfflineSyncStatus();
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [taskCounts, setTaskCounts] = useState<Record<string, number>>({});
+  const [resourceCounts, setResourceCounts] = useState<Record<string, number>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formVisible, setFormVisible] = useState(false);
+  const [form, setForm] = useState<CourseForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const load = useCallback(async () => {
+    if (!user?.id) return;
+    const [nextCourses, tasks, resources] = await Promise.all([
+      getCachedCourses(user.id),
+      getCachedTasks(user.id),
+      getCachedResources(user.id),
+    ]);
+    const nextTaskCounts: Record<string, number> = {};
+    for (const task of tasks) {
+      if (task.course_id && task.status !== 'done') {
+        nextTaskCounts[task.course_id] = (nextTaskCounts[task.course_id] ?? 0) + 1;
+      }
+    }
+    const nextResourceCounts: Record<string, number> = {};
+    for (const resource of resources) {
+      if (resource.course_id) {
+        nextResourceCounts[resource.course_id] = (nextResourceCounts[resource.course_id] ?? 0) + 1;
+      }
+    }
+    setCourses(nextCourses);
+    setTaskCounts(nextTaskCounts);
+    setResourceCounts(nextResourceCounts);
+  }, [user?.id]);
+
+  useEffect(() => {
+    void load();
+  }, [dataVersion, load]);
+
+  const openForm = (course: Course | null) => {
+    setEditingId(course?.id ?? null);
+    setForm(course ? toForm(course) : { ...emptyForm, color: COURSE_COLORS[courses.length % COURSE_COLORS.length] });
+    setError('');
+    setFormVisible(true);
+  };
+
+  const closeForm = () => {
+    setFormVisible(false);
+    setEditingId(null);
+    setError('');
+  };
+
+  const onSave = async () => {
+    if (!user?.id || saving) return;
+    if (!form.name.trim()) {
+      setError(t('courses.requiredName'));
+      return;
+    }
+    if (form.coefficient.trim() && normalizeCoefficient(form.coefficient.trim()) === null) {
+      setError(t('courses.invalidCoefficient'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const input = {
+        name: form.name,
+        color: form.color,
+        teacher: form.teacher,
+        term: form.term,
+        coefficient: normalizeCoefficient(form.coefficient.trim()),
+      };
+      if (editingId) {
+        await updateCourse(editingId, user.id, input);
+      } else {
+        await createCourse(user.id, input);
+      }
+      closeForm();
+      await load();
+    } catch (err) {
+      setError(getErrorMessage(err, t('courses.saveError')));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onDelete = (course: Course) => {
+    if (!user?.id) return;
+    const userId = user.id;
+    const linked = (taskCounts[course.id] ?? 0) + (resourceCounts[course.id] ?? 0);
+    Alert.alert(
+      t('courses.deleteTitle'),
+      linked > 0 ? t('courses.deleteLinkedMessage', { name: course.name }) : t('courses.deleteMessage', { name: course.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('courses.delete'),
+          style: 'destructive',
+          onPress: () => {
+            void (async () => {
+              await detachCourse(course.id, userId);
+              await detachCourseFromTimetable(course.id, userId);
+              await detachCourseFromExams(course.id, userId);
+              await deleteCourse(course.id, userId);
+              if (editingId === course.id) closeForm();
+              await load();
+            })();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderForm = () => (
+    <View style={styles.formCard}>
+      <Text style={styles.formTitle}>{editingId ? t('courses.editTitle') : t('courses.createTitle')}</Text>
+
+      <Text style={styles.label}>{t('courses.fieldName')}</Text>
+      <TextInput
+        style={styles.input}
+        value={form.name}
+        onChangeText={(name) => setForm((prev) => ({ ...prev, name }))}
+        placeholder={t('courses.namePlaceholder')}
+        placeholderTextColor={colors.textMuted}
+        maxLength={60}
+      />
+
+      <Text style={styles.label}>{t('courses.fieldColor')}</Text>
+      <View style={styles.colorRow}>
+        {COURSE_COLORS.map((color) => (
+          <TouchableOpacity
+            key={color}
+            style={[styles.colorSwatch, { backgroundColor: color }, form.color === color && styles.colorSwatchActive]}
+            onPress={() => setForm((prev) => ({ ...prev, color }))}>
+            {form.color === color ? <Ionicons name="checkmark" size={14} color="#FFFFFF" /> : null}
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>{t('courses.fieldTeacher')}</Text>
+      <TextInput
+        style={styles.input}
+        value={form.teacher}
+        onChangeText={(teacher) => setForm((prev) => ({ ...prev, teacher }))}
+        placeholder={t('courses.teacherPlaceholder')}
+        placeholderTextColor={colors.textMuted}
+        maxLength={80}
+      />
+
+      <View style={styles.inlineFields}>
+        <View style={styles.inlineField}>
+          <Text style={styles.label}>{t('courses.fieldTerm')}</Text>
+          <TextInput
+            style={styles.input}
+            value={form.term}
+            onChangeText={(term) => setForm((prev) => ({ ...prev, term }))}
+            placeholder={t('courses.termPlaceholder')}
+            placeholderTextColor={colors.textMuted}
+            maxLength={40}
+          />
+        </View>
+        <View style={styles.inlineField}>
+          <Text style={styles.label}>{t('courses.fieldCoefficient')}</Text>
+          <TextInput
+            style={styles.input}
+            value={form.coefficient}
+            onChangeText={(coefficient) => setForm((prev) => ({ ...prev, coefficient }))}
+            placeholder="1"
+            placeholderTextColor={colors.textMuted}
+            keyboardType="decimal-pad"
+            maxLength={6}
+          />
+        </View>
+      </View>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      <View style={styles.actionsRow}>
+        <TouchableOpacity style={[styles.actionBtn, styles.actionBtnGhost]} onPress={closeForm}>
+          <Text style={styles.actionGhostText}>{t('common.cancel')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionBtn, (saving || !form.name.trim()) && styles.actionDisabled]}
+          disabled={saving || !form.name.trim()}
+          onPress={() => void onSave()}>
+          <Text style={styles.actionText}>{t('courses.save')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.page}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={18} color={colors.text} />
+          <Text style={styles.backText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <View style={styles.headerRow}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{t('courses.title')}</Text>
+            <Text style={styles.subtitle}>{t('courses.subtitle')}</Text>
+          </View>
+          <TouchableOpacity style={styles.addBtn} onPress={() => openForm(null)}>
+            <Ionicons name="add" size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled">
+        {formVisible && !editingId ? renderForm() : null}
+
+        {courses.length === 0 && !formVisible ? (
+          <StateBlock
+            variant="empty"
+            title={t('courses.emptyTitle')}
+            description={t('courses.emptyDescription')}
+            actionLabel={t('courses.add')}
+            onActionPress={() => openForm(null)}
+          />
+        ) : null}
+
+        {courses.map((course) =>
+          formVisible && editingId === course.id ? (
+            <React.Fragment key={course.id}>{renderForm()}</React.Fragment>
+          ) : (
+            <TouchableOpacity key={course.id} style={styles.card} onPress={() => openForm(course)}>
+              <View style={[styles.colorBar, { backgroundColor: course.color }]} />
+              <View style={styles.cardMain}>
+                <Text style={styles.cardTitle} numberOfLines={1}>
+                  {course.name}
+                </Text>
+                {course.teacher || course.term ? (
+                  <Text style={styles.metaText} numberOfLines={1}>
+                    {[course.teacher, course.term].filter(Boolean).join(' · ')}
+                  </Text>
+                ) : null}
+                <Text style={styles.metaText}>
+                  {t('courses.stats', {
+                    tasks: taskCounts[course.id] ?? 0,
+                    resources: resourceCounts[course.id] ?? 0,
+                  })}
+                  {course.coefficient !== null ? ` · ${t('courses.coefficient', { value: course.coefficient })}` : ''}
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.iconBtn} onPress={() => onDelete(course)}>
+                <Ionicons name="trash-outline" size={18} color={colors.danger} />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          )
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
+  StyleSheet.create({
+    page: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      paddingHorizontal: 16,
+      paddingTop: 56,
+      paddingBottom: 12,
+    },
+    backBtn: {
+      alignSelf: 'flex-start',
+      flexDirection: 'row',
+      alignItems: 'center',
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingHorizontal: 10,
+      paddingVertical: 7,
+      backgroundColor: colors.surface,
+      marginBottom: 14,
+    },
+    backText: {
+      color: colors.text,
+      fontWeight: '600',
+    },
+    headerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    headerText: {
+      flex: 1,
+    },
+    title: {
+      fontSize: 24,
+      color: colors.text,
+      fontWeight: '800',
+      marginBottom: 4,
+    },
+    subtitle: {
+      color: colors.textMuted,
+    },
+    addBtn: {
+      width: 42,
+      height: 42,
+      borderRadius: 14,
+      backgroundColor: colors.primary,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    content: {
+      paddingHorizontal: 16,
+      paddingTop: 6,
+      paddingBottom: 34,
+      gap: 10,
+    },
+    card: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 12,
+      gap: 12,
+    },
+    colorBar: {
+      width: 6,
+      alignSelf: 'stretch',
+      borderRadius: 3,
+    },
+    cardMain: {
+      flex: 1,
+      gap: 3,
+    },
+    cardTitle: {
+      color: colors.text,
+      fontSize: 15,
+      fontWeight: '700',
+    },
+    metaText: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    iconBtn: {
+      padding: 6,
+    },
+    formCard: {
+      backgroundColor: colors.surface,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.primary,
+      padding: 14,
+    },
+    formTitle: {
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: '700',
+    },
+    label: {
+      fontWeight: '700',
+      color: colors.text,
+      marginBottom: 8,
+      marginTop: 10,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 12,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      color: colors.text,
+      backgroundColor: colors.background,
+    },
+    colorRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 10,
+    },
+    colorSwatch: {
+      width: 30,
+      height: 30,
+      borderRadius: 15,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    colorSwatchActive: {
+      borderWidth: 2,
+      borderColor: colors.text,
+    },
+    inlineFields: {
+      flexDirection: 'row',
+      gap: 10,
+    },
+    inlineField: {
+      flex: 1,
+    },
+    errorText: {
+      color: colors.danger,
+      fontSize: 12,
+      marginTop: 10,
+    },
+    actionsRow: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      gap: 8,
+      marginTop: 14,
+    },
+    actionBtn: {
+      borderRadius: 10,
+      backgroundColor: colors.primary,
+      paddingHorizontal: 14,
+      paddingVertical: 9,
+    },
+    actionBtnGhost: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    actionDisabled: {
+      opacity: 0.5,
+    },
+    actionText: {
+      color: '#FFFFFF',
+      fontWeight: '700',
+    },
+    actionGhostText: {
+      color: colors.text,
+      fontWeight: '700',
+    },
+  });
@@ -0,0 +1,614 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { CoursePicker } from '@/components/ui/course-chips';
+import { StateBlock } from '@/components/ui/state-block';
+import { useAppTheme } from '@/hooks/use-app-theme';
+import { useI18n } from '@/hooks/use-i18n';
+import { getCachedCourses, indexCoursesById } from '@/lib/courses';
+import { getErrorMessage } from '@/lib/errors';
+import { deleteExamWithRevision, generateExamRevision, type ExamRevisionLabels } from '@/lib/exam-revision';
+import {
+  DEFAULT_REVISION_OFFSETS,
+  EXAM_OFFSETS_INVALID_ERROR,
+  createExam,
+  getCachedExams,
+  getDaysUntilExam,
+  parseRevisionOffsets,
+  parseTopics,
+  updateExam,
+} from '@/lib/exams';
+import { formatDateLabel, toIsoDate } from '@/lib/format';
+import { getCachedTasks } from '@/lib/student-api';
+import { useAuth } from '@/providers/auth-provider';
+import { useOfflineSyncStatus } from '@/providers/offline-sync-provider';
+import type { Course, Exam, Task } from '@/types/supabase';
+
+type ExamForm = {
+  courseId: string | null;
+  subject: string;
+  examDate: string;
+  examTime: string;
+  location: string;
+  topics: string;
+  offsets: string;
+};
+
+function createEmptyForm(): ExamForm {
+  const inTwoWeeks = new Date();
+  inTwoWeeks.setDate(inTwoWeeks.getDate() + 14);
+  return {
+    courseId: null,
+    subject: '',
+    examDate: toIsoDate(inTwoWeeks),
+    examTime: '',
+    location: '',
+    topics: '',
+    offsets: DEFAULT_REVISION_OFFSETS.join(', '),
+  };
+}
+
+function toForm(exam: Exam): ExamForm {
+  return {
+    courseId: exam.course_id,
+    subject: exam.subject,
+    examDate: exam.exam_date,
+    examTime: exam.exam_time ?? '',
+    location: exam.location ?? '',
+    topics: exam.topics.join('\n'),
+    offsets: exam.revision_offsets.join(', '),
+  };
+}
+
+export default function ExamsScreen() {
+  const { colors } = useAppTheme();
+  const { t, locale } = useI18n();
+  const { user } = useAuth();
+  const { dataVersion } = useOfflineSyncStatus();
+  const [exams, setExams] = useState<Exam[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formVisible, setFormVisible] = useState(false);
+  const [form, setForm] = useState<ExamForm>(createEmptyForm);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const coursesById = useMemo(() => indexCoursesById(courses), [courses]);
+
+  const labels = useMemo<ExamRevisionLabels>(
+    () => ({
+      taskTitle: (offset, subject) => t('exams.revisionTaskTitle', { offset, subject }),
+      finalTaskTitle: (subject) => t('exams.finalTaskTitle', { subject }),
+      planTitle: (subject) => t('exams.planTitle', { subject }),
+    }),
+    [t]
+  );
+
+  const load = useCallback(async () => {
+    if (!user?.id) return;
+    const [nextExams, nextCourses, nextTasks] = await Promise.all([
+      getCachedExams(user.id),
+      getCachedCourses(user.id),
+      getCachedTasks(user.id),
+    ]);
+    setExams(nextExams);
+    setCourses(nextCourses);
+    setTasks(nextTasks);
+  }, [user?.id]);
+
+  useEffect(() => {
+    void load();
+  }, [dataVersion, load]);
+
+  const { upcoming, past } = useMemo(() => {
+    const now = new Date();
+    return {
+      upcoming: exams.filter((exam) => getDaysUntilExam(exam, now) >= 0),
+      past: exams.filter((exam) => getDaysUntilExam(exam, now) < 0).reverse(),
+    };
+  }, [exams]);
+
+  const openForm = (exam: Exam | null) => {
+    setEditingId(exam?.id ?? null);
+    setForm(exam ? toForm(exam) : createEmptyForm());
+    setError('');
+    setNotice('');
+    setFormVisible(true);
+  };
+
+  const closeForm = () => {
+    setFormVisible(false);
+    setEditingId(null);
+    setError('');
+  };
+
+  const describeResult = (taskCount: number) =>
+    taskCount > 0 ? t('exams.generated', { count: taskCount }) : t('exams.nothingToGenerate');
+
+  const onSave = async () => {
+    if (!user?.id || saving) return;
+    setSaving(true);
+    setError('');
+    try {
+      const revisionOffsets = parseRevisionOffsets(form.offsets);
+      if (!revisionOffsets) {
+        throw new Error(EXAM_OFFSETS_INVALID_ERROR);
+      }
+      const input = {
+        courseId: form.courseId,
+        subject: form.subject,
+        examDate: form.examDate,
+        examTime: form.examTime,
+        location: form.location,
+        topics: parseTopics(form.topics),
+        revisionOffsets,
+      };
+      const exam = editingId ? await updateExam(editingId, user.id, input) : await createExam(user.id, input);
+      const result = await generateExamRevision({ userId: user.id, exam, labels });
+      closeForm();
+      setNotice(describeResult(result.taskCount));
+      await load();
+    } catch (err) {
+      setError(getErrorMessage(err, t('exams.saveError')));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onRegenerate = async (exam: Exam) => {
+    if (!user?.id || busyId) return;
+    setBusyId(exam.id);
+    try {
+      const result = await generateExamRevision({ userId: user.id, exam, labels });
+      setNotice(describeResult(result.taskCount));
+      await load();
+    } catch (err) {
+      setNotice(getErrorMessage(err, t('exams.saveError')));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const onDelete = (exam: Exam) => {
+    if (!user?.id) return;
+    const userId = user.id;
+    Alert.alert(t('exams.deleteTitle'), t('exams.deleteMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('courses.delete'),
+        style: 'destructive',
+        onPress: () => {
+          void (async () => {
+            await deleteExamWithRevision(exam, userId);
+            if (editingId === exam.id) closeForm();
+            await load();
+          })();
+        },
+      },
+    ]);
+  };
+
+  const renderCountdown = (exam: Exam) => {
+    const days = getDaysUntilExam(exam);
+    if (days < 0) return t('exams.past');
+    if (days === 0) return t('exams.today');
+    return t('exams.countdown', { count: days });
+  };
+
+  const renderForm = () => (
+    <View style={styles.formCard}>
+      <Text style={styles.formTitle}>{editingId ? t('exams.editTitle') : t('exams.createTitle')}</Text>
+
+      <Text style={styles.label}>{t('exams.fieldSubject')}</Text>
+      <TextInput
+        style={styles.input}
+        value={form.subject}
+        onChangeText={(subject) => setForm((prev) => ({ ...prev, subject }))}
+        placeholder={t('exams.subjectPlaceholder')}
+        placeholderTextColor={colors.textMuted}
+        maxLength={80}
+      />
+
+      <Text style={styles.label}>{t('courses.field')}</Text>
+      <CoursePicker
+        courses={courses}
+        value={form.courseId}
+        onChange={(courseId) => setForm((prev) => ({ ...prev, courseId }))}
+      />
+
+      <View style={styles.inlineFields}>
+        <View style={styles.inlineField}>
+          <Text style={styles.label}>{t('exams.fieldDate')}</Text>
+          <TextInput
+            style={styles.input}
+            value={form.examDate}
+            onChangeText={(examDate) => setForm((prev) => ({ ...prev, examDate }))}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={colors.textMuted}
+            maxLength={10}
+          />
+        </View>
+        <View style={styles.inlineField}>
+          <Text style={styles.label}>{t('exams.fieldTime')}</Text>
+          <TextInput
+            style={styles.input}
+            value={form.examTime}
+            onChangeText={(examTime) => setForm((prev) => ({ ...prev, examTime }))}
+            placeholder="09:00"
+            placeholderTextColor={colors.textMuted}
+            maxLength={5}
+          />
+        </View>
+      </View>
+
+      <Text style={styles.label}>{t('exams.fieldLocation')}</Text>
+      <TextInput
+        style={styles.input}
+        value={form.location}
+        onChangeText={(location) => setForm((prev) => ({ ...prev, location }))}
+        placeholder={t('exams.locationPlaceholder')}
+        placeholderTextColor={colors.textMuted}
+        maxLength={80}
+      />
+
+      <Text style={styles.label}>{t('exams.fieldTopics')}</Text>
+      <TextInput
+        style={[styles.input, styles.multiline]}
+        value={form.topics}
+        onChangeText={(topics) => setForm((prev) => ({ ...prev, topics }))}
+        placeholder={t('exams.topicsPlaceholder')}
+        placeholderTextColor={colors.textMuted}
+        multiline
+      />
+
+      <Text style={styles.label}>{t('exams.fieldOffsets')}</Text>
+      <TextInput
+        style={styles.input}
+        value={form.offsets}
+        onChangeText={(offsets) => setForm((prev) => ({ ...prev, offsets }))}
+        placeholder="7, 3, 1"
+        placeholderTextColor={colors.textMuted}
+        maxLength={40}
+      />
+      <Text style={styles.hint}>{t('exams.offsetsHint')}</Text>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      <View style={styles.actionsRow}>
+        <TouchableOpacity style={[styles.actionBtn, styles.actionBtnGhost]} onPress={closeForm}>
+          <Text style={styles.actionGhostText}>{t('common.cancel')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionBtn, saving && styles.actionDisabled]}
+          disabled={saving}
+          onPress={() => void onSave()}>
+          <Text style={styles.actionText}>{t('exams.saveAndPlan')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderExam = (exam: Exam) => {
+    if (formVisible && editingId === exam.id) {
+      return <React.Fragment key={exam.id}>{renderForm()}</React.Fragment>;
+    }
+    const course = exam.course_id ? coursesById.get(exam.course_id) : undefined;
+    const revisions = tasks.filter((task) => task.exam_id === exam.id);
+    const doneCount = revisions.filter((task) => task.status === 'done').length;
+    const isPast = getDaysUntilExam(exam) < 0;
+
+    return (
+      <TouchableOpacity key={exam.id} style={styles.card} onPress={() => openForm(exam)}>
+        <View style={[styles.colorBar, { backgroundColor: course?.color ?? colors.border }]} />
+        <View style={styles.cardMain}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle} numberOfLines={1}>
+              {exam.subject}
+            </Text>
+            <View style={[styles.countdownBadge, isPast && styles.countdownBadgePast]}>
+              <Text style={[styles.countdownText, isPast && styles.countdownTextPast]}>{renderCountdown(exam)}</Text>
+            </View>
+          </View>
+          <Text style={styles.metaText}>
+            {[formatDateLabel(exam.exam_date, locale), exam.exam_time, exam.location, course?.name]
+              .filter(Boolean)
+              .join(' · ')}
+          </Text>
+          {exam.topics.length > 0 ? (
+            <Text style={styles.metaText} numberOfLines={2}>
+              {exam.topics.join(', ')}
+            </Text>
+          ) : null}
+          <Text style={styles.progressText}>
+            {revisions.length > 0
+              ? t('exams.revisionProgress', { done: doneCount, total: revisions.length })
+              : t('exams.noRevision')}
+          </Text>
+        </View>
+        <View style={styles.cardActions}>
+          {!isPast ? (
+            <TouchableOpacity
+              style={styles.iconBtn}
+              disabled={busyId === exam.id}
+              onPress={() => void onRegenerate(exam)}>
+              <Ionicons name="refresh" size={18} color={colors.primary} />
+            </TouchableOpacity>
+          ) : null}
+          <TouchableOpacity style={styles.iconBtn} onPress={() => onDelete(exam)}>
+            <Ionicons name="trash-outline" size={18} color={colors.danger} />
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.page}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={18} color={colors.text} />
+          <Text style={styles.backText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <View style={styles.headerRow}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{t('exams.title')}</Text>
+            <Text style={styles.subtitle}>{t('exams.subtitle')}</Text>
+          </View>
+          <TouchableOpacity style={styles.addBtn} onPress={() => openForm(null)}>
+            <Ionicons name="add" size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled">
+        {notice ? <Text style={styles.notice}>{notice}</Text> : null}
+
+        {formVisible && !editingId ? renderForm() : null}
+
+        {exams.length === 0 && !formVisible ? (
+          <StateBlock
+            variant="empty"
+            title={t('exams.emptyTitle')}
+            description={t('exams.emptyDescription')}
+            actionLabel={t('exams.add')}
+            onActionPress={() => openForm(null)}
+          />
+        ) : null}
+
+        {upcoming.length > 0 ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('exams.upcoming')}</Text>
+            {upcoming.map(renderExam)}
+          </View>
+        ) : null}
+
+        {past.length > 0 ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('exams.pastSection')}</Text>
+            {past.map(renderExam)}
+          </View>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
+  StyleSheet.create({
+    page: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      paddingHorizontal: 16,
+      paddingTop: 56,
+      paddingBottom: 12,
+    },
+    backBtn: {
+      alignSelf: 'flex-start',
+      flexDirection: 'row',
+      alignItems: 'center',
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingHorizontal: 10,
+      paddingVertical: 7,
+      backgroundColor: colors.surface,
+      marginBottom: 14,
+    },
+    backText: {
+      color: colors.text,
+      fontWeight: '600',
+    },
+    headerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    headerText: {
+      flex: 1,
+    },
+    title: {
+      fontSize: 24,
+      color: colors.text,
+      fontWeight: '800',
+      marginBottom: 4,
+    },
+    subtitle: {
+      color: colors.textMuted,
+    },
+    addBtn: {
+      width: 42,
+      height: 42,
+      borderRadius: 14,
+      backgroundColor: colors.primary,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    content: {
+      paddingHorizontal: 16,
+      paddingTop: 6,
+      paddingBottom: 34,
+      gap: 12,
+    },
+    notice: {
+      color: colors.primary,
+      fontWeight: '600',
+      fontSize: 13,
+    },
+    section: {
+      gap: 8,
+    },
+    sectionTitle: {
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: '700',
+    },
+    card: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 12,
+      gap: 12,
+    },
+    colorBar: {
+      width: 6,
+      alignSelf: 'stretch',
+      borderRadius: 3,
+    },
+    cardMain: {
+      flex: 1,
+      gap: 3,
+    },
+    cardHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    cardTitle: {
+      flex: 1,
+      color: colors.text,
+      fontSize: 15,
+      fontWeight: '700',
+    },
+    countdownBadge: {
+      borderRadius: 999,
+      paddingHorizontal: 8,
+      paddingVertical: 3,
+      backgroundColor: colors.primarySoft,
+    },
+    countdownBadgePast: {
+      backgroundColor: colors.background,
+    },
+    countdownText: {
+      color: colors.primary,
+      fontSize: 12,
+      fontWeight: '800',
+    },
+    countdownTextPast: {
+      color: colors.textMuted,
+    },
+    metaText: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    progressText: {
+      color: colors.text,
+      fontSize: 12,
+      fontWeight: '600',
+      marginTop: 2,
+    },
+    cardActions: {
+      gap: 4,
+    },
+    iconBtn: {
+      padding: 6,
+    },
+    formCard: {
+      backgroundColor: colors.surface,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.primary,
+      padding: 14,
+    },
+    formTitle: {
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: '700',
+    },
+    label: {
+      fontWeight: '700',
+      color: colors.text,
+      marginBottom: 8,
+      marginTop: 10,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 12,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      color: colors.text,
+      backgroundColor: colors.background,
+    },
+    multiline: {
+      minHeight: 84,
+      textAlignVertical: 'top',
+    },
+    inlineFields: {
+      flexDirection: 'row',
+      gap: 10,
+    },
+    inlineField: {
+      flex: 1,
+    },
+    hint: {
+      color: colors.textMuted,
+      fontSize: 12,
+      marginTop: 8,
+    },
+    errorText: {
+      color: colors.danger,
+      fontSize: 12,
+      marginTop: 10,
+    },
+    actionsRow: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      gap: 8,
+      marginTop: 14,
+    },
+    actionBtn: {
+      borderRadius: 10,
+      backgroundColor: colors.primary,
+      paddingHorizontal: 14,
+      paddingVertical: 9,
+    },
+    actionBtnGhost: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    actionDisabled: {
+      opacity: 0.5,
+    },
+    actionText: {
+      color: '#FFFFFF',
+      fontWeight: '700',
+    },
+    actionGhostText: {
+      color: colors.text,
+      fontWeight: '700',
+    },
+  });
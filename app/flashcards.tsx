@@ -0,0 +1,604 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, Animated, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { StateBlock } from '@/components/ui/state-block';
+import { useAppTheme } from '@/hooks/use-app-theme';
+import { useI18n } from '@/hooks/use-i18n';
+import { getErrorMessage } from '@/lib/errors';
+import {
+  createFlashcards,
+  deleteFlashcardDeck,
+  getCachedFlashcards,
+  getDueFlashcards,
+  getFlashcardDecks,
+  parseFlashcards,
+  recordFlashcardReview,
+} from '@/lib/flashcards';
+import { toIsoDate } from '@/lib/format';
+import { REVIEW_GRADES, previewReviewInterval } from '@/lib/reviews';
+import { useAuth } from '@/providers/auth-provider';
+import { useOfflineSyncStatus } from '@/providers/offline-sync-provider';
+import type { Flashcard, ReviewGrade } from '@/types/supabase';
+
+type ReviewRun = {
+  deck: string;
+  queue: Flashcard[];
+  reviewed: number;
+};
+
+export default function FlashcardsScreen() {
+  const { colors } = useAppTheme();
+  const { t } = useI18n();
+  const { user } = useAuth();
+  const { dataVersion } = useOfflineSyncStatus();
+  const params = useLocalSearchParams<{ deck?: string; resourceId?: string; review?: string }>();
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [formVisible, setFormVisible] = useState(false);
+  const [deckName, setDeckName] = useState('');
+  const [source, setSource] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [run, setRun] = useState<ReviewRun | null>(null);
+  const [flipped, setFlipped] = useState(false);
+  const [grading, setGrading] = useState(false);
+  const flip = useRef(new Animated.Value(0)).current;
+  const autoReviewed = useRef(false);
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const load = useCallback(async () => {
+    if (!user?.id) return;
+    setCards(await getCachedFlashcards(user.id));
+  }, [user?.id]);
+
+  useEffect(() => {
+    void load();
+  }, [dataVersion, load]);
+
+  const decks = useMemo(() => getFlashcardDecks(cards, toIsoDate()), [cards]);
+  const drafts = useMemo(() => parseFlashcards(source), [source]);
+  const current = run?.queue[0] ?? null;
+
+  const resetFlip = () => {
+    flip.setValue(0);
+    setFlipped(false);
+  };
+
+  const startReview = useCallback(
+    (deck: string, deckCards: Flashcard[]) => {
+      flip.setValue(0);
+      setFlipped(false);
+      setNotice('');
+      setRun({ deck, queue: getDueFlashcards(deckCards, deck, toIsoDate()), reviewed: 0 });
+    },
+    [flip]
+  );
+
+  useEffect(() => {
+    if (autoReviewed.current || !params.review || cards.length === 0) return;
+    autoReviewed.current = true;
+    startReview(params.review, cards);
+  }, [cards, params.review, startReview]);
+
+  const openForm = () => {
+    setDeckName(params.deck?.trim() ?? '');
+    setSource('');
+    setError('');
+    setNotice('');
+    setFormVisible(true);
+  };
+
+  const closeForm = () => {
+    setFormVisible(false);
+    setError('');
+  };
+
+  const onSave = async () => {
+    if (!user?.id || saving) return;
+    setSaving(true);
+    setError('');
+    try {
+      const created = await createFlashcards(user.id, {
+        deck: deckName,
+        resourceId: params.resourceId ?? null,
+        cards: drafts,
+      });
+      closeForm();
+      setNotice(created.length > 0 ? t('flashcards.created', { count: created.length }) : t('flashcards.nothingNew'));
+      await load();
+    } catch (err) {
+      setError(getErrorMessage(err, t('flashcards.saveError')));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onDeleteDeck = (deck: string) => {
+    if (!user?.id) return;
+    const userId = user.id;
+    Alert.alert(t('flashcards.deleteTitle'), t('flashcards.deleteMessage', { deck }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('flashcards.delete'),
+        style: 'destructive',
+        onPress: () => {
+          void (async () => {
+            await deleteFlashcardDeck(deck, userId);
+            await load();
+          })();
+        },
+      },
+    ]);
+  };
+
+  const onFlip = () => {
+    Animated.spring(flip, { toValue: flipped ? 0 : 1, friction: 8, tension: 60, useNativeDriver: true }).start();
+    setFlipped((value) => !value);
+  };
+
+  // A forgotten card goes back to the end of the queue so it is seen again before the run ends.
+  const onGrade = async (grade: ReviewGrade) => {
+    if (!user?.id || !run || !current || grading) return;
+    setGrading(true);
+    try {
+      const updated = await recordFlashcardReview(user.id, current.id, grade);
+      const rest = run.queue.slice(1);
+      setRun({ ...run, queue: grade === 'again' ? [...rest, updated] : rest, reviewed: run.reviewed + 1 });
+      resetFlip();
+      await load();
+    } catch (err) {
+      Alert.alert(t('common.genericError'), getErrorMessage(err, t('flashcards.reviewError')));
+    } finally {
+      setGrading(false);
+    }
+  };
+
+  const frontRotation = flip.interpolate({ inputRange: [0, 1], outputRange: ['0deg', '180deg'] });
+  const backRotation = flip.interpolate({ inputRange: [0, 1], outputRange: ['180deg', '360deg'] });
+
+  const renderReview = (review: ReviewRun) => (
+    <View style={styles.section}>
+      <View style={styles.reviewHeader}>
+        <Text style={styles.sectionTitle} numberOfLines={1}>
+          {review.deck}
+        </Text>
+        <Text style={styles.metaText}>{t('flashcards.remaining', { count: review.queue.length })}</Text>
+      </View>
+
+      {current ? (
+        <>
+          <TouchableOpacity activeOpacity={0.9} onPress={onFlip} style={styles.flipArea}>
+            <Animated.View style={[styles.face, { transform: [{ perspective: 1000 }, { rotateY: frontRotation }] }]}>
+              <Text style={styles.faceLabel}>{t('flashcards.front')}</Text>
+              <Text style={styles.faceText}>{current.front}</Text>
+              <Text style={styles.faceHint}>{t('flashcards.tapToFlip')}</Text>
+            </Animated.View>
+            <Animated.View
+              style={[
+                styles.face,
+                styles.faceBack,
+                { transform: [{ perspective: 1000 }, { rotateY: backRotation }] },
+              ]}>
+              <Text style={styles.faceLabel}>{t('flashcards.back')}</Text>
+              <Text style={styles.faceText}>{current.back}</Text>
+            </Animated.View>
+          </TouchableOpacity>
+
+          {flipped ? (
+            <View style={styles.gradeRow}>
+              {REVIEW_GRADES.map((grade) => (
+                <TouchableOpacity
+                  key={grade}
+                  style={[styles.gradeBtn, grading && styles.actionDisabled]}
+                  disabled={grading}
+                  onPress={() => void onGrade(grade)}>
+                  <Text style={styles.gradeLabel}>{t(`resourceDetail.reviewGrade.${grade}`)}</Text>
+                  <Text style={styles.metaText}>
+                    {t('resourceDetail.reviewInterval', { days: previewReviewInterval(current, grade) })}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.actionBtn} onPress={onFlip}>
+              <Text style={[styles.actionText, styles.centerText]}>{t('flashcards.showAnswer')}</Text>
+            </TouchableOpacity>
+          )}
+        </>
+      ) : (
+        <StateBlock
+          variant="empty"
+          title={t('flashcards.doneTitle')}
+          description={
+            review.reviewed > 0
+              ? t('flashcards.doneDescription', { count: review.reviewed })
+              : t('flashcards.nothingDue')
+          }
+          actionLabel={t('flashcards.backToDecks')}
+          onActionPress={() => setRun(null)}
+        />
+      )}
+
+      {current ? (
+        <TouchableOpacity style={[styles.actionBtn, styles.actionBtnGhost]} onPress={() => setRun(null)}>
+          <Text style={[styles.actionGhostText, styles.centerText]}>{t('flashcards.stopReview')}</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+
+  const renderForm = () => (
+    <View style={styles.formCard}>
+      <Text style={styles.formTitle}>{t('flashcards.createTitle')}</Text>
+
+      <Text style={styles.label}>{t('flashcards.fieldDeck')}</Text>
+      <TextInput
+        style={styles.input}
+        value={deckName}
+        onChangeText={setDeckName}
+        placeholder={t('flashcards.deckPlaceholder')}
+        placeholderTextColor={colors.textMuted}
+        maxLength={80}
+      />
+
+      <Text style={styles.label}>{t('flashcards.fieldCards')}</Text>
+      <TextInput
+        style={[styles.input, styles.multiline]}
+        value={source}
+        onChangeText={setSource}
+        placeholder={t('flashcards.cardsPlaceholder')}
+        placeholderTextColor={colors.textMuted}
+        multiline
+      />
+      <Text style={styles.hint}>{t('flashcards.parsedCount', { count: drafts.length })}</Text>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      <View style={styles.actionsRow}>
+        <TouchableOpacity style={[styles.actionBtn, styles.actionBtnGhost]} onPress={closeForm}>
+          <Text style={styles.actionGhostText}>{t('common.cancel')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionBtn, saving && styles.actionDisabled]}
+          disabled={saving}
+          onPress={() => void onSave()}>
+          <Text style={styles.actionText}>{t('flashcards.save')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.page}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={18} color={colors.text} />
+          <Text style={styles.backText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <View style={styles.headerRow}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{t('flashcards.title')}</Text>
+            <Text style={styles.subtitle}>{t('flashcards.subtitle')}</Text>
+          </View>
+          {!run ? (
+            <TouchableOpacity style={styles.addBtn} onPress={openForm}>
+              <Ionicons name="add" size={22} color="#FFFFFF" />
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled">
+        {notice ? <Text style={styles.notice}>{notice}</Text> : null}
+
+        {run ? renderReview(run) : null}
+
+        {!run && formVisible ? renderForm() : null}
+
+        {!run && decks.length === 0 && !formVisible ? (
+          <StateBlock
+            variant="empty"
+            title={t('flashcards.emptyTitle')}
+            description={t('flashcards.emptyDescription')}
+            actionLabel={t('flashcards.add')}
+            onActionPress={openForm}
+          />
+        ) : null}
+
+        {!run && decks.length > 0 ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('flashcards.decks')}</Text>
+            {decks.map((deck) => (
+              <View key={deck.name} style={styles.card}>
+                <View style={styles.cardMain}>
+                  <Text style={styles.cardTitle} numberOfLines={1}>
+                    {deck.name}
+                  </Text>
+                  <Text style={styles.metaText}>
+                    {t('flashcards.deckMeta', { due: deck.due, total: deck.total })}
+                  </Text>
+                  {deck.resourceId ? (
+                    <TouchableOpacity onPress={() => router.push(`/resource/${deck.resourceId}`)}>
+                      <Text style={styles.linkText}>{t('flashcards.openSource')}</Text>
+                    </TouchableOpacity>
+                  ) : null}
+                </View>
+                <View style={styles.cardActions}>
+                  <TouchableOpacity
+                    style={[styles.reviewBtn, deck.due === 0 && styles.actionDisabled]}
+                    disabled={deck.due === 0}
+                    onPress={() => startReview(deck.name, cards)}>
+                    <Ionicons name="play" size={14} color="#FFFFFF" />
+                    <Text style={styles.actionText}>{t('flashcards.review')}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.iconBtn} onPress={() => onDeleteDeck(deck.name)}>
+                    <Ionicons name="trash-outline" size={18} color={colors.danger} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+          </View>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
+  StyleSheet.create({
+    page: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      paddingHorizontal: 16,
+      paddingTop: 56,
+      paddingBottom: 12,
+    },
+    backBtn: {
+      alignSelf: 'flex-start',
+      flexDirection: 'row',
+      alignItems: 'center',
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingHorizontal: 10,
+      paddingVertical: 7,
+      backgroundColor: colors.surface,
+      marginBottom: 14,
+    },
+    backText: {
+      color: colors.text,
+      fontWeight: '600',
+    },
+    headerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    headerText: {
+      flex: 1,
+    },
+    title: {
+      fontSize: 24,
+      color: colors.text,
+      fontWeight: '800',
+      marginBottom: 4,
+    },
+    subtitle: {
+      color: colors.textMuted,
+    },
+    addBtn: {
+      width: 42,
+      height: 42,
+      borderRadius: 14,
+      backgroundColor: colors.primary,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    content: {
+      paddingHorizontal: 16,
+      paddingTop: 6,
+      paddingBottom: 34,
+      gap: 12,
+    },
+    notice: {
+      color: colors.primary,
+      fontWeight: '600',
+      fontSize: 13,
+    },
+    section: {
+      gap: 8,
+    },
+    sectionTitle: {
+      flexShrink: 1,
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: '700',
+    },
+    card: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 12,
+      gap: 12,
+    },
+    cardMain: {
+      flex: 1,
+      gap: 3,
+    },
+    cardTitle: {
+      color: colors.text,
+      fontSize: 15,
+      fontWeight: '700',
+    },
+    metaText: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    linkText: {
+      color: colors.primary,
+      fontSize: 12,
+      fontWeight: '600',
+    },
+    cardActions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    reviewBtn: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      borderRadius: 10,
+      backgroundColor: colors.primary,
+      paddingHorizontal: 10,
+      paddingVertical: 7,
+    },
+    iconBtn: {
+      padding: 6,
+    },
+    reviewHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 8,
+    },
+    flipArea: {
+      minHeight: 220,
+    },
+    face: {
+      position: 'absolute',
+      top: 0,
+      right: 0,
+      bottom: 0,
+      left: 0,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      padding: 18,
+      justifyContent: 'center',
+      gap: 10,
+      backfaceVisibility: 'hidden',
+    },
+    faceBack: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primarySoft,
+    },
+    faceLabel: {
+      color: colors.textMuted,
+      fontSize: 11,
+      fontWeight: '700',
+      textTransform: 'uppercase',
+    },
+    faceText: {
+      color: colors.text,
+      fontSize: 18,
+      fontWeight: '700',
+      lineHeight: 25,
+    },
+    faceHint: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    gradeRow: {
+      flexDirection: 'row',
+      gap: 6,
+    },
+    gradeBtn: {
+      flex: 1,
+      alignItems: 'center',
+      gap: 2,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      paddingVertical: 8,
+    },
+    gradeLabel: {
+      color: colors.text,
+      fontWeight: '700',
+      fontSize: 13,
+    },
+    formCard: {
+      backgroundColor: colors.surface,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.primary,
+      padding: 14,
+    },
+    formTitle: {
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: '700',
+    },
+    label: {
+      fontWeight: '700',
+      color: colors.text,
+      marginBottom: 8,
+      marginTop: 10,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 12,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      color: colors.text,
+      backgroundColor: colors.background,
+    },
+    multiline: {
+      minHeight: 140,
+      textAlignVertical: 'top',
+    },
+    hint: {
+      color: colors.textMuted,
+      fontSize: 12,
+      marginTop: 8,
+    },
+    errorText: {
+      color: colors.danger,
+      fontSize: 12,
+      marginTop: 10,
+    },
+    actionsRow: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      gap: 8,
+      marginTop: 14,
+    },
+    actionBtn: {
+      borderRadius: 10,
+      backgroundColor: colors.primary,
+      paddingHorizontal: 14,
+      paddingVertical: 9,
+    },
+    actionBtnGhost: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    actionDisabled: {
+      opacity: 0.5,
+    },
+    actionText: {
+      color: '#FFFFFF',
+      fontWeight: '700',
+    },
+    actionGhostText: {
+      color: colors.text,
+      fontWeight: '700',
+    },
+    centerText: {
+      textAlign: 'center',
+    },
+  });
@@ -14,11 +14,14 @@ import { useAppTheme } from '@/hooks/use-app-theme';
 import { useI18n } from '@/hooks/use-i18n';
 import { recordFocusSession } from '@/lib/focus-stats';
 import { fetchTasks, getCachedTasks } from '@/lib/student-api';
+import { getStudySchedulePlanById, logFocusOnStudySession } from '@/lib/study-schedule';
 import { useAuth } from '@/providers/auth-provider';
 import { useInAppNotification } from '@/providers/notification-provider';
+import type { StudyScheduleSession } from '@/types/study-schedule';
 import type { Task } from '@/types/supabase';
 
-const FOCUS_SECONDS = 25 * 60;
+const FOCUS_MINUTES = 25;
+const FOCUS_SECONDS = FOCUS_MINUTES * 60;
 const BREAK_SECONDS = 5 * 60;
 
 function formatClock(value: number): string {
@@ -32,7 +35,11 @@ export default function FocusScreen() {
   const { colors, cardShadow } = useAppTheme();
   const { t } = useI18n();
   const { user } = useAuth();
-  const { taskId } = useLocalSearchParams<{ taskId?: string }>();
+  const { taskId, scheduleId, sessionId } = useLocalSearchParams<{
+    taskId?: string;
+    scheduleId?: string;
+    sessionId?: string;
+  }>();
   const { showNotification, addActivityNotification } = useInAppNotification();
   const styles = useMemo(() => createStyles(colors, cardShadow), [cardShadow, colors]);
 
@@ -43,6 +50,14 @@ export default function FocusScreen() {
   const [secondsLeft, setSecondsLeft] = useState(FOCUS_SECONDS);
   const [isRunning, setIsRunning] = useState(false);
   const [completedFocusSessions, setCompletedFocusSessions] = useState(0);
+  const [linkedSession, setLinkedSession] = useState<StudyScheduleSession | null>(null);
+
+  useEffect(() => {
+    if (!user?.id || !scheduleId || !sessionId) return;
+    void getStudySchedulePlanById(user.id, scheduleId).then((plan) => {
+      setLinkedSession(plan?.sessions.find((session) => session.id === sessionId) ?? null);
+    });
+  }, [scheduleId, sessionId, user?.id]);
 
   useEffect(() => {
     let active = true;
@@ -99,12 +114,17 @@ export default function FocusScreen() {
     if (!user?.id) return;
 
     if (phase === 'focus') {
-      await recordFocusSession(user.id, 25);
+      await recordFocusSession(user.id, FOCUS_MINUTES);
       setCompletedFocusSessions((prev) => prev + 1);
 
+      const loggedPlan =
+        scheduleId && linkedSession
+          ? await logFocusOnStudySession(user.id, scheduleId, linkedSession.id, FOCUS_MINUTES)
+          : null;
+
       showNotification({
         title: t('focus.focusDoneTitle'),
-        message: t('focus.focusDoneMessage'),
+        message: loggedPlan ? t('focus.sessionLoggedMessage') : t('focus.focusDoneMessage'),
         variant: 'success',
       });
 
@@ -131,7 +151,7 @@ export default function FocusScreen() {
     setPhase('focus');
     setSecondsLeft(FOCUS_SECONDS);
     setIsRunning(false);
-  }, [addActivityNotification, phase, selectedTask, showNotification, t, user?.id]);
+  }, [addActivityNotification, linkedSession, phase, scheduleId, selectedTask, showNotification, t, user?.id]);
 
   useEffect(() => {
     if (!isRunning) return;
@@ -174,6 +194,14 @@ export default function FocusScreen() {
 
         <Text style={styles.title}>{t('focus.title')}</Text>
         <Text style={styles.subtitle}>{t('focus.subtitle')}</Text>
+        {linkedSession ? (
+          <View style={styles.linkedRow}>
+            <Ionicons name="calendar-outline" size={14} color={colors.primary} />
+            <Text style={styles.linkedText} numberOfLines={2}>
+              {t('focus.linkedSession', { focus: linkedSession.focus })}
+            </Text>
+          </View>
+        ) : null}
 
         <View style={styles.timerCard}>
           <Text style={styles.phaseLabel}>{phaseTitle}</Text>
@@ -277,6 +305,17 @@ const createStyles = (
       color: colors.textMuted,
       marginBottom: 12,
     },
+    linkedRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      marginBottom: 12,
+    },
+    linkedText: {
+      flex: 1,
+      color: colors.primary,
+      fontWeight: '700',
+    },
     timerCard: {
       borderRadius: 16,
       borderWidth: 1,
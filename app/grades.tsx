@@ -0,0 +1,773 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { StateBlock } from '@/components/ui/state-block';
+import { useAppTheme } from '@/hooks/use-app-theme';
+import { useI18n } from '@/hooks/use-i18n';
+import { COURSE_COLORS, createCourse, getCachedCourses, normalizeCoefficient } from '@/lib/courses';
+import { getErrorMessage } from '@/lib/errors';
+import { formatDateLabel, toIsoDate } from '@/lib/format';
+import {
+  GRADE_SCALE,
+  buildCourseGrades,
+  buildTermGrades,
+  computeCoefficientAverage,
+  createAssessment,
+  deleteAssessment,
+  formatGrade,
+  getCachedAssessments,
+  parseGradeNumber,
+  updateAssessment,
+} from '@/lib/grades';
+import type { CourseGrade } from '@/lib/grades';
+import { useAuth } from '@/providers/auth-provider';
+import { useOfflineSyncStatus } from '@/providers/offline-sync-provider';
+import type { Assessment, Course } from '@/types/supabase';
+
+const TARGET_OPTIONS = [10, 12, 14, 16];
+
+type AssessmentForm = {
+  courseId: string;
+  assessmentId: string | null;
+  title: string;
+  score: string;
+  maxScore: string;
+  weight: string;
+  date: string;
+};
+
+function toForm(courseId: string, assessment: Assessment | null): AssessmentForm {
+  return {
+    courseId,
+    assessmentId: assessment?.id ?? null,
+    title: assessment?.title ?? '',
+    score: assessment?.score !== null && assessment?.score !== undefined ? String(assessment.score) : '',
+    maxScore: String(assessment?.max_score ?? GRADE_SCALE),
+    weight: String(assessment?.weight ?? 1),
+    date: assessment?.date ?? toIsoDate(),
+  };
+}
+
+export default function GradesScreen() {
+  const { colors } = useAppTheme();
+  const { t, locale } = useI18n();
+  const { user } = useAuth();
+  const { dataVersion } = useOfflineSyncStatus();
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [assessments, setAssessments] = useState<Assessment[]>([]);
+  const [target, setTarget] = useState(TARGET_OPTIONS[0]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [form, setForm] = useState<AssessmentForm | null>(null);
+  const [formError, setFormError] = useState('');
+  const [courseFormVisible, setCourseFormVisible] = useState(false);
+  const [courseName, setCourseName] = useState('');
+  const [courseCredits, setCourseCredits] = useState('');
+  const [saving, setSaving] = useState(false);
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const load = useCallback(async () => {
+    if (!user?.id) return;
+    const [nextCourses, nextAssessments] = await Promise.all([
+      getCachedCourses(user.id),
+      getCachedAssessments(user.id),
+    ]);
+    setCourses(nextCourses);
+    setAssessments(nextAssessments);
+  }, [user?.id]);
+
+  useEffect(() => {
+    void load();
+  }, [dataVersion, load]);
+
+  const courseGrades = useMemo(() => buildCourseGrades(courses, assessments, target), [assessments, courses, target]);
+  const termGrades = useMemo(() => buildTermGrades(courseGrades), [courseGrades]);
+  const overallAverage = useMemo(() => computeCoefficientAverage(courseGrades), [courseGrades]);
+
+  const onCreateCourse = async () => {
+    if (!user?.id || saving || !courseName.trim()) return;
+    setSaving(true);
+    try {
+      await createCourse(user.id, {
+        name: courseName,
+        color: COURSE_COLORS[courses.length % COURSE_COLORS.length],
+        coefficient: normalizeCoefficient(courseCredits),
+      });
+      setCourseName('');
+      setCourseCredits('');
+      setCourseFormVisible(false);
+      await load();
+    } catch (err) {
+      Alert.alert(t('grades.title'), getErrorMessage(err, t('courses.saveError')));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onSaveAssessment = async () => {
+    if (!user?.id || !form || saving) return;
+    if (!form.title.trim()) {
+      setFormError(t('grades.requiredTitle'));
+      return;
+    }
+    const score = parseGradeNumber(form.score);
+    const maxScore = parseGradeNumber(form.maxScore) ?? GRADE_SCALE;
+    const weight = parseGradeNumber(form.weight) ?? 1;
+    if ((form.score.trim() && score === null) || maxScore <= 0 || weight <= 0) {
+      setFormError(t('grades.invalidNumbers'));
+      return;
+    }
+    if (score !== null && (score < 0 || score > maxScore)) {
+      setFormError(t('grades.invalidScore'));
+      return;
+    }
+    if (form.date && !/^\d{4}-\d{2}-\d{2}$/.test(form.date)) {
+      setFormError(t('grades.invalidDate'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const input = {
+        courseId: form.courseId,
+        title: form.title,
+        score,
+        maxScore,
+        weight,
+        date: form.date || null,
+      };
+      if (form.assessmentId) {
+        await updateAssessment(form.assessmentId, user.id, input);
+      } else {
+        await createAssessment(user.id, input);
+      }
+      setForm(null);
+      setFormError('');
+      await load();
+    } catch (err) {
+      setFormError(getErrorMessage(err, t('grades.saveError')));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onDeleteAssessment = (assessment: Assessment) => {
+    if (!user?.id) return;
+    const userId = user.id;
+    Alert.alert(t('grades.deleteTitle'), t('grades.deleteMessage', { title: assessment.title }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('courses.delete'),
+        style: 'destructive',
+        onPress: () => {
+          void (async () => {
+            await deleteAssessment(assessment.id, userId);
+            if (form?.assessmentId === assessment.id) setForm(null);
+            await load();
+          })();
+        },
+      },
+    ]);
+  };
+
+  const renderTrend = (trend: number | null) => {
+    if (trend === null || Math.abs(trend) < 0.01) return null;
+    const up = trend > 0;
+    return (
+      <View style={styles.trendRow}>
+        <Ionicons name={up ? 'trending-up' : 'trending-down'} size={14} color={up ? colors.success : colors.danger} />
+        <Text style={[styles.trendText, { color: up ? colors.success : colors.danger }]}>
+          {`${up ? '+' : ''}${formatGrade(trend, locale)}`}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderProjection = (grade: CourseGrade) => {
+    if (!grade.projection) {
+      return grade.average !== null && grade.average < target ? (
+        <Text style={[styles.projectionText, { color: colors.danger }]}>{t('grades.projectionBelow')}</Text>
+      ) : null;
+    }
+    const { status, requiredGrade } = grade.projection;
+    if (status === 'secured') {
+      return <Text style={[styles.projectionText, { color: colors.success }]}>{t('grades.projectionSecured')}</Text>;
+    }
+    return (
+      <Text style={[styles.projectionText, status === 'out_of_reach' && { color: colors.danger }]}>
+        {t(status === 'out_of_reach' ? 'grades.projectionOutOfReach' : 'grades.projectionNeeded', {
+          grade: formatGrade(requiredGrade, locale),
+          scale: GRADE_SCALE,
+          count: grade.remainingCount,
+        })}
+      </Text>
+    );
+  };
+
+  const renderForm = () => {
+    if (!form) return null;
+    return (
+      <View style={styles.formCard}>
+        <Text style={styles.label}>{t('grades.fieldTitle')}</Text>
+        <TextInput
+          style={styles.input}
+          value={form.title}
+          onChangeText={(title) => setForm((prev) => (prev ? { ...prev, title } : prev))}
+          placeholder={t('grades.titlePlaceholder')}
+          placeholderTextColor={colors.textMuted}
+          maxLength={80}
+        />
+        <View style={styles.inlineFields}>
+          <View style={styles.inlineField}>
+            <Text style={styles.label}>{t('grades.fieldScore')}</Text>
+            <TextInput
+              style={styles.input}
+              value={form.score}
+              onChangeText={(score) => setForm((prev) => (prev ? { ...prev, score } : prev))}
+              placeholder={t('grades.scorePlaceholder')}
+              placeholderTextColor={colors.textMuted}
+              keyboardType="decimal-pad"
+              maxLength={6}
+            />
+          </View>
+          <View style={styles.inlineField}>
+            <Text style={styles.label}>{t('grades.fieldMaxScore')}</Text>
+            <TextInput
+              style={styles.input}
+              value={form.maxScore}
+              onChangeText={(maxScore) => setForm((prev) => (prev ? { ...prev, maxScore } : prev))}
+              keyboardType="decimal-pad"
+              maxLength={6}
+            />
+          </View>
+          <View style={styles.inlineField}>
+            <Text style={styles.label}>{t('grades.fieldWeight')}</Text>
+            <TextInput
+              style={styles.input}
+              value={form.weight}
+              onChangeText={(weight) => setForm((prev) => (prev ? { ...prev, weight } : prev))}
+              keyboardType="decimal-pad"
+              maxLength={6}
+            />
+          </View>
+        </View>
+        <Text style={styles.label}>{t('grades.fieldDate')}</Text>
+        <TextInput
+          style={styles.input}
+          value={form.date}
+          onChangeText={(date) => setForm((prev) => (prev ? { ...prev, date } : prev))}
+          placeholder="YYYY-MM-DD"
+          placeholderTextColor={colors.textMuted}
+          maxLength={10}
+        />
+        <Text style={styles.hint}>{t('grades.upcomingHint')}</Text>
+
+        {formError ? <Text style={styles.errorText}>{formError}</Text> : null}
+
+        <View style={styles.actionsRow}>
+          <TouchableOpacity
+            style={[styles.actionBtn, styles.actionBtnGhost]}
+            onPress={() => {
+              setForm(null);
+              setFormError('');
+            }}>
+            <Text style={styles.actionGhostText}>{t('common.cancel')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionBtn, saving && styles.actionDisabled]}
+            disabled={saving}
+            onPress={() => void onSaveAssessment()}>
+            <Text style={styles.actionText}>{t('courses.save')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderCourse = (grade: CourseGrade) => {
+    const expanded = expandedId === grade.course.id;
+    return (
+      <View key={grade.course.id} style={styles.card}>
+        <TouchableOpacity
+          style={styles.cardHead}
+          onPress={() => setExpandedId((prev) => (prev === grade.course.id ? null : grade.course.id))}>
+          <View style={[styles.colorBar, { backgroundColor: grade.course.color }]} />
+          <View style={styles.cardMain}>
+            <Text style={styles.cardTitle} numberOfLines={1}>
+              {grade.course.name}
+            </Text>
+            <Text style={styles.metaText}>
+              {t('grades.courseMeta', {
+                count: grade.gradedCount,
+                credits: grade.course.coefficient ?? 1,
+              })}
+            </Text>
+            {renderProjection(grade)}
+          </View>
+          <View style={styles.averageWrap}>
+            <Text
+              style={[
+                styles.averageValue,
+                grade.average !== null && grade.average < target && { color: colors.danger },
+              ]}>
+              {grade.average !== null ? formatGrade(grade.average, locale) : '-'}
+            </Text>
+            <Text style={styles.averageScale}>{`/${GRADE_SCALE}`}</Text>
+            {renderTrend(grade.trend)}
+          </View>
+        </TouchableOpacity>
+
+        {expanded ? (
+          <View style={styles.assessmentList}>
+            {grade.assessments.map((assessment) =>
+              form?.assessmentId === assessment.id ? (
+                <React.Fragment key={assessment.id}>{renderForm()}</React.Fragment>
+              ) : (
+                <TouchableOpacity
+                  key={assessment.id}
+                  style={styles.assessmentRow}
+                  onPress={() => {
+                    setFormError('');
+                    setForm(toForm(grade.course.id, assessment));
+                  }}>
+                  <View style={styles.cardMain}>
+                    <Text style={styles.assessmentTitle} numberOfLines={1}>
+                      {assessment.title}
+                    </Text>
+                    <Text style={styles.metaText}>
+                      {`${formatDateLabel(assessment.date, locale, t('common.noDate'))} · ${t('grades.weight', {
+                        weight: formatGrade(assessment.weight, locale),
+                      })}`}
+                    </Text>
+                  </View>
+                  <Text style={[styles.assessmentScore, assessment.score === null && styles.assessmentUpcoming]}>
+                    {assessment.score !== null
+                      ? `${formatGrade(assessment.score, locale)}/${formatGrade(assessment.max_score, locale)}`
+                      : t('grades.upcoming')}
+                  </Text>
+                  <TouchableOpacity style={styles.iconBtn} onPress={() => onDeleteAssessment(assessment)}>
+                    <Ionicons name="trash-outline" size={16} color={colors.danger} />
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              )
+            )}
+            {form && !form.assessmentId && form.courseId === grade.course.id ? (
+              renderForm()
+            ) : (
+              <TouchableOpacity
+                style={styles.addAssessmentBtn}
+                onPress={() => {
+                  setFormError('');
+                  setForm(toForm(grade.course.id, null));
+                }}>
+                <Ionicons name="add" size={16} color={colors.primary} />
+                <Text style={styles.addAssessmentText}>{t('grades.addAssessment')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.page}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={18} color={colors.text} />
+          <Text style={styles.backText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('grades.title')}</Text>
+        <Text style={styles.subtitle}>{t('grades.subtitle')}</Text>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled">
+        <View style={styles.summaryCard}>
+          <View style={styles.cardMain}>
+            <Text style={styles.summaryLabel}>{t('grades.overall')}</Text>
+            <Text style={styles.summaryValue}>
+              {overallAverage !== null ? `${formatGrade(overallAverage, locale)}/${GRADE_SCALE}` : '-'}
+            </Text>
+          </View>
+          <View>
+            <Text style={styles.summaryLabel}>{t('grades.target')}</Text>
+            <View style={styles.targetRow}>
+              {TARGET_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.targetChip, target === option && styles.targetChipActive]}
+                  onPress={() => setTarget(option)}>
+                  <Text style={[styles.targetText, target === option && styles.targetTextActive]}>{option}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        </View>
+
+        {courses.length === 0 && !courseFormVisible ? (
+          <StateBlock
+            variant="empty"
+            title={t('grades.emptyTitle')}
+            description={t('grades.emptyDescription')}
+            actionLabel={t('courses.add')}
+            onActionPress={() => setCourseFormVisible(true)}
+          />
+        ) : null}
+
+        {termGrades.map((term) => (
+          <View key={term.term ?? 'none'} style={styles.termSection}>
+            <View style={styles.termHead}>
+              <Text style={styles.sectionTitle}>{term.term ?? t('grades.noTerm')}</Text>
+              <Text style={styles.termMeta}>
+                {t('grades.termMeta', {
+                  average: term.average !== null ? `${formatGrade(term.average, locale)}/${GRADE_SCALE}` : '-',
+                  credits: formatGrade(term.credits, locale),
+                })}
+              </Text>
+            </View>
+            {term.courses.map(renderCourse)}
+          </View>
+        ))}
+
+        {courseFormVisible ? (
+          <View style={styles.formCard}>
+            <View style={styles.inlineFields}>
+              <View style={[styles.inlineField, styles.inlineFieldWide]}>
+                <Text style={styles.label}>{t('courses.fieldName')}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={courseName}
+                  onChangeText={setCourseName}
+                  placeholder={t('courses.namePlaceholder')}
+                  placeholderTextColor={colors.textMuted}
+                  maxLength={60}
+                />
+              </View>
+              <View style={styles.inlineField}>
+                <Text style={styles.label}>{t('grades.fieldCredits')}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={courseCredits}
+                  onChangeText={setCourseCredits}
+                  placeholder="1"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="decimal-pad"
+                  maxLength={6}
+                />
+              </View>
+            </View>
+            <View style={styles.actionsRow}>
+              <TouchableOpacity
+                style={[styles.actionBtn, styles.actionBtnGhost]}
+                onPress={() => setCourseFormVisible(false)}>
+                <Text style={styles.actionGhostText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionBtn, (saving || !courseName.trim()) && styles.actionDisabled]}
+                disabled={saving || !courseName.trim()}
+                onPress={() => void onCreateCourse()}>
+                <Text style={styles.actionText}>{t('courses.save')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : courses.length > 0 ? (
+          <View style={styles.footerRow}>
+            <TouchableOpacity style={styles.addAssessmentBtn} onPress={() => setCourseFormVisible(true)}>
+              <Ionicons name="add" size={16} color={colors.primary} />
+              <Text style={styles.addAssessmentText}>{t('courses.add')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.addAssessmentBtn} onPress={() => router.push('/courses')}>
+              <Ionicons name="settings-outline" size={14} color={colors.primary} />
+              <Text style={styles.addAssessmentText}>{t('courses.manage')}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
+  StyleSheet.create({
+    page: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      paddingHorizontal: 16,
+      paddingTop: 56,
+      paddingBottom: 12,
+    },
+    backBtn: {
+      alignSelf: 'flex-start',
+      flexDirection: 'row',
+      alignItems: 'center',
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingHorizontal: 10,
+      paddingVertical: 7,
+      backgroundColor: colors.surface,
+      marginBottom: 14,
+    },
+    backText: {
+      color: colors.text,
+      fontWeight: '600',
+    },
+    title: {
+      fontSize: 24,
+      color: colors.text,
+      fontWeight: '800',
+      marginBottom: 4,
+    },
+    subtitle: {
+      color: colors.textMuted,
+    },
+    content: {
+      paddingHorizontal: 16,
+      paddingTop: 6,
+      paddingBottom: 34,
+      gap: 12,
+    },
+    summaryCard: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      backgroundColor: colors.surface,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 14,
+    },
+    summaryLabel: {
+      color: colors.textMuted,
+      fontSize: 12,
+      fontWeight: '600',
+      marginBottom: 4,
+    },
+    summaryValue: {
+      color: colors.primary,
+      fontSize: 26,
+      fontWeight: '800',
+    },
+    targetRow: {
+      flexDirection: 'row',
+      gap: 6,
+    },
+    targetChip: {
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingHorizontal: 10,
+      paddingVertical: 5,
+    },
+    targetChipActive: {
+      backgroundColor: colors.primarySoft,
+      borderColor: colors.primary,
+    },
+    targetText: {
+      color: colors.textMuted,
+      fontWeight: '700',
+      fontSize: 12,
+    },
+    targetTextActive: {
+      color: colors.primary,
+    },
+    termSection: {
+      gap: 8,
+    },
+    termHead: {
+      flexDirection: 'row',
+      alignItems: 'baseline',
+      justifyContent: 'space-between',
+      gap: 8,
+    },
+    sectionTitle: {
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: '700',
+    },
+    termMeta: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 12,
+    },
+    cardHead: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    colorBar: {
+      width: 6,
+      alignSelf: 'stretch',
+      borderRadius: 3,
+    },
+    cardMain: {
+      flex: 1,
+      gap: 3,
+    },
+    cardTitle: {
+      color: colors.text,
+      fontSize: 15,
+      fontWeight: '700',
+    },
+    metaText: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    projectionText: {
+      color: colors.text,
+      fontSize: 12,
+      fontWeight: '600',
+    },
+    averageWrap: {
+      alignItems: 'flex-end',
+    },
+    averageValue: {
+      color: colors.text,
+      fontSize: 20,
+      fontWeight: '800',
+    },
+    averageScale: {
+      color: colors.textMuted,
+      fontSize: 11,
+    },
+    trendRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 2,
+      marginTop: 2,
+    },
+    trendText: {
+      fontSize: 11,
+      fontWeight: '700',
+    },
+    assessmentList: {
+      marginTop: 12,
+      gap: 8,
+    },
+    assessmentRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+      paddingTop: 8,
+    },
+    assessmentTitle: {
+      color: colors.text,
+      fontWeight: '600',
+    },
+    assessmentScore: {
+      color: colors.text,
+      fontWeight: '700',
+    },
+    assessmentUpcoming: {
+      color: colors.textMuted,
+      fontStyle: 'italic',
+    },
+    iconBtn: {
+      padding: 4,
+    },
+    addAssessmentBtn: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      alignSelf: 'flex-start',
+      gap: 4,
+      borderRadius: 999,
+      paddingHorizontal: 12,
+      paddingVertical: 7,
+      borderWidth: 1,
+      borderStyle: 'dashed',
+      borderColor: colors.primary,
+    },
+    addAssessmentText: {
+      color: colors.primary,
+      fontWeight: '600',
+      fontSize: 13,
+    },
+    footerRow: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    formCard: {
+      backgroundColor: colors.surface,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.primary,
+      padding: 12,
+    },
+    label: {
+      fontWeight: '700',
+      color: colors.text,
+      marginBottom: 6,
+      marginTop: 8,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 12,
+      paddingHorizontal: 12,
+      paddingVertical: 9,
+      color: colors.text,
+      backgroundColor: colors.background,
+    },
+    inlineFields: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    inlineField: {
+      flex: 1,
+    },
+    inlineFieldWide: {
+      flex: 2,
+    },
+    hint: {
+      color: colors.textMuted,
+      fontSize: 12,
+      marginTop: 8,
+    },
+    errorText: {
+      color: colors.danger,
+      fontSize: 12,
+      marginTop: 8,
+    },
+    actionsRow: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      gap: 8,
+      marginTop: 12,
+    },
+    actionBtn: {
+      borderRadius: 10,
+      backgroundColor: colors.primary,
+      paddingHorizontal: 14,
+      paddingVertical: 9,
+    },
+    actionBtnGhost: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    actionDisabled: {
+      opacity: 0.5,
+    },
+    actionText: {
+      color: '#FFFFFF',
+      fontWeight: '700',
+    },
+    actionGhostText: {
+      color: colors.text,
+      fontWeight: '700',
+    },
+  });
@@ -18,10 +18,12 @@ import {
   View,
 } from 'react-native';
 
+import { CoursePicker } from '@/components/ui/course-chips';
 import { Toast } from '@/components/ui/toast';
 import { useAppTheme } from '@/hooks/use-app-theme';
 import { useI18n } from '@/hooks/use-i18n';
 import { summarizeText } from '@/lib/ai-assistant';
+import { getCachedCourses } from '@/lib/courses';
 import { getErrorMessage } from '@/lib/errors';
 import {
   createResource,
@@ -31,6 +33,7 @@ import {
 } from '@/lib/student-api';
 import { useAuth } from '@/providers/auth-provider';
 import { useInAppNotification } from '@/providers/notification-provider';
+import type { Course } from '@/types/supabase';
 
 const types = ['note', 'link', 'file'] as const;
 type ResourceType = (typeof types)[number];
@@ -75,6 +78,8 @@ export default function ResourceEditorScreen() {
   const [content, setContent] = useState('');
   const [fileUrl, setFileUrl] = useState('');
   const [tags, setTags] = useState('revision, examen');
+  const [courseId, setCourseId] = useState<string | null>(null);
+  const [courses, setCourses] = useState<Course[]>([]);
   const [loading, setLoading] = useState(false);
   const [filePicking, setFilePicking] = useState(false);
   const [aiLoading, setAiLoading] = useState(false);
@@ -119,6 +124,11 @@ export default function ResourceEditorScreen() {
     setContent(nextValue);
   };
 
+  useEffect(() => {
+    if (!user?.id) return;
+    void getCachedCourses(user.id).then(setCourses);
+  }, [user?.id]);
+
   useEffect(() => {
     const run = async () => {
       if (!resourceId || !user?.id) return;
@@ -129,6 +139,7 @@ export default function ResourceEditorScreen() {
         content: string | null;
         file_url: string | null;
         tags: string[] | null;
+        course_id: string | null;
       }) => {
         setTitle(data.title);
         if (data.type === 'note' || data.type === 'link' || data.type === 'file') {
@@ -138,6 +149,7 @@ export default function ResourceEditorScreen() {
         setUndoStack([]);
         setFileUrl(data.file_url ?? '');
         setTags((data.tags ?? []).join(', '));
+        setCourseId(data.course_id ?? null);
       };
 
       try {
@@ -179,6 +191,7 @@ export default function ResourceEditorScreen() {
           content: content.trim() || null,
           file_url: fileUrl.trim() || null,
           tags: parsedTags,
+          course_id: courseId,
         });
       } else {
         const createdResource = await createResource({
@@ -188,6 +201,7 @@ export default function ResourceEditorScreen() {
           content,
           fileUrl,
           tags: parsedTags,
+          courseId,
         });
         try {
           await addActivityNotification({
@@ -516,6 +530,9 @@ export default function ResourceEditorScreen() {
             placeholderTextColor="#94A3B8"
           />
 
+          <Text style={styles.label}>{t('courses.field')}</Text>
+          <CoursePicker courses={courses} value={courseId} onChange={setCourseId} />
+
           {error ? <Text style={styles.errorText}>{error}</Text> : null}
 
           <TouchableOpacity
@@ -17,16 +17,28 @@ import {
 
 import { ResourceFileIcon } from '@/components/ui/resource-file-icon';
 import { StateBlock } from '@/components/ui/state-block';
+import { SyncConflictBanner } from '@/components/ui/sync-conflict-banner';
 import { useAppTheme } from '@/hooks/use-app-theme';
 import { useI18n } from '@/hooks/use-i18n';
 import { getErrorMessage } from '@/lib/errors';
-import { formatDateTimeLabel } from '@/lib/format';
+import { createFlashcards, parseFlashcards } from '@/lib/flashcards';
+import { formatDateLabel, formatDateTimeLabel, toIsoDate } from '@/lib/format';
 import { resolveResourceIconKind } from '@/lib/resource-icon';
 import { getResourceExternalUrl } from '@/lib/resource-open';
+import {
+  REVIEW_GRADES,
+  enrollResourceForReview,
+  getReviewItemForResource,
+  isReviewDue,
+  previewReviewInterval,
+  recordResourceReview,
+  unenrollResourceFromReview,
+} from '@/lib/reviews';
 import { duplicateResource, fetchResourceById, getCachedResourceById } from '@/lib/student-api';
 import { useAuth } from '@/providers/auth-provider';
 import { useInAppNotification } from '@/providers/notification-provider';
-import type { Resource } from '@/types/supabase';
+import { useOfflineSyncStatus } from '@/providers/offline-sync-provider';
+import type { Resource, ReviewGrade, ReviewItem } from '@/types/supabase';
 
 function getResourceTypeLabel(t: ReturnType<typeof useI18n>['t'], type: Resource['type']) {
   if (type === 'note') return t('resources.filterNote');
@@ -39,6 +51,7 @@ export default function ResourceDetailScreen() {
   const { colors } = useAppTheme();
   const { t, locale } = useI18n();
   const { user } = useAuth();
+  const { dataVersion } = useOfflineSyncStatus();
   const { showNotification, addActivityNotification } = useInAppNotification();
   const { id } = useLocalSearchParams<{ id: string }>();
   const [loading, setLoading] = useState(true);
@@ -48,6 +61,9 @@ export default function ResourceDetailScreen() {
   const [openingExternal, setOpeningExternal] = useState(false);
   const [copyingLink, setCopyingLink] = useState(false);
   const [duplicating, setDuplicating] = useState(false);
+  const [reviewItem, setReviewItem] = useState<ReviewItem | null>(null);
+  const [reviewBusy, setReviewBusy] = useState(false);
+  const [creatingFlashcards, setCreatingFlashcards] = useState(false);
   const styles = useMemo(() => createStyles(colors), [colors]);
 
   useEffect(() => {
@@ -65,6 +81,7 @@ export default function ResourceDetailScreen() {
         setError('');
 
         cachedResource = await getCachedResourceById(user.id, id);
+        setReviewItem(await getReviewItemForResource(user.id, id));
         if (cachedResource) {
           setResource(cachedResource);
           setLoading(false);
@@ -84,9 +101,18 @@ export default function ResourceDetailScreen() {
     void run();
   }, [id, t, user?.id]);
 
+  useEffect(() => {
+    if (dataVersion === 0 || !id || !user?.id) return;
+    void getCachedResourceById(user.id, id).then((next) => {
+      if (next) setResource(next);
+    });
+    void getReviewItemForResource(user.id, id).then(setReviewItem);
+  }, [dataVersion, id, user?.id]);
+
   const resourceKind = useMemo(() => (resource ? resolveResourceIconKind(resource) : 'file'), [resource]);
   const externalUrl = useMemo(() => (resource ? getResourceExternalUrl(resource) : null), [resource]);
   const contentValue = resource?.content?.trim() || '';
+  const flashcardDrafts = useMemo(() => parseFlashcards(contentValue), [contentValue]);
   const isImage = resourceKind === 'image';
 
   useEffect(() => {
@@ -194,6 +220,61 @@ export default function ResourceDetailScreen() {
     }
   };
 
+  const runReviewAction = async (action: () => Promise<ReviewItem | null>) => {
+    if (reviewBusy) return;
+    setReviewBusy(true);
+    try {
+      setReviewItem(await action());
+    } catch (err) {
+      Alert.alert(t('common.genericError'), getErrorMessage(err, t('resourceDetail.reviewError')));
+    } finally {
+      setReviewBusy(false);
+    }
+  };
+
+  const onEnrollReview = () => {
+    if (!resource || !user?.id) return;
+    void runReviewAction(() => enrollResourceForReview(user.id, resource.id));
+  };
+
+  const onGradeReview = (grade: ReviewGrade) => {
+    if (!resource || !user?.id) return;
+    void runReviewAction(() => recordResourceReview(user.id, resource.id, grade));
+  };
+
+  const onStopReview = () => {
+    if (!resource || !user?.id) return;
+    Alert.alert(t('resourceDetail.reviewStopTitle'), t('resourceDetail.reviewStopMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('resourceDetail.reviewStop'),
+        style: 'destructive',
+        onPress: () =>
+          void runReviewAction(async () => {
+            await unenrollResourceFromReview(user.id, resource.id);
+            return null;
+          }),
+      },
+    ]);
+  };
+
+  const reviewDue = reviewItem ? isReviewDue(reviewItem, toIsoDate()) : false;
+
+  const onCreateFlashcards = async () => {
+    if (!resource || !user?.id || creatingFlashcards) return;
+
+    setCreatingFlashcards(true);
+    try {
+      const deck = resource.title.trim().slice(0, 80);
+      await createFlashcards(user.id, { deck, resourceId: resource.id, cards: flashcardDrafts });
+      router.push(`/flashcards?review=${encodeURIComponent(deck)}`);
+    } catch (err) {
+      Alert.alert(t('common.genericError'), getErrorMessage(err, t('resourceDetail.flashcardsError')));
+    } finally {
+      setCreatingFlashcards(false);
+    }
+  };
+
   const openAiFeature = (featureId: 'quiz_generator' | 'simplify_document') => {
     if (!resource) return;
     const seed = [resource.title?.trim(), resource.content?.trim(), resource.file_url?.trim()]
@@ -201,7 +282,7 @@ export default function ResourceDetailScreen() {
       .join('\n')
       .slice(0, 900);
     const encodedSeed = encodeURIComponent(seed);
-    router.push(`/ai-toolbox?feature=${featureId}&autorun=1&seed=${encodedSeed}`);
+    router.push(`/ai-toolbox?feature=${featureId}&autorun=1&seed=${encodedSeed}&resourceId=${resource.id}`);
   };
 
   return (
@@ -242,6 +323,18 @@ export default function ResourceDetailScreen() {
           <>
             <Text style={styles.title}>{resource.title}</Text>
 
+            {user?.id ? (
+              <SyncConflictBanner
+                userId={user.id}
+                recordId={resource.id}
+                onResolved={() => {
+                  void getCachedResourceById(user.id, resource.id).then((next) => {
+                    if (next) setResource(next);
+                  });
+                }}
+              />
+            ) : null}
+
             <View style={styles.metaCard}>
               <View style={styles.metaHeader}>
                 <ResourceFileIcon resource={resource} size={42} />
@@ -286,6 +379,65 @@ export default function ResourceDetailScreen() {
               </TouchableOpacity>
             ) : null}
 
+            <View style={styles.reviewCard}>
+              <View style={styles.reviewHeader}>
+                <Ionicons name="repeat-outline" size={18} color={colors.primary} />
+                <Text style={styles.reviewTitle}>{t('resourceDetail.reviewTitle')}</Text>
+              </View>
+              {reviewItem ? (
+                <>
+                  <Text style={[styles.reviewDue, reviewDue && styles.reviewDueNow]}>
+                    {reviewDue
+                      ? t('resourceDetail.reviewDueNow')
+                      : t('resourceDetail.reviewNext', { date: formatDateLabel(reviewItem.due_date, locale) })}
+                  </Text>
+                  <Text style={styles.reviewMeta}>
+                    {t('resourceDetail.reviewStats', {
+                      count: reviewItem.history.length,
+                      days: reviewItem.interval_days,
+                      lapses: reviewItem.lapses,
+                    })}
+                  </Text>
+                  {reviewDue ? (
+                    <>
+                      <Text style={styles.reviewMeta}>{t('resourceDetail.reviewPrompt')}</Text>
+                      <View style={styles.gradeRow}>
+                        {REVIEW_GRADES.map((grade) => (
+                          <TouchableOpacity
+                            key={grade}
+                            style={[styles.gradeButton, reviewBusy && styles.actionDisabled]}
+                            onPress={() => onGradeReview(grade)}
+                            disabled={reviewBusy}>
+                            <Text style={styles.gradeLabel}>{t(`resourceDetail.reviewGrade.${grade}`)}</Text>
+                            <Text style={styles.gradeInterval}>
+                              {t('resourceDetail.reviewInterval', { days: previewReviewInterval(reviewItem, grade) })}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    </>
+                  ) : null}
+                  <TouchableOpacity style={styles.reviewLink} onPress={onStopReview} disabled={reviewBusy}>
+                    <Text style={styles.reviewLinkText}>{t('resourceDetail.reviewStop')}</Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <>
+                  <Text style={styles.reviewMeta}>{t('resourceDetail.reviewHint')}</Text>
+                  <TouchableOpacity
+                    style={[styles.reviewEnroll, reviewBusy && styles.actionDisabled]}
+                    onPress={onEnrollReview}
+                    disabled={reviewBusy}>
+                    {reviewBusy ? (
+                      <ActivityIndicator size="small" color="#FFFFFF" />
+                    ) : (
+                      <Text style={styles.openButtonText}>{t('resourceDetail.reviewEnroll')}</Text>
+                    )}
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+
             <Text style={styles.sectionTitle}>{t('resourceDetail.content')}</Text>
             <Text style={styles.body}>{contentValue || t('resourceDetail.noContent')}</Text>
             {resource.type === 'link' && externalUrl ? (
@@ -368,6 +520,18 @@ export default function ResourceDetailScreen() {
                 <Ionicons name="sparkles-outline" size={16} color={colors.text} />
                 <Text style={styles.shareButtonText}>{t('resourceDetail.aiSimplify')}</Text>
               </TouchableOpacity>
+
+              {flashcardDrafts.length > 0 ? (
+                <TouchableOpacity
+                  style={[styles.shareButton, creatingFlashcards && styles.actionDisabled]}
+                  disabled={creatingFlashcards}
+                  onPress={() => void onCreateFlashcards()}>
+                  <Ionicons name="albums-outline" size={16} color={colors.text} />
+                  <Text style={styles.shareButtonText}>
+                    {t('resourceDetail.createFlashcards', { count: flashcardDrafts.length })}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
             </View>
           </>
         ) : null}
@@ -555,6 +719,74 @@ const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
       color: colors.text,
       fontWeight: '700',
     },
+    reviewCard: {
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      padding: 14,
+      marginBottom: 16,
+      gap: 8,
+    },
+    reviewHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    reviewTitle: {
+      color: colors.text,
+      fontWeight: '700',
+      fontSize: 16,
+    },
+    reviewDue: {
+      color: colors.text,
+      fontWeight: '700',
+    },
+    reviewDueNow: {
+      color: colors.primary,
+    },
+    reviewMeta: {
+      color: colors.textMuted,
+      fontSize: 13,
+    },
+    gradeRow: {
+      flexDirection: 'row',
+      gap: 6,
+    },
+    gradeButton: {
+      flex: 1,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.background,
+      paddingVertical: 8,
+      alignItems: 'center',
+      gap: 2,
+    },
+    gradeLabel: {
+      color: colors.text,
+      fontWeight: '700',
+      fontSize: 13,
+    },
+    gradeInterval: {
+      color: colors.textMuted,
+      fontSize: 11,
+    },
+    reviewEnroll: {
+      alignSelf: 'flex-start',
+      borderRadius: 10,
+      backgroundColor: colors.primary,
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+    },
+    reviewLink: {
+      alignSelf: 'flex-start',
+    },
+    reviewLinkText: {
+      color: colors.textMuted,
+      fontWeight: '600',
+      textDecorationLine: 'underline',
+    },
     aiRow: {
       marginTop: 10,
       flexDirection: 'row',
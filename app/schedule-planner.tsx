@@ -17,20 +17,33 @@ import {
 import { useConnectivity } from '@/hooks/use-connectivity';
 import { useAppTheme } from '@/hooks/use-app-theme';
 import { useI18n } from '@/hooks/use-i18n';
+import { getCachedCourses, indexCoursesById } from '@/lib/courses';
 import { getErrorMessage } from '@/lib/errors';
 import { formatDateLabel, toIsoDate } from '@/lib/format';
+import { buildReviewSessions, getCachedReviewItems } from '@/lib/reviews';
 import { getCachedResources, getCachedTasks } from '@/lib/student-api';
 import {
+  STUDY_SCHEDULE_STRATEGIES,
+  applyStudyPlanReplan,
+  computeStudyAdherence,
   deleteStudySchedulePlan,
   generateAndSaveStudySchedule,
   getCachedStudySchedulePlans,
   getDefaultStudySchedulePreferences,
   getLatestStudySchedulePlan,
   getStudySchedulePlans,
+  getStudySessionStatus,
+  previewStudyPlanReplan,
+  rescheduleStudySession,
   resolveStudyPeriodEndDate,
+  setStudySessionStatus,
   togglePinStudySchedulePlan,
+  type StudyReplanPreview,
 } from '@/lib/study-schedule';
+import { formatMinutesDuration } from '@/lib/task-timing';
+import { getCachedTimetable, getEntriesInSlot } from '@/lib/timetable';
 import { useAuth } from '@/providers/auth-provider';
+import { useOfflineSyncStatus } from '@/providers/offline-sync-provider';
 import type {
   StudyDayKey,
   StudyPeriodPreset,
@@ -38,7 +51,9 @@ import type {
   StudySchedulePreferences,
   StudyScheduleSession,
   StudySlot,
+  TimetableEntry,
 } from '@/types/study-schedule';
+import type { ReviewItem } from '@/types/supabase';
 
 type LoadPreset = 'light' | 'balanced' | 'intensive';
 
@@ -46,6 +61,10 @@ const PERIODS: StudyPeriodPreset[] = ['year', 'semester', 'trimester', 'custom']
 const DAY_ORDER: StudyDayKey[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
 const SLOT_ORDER: StudySlot[] = ['morning', 'afternoon', 'evening'];
 
+const RESCHEDULE_OFFSETS = [1, 2, 7];
+const MAX_REPLAN_MOVES_SHOWN = 12;
+const REVIEW_WINDOW_DAYS = 7;
+
 const DAY_INDEX: Record<StudyDayKey, number> = {
   mon: 1,
   tue: 2,
@@ -74,6 +93,12 @@ function addDays(date: Date, days: number): Date {
   return next;
 }
 
+function getDayKeyOfIsoDate(value: string): StudyDayKey | null {
+  const date = parseIsoDate(value);
+  if (!date) return null;
+  return DAY_ORDER[(date.getUTCDay() + 6) % 7];
+}
+
 function toSlotIndex(slot: StudySlot): number {
   return SLOT_ORDER.indexOf(slot);
 }
@@ -105,6 +130,7 @@ function getWeekRange(startIso: string, endIso: string, weekIndex: number): { st
 
 export default function SchedulePlannerScreen() {
   const { user } = useAuth();
+  const { dataVersion } = useOfflineSyncStatus();
   const isOnline = useConnectivity();
   const { colors } = useAppTheme();
   const { t, locale } = useI18n();
@@ -112,6 +138,9 @@ export default function SchedulePlannerScreen() {
 
   const [tasks, setTasks] = useState<Awaited<ReturnType<typeof getCachedTasks>>>([]);
   const [resources, setResources] = useState<Awaited<ReturnType<typeof getCachedResources>>>([]);
+  const [courses, setCourses] = useState<Awaited<ReturnType<typeof getCachedCourses>>>([]);
+  const [timetable, setTimetable] = useState<TimetableEntry[]>([]);
+  const [reviewItems, setReviewItems] = useState<ReviewItem[]>([]);
   const [preferences, setPreferences] = useState<StudySchedulePreferences>(() => getDefaultStudySchedulePreferences());
   const [plan, setPlan] = useState<StudySchedulePlan | null>(null);
   const [history, setHistory] = useState<StudySchedulePlan[]>([]);
@@ -119,6 +148,8 @@ export default function SchedulePlannerScreen() {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
   const [selectedWeekIndex, setSelectedWeekIndex] = useState(0);
+  const [replanPreview, setReplanPreview] = useState<StudyReplanPreview | null>(null);
+  const [replanning, setReplanning] = useState(false);
 
   const isEditing = Boolean(plan?.id);
 
@@ -133,16 +164,23 @@ export default function SchedulePlannerScreen() {
     setError('');
 
     try {
-      const [cachedSchedules, latestPlan, cachedTasks, cachedResources] = await Promise.all([
-        getCachedStudySchedulePlans(user.id),
-        getLatestStudySchedulePlan(user.id),
-        getCachedTasks(user.id),
-        getCachedResources(user.id),
-      ]);
+      const [cachedSchedules, latestPlan, cachedTasks, cachedResources, cachedCourses, cachedTimetable, cachedReviews] =
+        await Promise.all([
+          getCachedStudySchedulePlans(user.id),
+          getLatestStudySchedulePlan(user.id),
+          getCachedTasks(user.id),
+          getCachedResources(user.id),
+          getCachedCourses(user.id),
+          getCachedTimetable(user.id),
+          getCachedReviewItems(user.id),
+        ]);
 
       setHistory(cachedSchedules);
       setTasks(cachedTasks);
       setResources(cachedResources);
+      setCourses(cachedCourses);
+      setTimetable(cachedTimetable);
+      setReviewItems(cachedReviews);
 
       if (latestPlan) {
         setPlan(latestPlan);
@@ -167,8 +205,20 @@ export default function SchedulePlannerScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user?.id]);
 
+  useEffect(() => {
+    if (dataVersion === 0 || !user?.id) return;
+    void getCachedStudySchedulePlans(user.id).then((plans) => {
+      setHistory(plans);
+      setPlan((previous) => (previous ? (plans.find((item) => item.id === previous.id) ?? previous) : previous));
+    });
+    void getCachedTimetable(user.id).then(setTimetable);
+    void getCachedCourses(user.id).then(setCourses);
+    void getCachedReviewItems(user.id).then(setReviewItems);
+  }, [dataVersion, user?.id]);
+
   useEffect(() => {
     setSelectedWeekIndex(0);
+    setReplanPreview(null);
   }, [plan?.id]);
 
   const updatePreferences = (next: Partial<StudySchedulePreferences>) => {
@@ -240,6 +290,7 @@ export default function SchedulePlannerScreen() {
         preferences,
         tasks,
         resources,
+        timetable,
         existingPlanId: plan?.id,
       });
       setPlan(nextPlan);
@@ -316,6 +367,9 @@ export default function SchedulePlannerScreen() {
       `${t('schedulePlanner.summarySessions')}: ${plan.summary.totalSessions}`,
       `${t('schedulePlanner.summaryHours')}: ${plan.summary.totalHours}`,
       `${t('schedulePlanner.summaryWeeks')}: ${plan.summary.totalWeeks}`,
+      ...(plan.summary.taskMinutes
+        ? [t('schedulePlanner.taskWorkload', { duration: formatMinutesDuration(plan.summary.taskMinutes, t) })]
+        : []),
       '',
       ...plan.sessions.slice(0, 120).map((session) => {
         return `- ${session.date} | ${dayLabel(session.day)} | ${slotLabel(session.slot)} | ${session.durationMinutes} min | ${session.focus}`;
@@ -346,7 +400,7 @@ export default function SchedulePlannerScreen() {
   const displayedDays = useMemo(() => {
     const source = plan?.preferences.selectedDays ?? preferences.selectedDays;
     const unique: StudyDayKey[] = [];
-    for (const day of source) {
+    for (const day of [...source, ...timetable.map((entry) => entry.weekday)]) {
       if (!DAY_ORDER.includes(day) || unique.includes(day)) continue;
       unique.push(day);
     }
@@ -354,7 +408,7 @@ export default function SchedulePlannerScreen() {
       return ['mon', 'tue', 'wed', 'thu', 'fri'] as StudyDayKey[];
     }
     return unique.sort((a, b) => DAY_INDEX[a] - DAY_INDEX[b]);
-  }, [plan?.preferences.selectedDays, preferences.selectedDays]);
+  }, [plan?.preferences.selectedDays, preferences.selectedDays, timetable]);
 
   const weeklySessions = useMemo(() => {
     if (!plan) return [] as StudyScheduleSession[][];
@@ -395,9 +449,54 @@ export default function SchedulePlannerScreen() {
     return getWeekRange(plan.summary.startDate, plan.summary.endDate, selectedWeekIndex);
   }, [plan, selectedWeekIndex]);
 
+  const coursesById = useMemo(() => indexCoursesById(courses), [courses]);
+
+  const weekDates = useMemo(() => {
+    const map = new Map<StudyDayKey, string>();
+    const start = currentWeekRange ? parseIsoDate(currentWeekRange.start) : null;
+    if (!start || !currentWeekRange) return map;
+    for (let offset = 0; offset < 7; offset += 1) {
+      const iso = addDays(start, offset).toISOString().slice(0, 10);
+      if (iso > currentWeekRange.end) break;
+      const day = getDayKeyOfIsoDate(iso);
+      if (day) map.set(day, iso);
+    }
+    return map;
+  }, [currentWeekRange]);
+
+  const getCellClasses = (day: StudyDayKey, slot: StudySlot): TimetableEntry[] => {
+    const date = weekDates.get(day);
+    return date ? getEntriesInSlot(timetable, date, slot) : [];
+  };
+
+  const describeClass = (entry: TimetableEntry): string => {
+    const course = entry.course_id ? coursesById.get(entry.course_id) : undefined;
+    return [course?.name ?? t(`timetable.kind.${entry.kind}`), entry.room].filter(Boolean).join(' · ');
+  };
+
+  const today = toIsoDate();
+  const planAdherence = useMemo(() => (plan ? computeStudyAdherence(plan.sessions, today) : null), [plan, today]);
+  const weeklyAdherence = useMemo(
+    () => weeklySessions.map((bucket) => computeStudyAdherence(bucket, today)),
+    [today, weeklySessions]
+  );
+  const currentWeekAdherence = weeklyAdherence[selectedWeekIndex] ?? null;
+
+  const reviewSessions = useMemo(
+    () =>
+      buildReviewSessions(
+        reviewItems,
+        new Map(resources.map((resource) => [resource.id, resource.title])),
+        today,
+        REVIEW_WINDOW_DAYS
+      ),
+    [resources, reviewItems, today]
+  );
+
   const sessionCellMap = useMemo(() => {
     const map = new Map<string, StudyScheduleSession[]>();
     for (const session of currentWeekSessions) {
+      if (getStudySessionStatus(session) === 'rescheduled') continue;
       const key = `${session.day}:${session.slot}`;
       const current = map.get(key) ?? [];
       current.push(session);
@@ -406,18 +505,118 @@ export default function SchedulePlannerScreen() {
     return map;
   }, [currentWeekSessions]);
 
+  const applySessionUpdate = async (update: Promise<StudySchedulePlan | null>) => {
+    if (!user?.id) return;
+    try {
+      const next = await update;
+      if (!next) return;
+      setPlan(next);
+      setHistory((previous) => previous.map((item) => (item.id === next.id ? next : item)));
+    } catch (err) {
+      setError(getErrorMessage(err, t('schedulePlanner.sessionUpdateError')));
+    }
+  };
+
+  const changeSessionStatus = (session: StudyScheduleSession, status: 'planned' | 'done' | 'skipped') => {
+    if (!user?.id || !plan) return;
+    void applySessionUpdate(
+      setStudySessionStatus({ userId: user.id, scheduleId: plan.id, sessionId: session.id, status })
+    );
+  };
+
+  const openReschedule = (session: StudyScheduleSession) => {
+    if (!user?.id || !plan) return;
+    const userId = user.id;
+    const scheduleId = plan.id;
+    const base = parseIsoDate(session.date < today ? today : session.date);
+    if (!base) return;
+    const choices = RESCHEDULE_OFFSETS.map((offset) => addDays(base, offset).toISOString().slice(0, 10)).filter(
+      (date) => date <= plan.summary.endDate
+    );
+    if (choices.length === 0) {
+      Alert.alert(t('schedulePlanner.rescheduleTitle'), t('schedulePlanner.rescheduleUnavailable'));
+      return;
+    }
+
+    Alert.alert(t('schedulePlanner.rescheduleTitle'), t('schedulePlanner.rescheduleMessage'), [
+      ...choices.map((date) => ({
+        text: formatDateLabel(date, locale, date),
+        onPress: () => {
+          void applySessionUpdate(rescheduleStudySession({ userId, scheduleId, sessionId: session.id, date }));
+        },
+      })),
+      { text: t('common.cancel'), style: 'cancel' as const },
+    ]);
+  };
+
+  const openReplan = () => {
+    if (!plan) return;
+    const preview = previewStudyPlanReplan(plan, { today, timetable });
+    if (preview.moves.length === 0 && preview.unplaced.length === 0) {
+      Alert.alert(t('schedulePlanner.replanTitle'), t('schedulePlanner.replanNothing'));
+      return;
+    }
+    setReplanPreview(preview);
+  };
+
+  const confirmReplan = async () => {
+    if (!user?.id || !replanPreview || replanning) return;
+    setReplanning(true);
+    setError('');
+    try {
+      const next = await applyStudyPlanReplan(user.id, replanPreview);
+      setPlan(next);
+      setHistory((previous) => previous.map((item) => (item.id === next.id ? next : item)));
+      setReplanPreview(null);
+    } catch (err) {
+      setError(getErrorMessage(err, t('schedulePlanner.replanError')));
+      setReplanPreview(null);
+    } finally {
+      setReplanning(false);
+    }
+  };
+
+  const describeSlot = (date: string, slot: StudySlot) => `${formatDateLabel(date, locale, date)} · ${slotLabel(slot)}`;
+
+  const startSessionFocus = (session: StudyScheduleSession) => {
+    if (!plan) return;
+    const params = [`scheduleId=${plan.id}`, `sessionId=${session.id}`];
+    if (session.taskId) params.push(`taskId=${session.taskId}`);
+    router.push(`/focus?${params.join('&')}`);
+  };
+
+  const describeSessionStatus = (session: StudyScheduleSession): { label: string; color: string } => {
+    const status = getStudySessionStatus(session);
+    if (status === 'done') return { label: t('schedulePlanner.sessionStatus.done'), color: colors.success };
+    if (status === 'skipped') return { label: t('schedulePlanner.sessionStatus.skipped'), color: colors.textMuted };
+    if (status === 'rescheduled') {
+      return {
+        label: t('schedulePlanner.rescheduledTo', {
+          date: formatDateLabel(session.rescheduledTo, locale, session.rescheduledTo ?? ''),
+        }),
+        color: colors.textMuted,
+      };
+    }
+    if (session.date < today) return { label: t('schedulePlanner.sessionStatus.late'), color: colors.warning };
+    return { label: t('schedulePlanner.sessionStatus.planned'), color: colors.primary };
+  };
+
   const tableMinWidth = 84 + displayedDays.length * 132;
 
   const openSessionDetails = (day: StudyDayKey, slot: StudySlot) => {
     const sessions = sessionCellMap.get(`${day}:${slot}`) ?? [];
-    if (!sessions.length) return;
-
-    const details = sessions
-      .map((session, index) => {
+    const classes = getCellClasses(day, slot);
+    if (!sessions.length && !classes.length) return;
+
+    const details = [
+      ...classes.map(
+        (entry) => `${entry.start_time} - ${entry.end_time}\n${describeClass(entry)}\n${t(`timetable.kind.${entry.kind}`)}`
+      ),
+      ...sessions.map((session, index) => {
         const formattedDate = formatDateLabel(session.date, locale, session.date);
         return `${index + 1}. ${formattedDate}\n${session.focus}\n${session.durationMinutes} min`;
-      })
-      .join('\n\n');
+      }),
+    ].join('\n\n');
 
     Alert.alert(t('schedulePlanner.sessionDetailTitle', { day: dayLabel(day), slot: slotLabel(slot) }), details);
   };
@@ -629,6 +828,39 @@ export default function SchedulePlannerScreen() {
                 })}
               </View>
 
+              <Text style={styles.label}>{t('schedulePlanner.fieldStrategy')}</Text>
+              <View style={styles.chipWrap}>
+                {STUDY_SCHEDULE_STRATEGIES.map((strategy) => {
+                  const active = (preferences.strategy ?? 'balanced') === strategy;
+                  return (
+                    <TouchableOpacity
+                      key={strategy}
+                      style={[styles.chip, active && styles.chipActive]}
+                      onPress={() => updatePreferences({ strategy })}>
+                      <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                        {t(`schedulePlanner.strategy.${strategy}`)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text style={styles.switchHint}>{t(`schedulePlanner.strategyHint.${preferences.strategy ?? 'balanced'}`)}</Text>
+
+              <View style={styles.timetableRow}>
+                <View style={styles.switchTextWrap}>
+                  <Text style={styles.switchTitle}>{t('schedulePlanner.timetableTitle')}</Text>
+                  <Text style={styles.switchHint}>
+                    {timetable.length > 0
+                      ? t('schedulePlanner.timetableCount', { count: timetable.length })
+                      : t('schedulePlanner.timetableEmpty')}
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.smallActionBtn} onPress={() => router.push('/timetable')}>
+                  <Ionicons name="calendar-outline" size={16} color={colors.text} />
+                  <Text style={styles.smallActionText}>{t('courses.manage')}</Text>
+                </TouchableOpacity>
+              </View>
+
               {error ? <Text style={styles.errorText}>{error}</Text> : null}
 
               <TouchableOpacity style={[styles.generateButton, saving && styles.disabled]} onPress={() => void handleSave()} disabled={saving}>
@@ -675,6 +907,85 @@ export default function SchedulePlannerScreen() {
                   </View>
                 </View>
 
+                {plan.summary.taskMinutes || plan.summary.skippedForClasses || plan.summary.deadlineGaps?.length ? (
+                  <View style={styles.workloadRow}>
+                    {plan.summary.taskMinutes ? (
+                      <Text style={styles.workloadText}>
+                        {t('schedulePlanner.taskWorkload', {
+                          duration: formatMinutesDuration(plan.summary.taskMinutes, t),
+                        })}
+                      </Text>
+                    ) : null}
+                    {plan.summary.uncoveredTaskMinutes ? (
+                      <Text style={styles.workloadWarning}>
+                        {t('schedulePlanner.taskWorkloadUncovered', {
+                          duration: formatMinutesDuration(plan.summary.uncoveredTaskMinutes, t),
+                        })}
+                      </Text>
+                    ) : null}
+                    {plan.summary.skippedForClasses ? (
+                      <Text style={styles.workloadWarning}>
+                        {t('schedulePlanner.skippedForClasses', { count: plan.summary.skippedForClasses })}
+                      </Text>
+                    ) : null}
+                    {plan.summary.extraSessions ? (
+                      <Text style={styles.workloadText}>
+                        {t('schedulePlanner.extraSessions', { count: plan.summary.extraSessions })}
+                      </Text>
+                    ) : null}
+                    {plan.summary.deadlineGaps?.map((gap) => (
+                      <Text key={gap.deadline} style={styles.workloadWarning}>
+                        {t('schedulePlanner.deadlineGap', {
+                          duration: formatMinutesDuration(gap.missingMinutes, t),
+                          date: formatDateLabel(gap.deadline, locale, gap.deadline),
+                          tasks: gap.taskIds
+                            .map((taskId) => tasks.find((task) => task.id === taskId)?.title)
+                            .filter(Boolean)
+                            .join(', '),
+                        })}
+                      </Text>
+                    ))}
+                  </View>
+                ) : null}
+
+                {planAdherence && planAdherence.due > 0 ? (
+                  <View style={styles.adherenceBlock}>
+                    <Text style={styles.workloadText}>
+                      {t('schedulePlanner.adherencePlan', {
+                        percent: planAdherence.percent ?? 0,
+                        done: planAdherence.done,
+                        due: planAdherence.due,
+                      })}
+                    </Text>
+                    {planAdherence.late > 0 ? (
+                      <Text style={styles.workloadWarning}>
+                        {t('schedulePlanner.lateSessions', { count: planAdherence.late })}
+                      </Text>
+                    ) : null}
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.adherenceRow}>
+                      {weeklyAdherence.map((week, index) =>
+                        week.percent === null ? null : (
+                          <TouchableOpacity
+                            key={`adherence-${index}`}
+                            style={[styles.adherenceChip, index === selectedWeekIndex && styles.adherenceChipActive]}
+                            onPress={() => setSelectedWeekIndex(index)}>
+                            <Text style={styles.adherenceChipLabel}>
+                              {t('schedulePlanner.weekShort', { count: index + 1 })}
+                            </Text>
+                            <Text
+                              style={[
+                                styles.adherenceChipValue,
+                                { color: week.percent >= 80 ? colors.success : week.percent >= 50 ? colors.warning : colors.danger },
+                              ]}>
+                              {`${week.percent}%`}
+                            </Text>
+                          </TouchableOpacity>
+                        )
+                      )}
+                    </ScrollView>
+                  </View>
+                ) : null}
+
                 <View style={styles.actionsRow}>
                   <TouchableOpacity style={styles.secondaryButton} onPress={() => void copyPlan()}>
                     <Ionicons name="copy-outline" size={16} color={colors.text} />
@@ -697,6 +1008,60 @@ export default function SchedulePlannerScreen() {
                   </TouchableOpacity>
                 </View>
 
+                <TouchableOpacity style={styles.secondaryButton} onPress={openReplan}>
+                  <Ionicons name="refresh-outline" size={16} color={colors.text} />
+                  <Text style={styles.secondaryButtonText}>{t('schedulePlanner.replanAction')}</Text>
+                </TouchableOpacity>
+
+                {replanPreview ? (
+                  <View style={styles.replanCard}>
+                    <Text style={styles.tableTitle}>{t('schedulePlanner.replanTitle')}</Text>
+                    <Text style={styles.workloadText}>
+                      {t('schedulePlanner.replanSummary', { count: replanPreview.moves.length })}
+                    </Text>
+                    {replanPreview.moves.slice(0, MAX_REPLAN_MOVES_SHOWN).map((move, index) => (
+                      <View key={`move-${index}`} style={styles.replanMove}>
+                        <View style={styles.historyMain}>
+                          <Text style={styles.sessionFocus} numberOfLines={1}>
+                            {move.focus}
+                          </Text>
+                          <Text style={styles.sessionTime}>
+                            {`${describeSlot(move.fromDate, move.fromSlot)} -> ${describeSlot(move.toDate, move.toSlot)}`}
+                          </Text>
+                        </View>
+                        {move.missed ? (
+                          <Text style={[styles.sessionStatus, { color: colors.warning, borderColor: colors.warning }]}>
+                            {t('schedulePlanner.replanMissed')}
+                          </Text>
+                        ) : null}
+                      </View>
+                    ))}
+                    {replanPreview.moves.length > MAX_REPLAN_MOVES_SHOWN ? (
+                      <Text style={styles.sessionTime}>
+                        {t('schedulePlanner.replanMore', {
+                          count: replanPreview.moves.length - MAX_REPLAN_MOVES_SHOWN,
+                        })}
+                      </Text>
+                    ) : null}
+                    {replanPreview.unplaced.length > 0 ? (
+                      <Text style={styles.workloadWarning}>
+                        {t('schedulePlanner.replanUnplaced', { count: replanPreview.unplaced.length })}
+                      </Text>
+                    ) : null}
+                    <View style={styles.actionsRow}>
+                      <TouchableOpacity style={styles.secondaryButton} onPress={() => setReplanPreview(null)}>
+                        <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.replanApply, (replanning || replanPreview.moves.length === 0) && styles.disabled]}
+                        disabled={replanning || replanPreview.moves.length === 0}
+                        onPress={() => void confirmReplan()}>
+                        <Text style={styles.generateButtonText}>{t('schedulePlanner.replanApply')}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                ) : null}
+
                 <Text style={styles.tableTitle}>{t('schedulePlanner.tableTitle')}</Text>
 
                 <View style={styles.weekNavRow}>
@@ -728,6 +1093,16 @@ export default function SchedulePlannerScreen() {
                   </TouchableOpacity>
                 </View>
 
+                {currentWeekAdherence && currentWeekAdherence.due > 0 ? (
+                  <Text style={styles.workloadText}>
+                    {t('schedulePlanner.adherenceWeek', {
+                      percent: currentWeekAdherence.percent ?? 0,
+                      actual: currentWeekAdherence.actualMinutes,
+                      planned: currentWeekAdherence.plannedMinutes,
+                    })}
+                  </Text>
+                ) : null}
+
                 <ScrollView horizontal showsHorizontalScrollIndicator={false}>
                   <View style={[styles.tableWrap, { minWidth: tableMinWidth }]}>
                     <View style={styles.tableHeaderRow}>
@@ -749,26 +1124,56 @@ export default function SchedulePlannerScreen() {
 
                         {displayedDays.map((day) => {
                           const cellSessions = sessionCellMap.get(`${day}:${slot}`) ?? [];
+                          const cellClasses = getCellClasses(day, slot);
                           const first = cellSessions[0];
-                          const empty = !first;
+                          const empty = !first && cellClasses.length === 0;
+                          const course = first?.courseId ? coursesById.get(first.courseId) : undefined;
 
                           return (
                             <TouchableOpacity
                               key={`cell-${slot}-${day}`}
-                              style={[styles.sessionCell, empty && styles.sessionCellEmpty]}
+                              style={[
+                                styles.sessionCell,
+                                empty && styles.sessionCellEmpty,
+                                !first && cellClasses.length > 0 && styles.sessionCellClassesOnly,
+                                course && { borderLeftWidth: 4, borderLeftColor: course.color },
+                              ]}
                               onPress={() => openSessionDetails(day, slot)}
                               disabled={empty}>
+                              {cellClasses.map((entry) => {
+                                const classCourse = entry.course_id ? coursesById.get(entry.course_id) : undefined;
+                                return (
+                                  <View
+                                    key={entry.id}
+                                    style={[styles.classChip, { borderLeftColor: classCourse?.color ?? colors.textMuted }]}>
+                                    <Text style={styles.classTime}>{`${entry.start_time}-${entry.end_time}`}</Text>
+                                    <Text style={styles.classLabel} numberOfLines={1}>
+                                      {describeClass(entry)}
+                                    </Text>
+                                  </View>
+                                );
+                              })}
                               {first ? (
                                 <>
                                   <Text style={styles.sessionFocus} numberOfLines={2}>
                                     {first.focus}
                                   </Text>
-                                  <Text style={styles.sessionTime}>{first.durationMinutes} min</Text>
+                                  {course ? (
+                                    <Text style={[styles.sessionCourse, { color: course.color }]} numberOfLines={1}>
+                                      {course.name}
+                                    </Text>
+                                  ) : null}
+                                  <View style={styles.sessionTimeRow}>
+                                    {getStudySessionStatus(first) === 'done' ? (
+                                      <Ionicons name="checkmark-circle" size={12} color={colors.success} />
+                                    ) : null}
+                                    <Text style={styles.sessionTime}>{first.durationMinutes} min</Text>
+                                  </View>
                                   {cellSessions.length > 1 ? <Text style={styles.sessionMore}>+{cellSessions.length - 1}</Text> : null}
                                 </>
-                              ) : (
+                              ) : cellClasses.length === 0 ? (
                                 <Text style={styles.emptySlotText}>{t('schedulePlanner.tableEmptySlot')}</Text>
-                              )}
+                              ) : null}
                             </TouchableOpacity>
                           );
                         })}
@@ -776,6 +1181,107 @@ export default function SchedulePlannerScreen() {
                     ))}
                   </View>
                 </ScrollView>
+
+                {currentWeekSessions.length > 0 ? (
+                  <View style={styles.sessionList}>
+                    <Text style={styles.tableTitle}>{t('schedulePlanner.sessionsTitle')}</Text>
+                    {currentWeekSessions.map((session) => {
+                      const status = getStudySessionStatus(session);
+                      const badge = describeSessionStatus(session);
+                      return (
+                        <View key={session.id} style={[styles.sessionRow, status === 'rescheduled' && styles.sessionRowMuted]}>
+                          <View style={styles.sessionRowHeader}>
+                            <View style={styles.historyMain}>
+                              <Text style={styles.sessionFocus} numberOfLines={2}>
+                                {session.focus}
+                              </Text>
+                              <Text style={styles.sessionTime}>
+                                {[
+                                  formatDateLabel(session.date, locale, session.date),
+                                  slotLabel(session.slot),
+                                  status === 'done'
+                                    ? t('schedulePlanner.actualMinutes', {
+                                        actual: session.actualMinutes ?? session.durationMinutes,
+                                        planned: session.durationMinutes,
+                                      })
+                                    : `${session.durationMinutes} min`,
+                                ].join(' · ')}
+                              </Text>
+                            </View>
+                            <Text style={[styles.sessionStatus, { color: badge.color, borderColor: badge.color }]}>
+                              {badge.label}
+                            </Text>
+                          </View>
+                          {status === 'planned' ? (
+                            <View style={styles.sessionActions}>
+                              <TouchableOpacity style={styles.sessionAction} onPress={() => changeSessionStatus(session, 'done')}>
+                                <Ionicons name="checkmark" size={14} color={colors.success} />
+                                <Text style={styles.sessionActionText}>{t('schedulePlanner.markDone')}</Text>
+                              </TouchableOpacity>
+                              <TouchableOpacity style={styles.sessionAction} onPress={() => startSessionFocus(session)}>
+                                <Ionicons name="timer-outline" size={14} color={colors.primary} />
+                                <Text style={styles.sessionActionText}>{t('schedulePlanner.startFocus')}</Text>
+                              </TouchableOpacity>
+                              <TouchableOpacity style={styles.sessionAction} onPress={() => openReschedule(session)}>
+                                <Ionicons name="arrow-redo-outline" size={14} color={colors.text} />
+                                <Text style={styles.sessionActionText}>{t('schedulePlanner.reschedule')}</Text>
+                              </TouchableOpacity>
+                              <TouchableOpacity style={styles.sessionAction} onPress={() => changeSessionStatus(session, 'skipped')}>
+                                <Ionicons name="close" size={14} color={colors.textMuted} />
+                                <Text style={styles.sessionActionText}>{t('schedulePlanner.markSkipped')}</Text>
+                              </TouchableOpacity>
+                            </View>
+                          ) : status !== 'rescheduled' ? (
+                            <View style={styles.sessionActions}>
+                              <TouchableOpacity style={styles.sessionAction} onPress={() => changeSessionStatus(session, 'planned')}>
+                                <Ionicons name="arrow-undo-outline" size={14} color={colors.text} />
+                                <Text style={styles.sessionActionText}>{t('schedulePlanner.undoStatus')}</Text>
+                              </TouchableOpacity>
+                            </View>
+                          ) : null}
+                        </View>
+                      );
+                    })}
+                  </View>
+                ) : null}
+              </View>
+            ) : null}
+
+            {reviewSessions.length > 0 ? (
+              <View style={[styles.card, styles.sessionList]}>
+                <Text style={styles.sectionTitle}>{t('schedulePlanner.reviewsTitle')}</Text>
+                <Text style={styles.historyMeta}>{t('schedulePlanner.reviewsHint')}</Text>
+                {reviewSessions.map((session) => (
+                  <View key={session.id} style={styles.sessionRow}>
+                    <View style={styles.sessionRowHeader}>
+                      <View style={styles.historyMain}>
+                        <Text style={styles.sessionFocus} numberOfLines={2}>
+                          {session.focus}
+                        </Text>
+                        <Text style={styles.sessionTime}>
+                          {[
+                            formatDateLabel(session.date, locale, session.date),
+                            slotLabel(session.slot),
+                            `${session.durationMinutes} min`,
+                          ].join(' · ')}
+                        </Text>
+                      </View>
+                      <Text style={[styles.sessionStatus, { color: colors.primary, borderColor: colors.primary }]}>
+                        {t('schedulePlanner.reviewsCount', { count: session.resourceIds.length })}
+                      </Text>
+                    </View>
+                    {session.date === today ? (
+                      <View style={styles.sessionActions}>
+                        <TouchableOpacity
+                          style={styles.sessionAction}
+                          onPress={() => router.push(`/resource/${session.resourceIds[0]}`)}>
+                          <Ionicons name="repeat-outline" size={14} color={colors.primary} />
+                          <Text style={styles.sessionActionText}>{t('schedulePlanner.reviewsStart')}</Text>
+                        </TouchableOpacity>
+                      </View>
+                    ) : null}
+                  </View>
+                ))}
               </View>
             ) : null}
 
@@ -917,6 +1423,12 @@ const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
       fontSize: 18,
       fontWeight: '800',
     },
+    timetableRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      marginTop: 14,
+    },
     smallActionBtn: {
       borderRadius: 999,
       borderWidth: 1,
@@ -1119,6 +1631,20 @@ const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
       fontWeight: '700',
       lineHeight: 18,
     },
+    workloadRow: {
+      marginTop: 10,
+      gap: 4,
+    },
+    workloadText: {
+      color: colors.textMuted,
+      fontSize: 12,
+      fontWeight: '600',
+    },
+    workloadWarning: {
+      color: colors.warning,
+      fontSize: 12,
+      fontWeight: '700',
+    },
     actionsRow: {
       flexDirection: 'row',
       gap: 8,
@@ -1258,17 +1784,46 @@ const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
       justifyContent: 'center',
       alignItems: 'center',
     },
+    sessionCellClassesOnly: {
+      backgroundColor: colors.background,
+    },
+    classChip: {
+      borderLeftWidth: 3,
+      borderRadius: 6,
+      paddingHorizontal: 6,
+      paddingVertical: 3,
+      backgroundColor: colors.surface,
+    },
+    classTime: {
+      color: colors.textMuted,
+      fontSize: 10,
+      fontWeight: '700',
+    },
+    classLabel: {
+      color: colors.text,
+      fontSize: 11,
+      fontWeight: '600',
+    },
     sessionFocus: {
       color: colors.text,
       fontSize: 12,
       fontWeight: '700',
       lineHeight: 16,
     },
+    sessionCourse: {
+      fontSize: 11,
+      fontWeight: '700',
+    },
     sessionTime: {
       color: colors.textMuted,
       fontSize: 11,
       fontWeight: '600',
     },
+    sessionTimeRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
     sessionMore: {
       color: colors.primary,
       fontSize: 11,
@@ -1279,6 +1834,104 @@ const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
       fontSize: 12,
       fontWeight: '600',
     },
+    adherenceBlock: {
+      marginTop: 10,
+      gap: 6,
+    },
+    adherenceRow: {
+      gap: 6,
+    },
+    adherenceChip: {
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.background,
+      paddingHorizontal: 8,
+      paddingVertical: 5,
+      alignItems: 'center',
+    },
+    adherenceChipActive: {
+      borderColor: colors.primary,
+    },
+    adherenceChipLabel: {
+      color: colors.textMuted,
+      fontSize: 10,
+      fontWeight: '700',
+    },
+    adherenceChipValue: {
+      fontSize: 13,
+      fontWeight: '800',
+    },
+    replanCard: {
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.primary,
+      backgroundColor: colors.background,
+      padding: 10,
+      gap: 8,
+    },
+    replanMove: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    replanApply: {
+      flex: 1,
+      borderRadius: 10,
+      backgroundColor: colors.primary,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 10,
+    },
+    sessionList: {
+      gap: 8,
+    },
+    sessionRow: {
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.background,
+      padding: 10,
+      gap: 8,
+    },
+    sessionRowMuted: {
+      opacity: 0.6,
+    },
+    sessionRowHeader: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: 8,
+    },
+    sessionStatus: {
+      borderRadius: 999,
+      borderWidth: 1,
+      paddingHorizontal: 8,
+      paddingVertical: 3,
+      fontSize: 11,
+      fontWeight: '700',
+      overflow: 'hidden',
+    },
+    sessionActions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+    },
+    sessionAction: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      paddingHorizontal: 10,
+      paddingVertical: 5,
+    },
+    sessionActionText: {
+      color: colors.text,
+      fontSize: 12,
+      fontWeight: '600',
+    },
     historyRow: {
       flexDirection: 'row',
       alignItems: 'center',
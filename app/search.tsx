@@ -9,6 +9,7 @@ import { useI18n } from '@/hooks/use-i18n';
 import { getErrorMessage } from '@/lib/errors';
 import { fetchAnnouncements, fetchResources, fetchTasks, getCachedResources, getCachedTasks } from '@/lib/student-api';
 import { formatDateLabel } from '@/lib/format';
+import { formatTaskDueLabel } from '@/lib/task-timing';
 import { clearRecentSearches, getUserPreferences, saveRecentSearch } from '@/lib/user-preferences';
 import { useAuth } from '@/providers/auth-provider';
 import type { Announcement, Resource, Task } from '@/types/supabase';
@@ -198,7 +199,7 @@ export default function GlobalSearchScreen() {
                   router.push(`/task/${task.id}`);
                 }}>
                 <Text style={styles.cardTitle}>{task.title}</Text>
-                <Text style={styles.cardMeta}>{formatDateLabel(task.due_date, locale, t('common.noDate'))}</Text>
+                <Text style={styles.cardMeta}>{formatTaskDueLabel(task, locale, t)}</Text>
               </TouchableOpacity>
             ))}
 
@@ -0,0 +1,370 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { useAppTheme } from '@/hooks/use-app-theme';
+import { useI18n } from '@/hooks/use-i18n';
+import { formatDateTimeLabel } from '@/lib/format';
+import { getOfflineStoreSize, getOutboxOperations, type OutboxOperation } from '@/lib/offline-store';
+import {
+  getPersistentStoreErrors,
+  getPersistentStoreSizes,
+  type PersistentStoreError,
+  type PersistentStoreSize,
+} from '@/lib/persistent-store';
+import { getSyncAttempts, type SyncAttempt } from '@/lib/sync-log';
+import { useAuth } from '@/providers/auth-provider';
+import { useOfflineSyncStatus } from '@/providers/offline-sync-provider';
+
+type Translate = (key: string, params?: Record<string, string | number>) => string;
+
+function formatBytes(bytes: number, t: Translate): string {
+  if (bytes < 1024) return t('syncHealth.sizeBytes', { value: bytes });
+  if (bytes < 1024 * 1024) return t('syncHealth.sizeKb', { value: (bytes / 1024).toFixed(1) });
+  return t('syncHealth.sizeMb', { value: (bytes / (1024 * 1024)).toFixed(1) });
+}
+
+function formatAge(value: string, t: Translate): string {
+  const elapsedMs = Date.now() - Date.parse(value);
+  if (Number.isNaN(elapsedMs) || elapsedMs < 60_000) return t('syncHealth.ageNow');
+  const minutes = Math.floor(elapsedMs / 60_000);
+  if (minutes < 60) return t('syncHealth.ageMinutes', { count: minutes });
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return t('syncHealth.ageHours', { count: hours });
+  return t('syncHealth.ageDays', { count: Math.floor(hours / 24) });
+}
+
+export default function SyncHealthScreen() {
+  const { colors } = useAppTheme();
+  const { t, locale } = useI18n();
+  const { user } = useAuth();
+  const { pendingOperations, isSyncing, lastSyncAt, realtimeConnected, forceFullSync } = useOfflineSyncStatus();
+  const [queue, setQueue] = useState<OutboxOperation[]>([]);
+  const [attempts, setAttempts] = useState<SyncAttempt[]>([]);
+  const [storeSizes, setStoreSizes] = useState<PersistentStoreSize[]>([]);
+  const [storeErrors, setStoreErrors] = useState<PersistentStoreError[]>([]);
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const load = useCallback(async () => {
+    if (!user?.id) return;
+    const [nextQueue, nextAttempts, offlineSize, persistentSizes] = await Promise.all([
+      getOutboxOperations(user.id),
+      getSyncAttempts(user.id),
+      getOfflineStoreSize(),
+      getPersistentStoreSizes(),
+    ]);
+    setQueue(nextQueue);
+    setAttempts(nextAttempts);
+    setStoreSizes([offlineSize, ...persistentSizes]);
+    setStoreErrors(getPersistentStoreErrors());
+  }, [user?.id]);
+
+  useEffect(() => {
+    void load();
+  }, [load, lastSyncAt, pendingOperations]);
+
+  const totalBytes = storeSizes.reduce((total, item) => total + item.bytes, 0);
+
+  const onForceFullSync = () => {
+    Alert.alert(t('syncHealth.fullSyncTitle'), t('syncHealth.fullSyncMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('syncHealth.fullSyncConfirm'),
+        onPress: () => {
+          void forceFullSync().then(load);
+        },
+      },
+    ]);
+  };
+
+  const onExport = async () => {
+    // Record contents stay out of the report: only metadata about the queue is shared.
+    const report = {
+      generatedAt: new Date().toISOString(),
+      platform: Platform.OS,
+      realtimeConnected,
+      lastSyncAt,
+      queue: queue.map((operation) => ({
+        id: operation.id,
+        entity: operation.entity,
+        action: operation.action,
+        createdAt: operation.createdAt,
+        attempts: operation.attempts ?? 0,
+        nextAttemptAt: operation.nextAttemptAt ?? null,
+        lastError: operation.lastError ?? null,
+      })),
+      attempts,
+      storage: storeSizes,
+      storeErrors,
+    };
+
+    try {
+      await Share.share({
+        title: t('syncHealth.exportTitle'),
+        message: JSON.stringify(report, null, 2),
+      });
+    } catch {
+      Alert.alert(t('common.genericError'), t('syncHealth.exportError'));
+    }
+  };
+
+  return (
+    <View style={styles.page}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={18} color={colors.text} />
+          <Text style={styles.backText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('syncHealth.title')}</Text>
+        <Text style={styles.subtitle}>{t('syncHealth.subtitle')}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.card}>
+          <View style={styles.row}>
+            <Text style={styles.metaText}>{t('syncHealth.lastSync')}</Text>
+            <Text style={styles.valueText}>{formatDateTimeLabel(lastSyncAt, locale, t('syncHealth.never'))}</Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.metaText}>{t('syncHealth.realtime')}</Text>
+            <Text style={styles.valueText}>
+              {realtimeConnected ? t('syncHealth.realtimeOn') : t('syncHealth.realtimeOff')}
+            </Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.metaText}>{t('syncHealth.localStorage')}</Text>
+            <Text style={styles.valueText}>{formatBytes(totalBytes, t)}</Text>
+          </View>
+
+          <View style={styles.actionsRow}>
+            <TouchableOpacity
+              style={[styles.actionBtn, styles.actionBtnPrimary, isSyncing && styles.actionDisabled]}
+              disabled={isSyncing}
+              onPress={onForceFullSync}>
+              {isSyncing ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <Ionicons name="cloud-download-outline" size={14} color={colors.primary} />
+              )}
+              <Text style={[styles.actionText, styles.actionTextPrimary]}>{t('syncHealth.fullSync')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionBtn} onPress={() => void onExport()}>
+              <Ionicons name="share-outline" size={14} color={colors.text} />
+              <Text style={styles.actionText}>{t('syncHealth.export')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>{t('syncHealth.queueSection', { count: queue.length })}</Text>
+        {queue.length === 0 ? <Text style={styles.metaText}>{t('syncHealth.queueEmpty')}</Text> : null}
+        {queue.map((operation) => (
+          <View key={operation.id} style={styles.card}>
+            <View style={styles.row}>
+              <View style={styles.typeChip}>
+                <Text style={styles.typeChipText}>
+                  {`${t(`syncIssues.entity.${operation.entity}`)} · ${t(`syncIssues.action.${operation.action}`)}`}
+                </Text>
+              </View>
+              <Text style={styles.metaText}>{formatAge(operation.createdAt, t)}</Text>
+            </View>
+            {operation.attempts ? (
+              <Text style={styles.metaText}>{t('syncIssues.attempts', { count: operation.attempts })}</Text>
+            ) : null}
+            {operation.lastError ? <Text style={styles.errorText}>{operation.lastError}</Text> : null}
+          </View>
+        ))}
+
+        <Text style={styles.sectionTitle}>{t('syncHealth.attemptsSection')}</Text>
+        {attempts.length === 0 ? <Text style={styles.metaText}>{t('syncHealth.attemptsEmpty')}</Text> : null}
+        {attempts.map((attempt) => (
+          <View key={attempt.id} style={styles.card}>
+            <View style={styles.row}>
+              <View style={styles.statusRow}>
+                <Ionicons
+                  name={attempt.status === 'error' ? 'alert-circle-outline' : 'checkmark-circle-outline'}
+                  size={16}
+                  color={attempt.status === 'error' ? colors.danger : colors.success}
+                />
+                <Text style={styles.valueText}>
+                  {formatDateTimeLabel(attempt.startedAt, locale, t('common.noDate'), { includeSeconds: true })}
+                </Text>
+              </View>
+              <Text style={styles.metaText}>{t('syncHealth.duration', { ms: attempt.durationMs })}</Text>
+            </View>
+            <Text style={styles.metaText}>
+              {t(attempt.pulled ? 'syncHealth.attemptSummaryPull' : 'syncHealth.attemptSummary', {
+                synced: attempt.syncedCount,
+                failed: attempt.failedCount,
+                pending: attempt.pendingCount,
+              })}
+            </Text>
+            {attempt.error ? <Text style={styles.errorText}>{attempt.error}</Text> : null}
+          </View>
+        ))}
+
+        <Text style={styles.sectionTitle}>{t('syncHealth.storageSection')}</Text>
+        <View style={styles.card}>
+          {storeSizes.map((item) => (
+            <View key={item.storeKey} style={styles.row}>
+              <Text style={styles.metaText} numberOfLines={1}>
+                {item.storeKey}
+              </Text>
+              <Text style={styles.valueText}>{formatBytes(item.bytes, t)}</Text>
+            </View>
+          ))}
+        </View>
+
+        {storeErrors.length > 0 ? <Text style={styles.sectionTitle}>{t('syncHealth.storeErrorsSection')}</Text> : null}
+        {storeErrors.map((entry) => (
+          <View key={`${entry.storeKey}-${entry.occurredAt}`} style={styles.card}>
+            <View style={styles.row}>
+              <Text style={styles.valueText} numberOfLines={1}>
+                {entry.storeKey}
+              </Text>
+              <Text style={styles.metaText}>{formatAge(entry.occurredAt, t)}</Text>
+            </View>
+            <Text style={styles.errorText}>{entry.message}</Text>
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
+  StyleSheet.create({
+    page: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      paddingHorizontal: 16,
+      paddingTop: 56,
+      paddingBottom: 12,
+    },
+    backBtn: {
+      alignSelf: 'flex-start',
+      flexDirection: 'row',
+      alignItems: 'center',
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingHorizontal: 10,
+      paddingVertical: 7,
+      backgroundColor: colors.surface,
+      marginBottom: 14,
+    },
+    backText: {
+      color: colors.text,
+      fontWeight: '600',
+    },
+    title: {
+      fontSize: 24,
+      color: colors.text,
+      fontWeight: '800',
+      marginBottom: 4,
+    },
+    subtitle: {
+      color: colors.textMuted,
+    },
+    content: {
+      paddingHorizontal: 16,
+      paddingTop: 6,
+      paddingBottom: 34,
+      gap: 10,
+    },
+    sectionTitle: {
+      color: colors.text,
+      fontWeight: '700',
+      fontSize: 16,
+      marginTop: 6,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 12,
+      gap: 6,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 10,
+    },
+    statusRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    typeChip: {
+      borderRadius: 999,
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      backgroundColor: colors.primarySoft,
+    },
+    typeChipText: {
+      color: colors.text,
+      fontSize: 11,
+      fontWeight: '700',
+    },
+    metaText: {
+      color: colors.textMuted,
+      fontSize: 12,
+      flexShrink: 1,
+    },
+    valueText: {
+      color: colors.text,
+      fontSize: 13,
+      fontWeight: '700',
+    },
+    errorText: {
+      color: colors.danger,
+      fontSize: 12,
+      lineHeight: 17,
+    },
+    actionsRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginTop: 4,
+    },
+    actionBtn: {
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      paddingHorizontal: 11,
+      paddingVertical: 7,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    actionBtnPrimary: {
+      borderColor: colors.primarySoft,
+      backgroundColor: colors.primarySoft,
+    },
+    actionDisabled: {
+      opacity: 0.6,
+    },
+    actionText: {
+      color: colors.text,
+      fontWeight: '700',
+      fontSize: 12,
+    },
+    actionTextPrimary: {
+      color: colors.primary,
+    },
+  });
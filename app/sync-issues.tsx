@@ -0,0 +1,277 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { StateBlock } from '@/components/ui/state-block';
+import { useAppTheme } from '@/hooks/use-app-theme';
+import { useI18n } from '@/hooks/use-i18n';
+import { formatDateTimeLabel } from '@/lib/format';
+import type { DeadLetterOperation, OutboxOperation } from '@/lib/offline-store';
+import { discardFailedOperation, getSyncIssues, retryFailedOperation } from '@/lib/sync-engine';
+import { useAuth } from '@/providers/auth-provider';
+import { useOfflineSyncStatus } from '@/providers/offline-sync-provider';
+
+function describeOperation(operation: OutboxOperation, t: (key: string) => string): string {
+  if (operation.action === 'delete') return operation.recordId;
+  if (operation.entity === 'preferences' || operation.entity === 'focus_stats') return t('syncIssues.deviceSnapshot');
+  if (operation.entity === 'profile') return operation.record.full_name ?? operation.record.id;
+  if (operation.entity === 'feedback') return operation.record.comment;
+  if (operation.entity === 'course') return operation.record.name;
+  if (operation.entity === 'exam') return operation.record.subject;
+  if (operation.entity === 'review') return operation.record.due_date;
+  if (operation.entity === 'flashcard') return operation.record.front;
+  if (operation.entity === 'timetable') {
+    return `${t(`schedulePlanner.day.${operation.record.weekday}`)} ${operation.record.start_time}`;
+  }
+  return operation.record.title;
+}
+
+export default function SyncIssuesScreen() {
+  const { colors } = useAppTheme();
+  const { t, locale } = useI18n();
+  const { user } = useAuth();
+  const { triggerSync } = useOfflineSyncStatus();
+  const [deadLetter, setDeadLetter] = useState<DeadLetterOperation[]>([]);
+  const [retrying, setRetrying] = useState<OutboxOperation[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const load = useCallback(async () => {
+    if (!user?.id) return;
+    const issues = await getSyncIssues(user.id);
+    setDeadLetter(issues.failed);
+    setRetrying(issues.retrying);
+  }, [user?.id]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const onRetry = async (operationId: string) => {
+    if (busyId) return;
+    setBusyId(operationId);
+    try {
+      await retryFailedOperation(operationId);
+      await load();
+      void triggerSync().then(load);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const onDiscard = async (operationId: string) => {
+    if (busyId) return;
+    setBusyId(operationId);
+    try {
+      await discardFailedOperation(operationId);
+      await load();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderHead = (operation: OutboxOperation) => (
+    <View style={styles.cardHead}>
+      <View style={styles.typeChip}>
+        <Text style={styles.typeChipText}>
+          {`${t(`syncIssues.entity.${operation.entity}`)} · ${t(`syncIssues.action.${operation.action}`)}`}
+        </Text>
+      </View>
+      <Text style={styles.metaText}>{t('syncIssues.attempts', { count: operation.attempts ?? 0 })}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.page}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={18} color={colors.text} />
+          <Text style={styles.backText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('syncIssues.title')}</Text>
+        <Text style={styles.subtitle}>{t('syncIssues.subtitle')}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {deadLetter.length === 0 && retrying.length === 0 ? (
+          <StateBlock
+            variant="empty"
+            title={t('syncIssues.emptyTitle')}
+            description={t('syncIssues.emptyDescription')}
+          />
+        ) : null}
+
+        {deadLetter.length > 0 ? <Text style={styles.sectionTitle}>{t('syncIssues.failedSection')}</Text> : null}
+        {deadLetter.map((entry) => (
+          <View key={entry.operation.id} style={styles.card}>
+            {renderHead(entry.operation)}
+            <Text style={styles.cardTitle} numberOfLines={2}>
+              {describeOperation(entry.operation, t)}
+            </Text>
+            <Text style={styles.errorText}>{entry.error}</Text>
+            <Text style={styles.metaText}>
+              {t('syncIssues.failedAt', { date: formatDateTimeLabel(entry.failedAt, locale, t('common.noDate')) })}
+            </Text>
+
+            <View style={styles.actionsRow}>
+              <TouchableOpacity
+                style={[styles.actionBtn, styles.actionBtnPrimary, busyId === entry.operation.id && styles.actionDisabled]}
+                disabled={busyId === entry.operation.id}
+                onPress={() => void onRetry(entry.operation.id)}>
+                <Ionicons name="refresh-outline" size={14} color={colors.primary} />
+                <Text style={[styles.actionText, styles.actionTextPrimary]}>{t('syncIssues.retry')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionBtn, busyId === entry.operation.id && styles.actionDisabled]}
+                disabled={busyId === entry.operation.id}
+                onPress={() => void onDiscard(entry.operation.id)}>
+                <Ionicons name="trash-outline" size={14} color={colors.danger} />
+                <Text style={[styles.actionText, styles.actionTextDanger]}>{t('syncIssues.discard')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+
+        {retrying.length > 0 ? <Text style={styles.sectionTitle}>{t('syncIssues.retryingSection')}</Text> : null}
+        {retrying.map((operation) => (
+          <View key={operation.id} style={styles.card}>
+            {renderHead(operation)}
+            <Text style={styles.cardTitle} numberOfLines={2}>
+              {describeOperation(operation, t)}
+            </Text>
+            {operation.lastError ? <Text style={styles.errorText}>{operation.lastError}</Text> : null}
+            <Text style={styles.metaText}>
+              {t('syncIssues.nextAttemptAt', {
+                date: formatDateTimeLabel(operation.nextAttemptAt, locale, t('common.noDate')),
+              })}
+            </Text>
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
+  StyleSheet.create({
+    page: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      paddingHorizontal: 16,
+      paddingTop: 56,
+      paddingBottom: 12,
+    },
+    backBtn: {
+      alignSelf: 'flex-start',
+      flexDirection: 'row',
+      alignItems: 'center',
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingHorizontal: 10,
+      paddingVertical: 7,
+      backgroundColor: colors.surface,
+      marginBottom: 14,
+    },
+    backText: {
+      color: colors.text,
+      fontWeight: '600',
+    },
+    title: {
+      fontSize: 24,
+      color: colors.text,
+      fontWeight: '800',
+      marginBottom: 4,
+    },
+    subtitle: {
+      color: colors.textMuted,
+    },
+    content: {
+      paddingHorizontal: 16,
+      paddingTop: 6,
+      paddingBottom: 34,
+      gap: 10,
+    },
+    sectionTitle: {
+      color: colors.text,
+      fontWeight: '700',
+      fontSize: 16,
+      marginTop: 6,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 12,
+      gap: 6,
+    },
+    cardHead: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 2,
+    },
+    typeChip: {
+      borderRadius: 999,
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      backgroundColor: colors.primarySoft,
+    },
+    typeChipText: {
+      color: colors.text,
+      fontSize: 11,
+      fontWeight: '700',
+    },
+    metaText: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    cardTitle: {
+      color: colors.text,
+      fontSize: 15,
+      fontWeight: '700',
+    },
+    errorText: {
+      color: colors.danger,
+      fontSize: 12,
+      lineHeight: 17,
+    },
+    actionsRow: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 4,
+    },
+    actionBtn: {
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      paddingHorizontal: 11,
+      paddingVertical: 7,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    actionBtnPrimary: {
+      borderColor: colors.primarySoft,
+      backgroundColor: colors.primarySoft,
+    },
+    actionDisabled: {
+      opacity: 0.6,
+    },
+    actionText: {
+      color: colors.text,
+      fontWeight: '700',
+      fontSize: 12,
+    },
+    actionTextPrimary: {
+      color: colors.primary,
+    },
+    actionTextDanger: {
+      color: colors.danger,
+    },
+  });
@@ -3,6 +3,7 @@ import { router, useLocalSearchParams } from 'expo-router';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   KeyboardAvoidingView,
   Modal,
   Platform,
@@ -16,19 +17,44 @@ import {
   View,
 } from 'react-native';
 
+import { CoursePicker } from '@/components/ui/course-chips';
 import { Toast } from '@/components/ui/toast';
 import { useConnectivity } from '@/hooks/use-connectivity';
 import { useAppTheme } from '@/hooks/use-app-theme';
 import { useI18n } from '@/hooks/use-i18n';
 import { runAiToolbox } from '@/lib/ai-toolbox';
+import { getCachedCourses } from '@/lib/courses';
 import { getErrorMessage } from '@/lib/errors';
-import { createTask, fetchTaskById, getCachedTaskById, updateTask } from '@/lib/student-api';
+import { createTask, fetchTaskById, getCachedTaskById, updateTask, updateTaskSeries } from '@/lib/student-api';
 import { formatDateLabel, toIsoDate } from '@/lib/format';
+import {
+  describeRecurrence,
+  formatRecurrenceRule,
+  getWeekdayLabelKey,
+  getWeekdayOfIsoDate,
+  parseRecurrenceRule,
+  RECURRENCE_WEEKDAYS,
+  type RecurrenceRule,
+  type RecurrenceWeekday,
+} from '@/lib/task-recurrence';
+import {
+  buildDueAt,
+  getDeviceTimeZone,
+  getDueTimeInput,
+  isValidDueTime,
+  normalizeEstimatedMinutes,
+} from '@/lib/task-timing';
 import { useAuth } from '@/providers/auth-provider';
 import { useInAppNotification } from '@/providers/notification-provider';
+import type { Course } from '@/types/supabase';
 
 const priorities = ['low', 'medium', 'high'] as const;
 type Priority = (typeof priorities)[number];
+const repeatModes = ['none', 'daily', 'weekly', 'every_n_days'] as const;
+type RepeatMode = (typeof repeatModes)[number];
+const repeatEnds = ['never', 'until', 'count'] as const;
+type RepeatEnd = (typeof repeatEnds)[number];
+type SaveScope = 'single' | 'series';
 
 type CalendarCell = {
   iso: string | null;
@@ -87,6 +113,8 @@ export default function TaskEditorScreen() {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [dueDate, setDueDate] = useState(toIsoDate());
+  const [dueTime, setDueTime] = useState('');
+  const [estimatedMinutes, setEstimatedMinutes] = useState('');
   const [calendarVisible, setCalendarVisible] = useState(false);
   const [calendarMonth, setCalendarMonth] = useState<Date>(() => {
     const selected = parseIsoDate(toIsoDate());
@@ -94,6 +122,16 @@ export default function TaskEditorScreen() {
   });
   const [priority, setPriority] = useState<Priority>('medium');
   const [isPersistent, setIsPersistent] = useState(false);
+  const [courseId, setCourseId] = useState<string | null>(null);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>('none');
+  const [repeatWeekdays, setRepeatWeekdays] = useState<RecurrenceWeekday[]>([]);
+  const [repeatWeekInterval, setRepeatWeekInterval] = useState(1);
+  const [repeatEveryDays, setRepeatEveryDays] = useState('2');
+  const [repeatEnd, setRepeatEnd] = useState<RepeatEnd>('never');
+  const [repeatUntil, setRepeatUntil] = useState('');
+  const [repeatCount, setRepeatCount] = useState('10');
+  const [initialRule, setInitialRule] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [aiLoading, setAiLoading] = useState(false);
   const [error, setError] = useState('');
@@ -131,6 +169,32 @@ export default function TaskEditorScreen() {
     router.back();
   }, [returnPath]);
 
+  const buildRecurrenceRule = (): RecurrenceRule | null => {
+    if (repeatMode === 'none') return null;
+    const fallbackDay = getWeekdayOfIsoDate(dueDate || toIsoDate());
+    return {
+      frequency: repeatMode === 'weekly' ? 'weekly' : 'daily',
+      interval:
+        repeatMode === 'every_n_days' ? Number(repeatEveryDays) : repeatMode === 'weekly' ? repeatWeekInterval : 1,
+      weekdays:
+        repeatMode !== 'weekly' ? [] : repeatWeekdays.length > 0 ? repeatWeekdays : fallbackDay ? [fallbackDay] : [],
+      until: repeatEnd === 'until' ? repeatUntil.trim() : null,
+      count: repeatEnd === 'count' ? Number(repeatCount) : null,
+    };
+  };
+
+  const recurrenceRule = buildRecurrenceRule();
+  const recurrenceSummary = recurrenceRule ? describeRecurrence(recurrenceRule, t, locale) : null;
+
+  const toggleRepeatWeekday = (day: RecurrenceWeekday) => {
+    setRepeatWeekdays((prev) => (prev.includes(day) ? prev.filter((item) => item !== day) : [...prev, day]));
+  };
+
+  useEffect(() => {
+    if (!user?.id) return;
+    void getCachedCourses(user.id).then(setCourses);
+  }, [user?.id]);
+
   useEffect(() => {
     const run = async () => {
       if (!taskId || !user?.id) return;
@@ -139,16 +203,41 @@ export default function TaskEditorScreen() {
         title: string;
         description: string | null;
         due_date: string | null;
+        due_at: string | null;
+        estimated_minutes: number | null;
         priority: Priority;
         is_persistent: boolean;
+        recurrence: { rule: string } | null;
+        course_id: string | null;
       }) => {
         setTitle(data.title);
         setDescription(data.description ?? '');
         setDueDate(data.due_date ?? toIsoDate());
+        setDueTime(getDueTimeInput(data.due_at));
+        setEstimatedMinutes(data.estimated_minutes ? String(data.estimated_minutes) : '');
         const selected = parseIsoDate(data.due_date ?? toIsoDate()) ?? new Date();
         setCalendarMonth(new Date(selected.getFullYear(), selected.getMonth(), 1));
         setPriority(data.priority);
         setIsPersistent(Boolean(data.is_persistent));
+        setCourseId(data.course_id ?? null);
+        setInitialRule(data.recurrence?.rule ?? null);
+
+        const rule = parseRecurrenceRule(data.recurrence?.rule);
+        if (!rule) {
+          setRepeatMode('none');
+          return;
+        }
+        if (rule.frequency === 'daily') {
+          setRepeatMode(rule.interval > 1 ? 'every_n_days' : 'daily');
+          setRepeatEveryDays(String(Math.max(2, rule.interval)));
+        } else {
+          setRepeatMode('weekly');
+          setRepeatWeekdays(rule.weekdays);
+          setRepeatWeekInterval(rule.interval);
+        }
+        setRepeatEnd(rule.until ? 'until' : rule.count ? 'count' : 'never');
+        setRepeatUntil(rule.until ?? '');
+        setRepeatCount(rule.count ? String(rule.count) : '10');
       };
 
       try {
@@ -167,38 +256,40 @@ export default function TaskEditorScreen() {
     void run();
   }, [taskId, user?.id]);
 
-  const onSave = async () => {
+  const persistTask = async (scope: SaveScope, rule: string | null) => {
     if (!user?.id) return;
-    if (!title.trim()) {
-      setError(t('taskEditor.requiredTitle'));
-      return;
-    }
-
-    if (dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
-      setError(t('taskEditor.invalidDate'));
-      return;
-    }
-
     setError('');
     setLoading(true);
 
     try {
-      if (taskId) {
-        await updateTask(taskId, user.id, {
-          title: title.trim(),
-          description: description.trim() || null,
-          due_date: dueDate || null,
-          priority,
-          is_persistent: isPersistent,
-        });
+      const dueAt = buildDueAt(dueDate, dueTime);
+      const fields = {
+        title: title.trim(),
+        description: description.trim() || null,
+        due_date: dueDate || null,
+        due_at: dueAt,
+        due_timezone: dueAt ? getDeviceTimeZone() : null,
+        estimated_minutes: normalizeEstimatedMinutes(estimatedMinutes),
+        priority,
+        is_persistent: isPersistent,
+        course_id: courseId,
+      };
+      if (taskId && scope === 'single') {
+        await updateTask(taskId, user.id, fields);
+      } else if (taskId) {
+        await updateTaskSeries(taskId, user.id, { ...fields, recurrenceRule: rule });
       } else {
         const createdTask = await createTask({
           userId: user.id,
           title: title.trim(),
           description,
           dueDate,
+          dueTime: dueAt ? dueTime : null,
+          estimatedMinutes: fields.estimated_minutes,
           priority,
           isPersistent,
+          recurrenceRule: rule,
+          courseId,
         });
         try {
           await addActivityNotification({
@@ -227,6 +318,57 @@ export default function TaskEditorScreen() {
     }
   };
 
+  const onSave = async () => {
+    if (!user?.id) return;
+    if (!title.trim()) {
+      setError(t('taskEditor.requiredTitle'));
+      return;
+    }
+
+    if (dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
+      setError(t('taskEditor.invalidDate'));
+      return;
+    }
+
+    if (dueTime.trim() && !isValidDueTime(dueTime.trim())) {
+      setError(t('taskEditor.invalidTime'));
+      return;
+    }
+
+    if (estimatedMinutes.trim() && !normalizeEstimatedMinutes(estimatedMinutes.trim())) {
+      setError(t('taskEditor.invalidEstimate'));
+      return;
+    }
+
+    if (recurrenceRule) {
+      if (repeatMode === 'every_n_days' && !(Number.isInteger(recurrenceRule.interval) && recurrenceRule.interval >= 2)) {
+        setError(t('taskEditor.repeatInvalidInterval'));
+        return;
+      }
+      if (recurrenceRule.until !== null && (!parseIsoDate(recurrenceRule.until) || recurrenceRule.until < dueDate)) {
+        setError(t('taskEditor.repeatInvalidUntil'));
+        return;
+      }
+      if (recurrenceRule.count !== null && !(Number.isInteger(recurrenceRule.count) && recurrenceRule.count >= 1)) {
+        setError(t('taskEditor.repeatInvalidCount'));
+        return;
+      }
+    }
+
+    const rule = recurrenceRule ? formatRecurrenceRule(recurrenceRule) : null;
+    // A changed rule only makes sense for the whole series, so the scope question is skipped.
+    if (!taskId || !initialRule || rule !== initialRule) {
+      await persistTask('series', rule);
+      return;
+    }
+
+    Alert.alert(t('taskEditor.repeatScopeTitle'), t('taskEditor.repeatScopeMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('taskEditor.repeatScopeSingle'), onPress: () => void persistTask('single', rule) },
+      { text: t('taskEditor.repeatScopeSeries'), onPress: () => void persistTask('series', rule) },
+    ]);
+  };
+
   const openCalendar = () => {
     const selected = selectedDate ?? new Date();
     setCalendarMonth(new Date(selected.getFullYear(), selected.getMonth(), 1));
@@ -313,6 +455,33 @@ export default function TaskEditorScreen() {
           <Ionicons name="chevron-forward" size={16} color={colors.textMuted} />
         </TouchableOpacity>
 
+        <View style={styles.timingRow}>
+          <View style={styles.timingField}>
+            <Text style={styles.label}>{t('taskEditor.fieldDueTime')}</Text>
+            <TextInput
+              style={styles.input}
+              value={dueTime}
+              onChangeText={setDueTime}
+              placeholder={t('taskEditor.dueTimePlaceholder')}
+              placeholderTextColor="#94A3B8"
+              keyboardType="numbers-and-punctuation"
+              maxLength={5}
+            />
+          </View>
+          <View style={styles.timingField}>
+            <Text style={styles.label}>{t('taskEditor.fieldEstimate')}</Text>
+            <TextInput
+              style={styles.input}
+              value={estimatedMinutes}
+              onChangeText={setEstimatedMinutes}
+              placeholder={t('taskEditor.estimatePlaceholder')}
+              placeholderTextColor="#94A3B8"
+              keyboardType="number-pad"
+              maxLength={4}
+            />
+          </View>
+        </View>
+
         <Text style={styles.label}>{t('taskEditor.fieldPriority')}</Text>
         <View style={styles.priorityRow}>
           {priorities.map((item) => (
@@ -327,6 +496,9 @@ export default function TaskEditorScreen() {
           ))}
         </View>
 
+        <Text style={styles.label}>{t('courses.field')}</Text>
+        <CoursePicker courses={courses} value={courseId} onChange={setCourseId} />
+
         <View style={styles.persistentRow}>
           <View style={styles.persistentTextWrap}>
             <Text style={styles.persistentLabel}>{t('taskEditor.fieldPersistent')}</Text>
@@ -340,6 +512,91 @@ export default function TaskEditorScreen() {
           />
         </View>
 
+        <Text style={styles.label}>{t('taskEditor.fieldRepeat')}</Text>
+        <View style={styles.chipRow}>
+          {repeatModes.map((mode) => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.priorityChip, repeatMode === mode && styles.priorityChipActive]}
+              onPress={() => setRepeatMode(mode)}>
+              <Text style={[styles.chipText, repeatMode === mode && styles.priorityTextActive]}>
+                {t(`taskEditor.repeatMode.${mode}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {repeatMode === 'weekly' ? (
+          <View style={styles.weekdayRow}>
+            {RECURRENCE_WEEKDAYS.map((day) => {
+              const active = repeatWeekdays.includes(day);
+              return (
+                <TouchableOpacity
+                  key={day}
+                  style={[styles.weekdayChip, active && styles.priorityChipActive]}
+                  onPress={() => toggleRepeatWeekday(day)}>
+                  <Text style={[styles.chipText, active && styles.priorityTextActive]}>{t(getWeekdayLabelKey(day))}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        ) : null}
+
+        {repeatMode === 'every_n_days' ? (
+          <View style={styles.inlineField}>
+            <Text style={styles.inlineLabel}>{t('taskEditor.repeatEveryDaysLabel')}</Text>
+            <TextInput
+              style={[styles.input, styles.smallInput]}
+              value={repeatEveryDays}
+              onChangeText={setRepeatEveryDays}
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+          </View>
+        ) : null}
+
+        {repeatMode !== 'none' ? (
+          <>
+            <Text style={styles.label}>{t('taskEditor.fieldRepeatEnd')}</Text>
+            <View style={styles.chipRow}>
+              {repeatEnds.map((end) => (
+                <TouchableOpacity
+                  key={end}
+                  style={[styles.priorityChip, repeatEnd === end && styles.priorityChipActive]}
+                  onPress={() => setRepeatEnd(end)}>
+                  <Text style={[styles.chipText, repeatEnd === end && styles.priorityTextActive]}>
+                    {t(`taskEditor.repeatEnd.${end}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {repeatEnd === 'until' ? (
+              <TextInput
+                style={[styles.input, styles.repeatEndInput]}
+                value={repeatUntil}
+                onChangeText={setRepeatUntil}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor="#94A3B8"
+                autoCapitalize="none"
+                maxLength={10}
+              />
+            ) : null}
+            {repeatEnd === 'count' ? (
+              <View style={styles.inlineField}>
+                <Text style={styles.inlineLabel}>{t('taskEditor.repeatCountLabel')}</Text>
+                <TextInput
+                  style={[styles.input, styles.smallInput]}
+                  value={repeatCount}
+                  onChangeText={setRepeatCount}
+                  keyboardType="number-pad"
+                  maxLength={3}
+                />
+              </View>
+            ) : null}
+            {recurrenceSummary ? <Text style={styles.persistentHelp}>{recurrenceSummary}</Text> : null}
+          </>
+        ) : null}
+
         {error ? <Text style={styles.errorText}>{error}</Text> : null}
 
         <TouchableOpacity
@@ -504,6 +761,13 @@ const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
     color: colors.text,
     fontWeight: '600',
   },
+  timingRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  timingField: {
+    flex: 1,
+  },
   priorityRow: {
     flexDirection: 'row',
     gap: 8,
@@ -528,6 +792,50 @@ const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
   priorityTextActive: {
     color: colors.primary,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chipText: {
+    color: colors.textMuted,
+    fontWeight: '600',
+  },
+  weekdayRow: {
+    marginTop: 10,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  weekdayChip: {
+    minWidth: 44,
+    alignItems: 'center',
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    paddingHorizontal: 8,
+    paddingVertical: 7,
+  },
+  inlineField: {
+    marginTop: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  inlineLabel: {
+    color: colors.text,
+    fontWeight: '600',
+  },
+  smallInput: {
+    minHeight: 42,
+    width: 72,
+    textAlign: 'center',
+  },
+  repeatEndInput: {
+    marginTop: 10,
+    marginBottom: 6,
+  },
   persistentRow: {
     marginTop: 14,
     paddingVertical: 10,
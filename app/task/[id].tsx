@@ -1,28 +1,51 @@
 import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
 import { router, useLocalSearchParams } from 'expo-router';
-import React, { useEffect, useMemo, useState } from 'react';
-import { ActivityIndicator, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
 import { StateBlock } from '@/components/ui/state-block';
+import { SyncConflictBanner } from '@/components/ui/sync-conflict-banner';
 import { useAppTheme } from '@/hooks/use-app-theme';
 import { useI18n } from '@/hooks/use-i18n';
 import { getErrorMessage } from '@/lib/errors';
-import { duplicateTask, fetchTaskById, getCachedTaskById } from '@/lib/student-api';
+import {
+  duplicateTask,
+  fetchTaskById,
+  getCachedTaskById,
+  getCachedTasks,
+  setTaskDependencies,
+  updateTask,
+} from '@/lib/student-api';
 import { formatDateLabel, formatDateTimeLabel } from '@/lib/format';
+import {
+  findDependencyCycle,
+  getDependentTasks,
+  indexTasksById,
+  isTaskBlocked,
+} from '@/lib/task-dependencies';
+import { describeRecurrence, parseRecurrenceRule } from '@/lib/task-recurrence';
+import { createSubtask, getSubtaskProgress } from '@/lib/task-subtasks';
+import { compareTasksByDue, formatMinutesDuration } from '@/lib/task-timing';
 import { useAuth } from '@/providers/auth-provider';
 import { useInAppNotification } from '@/providers/notification-provider';
-import type { Task } from '@/types/supabase';
+import { useOfflineSyncStatus } from '@/providers/offline-sync-provider';
+import type { Task, TaskSubtask } from '@/types/supabase';
 
 export default function TaskDetailScreen() {
   const { colors } = useAppTheme();
   const { t, locale } = useI18n();
   const { user } = useAuth();
+  const { dataVersion } = useOfflineSyncStatus();
   const { showNotification, addActivityNotification } = useInAppNotification();
   const { id } = useLocalSearchParams<{ id: string }>();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [task, setTask] = useState<Task | null>(null);
   const [duplicating, setDuplicating] = useState(false);
+  const [newSubtask, setNewSubtask] = useState('');
+  const [allTasks, setAllTasks] = useState<Task[]>([]);
+  const [pickingDependency, setPickingDependency] = useState(false);
   const styles = useMemo(() => createStyles(colors), [colors]);
 
   useEffect(() => {
@@ -59,12 +82,131 @@ export default function TaskDetailScreen() {
     void run();
   }, [id, t, user?.id]);
 
+  // Screens opened from here (AI breakdown, editor) edit the cached task: pick their changes up on return.
+  useFocusEffect(
+    useCallback(() => {
+      if (!id || !user?.id) return;
+      void getCachedTaskById(user.id, id).then((next) => {
+        if (next) setTask(next);
+      });
+      void getCachedTasks(user.id).then(setAllTasks);
+    }, [id, user?.id])
+  );
+
+  useEffect(() => {
+    if (dataVersion === 0 || !id || !user?.id) return;
+    void getCachedTaskById(user.id, id).then((next) => {
+      if (next) setTask(next);
+    });
+    void getCachedTasks(user.id).then(setAllTasks);
+  }, [dataVersion, id, user?.id]);
+
+  const tasksById = useMemo(() => indexTasksById(allTasks), [allTasks]);
+  const blocked = task ? isTaskBlocked(task, tasksById) : false;
+  const prerequisites = useMemo(() => {
+    if (!task) return [];
+    return task.blocked_by
+      .map((blockerId) => tasksById.get(blockerId))
+      .filter((item): item is Task => Boolean(item));
+  }, [task, tasksById]);
+  const dependents = useMemo(() => (task ? getDependentTasks(task.id, allTasks) : []), [allTasks, task]);
+  const dependencyCandidates = useMemo(() => {
+    if (!task) return [];
+    return allTasks
+      .filter(
+        (item) =>
+          item.id !== task.id
+          && item.status !== 'done'
+          && !task.blocked_by.includes(item.id)
+          && !findDependencyCycle(task.id, [item.id], tasksById)
+      )
+      .sort(compareTasksByDue);
+  }, [allTasks, task, tasksById]);
+
   const statusLabel = useMemo(() => {
     if (!task) return '';
     if (task.status === 'done') return t('taskDetail.statusDone');
+    if (blocked) return t('taskDetail.statusBlocked');
     if (task.status === 'in_progress') return t('taskDetail.statusInProgress');
     return t('taskDetail.statusTodo');
-  }, [t, task]);
+  }, [blocked, t, task]);
+
+  const saveDependencies = async (blockedBy: string[]) => {
+    if (!user?.id || !task) return;
+    const previous = task;
+    setTask({ ...task, blocked_by: blockedBy });
+    try {
+      await setTaskDependencies(task.id, user.id, blockedBy);
+    } catch (err) {
+      setTask(previous);
+      showNotification({
+        title: t('common.genericError'),
+        message: getErrorMessage(err, t('taskDetail.dependencyError')),
+        variant: 'warning',
+      });
+    }
+  };
+
+  const onAddDependency = (blockerId: string) => {
+    if (!task) return;
+    setPickingDependency(false);
+    void saveDependencies([...task.blocked_by, blockerId]);
+  };
+
+  const onRemoveDependency = (blockerId: string) => {
+    if (!task) return;
+    void saveDependencies(task.blocked_by.filter((item) => item !== blockerId));
+  };
+
+  const recurrenceLabel = useMemo(() => {
+    const rule = parseRecurrenceRule(task?.recurrence?.rule);
+    return rule ? describeRecurrence(rule, t, locale) : null;
+  }, [locale, t, task?.recurrence?.rule]);
+
+  const saveSubtasks = async (subtasks: TaskSubtask[]) => {
+    if (!user?.id || !task) return;
+    const previous = task;
+    setTask({ ...task, subtasks });
+    try {
+      await updateTask(task.id, user.id, { subtasks });
+    } catch {
+      setTask(previous);
+      showNotification({
+        title: t('common.genericError'),
+        message: t('taskDetail.checklistError'),
+        variant: 'warning',
+      });
+    }
+  };
+
+  const onToggleSubtask = (subtaskId: string) => {
+    if (!task) return;
+    void saveSubtasks(
+      task.subtasks.map((subtask) => (subtask.id === subtaskId ? { ...subtask, done: !subtask.done } : subtask))
+    );
+  };
+
+  const onRemoveSubtask = (subtaskId: string) => {
+    if (!task) return;
+    void saveSubtasks(task.subtasks.filter((subtask) => subtask.id !== subtaskId));
+  };
+
+  const onAddSubtask = () => {
+    const title = newSubtask.trim();
+    if (!task || !title) return;
+    setNewSubtask('');
+    void saveSubtasks([...task.subtasks, createSubtask(title)]);
+  };
+
+  const openAiBreakdown = () => {
+    if (!task) return;
+    const seed = [task.title, task.description?.trim()].filter(Boolean).join('\n\n');
+    router.push(
+      `/ai-toolbox?feature=task_breakdown&autorun=1&taskId=${task.id}&seed=${encodeURIComponent(seed)}`
+    );
+  };
+
+  const progress = task ? getSubtaskProgress(task) : { done: 0, total: 0 };
 
   const onDuplicate = async () => {
     if (!user?.id || !task || duplicating) return;
@@ -143,6 +285,18 @@ export default function TaskDetailScreen() {
           <>
             <Text style={styles.title}>{task.title}</Text>
 
+            {user?.id ? (
+              <SyncConflictBanner
+                userId={user.id}
+                recordId={task.id}
+                onResolved={() => {
+                  void getCachedTaskById(user.id, task.id).then((next) => {
+                    if (next) setTask(next);
+                  });
+                }}
+              />
+            ) : null}
+
             <View style={styles.metaCard}>
               <View style={styles.metaRow}>
                 <Text style={styles.metaLabel}>{t('taskDetail.createdAt')}</Text>
@@ -151,9 +305,27 @@ export default function TaskDetailScreen() {
 
               <View style={styles.metaRow}>
                 <Text style={styles.metaLabel}>{t('taskDetail.dueDate')}</Text>
-                <Text style={styles.metaValue}>{formatDateLabel(task.due_date, locale, t('common.noDate'))}</Text>
+                <Text style={styles.metaValue}>
+                  {task.due_at
+                    ? formatDateTimeLabel(task.due_at, locale, t('common.noDate'))
+                    : formatDateLabel(task.due_date, locale, t('common.noDate'))}
+                </Text>
               </View>
 
+              {task.estimated_minutes ? (
+                <View style={styles.metaRow}>
+                  <Text style={styles.metaLabel}>{t('taskDetail.estimate')}</Text>
+                  <Text style={styles.metaValue}>{formatMinutesDuration(task.estimated_minutes, t)}</Text>
+                </View>
+              ) : null}
+
+              {recurrenceLabel ? (
+                <View style={styles.metaRow}>
+                  <Text style={styles.metaLabel}>{t('taskDetail.recurrence')}</Text>
+                  <Text style={styles.metaValue}>{recurrenceLabel}</Text>
+                </View>
+              ) : null}
+
               <View style={styles.metaRow}>
                 <Text style={styles.metaLabel}>{t('taskDetail.priority')}</Text>
                 <Text style={styles.metaValue}>{t(`priority.${task.priority}`)}</Text>
@@ -168,6 +340,119 @@ export default function TaskDetailScreen() {
             <Text style={styles.sectionTitle}>{t('taskDetail.description')}</Text>
             <Text style={styles.body}>{task.description?.trim() || t('taskDetail.noDescription')}</Text>
 
+            <View style={styles.checklistHead}>
+              <Text style={styles.sectionTitle}>{t('taskDetail.checklist')}</Text>
+              {progress.total > 0 ? (
+                <Text style={styles.checklistProgress}>
+                  {t('taskDetail.checklistProgress', { done: progress.done, total: progress.total })}
+                </Text>
+              ) : null}
+            </View>
+            <View style={styles.checklistCard}>
+              {task.subtasks.length === 0 ? <Text style={styles.checklistEmpty}>{t('taskDetail.checklistEmpty')}</Text> : null}
+              {task.subtasks.map((subtask) => (
+                <View key={subtask.id} style={styles.subtaskRow}>
+                  <TouchableOpacity style={styles.subtaskToggle} onPress={() => onToggleSubtask(subtask.id)}>
+                    <Ionicons
+                      name={subtask.done ? 'checkbox' : 'square-outline'}
+                      size={20}
+                      color={subtask.done ? colors.success : colors.textMuted}
+                    />
+                    <Text style={[styles.subtaskTitle, subtask.done && styles.subtaskTitleDone]}>{subtask.title}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    accessibilityLabel={t('taskDetail.checklistRemove')}
+                    onPress={() => onRemoveSubtask(subtask.id)}>
+                    <Ionicons name="close" size={18} color={colors.textMuted} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <View style={styles.subtaskInputRow}>
+                <TextInput
+                  style={styles.subtaskInput}
+                  value={newSubtask}
+                  onChangeText={setNewSubtask}
+                  onSubmitEditing={onAddSubtask}
+                  returnKeyType="done"
+                  placeholder={t('taskDetail.checklistPlaceholder')}
+                  placeholderTextColor={colors.textMuted}
+                />
+                <TouchableOpacity
+                  style={[styles.subtaskAddBtn, !newSubtask.trim() && styles.actionDisabled]}
+                  disabled={!newSubtask.trim()}
+                  onPress={onAddSubtask}>
+                  <Text style={styles.subtaskAddText}>{t('taskDetail.checklistAdd')}</Text>
+                </TouchableOpacity>
+              </View>
+              <TouchableOpacity style={styles.breakdownBtn} onPress={openAiBreakdown}>
+                <Ionicons name="sparkles-outline" size={15} color={colors.primary} />
+                <Text style={styles.breakdownText}>{t('taskDetail.breakdownWithAi')}</Text>
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.sectionTitle}>{t('taskDetail.dependencies')}</Text>
+            <View style={styles.checklistCard}>
+              {blocked ? <Text style={styles.blockedNotice}>{t('taskDetail.blockedNotice')}</Text> : null}
+              {prerequisites.length === 0 ? (
+                <Text style={styles.checklistEmpty}>{t('taskDetail.dependenciesEmpty')}</Text>
+              ) : null}
+              {prerequisites.map((blocker) => (
+                <View key={blocker.id} style={styles.subtaskRow}>
+                  <TouchableOpacity style={styles.subtaskToggle} onPress={() => router.push(`/task/${blocker.id}`)}>
+                    <Ionicons
+                      name={blocker.status === 'done' ? 'checkmark-circle' : 'lock-closed-outline'}
+                      size={18}
+                      color={blocker.status === 'done' ? colors.success : colors.warning}
+                    />
+                    <Text style={[styles.subtaskTitle, blocker.status === 'done' && styles.subtaskTitleDone]}>
+                      {blocker.title}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    accessibilityLabel={t('taskDetail.dependencyRemove')}
+                    onPress={() => onRemoveDependency(blocker.id)}>
+                    <Ionicons name="close" size={18} color={colors.textMuted} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              {pickingDependency ? (
+                <View style={styles.dependencyPicker}>
+                  {dependencyCandidates.length === 0 ? (
+                    <Text style={styles.checklistEmpty}>{t('taskDetail.dependencyNoCandidate')}</Text>
+                  ) : null}
+                  {dependencyCandidates.slice(0, 20).map((candidate) => (
+                    <TouchableOpacity
+                      key={candidate.id}
+                      style={styles.dependencyCandidate}
+                      onPress={() => onAddDependency(candidate.id)}>
+                      <Ionicons name="add-circle-outline" size={16} color={colors.primary} />
+                      <Text style={styles.subtaskTitle} numberOfLines={1}>
+                        {candidate.title}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              ) : null}
+
+              <TouchableOpacity style={styles.breakdownBtn} onPress={() => setPickingDependency((prev) => !prev)}>
+                <Ionicons
+                  name={pickingDependency ? 'close-outline' : 'git-merge-outline'}
+                  size={15}
+                  color={colors.primary}
+                />
+                <Text style={styles.breakdownText}>
+                  {pickingDependency ? t('common.cancel') : t('taskDetail.dependencyAdd')}
+                </Text>
+              </TouchableOpacity>
+
+              {dependents.length > 0 ? (
+                <Text style={styles.dependentsText}>
+                  {t('taskDetail.dependents', { titles: dependents.map((item) => item.title).join(', ') })}
+                </Text>
+              ) : null}
+            </View>
+
             <TouchableOpacity style={styles.focusButton} onPress={() => router.push(`/focus?taskId=${task.id}`)}>
               <Text style={styles.focusButtonText}>{t('taskDetail.focus')}</Text>
             </TouchableOpacity>
@@ -272,6 +557,108 @@ const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
       lineHeight: 22,
       marginBottom: 22,
     },
+    checklistHead: {
+      flexDirection: 'row',
+      alignItems: 'baseline',
+      justifyContent: 'space-between',
+    },
+    checklistProgress: {
+      color: colors.textMuted,
+      fontSize: 12,
+      fontWeight: '700',
+    },
+    checklistCard: {
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      padding: 12,
+      marginBottom: 22,
+      gap: 10,
+    },
+    checklistEmpty: {
+      color: colors.textMuted,
+    },
+    subtaskRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+    },
+    subtaskToggle: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    subtaskTitle: {
+      flex: 1,
+      color: colors.text,
+      lineHeight: 20,
+    },
+    subtaskTitleDone: {
+      color: colors.textMuted,
+      textDecorationLine: 'line-through',
+    },
+    subtaskInputRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    subtaskInput: {
+      flex: 1,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.background,
+      color: colors.text,
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+    },
+    subtaskAddBtn: {
+      borderRadius: 10,
+      backgroundColor: colors.primary,
+      paddingHorizontal: 12,
+      paddingVertical: 9,
+    },
+    subtaskAddText: {
+      color: '#FFFFFF',
+      fontWeight: '700',
+    },
+    breakdownBtn: {
+      alignSelf: 'flex-start',
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      borderRadius: 999,
+      backgroundColor: colors.primarySoft,
+      paddingHorizontal: 11,
+      paddingVertical: 7,
+    },
+    breakdownText: {
+      color: colors.primary,
+      fontWeight: '700',
+      fontSize: 12,
+    },
+    blockedNotice: {
+      color: colors.warning,
+      fontWeight: '700',
+    },
+    dependencyPicker: {
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+      paddingTop: 8,
+      gap: 4,
+    },
+    dependencyCandidate: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingVertical: 6,
+    },
+    dependentsText: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
     editButton: {
       alignSelf: 'flex-start',
       borderRadius: 10,
@@ -0,0 +1,552 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { CoursePicker } from '@/components/ui/course-chips';
+import { StateBlock } from '@/components/ui/state-block';
+import { useAppTheme } from '@/hooks/use-app-theme';
+import { useI18n } from '@/hooks/use-i18n';
+import { getCachedCourses, indexCoursesById } from '@/lib/courses';
+import { getErrorMessage } from '@/lib/errors';
+import {
+  TIMETABLE_KINDS,
+  TIMETABLE_PARITIES,
+  createTimetableEntry,
+  deleteTimetableEntry,
+  getCachedTimetable,
+  updateTimetableEntry,
+} from '@/lib/timetable';
+import { useAuth } from '@/providers/auth-provider';
+import { useOfflineSyncStatus } from '@/providers/offline-sync-provider';
+import type { StudyDayKey, TimetableEntry, TimetableKind, TimetableWeekParity } from '@/types/study-schedule';
+import type { Course } from '@/types/supabase';
+
+const DAY_ORDER: StudyDayKey[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+type EntryForm = {
+  courseId: string | null;
+  kind: TimetableKind;
+  weekday: StudyDayKey;
+  startTime: string;
+  endTime: string;
+  room: string;
+  weekParity: TimetableWeekParity;
+  termStart: string;
+  termEnd: string;
+};
+
+const emptyForm: EntryForm = {
+  courseId: null,
+  kind: 'lecture',
+  weekday: 'mon',
+  startTime: '08:00',
+  endTime: '10:00',
+  room: '',
+  weekParity: 'all',
+  termStart: '',
+  termEnd: '',
+};
+
+function toForm(entry: TimetableEntry): EntryForm {
+  return {
+    courseId: entry.course_id,
+    kind: entry.kind,
+    weekday: entry.weekday,
+    startTime: entry.start_time,
+    endTime: entry.end_time,
+    room: entry.room ?? '',
+    weekParity: entry.week_parity,
+    termStart: entry.term_start ?? '',
+    termEnd: entry.term_end ?? '',
+  };
+}
+
+export default function TimetableScreen() {
+  const { colors } = useAppTheme();
+  const { t } = useI18n();
+  const { user } = useAuth();
+  const { dataVersion } = useOfflineSyncStatus();
+  const [entries, setEntries] = useState<TimetableEntry[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formVisible, setFormVisible] = useState(false);
+  const [form, setForm] = useState<EntryForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const coursesById = useMemo(() => indexCoursesById(courses), [courses]);
+
+  const load = useCallback(async () => {
+    if (!user?.id) return;
+    const [nextEntries, nextCourses] = await Promise.all([getCachedTimetable(user.id), getCachedCourses(user.id)]);
+    setEntries(nextEntries);
+    setCourses(nextCourses);
+  }, [user?.id]);
+
+  useEffect(() => {
+    void load();
+  }, [dataVersion, load]);
+
+  const entriesByDay = useMemo(
+    () =>
+      DAY_ORDER.map((day) => ({ day, entries: entries.filter((entry) => entry.weekday === day) })).filter(
+        (group) => group.entries.length > 0
+      ),
+    [entries]
+  );
+
+  const openForm = (entry: TimetableEntry | null) => {
+    setEditingId(entry?.id ?? null);
+    setForm(entry ? toForm(entry) : emptyForm);
+    setError('');
+    setFormVisible(true);
+  };
+
+  const closeForm = () => {
+    setFormVisible(false);
+    setEditingId(null);
+    setError('');
+  };
+
+  const onSave = async () => {
+    if (!user?.id || saving) return;
+    setSaving(true);
+    setError('');
+    try {
+      const input = {
+        courseId: form.courseId,
+        kind: form.kind,
+        weekday: form.weekday,
+        startTime: form.startTime,
+        endTime: form.endTime,
+        room: form.room,
+        weekParity: form.weekParity,
+        termStart: form.termStart,
+        termEnd: form.termEnd,
+      };
+      if (editingId) {
+        await updateTimetableEntry(editingId, user.id, input);
+      } else {
+        await createTimetableEntry(user.id, input);
+      }
+      closeForm();
+      await load();
+    } catch (err) {
+      setError(getErrorMessage(err, t('timetable.saveError')));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onDelete = (entry: TimetableEntry) => {
+    if (!user?.id) return;
+    const userId = user.id;
+    Alert.alert(t('timetable.deleteTitle'), t('timetable.deleteMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('courses.delete'),
+        style: 'destructive',
+        onPress: () => {
+          void (async () => {
+            await deleteTimetableEntry(entry.id, userId);
+            if (editingId === entry.id) closeForm();
+            await load();
+          })();
+        },
+      },
+    ]);
+  };
+
+  const renderChips = <T extends string>(values: T[], value: T, onChange: (next: T) => void, label: (item: T) => string) => (
+    <View style={styles.chipWrap}>
+      {values.map((item) => (
+        <TouchableOpacity
+          key={item}
+          style={[styles.chip, value === item && styles.chipActive]}
+          onPress={() => onChange(item)}>
+          <Text style={[styles.chipText, value === item && styles.chipTextActive]}>{label(item)}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderForm = () => (
+    <View style={styles.formCard}>
+      <Text style={styles.formTitle}>{editingId ? t('timetable.editTitle') : t('timetable.createTitle')}</Text>
+
+      <Text style={styles.label}>{t('courses.field')}</Text>
+      <CoursePicker
+        courses={courses}
+        value={form.courseId}
+        onChange={(courseId) => setForm((prev) => ({ ...prev, courseId }))}
+      />
+
+      <Text style={styles.label}>{t('timetable.fieldKind')}</Text>
+      {renderChips(TIMETABLE_KINDS, form.kind, (kind) => setForm((prev) => ({ ...prev, kind })), (kind) =>
+        t(`timetable.kind.${kind}`)
+      )}
+
+      <Text style={styles.label}>{t('timetable.fieldDay')}</Text>
+      {renderChips(DAY_ORDER, form.weekday, (weekday) => setForm((prev) => ({ ...prev, weekday })), (day) =>
+        t(`schedulePlanner.day.${day}`)
+      )}
+
+      <View style={styles.inlineFields}>
+        <View style={styles.inlineField}>
+          <Text style={styles.label}>{t('timetable.fieldStart')}</Text>
+          <TextInput
+            style={styles.input}
+            value={form.startTime}
+            onChangeText={(startTime) => setForm((prev) => ({ ...prev, startTime }))}
+            placeholder="08:00"
+            placeholderTextColor={colors.textMuted}
+            maxLength={5}
+          />
+        </View>
+        <View style={styles.inlineField}>
+          <Text style={styles.label}>{t('timetable.fieldEnd')}</Text>
+          <TextInput
+            style={styles.input}
+            value={form.endTime}
+            onChangeText={(endTime) => setForm((prev) => ({ ...prev, endTime }))}
+            placeholder="10:00"
+            placeholderTextColor={colors.textMuted}
+            maxLength={5}
+          />
+        </View>
+      </View>
+
+      <Text style={styles.label}>{t('timetable.fieldRoom')}</Text>
+      <TextInput
+        style={styles.input}
+        value={form.room}
+        onChangeText={(room) => setForm((prev) => ({ ...prev, room }))}
+        placeholder={t('timetable.roomPlaceholder')}
+        placeholderTextColor={colors.textMuted}
+        maxLength={60}
+      />
+
+      <Text style={styles.label}>{t('timetable.fieldParity')}</Text>
+      {renderChips(
+        TIMETABLE_PARITIES,
+        form.weekParity,
+        (weekParity) => setForm((prev) => ({ ...prev, weekParity })),
+        (parity) => t(`timetable.parity.${parity}`)
+      )}
+
+      <View style={styles.inlineFields}>
+        <View style={styles.inlineField}>
+          <Text style={styles.label}>{t('timetable.fieldTermStart')}</Text>
+          <TextInput
+            style={styles.input}
+            value={form.termStart}
+            onChangeText={(termStart) => setForm((prev) => ({ ...prev, termStart }))}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={colors.textMuted}
+            maxLength={10}
+          />
+        </View>
+        <View style={styles.inlineField}>
+          <Text style={styles.label}>{t('timetable.fieldTermEnd')}</Text>
+          <TextInput
+            style={styles.input}
+            value={form.termEnd}
+            onChangeText={(termEnd) => setForm((prev) => ({ ...prev, termEnd }))}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={colors.textMuted}
+            maxLength={10}
+          />
+        </View>
+      </View>
+      <Text style={styles.hint}>{t('timetable.parityHint')}</Text>
+
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+      <View style={styles.actionsRow}>
+        <TouchableOpacity style={[styles.actionBtn, styles.actionBtnGhost]} onPress={closeForm}>
+          <Text style={styles.actionGhostText}>{t('common.cancel')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionBtn, saving && styles.actionDisabled]}
+          disabled={saving}
+          onPress={() => void onSave()}>
+          <Text style={styles.actionText}>{t('courses.save')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.page}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+          <Ionicons name="chevron-back" size={18} color={colors.text} />
+          <Text style={styles.backText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <View style={styles.headerRow}>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{t('timetable.title')}</Text>
+            <Text style={styles.subtitle}>{t('timetable.subtitle')}</Text>
+          </View>
+          <TouchableOpacity style={styles.addBtn} onPress={() => openForm(null)}>
+            <Ionicons name="add" size={22} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled">
+        {formVisible && !editingId ? renderForm() : null}
+
+        {entries.length === 0 && !formVisible ? (
+          <StateBlock
+            variant="empty"
+            title={t('timetable.emptyTitle')}
+            description={t('timetable.emptyDescription')}
+            actionLabel={t('timetable.add')}
+            onActionPress={() => openForm(null)}
+          />
+        ) : null}
+
+        {entriesByDay.map((group) => (
+          <View key={group.day} style={styles.daySection}>
+            <Text style={styles.sectionTitle}>{t(`schedulePlanner.day.${group.day}`)}</Text>
+            {group.entries.map((entry) => {
+              if (formVisible && editingId === entry.id) {
+                return <React.Fragment key={entry.id}>{renderForm()}</React.Fragment>;
+              }
+              const course = entry.course_id ? coursesById.get(entry.course_id) : undefined;
+              return (
+                <TouchableOpacity key={entry.id} style={styles.card} onPress={() => openForm(entry)}>
+                  <View style={[styles.colorBar, { backgroundColor: course?.color ?? colors.border }]} />
+                  <View style={styles.cardMain}>
+                    <Text style={styles.cardTitle} numberOfLines={1}>
+                      {course?.name ?? t('courses.none')}
+                    </Text>
+                    <Text style={styles.metaText}>
+                      {[
+                        `${entry.start_time} - ${entry.end_time}`,
+                        t(`timetable.kind.${entry.kind}`),
+                        entry.room,
+                        entry.week_parity !== 'all' ? t(`timetable.parity.${entry.week_parity}`) : null,
+                      ]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </Text>
+                    {entry.term_start || entry.term_end ? (
+                      <Text style={styles.metaText}>
+                        {t('timetable.termRange', { start: entry.term_start ?? '...', end: entry.term_end ?? '...' })}
+                      </Text>
+                    ) : null}
+                  </View>
+                  <TouchableOpacity style={styles.iconBtn} onPress={() => onDelete(entry)}>
+                    <Ionicons name="trash-outline" size={18} color={colors.danger} />
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
+  StyleSheet.create({
+    page: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      paddingHorizontal: 16,
+      paddingTop: 56,
+      paddingBottom: 12,
+    },
+    backBtn: {
+      alignSelf: 'flex-start',
+      flexDirection: 'row',
+      alignItems: 'center',
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingHorizontal: 10,
+      paddingVertical: 7,
+      backgroundColor: colors.surface,
+      marginBottom: 14,
+    },
+    backText: {
+      color: colors.text,
+      fontWeight: '600',
+    },
+    headerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    headerText: {
+      flex: 1,
+    },
+    title: {
+      fontSize: 24,
+      color: colors.text,
+      fontWeight: '800',
+      marginBottom: 4,
+    },
+    subtitle: {
+      color: colors.textMuted,
+    },
+    addBtn: {
+      width: 42,
+      height: 42,
+      borderRadius: 14,
+      backgroundColor: colors.primary,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    content: {
+      paddingHorizontal: 16,
+      paddingTop: 6,
+      paddingBottom: 34,
+      gap: 12,
+    },
+    daySection: {
+      gap: 8,
+    },
+    sectionTitle: {
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: '700',
+    },
+    card: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 12,
+      gap: 12,
+    },
+    colorBar: {
+      width: 6,
+      alignSelf: 'stretch',
+      borderRadius: 3,
+    },
+    cardMain: {
+      flex: 1,
+      gap: 3,
+    },
+    cardTitle: {
+      color: colors.text,
+      fontSize: 15,
+      fontWeight: '700',
+    },
+    metaText: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    iconBtn: {
+      padding: 6,
+    },
+    formCard: {
+      backgroundColor: colors.surface,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.primary,
+      padding: 14,
+    },
+    formTitle: {
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: '700',
+    },
+    label: {
+      fontWeight: '700',
+      color: colors.text,
+      marginBottom: 8,
+      marginTop: 10,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 12,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      color: colors.text,
+      backgroundColor: colors.background,
+    },
+    chipWrap: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      borderRadius: 999,
+      paddingHorizontal: 12,
+      paddingVertical: 7,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    chipActive: {
+      backgroundColor: colors.primarySoft,
+      borderColor: colors.primary,
+    },
+    chipText: {
+      color: colors.textMuted,
+      fontWeight: '600',
+      fontSize: 13,
+    },
+    chipTextActive: {
+      color: colors.primary,
+    },
+    inlineFields: {
+      flexDirection: 'row',
+      gap: 10,
+    },
+    inlineField: {
+      flex: 1,
+    },
+    hint: {
+      color: colors.textMuted,
+      fontSize: 12,
+      marginTop: 8,
+    },
+    errorText: {
+      color: colors.danger,
+      fontSize: 12,
+      marginTop: 10,
+    },
+    actionsRow: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      gap: 8,
+      marginTop: 14,
+    },
+    actionBtn: {
+      borderRadius: 10,
+      backgroundColor: colors.primary,
+      paddingHorizontal: 14,
+      paddingVertical: 9,
+    },
+    actionBtnGhost: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    actionDisabled: {
+      opacity: 0.5,
+    },
+    actionText: {
+      color: '#FFFFFF',
+      fontWeight: '700',
+    },
+    actionGhostText: {
+      color: colors.text,
+      fontWeight: '700',
+    },
+  });
@@ -0,0 +1,160 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useMemo } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { useAppTheme } from '@/hooks/use-app-theme';
+import { useI18n } from '@/hooks/use-i18n';
+import { ALL_COURSES, NO_COURSE } from '@/lib/courses';
+import type { Course } from '@/types/supabase';
+
+type ChipProps = {
+  label: string;
+  color?: string;
+  active: boolean;
+  onPress: () => void;
+};
+
+function CourseChip({ label, color, active, onPress }: ChipProps) {
+  const { colors } = useAppTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  return (
+    <TouchableOpacity style={[styles.chip, active && styles.chipActive]} onPress={onPress}>
+      {color ? <View style={[styles.dot, { backgroundColor: color }]} /> : null}
+      <Text style={[styles.chipText, active && styles.chipTextActive]} numberOfLines={1}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+type CourseFilterRowProps = {
+  courses: Course[];
+  value: string;
+  onChange: (value: string) => void;
+};
+
+// Filter chips for list screens: every course, records without a course, then a shortcut to manage courses.
+export function CourseFilterRow({ courses, value, onChange }: CourseFilterRowProps) {
+  const { colors } = useAppTheme();
+  const { t } = useI18n();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+      <CourseChip label={t('courses.filterAll')} active={value === ALL_COURSES} onPress={() => onChange(ALL_COURSES)} />
+      {courses.map((course) => (
+        <CourseChip
+          key={course.id}
+          label={course.name}
+          color={course.color}
+          active={value === course.id}
+          onPress={() => onChange(course.id)}
+        />
+      ))}
+      {courses.length > 0 ? (
+        <CourseChip label={t('courses.filterNone')} active={value === NO_COURSE} onPress={() => onChange(NO_COURSE)} />
+      ) : null}
+      <TouchableOpacity style={styles.manageChip} onPress={() => router.push('/courses')}>
+        <Ionicons name={courses.length > 0 ? 'settings-outline' : 'add'} size={14} color={colors.primary} />
+        <Text style={styles.manageText}>{courses.length > 0 ? t('courses.manage') : t('courses.add')}</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+type CoursePickerProps = {
+  courses: Course[];
+  value: string | null;
+  onChange: (value: string | null) => void;
+};
+
+export function CoursePicker({ courses, value, onChange }: CoursePickerProps) {
+  const { colors } = useAppTheme();
+  const { t } = useI18n();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  if (courses.length === 0) {
+    return (
+      <TouchableOpacity style={styles.manageChip} onPress={() => router.push('/courses')}>
+        <Ionicons name="add" size={14} color={colors.primary} />
+        <Text style={styles.manageText}>{t('courses.add')}</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={styles.wrap}>
+      <CourseChip label={t('courses.none')} active={!value} onPress={() => onChange(null)} />
+      {courses.map((course) => (
+        <CourseChip
+          key={course.id}
+          label={course.name}
+          color={course.color}
+          active={value === course.id}
+          onPress={() => onChange(course.id)}
+        />
+      ))}
+    </View>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
+  StyleSheet.create({
+    row: {
+      gap: 8,
+      paddingBottom: 10,
+    },
+    wrap: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      maxWidth: 180,
+      borderRadius: 999,
+      paddingHorizontal: 12,
+      paddingVertical: 7,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    chipActive: {
+      backgroundColor: colors.primarySoft,
+      borderColor: colors.primary,
+    },
+    dot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+    },
+    chipText: {
+      color: colors.textMuted,
+      fontWeight: '600',
+      fontSize: 13,
+    },
+    chipTextActive: {
+      color: colors.primary,
+    },
+    manageChip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      alignSelf: 'flex-start',
+      gap: 4,
+      borderRadius: 999,
+      paddingHorizontal: 12,
+      paddingVertical: 7,
+      borderWidth: 1,
+      borderStyle: 'dashed',
+      borderColor: colors.primary,
+    },
+    manageText: {
+      color: colors.primary,
+      fontWeight: '600',
+      fontSize: 13,
+    },
+  });
@@ -0,0 +1,78 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Animated, PanResponder, type PanResponderGestureState } from 'react-native';
+
+const LONG_PRESS_MS = 250;
+const TAP_SLOP = 6;
+
+type DraggableCardProps = {
+  children: React.ReactNode;
+  onPress: () => void;
+  onDragChange: (dragging: boolean) => void;
+  onDragMove: (gesture: PanResponderGestureState) => void;
+  onDrop: (gesture: PanResponderGestureState) => void;
+};
+
+// A long press lifts the card; until then the touch is handed back to the scroll view and tab swipes.
+export function DraggableCard({ children, onPress, onDragChange, onDragMove, onDrop }: DraggableCardProps) {
+  const pan = useRef(new Animated.ValueXY()).current;
+  const armed = useRef(false);
+  const moved = useRef(false);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [lifted, setLifted] = useState(false);
+  const latest = useRef({ onPress, onDragChange, onDragMove, onDrop });
+
+  useEffect(() => {
+    latest.current = { onPress, onDragChange, onDragMove, onDrop };
+  });
+
+  const panResponder = useMemo(() => {
+    const reset = () => {
+      if (timer.current) clearTimeout(timer.current);
+      timer.current = null;
+      if (armed.current) latest.current.onDragChange(false);
+      armed.current = false;
+      setLifted(false);
+      Animated.spring(pan, { toValue: { x: 0, y: 0 }, useNativeDriver: false }).start();
+    };
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => !armed.current,
+      onPanResponderGrant: () => {
+        moved.current = false;
+        timer.current = setTimeout(() => {
+          if (moved.current) return;
+          armed.current = true;
+          setLifted(true);
+          latest.current.onDragChange(true);
+        }, LONG_PRESS_MS);
+      },
+      onPanResponderMove: (_evt, gesture) => {
+        if (!armed.current) {
+          if (Math.abs(gesture.dx) > TAP_SLOP || Math.abs(gesture.dy) > TAP_SLOP) moved.current = true;
+          return;
+        }
+        pan.setValue({ x: gesture.dx, y: gesture.dy });
+        latest.current.onDragMove(gesture);
+      },
+      onPanResponderRelease: (_evt, gesture) => {
+        const wasArmed = armed.current;
+        reset();
+        if (wasArmed) {
+          latest.current.onDrop(gesture);
+        } else if (!moved.current) {
+          latest.current.onPress();
+        }
+      },
+      onPanResponderTerminate: reset,
+    });
+  }, [pan]);
+
+  return (
+    <Animated.View
+      style={{ transform: pan.getTranslateTransform(), zIndex: lifted ? 10 : 0, opacity: lifted ? 0.92 : 1 }}
+      {...panResponder.panHandlers}>
+      {children}
+    </Animated.View>
+  );
+}
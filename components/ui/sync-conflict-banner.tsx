@@ -0,0 +1,175 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { useAppTheme } from '@/hooks/use-app-theme';
+import { useI18n } from '@/hooks/use-i18n';
+import { getCachedCourses } from '@/lib/courses';
+import type { SyncConflict } from '@/lib/offline-store';
+import { getRecordSyncConflicts, resolveSyncConflict } from '@/lib/student-api';
+import { describeRecurrence, parseRecurrenceRule } from '@/lib/task-recurrence';
+
+type SyncConflictBannerProps = {
+  userId: string;
+  recordId: string;
+  onResolved?: () => void;
+};
+
+export function SyncConflictBanner({ userId, recordId, onResolved }: SyncConflictBannerProps) {
+  const { colors } = useAppTheme();
+  const { t, locale } = useI18n();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [courseNames, setCourseNames] = useState<Record<string, string>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const loadConflicts = useCallback(async () => {
+    const next = await getRecordSyncConflicts(userId, recordId);
+    setConflicts(next);
+    if (next.some((conflict) => conflict.field === 'course_id')) {
+      const courses = await getCachedCourses(userId);
+      setCourseNames(Object.fromEntries(courses.map((course) => [course.id, course.name])));
+    }
+  }, [recordId, userId]);
+
+  useEffect(() => {
+    void loadConflicts();
+  }, [loadConflicts]);
+
+  const formatValue = (value: unknown, field: string) => {
+    if (value === null || value === undefined || value === '') return t('syncConflicts.emptyValue');
+    if (field === 'course_id' && typeof value === 'string') return courseNames[value] ?? t('courses.unknown');
+    if (typeof value === 'boolean') return value ? t('syncConflicts.valueYes') : t('syncConflicts.valueNo');
+    if (Array.isArray(value)) {
+      if (value.length === 0) return t('syncConflicts.emptyValue');
+      return value
+        .map((item) => (item && typeof item === 'object' && 'title' in item ? String(item.title) : String(item)))
+        .join(', ');
+    }
+    if (typeof value === 'object' && 'rule' in value) {
+      const rule = parseRecurrenceRule(String(value.rule));
+      return rule ? describeRecurrence(rule, t, locale) : String(value.rule);
+    }
+    return String(value);
+  };
+
+  const onResolve = async (conflict: SyncConflict, choice: 'local' | 'remote') => {
+    if (resolvingId) return;
+    setResolvingId(conflict.id);
+    try {
+      await resolveSyncConflict(conflict, choice);
+      await loadConflicts();
+      onResolved?.();
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <View style={styles.wrap}>
+      <View style={styles.head}>
+        <Ionicons name="git-compare-outline" size={16} color={colors.warning} />
+        <Text style={styles.title}>{t('syncConflicts.title')}</Text>
+      </View>
+      <Text style={styles.description}>{t('syncConflicts.description')}</Text>
+
+      {conflicts.map((conflict) => (
+        <View key={conflict.id} style={styles.item}>
+          <Text style={styles.field}>{t(`syncConflicts.fields.${conflict.field}`)}</Text>
+          <Text style={styles.value}>
+            {t('syncConflicts.localValue', { value: formatValue(conflict.localValue, conflict.field) })}
+          </Text>
+          <Text style={styles.value}>
+            {t('syncConflicts.remoteValue', { value: formatValue(conflict.remoteValue, conflict.field) })}
+          </Text>
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionBtn, resolvingId === conflict.id && styles.actionDisabled]}
+              disabled={resolvingId === conflict.id}
+              onPress={() => void onResolve(conflict, 'local')}>
+              <Text style={styles.actionText}>{t('syncConflicts.keepLocal')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionBtn, styles.actionBtnPrimary, resolvingId === conflict.id && styles.actionDisabled]}
+              disabled={resolvingId === conflict.id}
+              onPress={() => void onResolve(conflict, 'remote')}>
+              <Text style={[styles.actionText, styles.actionTextPrimary]}>{t('syncConflicts.useRemote')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const createStyles = (colors: ReturnType<typeof useAppTheme>['colors']) =>
+  StyleSheet.create({
+    wrap: {
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.warningSoft,
+      backgroundColor: colors.surface,
+      padding: 12,
+      marginBottom: 16,
+      gap: 8,
+    },
+    head: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    title: {
+      color: colors.warning,
+      fontWeight: '800',
+    },
+    description: {
+      color: colors.textMuted,
+      fontSize: 12,
+      lineHeight: 17,
+    },
+    item: {
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+      paddingTop: 8,
+      gap: 4,
+    },
+    field: {
+      color: colors.text,
+      fontWeight: '700',
+    },
+    value: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 4,
+    },
+    actionBtn: {
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      paddingHorizontal: 10,
+      paddingVertical: 6,
+    },
+    actionBtnPrimary: {
+      borderColor: colors.primarySoft,
+      backgroundColor: colors.primarySoft,
+    },
+    actionDisabled: {
+      opacity: 0.6,
+    },
+    actionText: {
+      color: colors.text,
+      fontSize: 12,
+      fontWeight: '700',
+    },
+    actionTextPrimary: {
+      color: colors.primary,
+    },
+  });
@@ -0,0 +1,251 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { DraggableCard } from '@/components/ui/draggable-card';
+import { useAppTheme } from '@/hooks/use-app-theme';
+import { useI18n } from '@/hooks/use-i18n';
+import { formatTaskDueLabel } from '@/lib/task-timing';
+import type { Course, Task } from '@/types/supabase';
+
+export const BOARD_STATUSES: Task['status'][] = ['todo', 'in_progress', 'done'];
+
+const COLUMN_GAP = 8;
+
+export type PriorityTone = Record<Task['priority'], { bg: string; color: string; label: string }>;
+
+type TaskBoardProps = {
+  tasks: Task[];
+  coursesById: Map<string, Course>;
+  favoriteTaskIds: string[];
+  blockedTaskIds: Set<string>;
+  priorityStyle: PriorityTone;
+  onMoveTask: (task: Task, status: Task['status']) => void;
+  onOpenTask: (task: Task) => void;
+  onToggleFavorite: (taskId: string) => void;
+  onDragChange: (dragging: boolean) => void;
+};
+
+function getTargetColumn(columnIndex: number, dx: number, columnWidth: number): number {
+  const shift = Math.round(dx / Math.max(1, columnWidth + COLUMN_GAP));
+  return Math.min(BOARD_STATUSES.length - 1, Math.max(0, columnIndex + shift));
+}
+
+export function TaskBoard({
+  tasks,
+  coursesById,
+  favoriteTaskIds,
+  blockedTaskIds,
+  priorityStyle,
+  onMoveTask,
+  onOpenTask,
+  onToggleFavorite,
+  onDragChange,
+}: TaskBoardProps) {
+  const { colors, cardShadow } = useAppTheme();
+  const { t, locale } = useI18n();
+  const styles = useMemo(() => createStyles(colors, cardShadow), [cardShadow, colors]);
+  const [boardWidth, setBoardWidth] = useState(0);
+  const [hoverColumn, setHoverColumn] = useState<number | null>(null);
+  const [dragColumn, setDragColumn] = useState<number | null>(null);
+  const columnWidth = boardWidth > 0 ? (boardWidth - COLUMN_GAP * (BOARD_STATUSES.length - 1)) / BOARD_STATUSES.length : 0;
+
+  const columns = useMemo(
+    () => BOARD_STATUSES.map((status) => ({ status, tasks: tasks.filter((task) => task.status === status) })),
+    [tasks]
+  );
+
+  return (
+    <View style={styles.board} onLayout={(event) => setBoardWidth(event.nativeEvent.layout.width)}>
+      {columns.map((column, columnIndex) => (
+        <View
+          key={column.status}
+          style={[
+            styles.column,
+            hoverColumn === columnIndex && styles.columnHover,
+            // The lifted card must render above the neighbouring columns.
+            { zIndex: dragColumn === columnIndex ? 1 : 0 },
+          ]}>
+          <View style={styles.columnHeader}>
+            <Text style={styles.columnTitle} numberOfLines={1}>
+              {t(`tasks.board.${column.status}`)}
+            </Text>
+            <View style={styles.countBadge}>
+              <Text style={styles.countText}>{column.tasks.length}</Text>
+            </View>
+          </View>
+
+          {column.tasks.length === 0 ? <Text style={styles.emptyText}>{t('tasks.board.empty')}</Text> : null}
+
+          {column.tasks.map((task) => {
+            const tone = priorityStyle[task.priority];
+            const favorite = favoriteTaskIds.includes(task.id);
+            const course = task.course_id ? coursesById.get(task.course_id) : undefined;
+            return (
+              <DraggableCard
+                key={task.id}
+                onPress={() => onOpenTask(task)}
+                onDragChange={(dragging) => {
+                  setDragColumn(dragging ? columnIndex : null);
+                  setHoverColumn(dragging ? columnIndex : null);
+                  onDragChange(dragging);
+                }}
+                onDragMove={(gesture) => setHoverColumn(getTargetColumn(columnIndex, gesture.dx, columnWidth))}
+                onDrop={(gesture) => {
+                  const status = BOARD_STATUSES[getTargetColumn(columnIndex, gesture.dx, columnWidth)];
+                  if (status !== task.status) onMoveTask(task, status);
+                }}>
+                <View style={styles.card}>
+                  <Text
+                    style={[styles.cardTitle, task.status === 'done' && styles.cardTitleDone]}
+                    numberOfLines={3}>
+                    {task.title}
+                  </Text>
+                  {course ? (
+                    <View style={styles.metaRow}>
+                      <View style={[styles.courseDot, { backgroundColor: course.color }]} />
+                      <Text style={styles.metaText} numberOfLines={1}>
+                        {course.name}
+                      </Text>
+                    </View>
+                  ) : null}
+                  <Text style={styles.metaText} numberOfLines={2}>
+                    {formatTaskDueLabel(task, locale, t)}
+                  </Text>
+                  <View style={styles.cardFooter}>
+                    <View style={[styles.priorityBadge, { backgroundColor: tone.bg }]}>
+                      <Text style={[styles.priorityText, { color: tone.color }]}>{tone.label}</Text>
+                    </View>
+                    {blockedTaskIds.has(task.id) ? (
+                      <Ionicons name="lock-closed" size={12} color={colors.warning} />
+                    ) : null}
+                    <TouchableOpacity style={styles.favoriteBtn} onPress={() => onToggleFavorite(task.id)}>
+                      <Ionicons
+                        name={favorite ? 'star' : 'star-outline'}
+                        size={14}
+                        color={favorite ? colors.warning : colors.textMuted}
+                      />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              </DraggableCard>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const createStyles = (
+  colors: ReturnType<typeof useAppTheme>['colors'],
+  cardShadow: ReturnType<typeof useAppTheme>['cardShadow']
+) =>
+  StyleSheet.create({
+    board: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: COLUMN_GAP,
+    },
+    column: {
+      flex: 1,
+      minHeight: 160,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.background,
+      padding: 6,
+      gap: 6,
+    },
+    columnHover: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primarySoft,
+    },
+    columnHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 4,
+      paddingHorizontal: 2,
+      paddingVertical: 4,
+    },
+    columnTitle: {
+      flex: 1,
+      color: colors.text,
+      fontWeight: '800',
+      fontSize: 12,
+    },
+    countBadge: {
+      minWidth: 20,
+      borderRadius: 999,
+      paddingHorizontal: 6,
+      paddingVertical: 2,
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    countText: {
+      color: colors.textMuted,
+      fontWeight: '800',
+      fontSize: 11,
+    },
+    emptyText: {
+      color: colors.textMuted,
+      fontSize: 11,
+      textAlign: 'center',
+      paddingVertical: 14,
+    },
+    card: {
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      padding: 8,
+      gap: 4,
+      ...cardShadow,
+    },
+    cardTitle: {
+      color: colors.text,
+      fontWeight: '700',
+      fontSize: 12,
+    },
+    cardTitleDone: {
+      textDecorationLine: 'line-through',
+      color: colors.textMuted,
+    },
+    metaRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    courseDot: {
+      width: 6,
+      height: 6,
+      borderRadius: 3,
+    },
+    metaText: {
+      flexShrink: 1,
+      color: colors.textMuted,
+      fontSize: 10,
+    },
+    cardFooter: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      marginTop: 2,
+    },
+    priorityBadge: {
+      borderRadius: 999,
+      paddingHorizontal: 6,
+      paddingVertical: 2,
+    },
+    priorityText: {
+      fontSize: 9,
+      fontWeight: '700',
+    },
+    favoriteBtn: {
+      marginLeft: 'auto',
+      padding: 2,
+    },
+  });
@@ -1,5 +1,4 @@
-import * as FileSystem from 'expo-file-system/legacy';
-import { Platform } from 'react-native';
+import { createPersistentStore } from '@/lib/persistent-store';
 
 export type ActivityNotificationEntity = 'task' | 'resource';
 
@@ -20,9 +19,6 @@ type ActivityNotificationsState = {
 };
 
 const STORAGE_KEY = 'studyday-activity-notifications-v1';
-const FILE_PATH = FileSystem.documentDirectory
-  ? `${FileSystem.documentDirectory}${STORAGE_KEY}.json`
-  : null;
 const MAX_NOTIFICATIONS_PER_USER = 120;
 const MAX_NOTIFICATION_AGE_MS = 30 * 24 * 60 * 60 * 1000;
 
@@ -31,10 +27,6 @@ const defaultState: ActivityNotificationsState = {
   updatedAt: null,
 };
 
-let memoryState: ActivityNotificationsState | null = null;
-let loadingPromise: Promise<ActivityNotificationsState> | null = null;
-let writeChain: Promise<void> = Promise.resolve();
-
 function cloneState(state: ActivityNotificationsState): ActivityNotificationsState {
   return JSON.parse(JSON.stringify(state)) as ActivityNotificationsState;
 }
@@ -61,89 +53,19 @@ function normalizeState(value: unknown): ActivityNotificationsState {
   };
 }
 
-async function readFromStorage(): Promise<ActivityNotificationsState> {
-  if (Platform.OS === 'web') {
-    try {
-      const raw = globalThis.localStorage?.getItem(STORAGE_KEY);
-      if (!raw) return cloneState(defaultState);
-      return normalizeState(JSON.parse(raw));
-    } catch {
-      return cloneState(defaultState);
-    }
-  }
-
-  if (!FILE_PATH) {
-    return cloneState(defaultState);
-  }
-
-  try {
-    const raw = await FileSystem.readAsStringAsync(FILE_PATH);
-    if (!raw) return cloneState(defaultState);
-    return normalizeState(JSON.parse(raw));
-  } catch {
-    return cloneState(defaultState);
-  }
-}
-
-async function writeToStorage(state: ActivityNotificationsState): Promise<void> {
-  if (Platform.OS === 'web') {
-    try {
-      globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(state));
-    } catch {
-      // Ignore persistence errors. Runtime state still works.
-    }
-    return;
-  }
-
-  if (!FILE_PATH) return;
-
-  try {
-    await FileSystem.writeAsStringAsync(FILE_PATH, JSON.stringify(state));
-  } catch {
-    // Ignore persistence errors. Runtime state still works.
-  }
-}
-
-async function loadState(): Promise<ActivityNotificationsState> {
-  if (memoryState) return cloneState(memoryState);
-
-  if (!loadingPromise) {
-    loadingPromise = (async () => {
-      const loaded = await readFromStorage();
-      memoryState = normalizeState(loaded);
-      return cloneState(memoryState);
-    })();
-  }
-
-  return loadingPromise;
-}
-
-async function withWriteLock<T>(task: () => Promise<T>): Promise<T> {
-  let release: () => void = () => {};
-  const gate = new Promise<void>((resolve) => {
-    release = resolve;
-  });
-  const previous = writeChain;
-  writeChain = previous.then(() => gate);
-  await previous;
-  try {
-    return await task();
-  } finally {
-    release();
-  }
-}
+const store = createPersistentStore<ActivityNotificationsState>({
+  key: STORAGE_KEY,
+  defaultValue: defaultState,
+  normalize: normalizeState,
+  encrypted: true,
+});
 
 async function updateState(
   mutator: (state: ActivityNotificationsState) => void
 ): Promise<ActivityNotificationsState> {
-  return withWriteLock(async () => {
-    const current = await loadState();
-    const next = cloneState(current);
-    mutator(next);
-    next.updatedAt = new Date().toISOString();
-    memoryState = normalizeState(next);
-    await writeToStorage(memoryState);
-    return cloneState(memoryState);
+  return store.update((state) => {
+    mutator(state);
+    state.updatedAt = new Date().toISOString();
   });
 }
 
@@ -1,4 +1,6 @@
 import { askAssistant } from '@/lib/ai-assistant';
+import { getBlockingTasks, indexTasksById, orderTasksByDependencies } from '@/lib/task-dependencies';
+import { compareTasksByDue } from '@/lib/task-timing';
 import type { Resource, Task } from '@/types/supabase';
 
 export const AI_INTERNET_UNAVAILABLE_MESSAGE = 'Connexion internet indisponible.';
@@ -35,8 +37,17 @@ export type AiToolboxResult = {
   fallbackReason?: string;
 };
 
-function compactTask(task: Task): string {
-  return `${task.title} | status=${task.status} | prio=${task.priority} | due=${task.due_date ?? 'none'}`;
+function compactTask(task: Task, tasksById: Map<string, Task>): string {
+  const parts = [
+    task.title,
+    `status=${task.status}`,
+    `prio=${task.priority}`,
+    `due=${task.due_at ?? task.due_date ?? 'none'}`,
+  ];
+  if (task.estimated_minutes) parts.push(`estimate=${task.estimated_minutes}min`);
+  const blockers = getBlockingTasks(task, tasksById);
+  if (blockers.length > 0) parts.push(`blocked_by=${blockers.map((blocker) => blocker.title).join('; ')}`);
+  return parts.join(' | ');
 }
 
 function compactResource(resource: Resource): string {
@@ -45,20 +56,26 @@ function compactResource(resource: Resource): string {
 
 function buildOnlinePrompt(input: AiToolboxInput): string {
   const locale = input.locale?.toLowerCase().startsWith('fr') ? 'fr' : 'en';
-  const taskContext = (input.tasks ?? []).slice(0, 40).map(compactTask).join('\n');
+  const tasks = input.tasks ?? [];
+  const tasksById = indexTasksById(tasks);
+  const taskContext = orderTasksByDependencies(tasks, compareTasksByDue)
+    .slice(0, 40)
+    .map((task) => compactTask(task, tasksById))
+    .join('\n');
   const resourceContext = (input.resources ?? []).slice(0, 40).map(compactResource).join('\n');
 
   const instructionByFeature: Record<AiFeatureId, string> = {
     task_breakdown:
       'Break down the objective into small actionable tasks with estimated effort and suggested order.',
     auto_prioritization:
-      'Prioritize current tasks by urgency and impact. Return the top priorities with reasons.',
+      'Prioritize current tasks by urgency and impact. A task with blocked_by can only come after the tasks blocking it. '
+      + 'Return the top priorities with reasons.',
     weekly_planning:
       'Generate a practical 7-day study plan using task due dates and workload balance.',
     notes_rewrite:
       'Rewrite notes to be clearer for revision: concise structure, bullet points, and key terms.',
     quiz_generator:
-      'Create a short revision quiz (5-10 questions) with answers from the provided content.',
+      'Create a short revision quiz (5-10 questions) with answers from the provided content. Write each question on a line starting with "Q: " followed by its answer on a line starting with "A: ".',
     duplicate_detection:
       'Detect likely duplicates among tasks/resources and explain why they match.',
     focus_coach:
@@ -1,17 +1,17 @@
-import * as FileSystem from 'expo-file-system/legacy';
-import { Platform } from 'react-native';
+import { createPersistentStore } from '@/lib/persistent-store';
+
+export type TasksView = 'list' | 'board';
 
 type AppFlags = {
   homeTourSeen: boolean;
+  tasksView: TasksView;
 };
 
 const STORAGE_KEY = 'studyday-app-flags-v1';
-const FILE_PATH = FileSystem.documentDirectory
-  ? `${FileSystem.documentDirectory}${STORAGE_KEY}.json`
-  : null;
 
 const defaultFlags: AppFlags = {
   homeTourSeen: false,
+  tasksView: 'list',
 };
 
 function normalizeFlags(value: unknown): AppFlags {
@@ -22,53 +22,22 @@ function normalizeFlags(value: unknown): AppFlags {
   const raw = value as Partial<AppFlags>;
   return {
     homeTourSeen: Boolean(raw.homeTourSeen),
+    tasksView: raw.tasksView === 'board' ? 'board' : 'list',
   };
 }
 
-export async function loadAppFlags(): Promise<AppFlags> {
-  if (Platform.OS === 'web') {
-    try {
-      const raw = globalThis.localStorage?.getItem(STORAGE_KEY);
-      if (!raw) return { ...defaultFlags };
-      return normalizeFlags(JSON.parse(raw));
-    } catch {
-      return { ...defaultFlags };
-    }
-  }
-
-  if (!FILE_PATH) {
-    return { ...defaultFlags };
-  }
+const store = createPersistentStore<AppFlags>({
+  key: STORAGE_KEY,
+  defaultValue: defaultFlags,
+  normalize: normalizeFlags,
+});
 
-  try {
-    const raw = await FileSystem.readAsStringAsync(FILE_PATH);
-    if (!raw) return { ...defaultFlags };
-    return normalizeFlags(JSON.parse(raw));
-  } catch {
-    return { ...defaultFlags };
-  }
+export async function loadAppFlags(): Promise<AppFlags> {
+  return store.load();
 }
 
-export async function saveAppFlags(flags: AppFlags): Promise<void> {
-  const normalized = normalizeFlags(flags);
-
-  if (Platform.OS === 'web') {
-    try {
-      globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(normalized));
-    } catch {
-      // Ignore persistence errors.
-    }
-    return;
-  }
-
-  if (!FILE_PATH) {
-    return;
-  }
-
-  try {
-    await FileSystem.writeAsStringAsync(FILE_PATH, JSON.stringify(normalized));
-  } catch {
-    // Ignore persistence errors.
-  }
+export async function saveAppFlags(flags: Partial<AppFlags>): Promise<void> {
+  await store.update((draft) => {
+    Object.assign(draft, normalizeFlags({ ...draft, ...flags }));
+  });
 }
-
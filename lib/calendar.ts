@@ -0,0 +1,110 @@
+import { toIsoDate } from '@/lib/format';
+import { getStudySessionStatus } from '@/lib/study-schedule';
+import type { StudySchedulePlan, StudyScheduleSession, StudySlot } from '@/types/study-schedule';
+import type { Announcement, Exam, Task } from '@/types/supabase';
+
+export type CalendarMode = 'month' | 'week' | 'agenda';
+
+export const CALENDAR_MODES: CalendarMode[] = ['month', 'week', 'agenda'];
+
+export type CalendarItem =
+  | { kind: 'exam'; id: string; date: string; exam: Exam }
+  | { kind: 'task'; id: string; date: string; task: Task }
+  | { kind: 'session'; id: string; date: string; session: StudyScheduleSession }
+  | { kind: 'announcement'; id: string; date: string; announcement: Announcement };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KIND_ORDER: Record<CalendarItem['kind'], number> = { exam: 0, task: 1, session: 2, announcement: 3 };
+const SLOT_ORDER: Record<StudySlot, number> = { morning: 0, afternoon: 1, evening: 2 };
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+function toUtcDate(value: string): Date {
+  const date = new Date(`${datePattern.test(value) ? value : toIsoDate()}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? new Date(`${toIsoDate()}T00:00:00Z`) : date;
+}
+
+export function shiftCalendarDate(value: string, days: number): string {
+  const date = toUtcDate(value);
+  return new Date(date.getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function shiftCalendarMonth(value: string, months: number): string {
+  const date = toUtcDate(value);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1)).toISOString().slice(0, 10);
+}
+
+export function getWeekStart(value: string): string {
+  const date = toUtcDate(value);
+  return shiftCalendarDate(date.toISOString().slice(0, 10), -((date.getUTCDay() + 6) % 7));
+}
+
+export function getWeekDates(value: string): string[] {
+  const start = getWeekStart(value);
+  return Array.from({ length: 7 }, (_, index) => shiftCalendarDate(start, index));
+}
+
+// Six Monday-first weeks, so every month fits and the grid height never jumps.
+export function getMonthGridDates(value: string): string[] {
+  const start = getWeekStart(shiftCalendarMonth(value, 0));
+  return Array.from({ length: 42 }, (_, index) => shiftCalendarDate(start, index));
+}
+
+export function isSameCalendarMonth(a: string, b: string): boolean {
+  return a.slice(0, 7) === b.slice(0, 7);
+}
+
+// Sessions come from the pinned plan only; other plans are drafts until the student pins them.
+export function getPinnedPlan(plans: StudySchedulePlan[]): StudySchedulePlan | null {
+  return plans.find((plan) => plan.is_pinned) ?? null;
+}
+
+function compareItems(a: CalendarItem, b: CalendarItem): number {
+  if (a.kind !== b.kind) return KIND_ORDER[a.kind] - KIND_ORDER[b.kind];
+  if (a.kind === 'task' && b.kind === 'task') return (a.task.due_at ?? '').localeCompare(b.task.due_at ?? '');
+  if (a.kind === 'session' && b.kind === 'session') return SLOT_ORDER[a.session.slot] - SLOT_ORDER[b.session.slot];
+  return 0;
+}
+
+export function buildCalendarItems(input: {
+  tasks: Task[];
+  plan: StudySchedulePlan | null;
+  announcements: Announcement[];
+  exams: Exam[];
+}): Map<string, CalendarItem[]> {
+  const items: CalendarItem[] = [];
+  for (const exam of input.exams) {
+    items.push({ kind: 'exam', id: exam.id, date: exam.exam_date, exam });
+  }
+  for (const task of input.tasks) {
+    if (task.due_date) items.push({ kind: 'task', id: task.id, date: task.due_date, task });
+  }
+  for (const session of input.plan?.sessions ?? []) {
+    if (getStudySessionStatus(session) === 'rescheduled') continue;
+    items.push({ kind: 'session', id: session.id, date: session.date, session });
+  }
+  for (const announcement of input.announcements) {
+    if (!announcement.expires_at) continue;
+    const expiresAt = new Date(announcement.expires_at);
+    if (Number.isNaN(expiresAt.getTime())) continue;
+    items.push({ kind: 'announcement', id: announcement.id, date: toIsoDate(expiresAt), announcement });
+  }
+
+  const byDate = new Map<string, CalendarItem[]>();
+  for (const item of items) {
+    const list = byDate.get(item.date);
+    if (list) {
+      list.push(item);
+    } else {
+      byDate.set(item.date, [item]);
+    }
+  }
+  for (const list of byDate.values()) list.sort(compareItems);
+  return byDate;
+}
+
+export function getAgendaDates(itemsByDate: Map<string, CalendarItem[]>, from: string, days: number): string[] {
+  const end = shiftCalendarDate(from, days - 1);
+  return Array.from(itemsByDate.keys())
+    .filter((date) => date >= from && date <= end)
+    .sort();
+}
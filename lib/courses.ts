@@ -0,0 +1,240 @@
+import { decryptE2eeString } from '@/lib/offline-crypto';
+import {
+  createEntityId,
+  createLocalId,
+  enqueueOutboxOperation,
+  getLocalCourseById,
+  getLocalCourses,
+  removeLocalAssessmentsForCourse,
+  removeLocalCourse,
+  setLocalCourses,
+  upsertLocalCourse,
+} from '@/lib/offline-store';
+import { getPendingRecordIds, pullRemoteDelta } from '@/lib/sync-delta';
+import { isTaskOverdue } from '@/lib/task-timing';
+import type { Course, Task } from '@/types/supabase';
+
+export const COURSE_COLORS = ['#4F46E5', '#0EA5E9', '#10B981', '#F59E0B', '#EF4444', '#EC4899', '#8B5CF6', '#64748B'];
+export const ALL_COURSES = 'all';
+export const NO_COURSE = 'none';
+export const COURSE_NAME_REQUIRED_ERROR = 'Le nom de la matiere est obligatoire.';
+
+const MAX_COEFFICIENT = 100;
+const courseSelectFields = 'id, user_id, name, color, teacher, term, coefficient, created_at, updated_at';
+
+type RemoteReadOptions = {
+  remote?: boolean;
+};
+
+export type CourseInput = {
+  name: string;
+  color: string;
+  teacher?: string | null;
+  term?: string | null;
+  coefficient?: number | null;
+};
+
+export type CourseWorkload = {
+  course: Course;
+  openCount: number;
+  overdueCount: number;
+  estimatedMinutes: number;
+};
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+export function normalizeCoefficient(value: unknown): number | null {
+  const coefficient = typeof value === 'string' ? Number(value.replace(',', '.')) : value;
+  if (typeof coefficient !== 'number' || !Number.isFinite(coefficient) || coefficient <= 0) return null;
+  return Math.min(MAX_COEFFICIENT, Math.round(coefficient * 100) / 100);
+}
+
+function normalizeColor(value: unknown): string {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value.toUpperCase() : COURSE_COLORS[0];
+}
+
+function normalizeCourseFromDb(value: unknown): Course | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Partial<Course>;
+  if (typeof raw.id !== 'string' || typeof raw.name !== 'string') return null;
+
+  return {
+    id: raw.id,
+    user_id: raw.user_id ?? null,
+    name: raw.name,
+    color: normalizeColor(raw.color),
+    teacher: raw.teacher ?? null,
+    term: raw.term ?? null,
+    coefficient: normalizeCoefficient(raw.coefficient),
+    created_at: raw.created_at ?? null,
+    updated_at: raw.updated_at ?? null,
+  };
+}
+
+async function decryptCourseRecord(course: Course): Promise<Course> {
+  return {
+    ...course,
+    name: (await decryptE2eeString(course.name)) ?? course.name,
+    teacher: await decryptE2eeString(course.teacher),
+    term: await decryptE2eeString(course.term),
+  };
+}
+
+function sortCourses(courses: Course[]): Course[] {
+  return [...courses].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function indexCoursesById(courses: Course[]): Map<string, Course> {
+  return new Map(courses.map((course) => [course.id, course]));
+}
+
+// Records pointing to a deleted course are treated as having no course.
+export function matchesCourseFilter(
+  courseId: string | null | undefined,
+  filter: string,
+  coursesById: Map<string, Course>
+): boolean {
+  if (filter === ALL_COURSES) return true;
+  const known = courseId && coursesById.has(courseId) ? courseId : null;
+  if (filter === NO_COURSE) return known === null;
+  return known === filter;
+}
+
+export function buildCourseWorkloads(courses: Course[], tasks: Task[], now = Date.now()): CourseWorkload[] {
+  const workloads = new Map(
+    courses.map((course) => [course.id, { course, openCount: 0, overdueCount: 0, estimatedMinutes: 0 }])
+  );
+
+  for (const task of tasks) {
+    if (task.status === 'done' || !task.course_id) continue;
+    const workload = workloads.get(task.course_id);
+    if (!workload) continue;
+    workload.openCount += 1;
+    workload.estimatedMinutes += task.estimated_minutes ?? 0;
+    if (isTaskOverdue(task, now)) workload.overdueCount += 1;
+  }
+
+  return [...workloads.values()]
+    .filter((workload) => workload.openCount > 0)
+    .sort((a, b) => b.estimatedMinutes - a.estimatedMinutes || b.openCount - a.openCount);
+}
+
+export async function getCachedCourses(userId: string): Promise<Course[]> {
+  return sortCourses(await getLocalCourses(userId));
+}
+
+export async function fetchCourses(userId: string, options: RemoteReadOptions = {}): Promise<Course[]> {
+  const localCourses = await getLocalCourses(userId);
+  if (!options.remote) {
+    return sortCourses(localCourses);
+  }
+
+  const next = await pullRemoteDelta({
+    userId,
+    entity: 'course',
+    table: 'courses',
+    selectFields: courseSelectFields,
+    local: localCourses,
+    normalize: normalizeCourseFromDb,
+    decrypt: decryptCourseRecord,
+    sort: sortCourses,
+    store: (records) => setLocalCourses(userId, records),
+  });
+  return next ?? sortCourses(localCourses);
+}
+
+export async function createCourse(userId: string, input: CourseInput): Promise<Course> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error(COURSE_NAME_REQUIRED_ERROR);
+  }
+
+  const now = nowIso();
+  const course: Course = {
+    id: createEntityId(),
+    user_id: userId,
+    name,
+    color: normalizeColor(input.color),
+    teacher: input.teacher?.trim() || null,
+    term: input.term?.trim() || null,
+    coefficient: normalizeCoefficient(input.coefficient),
+    created_at: now,
+  };
+
+  await upsertLocalCourse(userId, course);
+  await enqueueOutboxOperation({
+    id: createLocalId('op'),
+    entity: 'course',
+    action: 'upsert',
+    userId,
+    record: course,
+    isNew: true,
+    createdAt: now,
+  });
+  return course;
+}
+
+export async function updateCourse(courseId: string, userId: string, input: CourseInput): Promise<Course> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error(COURSE_NAME_REQUIRED_ERROR);
+  }
+
+  const current = await getLocalCourseById(userId, courseId);
+  const now = nowIso();
+  const next: Course = {
+    id: courseId,
+    user_id: current?.user_id ?? userId,
+    name,
+    color: normalizeColor(input.color),
+    teacher: input.teacher?.trim() || null,
+    term: input.term?.trim() || null,
+    coefficient: normalizeCoefficient(input.coefficient),
+    created_at: current?.created_at ?? now,
+  };
+
+  await upsertLocalCourse(userId, next);
+  await enqueueOutboxOperation({
+    id: createLocalId('op'),
+    entity: 'course',
+    action: 'upsert',
+    userId,
+    record: next,
+    isNew: !current,
+    createdAt: now,
+  });
+  return next;
+}
+
+export async function deleteCourse(courseId: string, userId: string): Promise<void> {
+  await removeLocalAssessmentsForCourse(userId, courseId);
+  await removeLocalCourse(userId, courseId);
+  await enqueueOutboxOperation({
+    id: createLocalId('op'),
+    entity: 'course',
+    action: 'delete',
+    userId,
+    recordId: courseId,
+    createdAt: nowIso(),
+  });
+}
+
+export async function applyRemoteCourseUpsert(userId: string, row: unknown): Promise<boolean> {
+  const course = normalizeCourseFromDb(row);
+  if (!course) return false;
+  const pending = await getPendingRecordIds(userId, 'course');
+  if (pending.upserts.has(course.id) || pending.deletes.has(course.id)) return false;
+  await upsertLocalCourse(userId, await decryptCourseRecord(course));
+  return true;
+}
+
+export async function applyRemoteCourseDelete(userId: string, courseId: string): Promise<boolean> {
+  const pending = await getPendingRecordIds(userId, 'course');
+  if (pending.upserts.has(courseId)) return false;
+  if (!(await getLocalCourseById(userId, courseId))) return false;
+  await removeLocalAssessmentsForCourse(userId, courseId);
+  await removeLocalCourse(userId, courseId);
+  return true;
+}
@@ -0,0 +1,99 @@
+import { buildExamRevisionSteps, deleteExam, pickRevisionSlot, setExamSchedule } from '@/lib/exams';
+import { createEntityId } from '@/lib/offline-store';
+import { createTask, deleteTask, getCachedTasks, updateTask } from '@/lib/student-api';
+import { deleteStudySchedulePlan, getStudySchedulePlanById, saveStudyScheduleSessions } from '@/lib/study-schedule';
+import { getCachedTimetable } from '@/lib/timetable';
+import type { StudyDayKey, StudyScheduleSession } from '@/types/study-schedule';
+import type { Exam } from '@/types/supabase';
+
+export const DEFAULT_REVISION_MINUTES = 60;
+
+const DAY_KEYS: StudyDayKey[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export type ExamRevisionLabels = {
+  taskTitle: (offset: number, subject: string) => string;
+  finalTaskTitle: (subject: string) => string;
+  planTitle: (subject: string) => string;
+};
+
+export type ExamRevisionResult = {
+  taskCount: number;
+  sessionCount: number;
+};
+
+// Rebuilds the exam's revision tasks and sessions from its offsets. Completed revision tasks are kept and their
+// day is not planned again; open ones are replaced, so running it twice gives the same plan.
+export async function generateExamRevision(input: {
+  userId: string;
+  exam: Exam;
+  labels: ExamRevisionLabels;
+  sessionMinutes?: number;
+  now?: Date;
+}): Promise<ExamRevisionResult> {
+  const { userId, exam, labels } = input;
+  const minutes = input.sessionMinutes ?? DEFAULT_REVISION_MINUTES;
+  const linked = (await getCachedTasks(userId)).filter((task) => task.exam_id === exam.id);
+  for (const task of linked.filter((item) => item.status !== 'done')) {
+    await deleteTask(task.id, userId);
+  }
+  const doneDates = new Set(linked.filter((task) => task.status === 'done').map((task) => task.due_date));
+
+  const timetable = await getCachedTimetable(userId);
+  const steps = buildExamRevisionSteps(exam, input.now).filter((step) => !doneDates.has(step.date));
+  const sessions: StudyScheduleSession[] = [];
+  for (const step of steps) {
+    const task = await createTask({
+      userId,
+      title: step.isFinal ? labels.finalTaskTitle(exam.subject) : labels.taskTitle(step.offset, exam.subject),
+      dueDate: step.date,
+      estimatedMinutes: minutes,
+      priority: step.offset <= 1 ? 'high' : 'medium',
+      subtasks: step.topics,
+      courseId: exam.course_id,
+      examId: exam.id,
+    });
+    sessions.push({
+      id: createEntityId(),
+      date: step.date,
+      day: DAY_KEYS[new Date(`${step.date}T00:00:00Z`).getUTCDay()],
+      slot: pickRevisionSlot(timetable, step.date, minutes),
+      durationMinutes: minutes,
+      focus: step.topics.length > 0 ? step.topics.join(', ') : exam.subject,
+      taskId: task.id,
+      courseId: exam.course_id,
+    });
+  }
+
+  const existingPlan = exam.schedule_id ? await getStudySchedulePlanById(userId, exam.schedule_id) : null;
+  if (sessions.length === 0) {
+    if (existingPlan) await deleteStudySchedulePlan(existingPlan.id, userId);
+    await setExamSchedule(exam.id, userId, null);
+  } else {
+    const plan = await saveStudyScheduleSessions({
+      userId,
+      title: labels.planTitle(exam.subject),
+      goal: exam.subject,
+      sessions,
+      existingPlanId: existingPlan?.id,
+    });
+    await setExamSchedule(exam.id, userId, plan.id);
+  }
+
+  return { taskCount: steps.length, sessionCount: sessions.length };
+}
+
+// Open revision tasks and the revision plan go away with the exam; completed tasks stay in the history.
+export async function deleteExamWithRevision(exam: Exam, userId: string): Promise<void> {
+  const linked = (await getCachedTasks(userId)).filter((task) => task.exam_id === exam.id);
+  for (const task of linked) {
+    if (task.status === 'done') {
+      await updateTask(task.id, userId, { exam_id: null });
+    } else {
+      await deleteTask(task.id, userId);
+    }
+  }
+  if (exam.schedule_id && (await getStudySchedulePlanById(userId, exam.schedule_id))) {
+    await deleteStudySchedulePlan(exam.schedule_id, userId);
+  }
+  await deleteExam(exam.id, userId);
+}
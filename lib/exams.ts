@@ -0,0 +1,296 @@
+import { toIsoDate } from '@/lib/format';
+import { decryptE2eeString } from '@/lib/offline-crypto';
+import {
+  createEntityId,
+  createLocalId,
+  enqueueOutboxOperation,
+  getLocalExamById,
+  getLocalExams,
+  removeLocalExam,
+  setLocalExams,
+  upsertLocalExam,
+} from '@/lib/offline-store';
+import { getPendingRecordIds, pullRemoteDelta } from '@/lib/sync-delta';
+import { getLongestFreeMinutes } from '@/lib/timetable';
+import type { StudySlot, TimetableEntry } from '@/types/study-schedule';
+import type { Exam } from '@/types/supabase';
+
+export const DEFAULT_REVISION_OFFSETS = [7, 3, 1];
+export const EXAM_SUBJECT_REQUIRED_ERROR = "Le nom de l'examen est obligatoire.";
+export const EXAM_DATE_INVALID_ERROR = "La date de l'examen est invalide.";
+export const EXAM_TIME_INVALID_ERROR = "L'heure de l'examen est invalide.";
+export const EXAM_OFFSETS_INVALID_ERROR = 'Les jours de revision doivent etre des nombres entre 1 et 60.';
+
+const MAX_REVISION_OFFSET = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REVISION_SLOT_ORDER: StudySlot[] = ['evening', 'afternoon', 'morning'];
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+const examSelectFields =
+  'id, user_id, course_id, subject, exam_date, exam_time, location, topics, revision_offsets, schedule_id, created_at, updated_at';
+
+type RemoteReadOptions = {
+  remote?: boolean;
+};
+
+export type ExamInput = {
+  courseId: string | null;
+  subject: string;
+  examDate: string;
+  examTime?: string | null;
+  location?: string | null;
+  topics: string[];
+  revisionOffsets: number[];
+};
+
+export type ExamRevisionStep = {
+  offset: number;
+  date: string;
+  topics: string[];
+  isFinal: boolean;
+};
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function parseUtcDate(value: string): Date | null {
+  if (!datePattern.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : date;
+}
+
+function shiftDate(value: string, days: number): string {
+  const date = parseUtcDate(value) as Date;
+  return new Date(date.getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Unique whole days before the exam, farthest first.
+export function normalizeRevisionOffsets(value: unknown): number[] {
+  if (!Array.isArray(value)) return [...DEFAULT_REVISION_OFFSETS];
+  const offsets = [
+    ...new Set(
+      value
+        .map((item) => (typeof item === 'string' ? Number(item) : item))
+        .filter((item): item is number => Number.isInteger(item) && item >= 1 && item <= MAX_REVISION_OFFSET)
+    ),
+  ];
+  return offsets.length > 0 ? offsets.sort((a, b) => b - a) : [...DEFAULT_REVISION_OFFSETS];
+}
+
+export function parseRevisionOffsets(text: string): number[] | null {
+  const parts = text.split(/[\s,;]+/).map((part) => part.replace(/^j-?/i, '')).filter(Boolean);
+  if (parts.length === 0) return null;
+  const values = parts.map(Number);
+  if (values.some((item) => !Number.isInteger(item) || item < 1 || item > MAX_REVISION_OFFSET)) return null;
+  return normalizeRevisionOffsets(values);
+}
+
+export function parseTopics(text: string): string[] {
+  return [...new Set(text.split(/[\n,;]+/).map((topic) => topic.trim()).filter(Boolean))];
+}
+
+export function getDaysUntilExam(exam: Exam, now = new Date()): number {
+  const today = parseUtcDate(toIsoDate(now)) as Date;
+  const examDate = parseUtcDate(exam.exam_date);
+  if (!examDate) return 0;
+  return Math.round((examDate.getTime() - today.getTime()) / DAY_MS);
+}
+
+export function getUpcomingExams(exams: Exam[], now = new Date()): Exam[] {
+  return sortExams(exams.filter((exam) => getDaysUntilExam(exam, now) >= 0));
+}
+
+// Topics are dealt round-robin over the revision days; the last one before the exam reviews everything.
+export function buildExamRevisionSteps(exam: Exam, now = new Date()): ExamRevisionStep[] {
+  const today = toIsoDate(now);
+  const offsets = normalizeRevisionOffsets(exam.revision_offsets).filter(
+    (offset) => parseUtcDate(exam.exam_date) && shiftDate(exam.exam_date, -offset) >= today
+  );
+  const steps: ExamRevisionStep[] = offsets.map((offset, index) => ({
+    offset,
+    date: shiftDate(exam.exam_date, -offset),
+    topics: [],
+    isFinal: index === offsets.length - 1,
+  }));
+
+  const spread = steps.length > 1 ? steps.slice(0, -1) : steps;
+  exam.topics.forEach((topic, index) => {
+    spread[index % spread.length]?.topics.push(topic);
+  });
+  const final = steps[steps.length - 1];
+  if (final && steps.length > 1) {
+    final.topics = [...exam.topics];
+  }
+  return steps;
+}
+
+export function pickRevisionSlot(timetable: TimetableEntry[], date: string, minutes: number): StudySlot {
+  return (
+    REVISION_SLOT_ORDER.find((slot) => getLongestFreeMinutes(timetable, date, slot) >= minutes)
+    ?? REVISION_SLOT_ORDER[0]
+  );
+}
+
+function sortExams(exams: Exam[]): Exam[] {
+  return [...exams].sort((a, b) => {
+    const byDate = a.exam_date.localeCompare(b.exam_date);
+    if (byDate !== 0) return byDate;
+    return (a.exam_time ?? '').localeCompare(b.exam_time ?? '');
+  });
+}
+
+function normalizeExamFromDb(value: unknown): Exam | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Partial<Exam>;
+  if (typeof raw.id !== 'string' || typeof raw.subject !== 'string') return null;
+  if (typeof raw.exam_date !== 'string' || !parseUtcDate(raw.exam_date.slice(0, 10))) return null;
+  const examTime = typeof raw.exam_time === 'string' ? raw.exam_time.slice(0, 5) : null;
+
+  return {
+    id: raw.id,
+    user_id: raw.user_id ?? null,
+    course_id: raw.course_id ?? null,
+    subject: raw.subject,
+    exam_date: raw.exam_date.slice(0, 10),
+    exam_time: examTime && timePattern.test(examTime) ? examTime : null,
+    location: raw.location ?? null,
+    topics: Array.isArray(raw.topics) ? raw.topics.filter((topic): topic is string => typeof topic === 'string') : [],
+    revision_offsets: normalizeRevisionOffsets(raw.revision_offsets),
+    schedule_id: raw.schedule_id ?? null,
+    created_at: raw.created_at ?? nowIso(),
+    updated_at: raw.updated_at ?? null,
+  };
+}
+
+async function decryptExamRecord(exam: Exam): Promise<Exam> {
+  return {
+    ...exam,
+    subject: (await decryptE2eeString(exam.subject)) ?? exam.subject,
+    location: await decryptE2eeString(exam.location),
+    topics: await Promise.all(exam.topics.map(async (topic) => (await decryptE2eeString(topic)) ?? topic)),
+  };
+}
+
+function buildExamRecord(id: string, userId: string, input: ExamInput, current: Exam | null): Exam {
+  const subject = input.subject.trim();
+  if (!subject) {
+    throw new Error(EXAM_SUBJECT_REQUIRED_ERROR);
+  }
+  if (!parseUtcDate(input.examDate.trim())) {
+    throw new Error(EXAM_DATE_INVALID_ERROR);
+  }
+  const examTime = input.examTime?.trim() || null;
+  if (examTime && !timePattern.test(examTime)) {
+    throw new Error(EXAM_TIME_INVALID_ERROR);
+  }
+
+  return {
+    id,
+    user_id: current?.user_id ?? userId,
+    course_id: input.courseId,
+    subject,
+    exam_date: input.examDate.trim(),
+    exam_time: examTime,
+    location: input.location?.trim() || null,
+    topics: input.topics.map((topic) => topic.trim()).filter(Boolean),
+    revision_offsets: normalizeRevisionOffsets(input.revisionOffsets),
+    schedule_id: current?.schedule_id ?? null,
+    created_at: current?.created_at ?? nowIso(),
+  };
+}
+
+export async function getCachedExams(userId: string): Promise<Exam[]> {
+  return sortExams(await getLocalExams(userId));
+}
+
+export async function getExamById(userId: string, examId: string): Promise<Exam | null> {
+  return getLocalExamById(userId, examId);
+}
+
+export async function fetchExams(userId: string, options: RemoteReadOptions = {}): Promise<Exam[]> {
+  const localExams = await getLocalExams(userId);
+  if (!options.remote) {
+    return sortExams(localExams);
+  }
+
+  const next = await pullRemoteDelta({
+    userId,
+    entity: 'exam',
+    table: 'exams',
+    selectFields: examSelectFields,
+    local: localExams,
+    normalize: normalizeExamFromDb,
+    decrypt: decryptExamRecord,
+    sort: sortExams,
+    store: (records) => setLocalExams(userId, records),
+  });
+  return next ?? sortExams(localExams);
+}
+
+async function saveExam(userId: string, exam: Exam, isNew: boolean): Promise<Exam> {
+  await upsertLocalExam(userId, exam);
+  await enqueueOutboxOperation({
+    id: createLocalId('op'),
+    entity: 'exam',
+    action: 'upsert',
+    userId,
+    record: exam,
+    isNew,
+    createdAt: nowIso(),
+  });
+  return exam;
+}
+
+export async function createExam(userId: string, input: ExamInput): Promise<Exam> {
+  return saveExam(userId, buildExamRecord(createEntityId(), userId, input, null), true);
+}
+
+export async function updateExam(examId: string, userId: string, input: ExamInput): Promise<Exam> {
+  const current = await getLocalExamById(userId, examId);
+  return saveExam(userId, buildExamRecord(examId, userId, input, current), !current);
+}
+
+export async function setExamSchedule(examId: string, userId: string, scheduleId: string | null): Promise<void> {
+  const current = await getLocalExamById(userId, examId);
+  if (!current || current.schedule_id === scheduleId) return;
+  await saveExam(userId, { ...current, schedule_id: scheduleId }, false);
+}
+
+export async function deleteExam(examId: string, userId: string): Promise<void> {
+  await removeLocalExam(userId, examId);
+  await enqueueOutboxOperation({
+    id: createLocalId('op'),
+    entity: 'exam',
+    action: 'delete',
+    userId,
+    recordId: examId,
+    createdAt: nowIso(),
+  });
+}
+
+export async function detachCourseFromExams(courseId: string, userId: string): Promise<void> {
+  const exams = await getLocalExams(userId);
+  for (const exam of exams) {
+    if (exam.course_id === courseId) {
+      await saveExam(userId, { ...exam, course_id: null }, false);
+    }
+  }
+}
+
+export async function applyRemoteExamUpsert(userId: string, row: unknown): Promise<boolean> {
+  const exam = normalizeExamFromDb(row);
+  if (!exam) return false;
+  const pending = await getPendingRecordIds(userId, 'exam');
+  if (pending.upserts.has(exam.id) || pending.deletes.has(exam.id)) return false;
+  await upsertLocalExam(userId, await decryptExamRecord(exam));
+  return true;
+}
+
+export async function applyRemoteExamDelete(userId: string, examId: string): Promise<boolean> {
+  const pending = await getPendingRecordIds(userId, 'exam');
+  if (pending.upserts.has(examId)) return false;
+  if (!(await getLocalExamById(userId, examId))) return false;
+  await removeLocalExam(userId, examId);
+  return true;
+}
@@ -0,0 +1,327 @@
+import { toIsoDate } from '@/lib/format';
+import { decryptE2eeString } from '@/lib/offline-crypto';
+import {
+  createEntityId,
+  createLocalId,
+  enqueueOutboxOperation,
+  getLocalFlashcards,
+  removeLocalFlashcards,
+  setLocalFlashcards,
+  upsertLocalFlashcards,
+} from '@/lib/offline-store';
+import {
+  applyReviewGrade,
+  createReviewSchedule,
+  isReviewDue,
+  mergePendingReviewSchedules,
+  mergeReviewSchedules,
+  normalizeReviewSchedule,
+} from '@/lib/reviews';
+import { getPendingRecordIds, pullRemoteDelta } from '@/lib/sync-delta';
+import type { Flashcard, ReviewGrade } from '@/types/supabase';
+
+export const FLASHCARD_DECK_REQUIRED_ERROR = 'Le nom du paquet est obligatoire.';
+export const FLASHCARD_EMPTY_ERROR = 'Aucune carte reconnue. Ecris chaque carte sous la forme "Q: question" puis "A: reponse".';
+export const FLASHCARD_NOT_FOUND_ERROR = 'Cette carte est introuvable.';
+
+const MAX_DECK_LENGTH = 80;
+const MAX_SIDE_LENGTH = 1000;
+const flashcardSelectFields =
+  'id, user_id, deck, front, back, resource_id, ease_factor, interval_days, repetitions, lapses, due_date, last_reviewed_at, history, created_at, updated_at';
+
+// "Q:", "Question 3 :", "**Q1.**" and the matching answer markers, with optional list or number prefixes.
+const questionPattern = /^(?:[-*]\s*)?(?:\d+\s*[.)]\s*)?(?:\*\*)?(?:q|question)\s*\d*\s*(?:\*\*)?\s*[:.]\s*(?:\*\*)?\s*(.*)$/i;
+const answerPattern =
+  /^(?:[-*]\s*)?(?:\*\*)?(?:a|r|answer|reponse|réponse)\s*\d*\s*(?:\*\*)?\s*[:.]\s*(?:\*\*)?\s*(.*)$/i;
+const numberedPattern = /^(?:\*\*)?\d+\s*[.)]\s+(.+)$/;
+
+type RemoteReadOptions = {
+  remote?: boolean;
+};
+
+export type FlashcardDraft = {
+  front: string;
+  back: string;
+};
+
+export type FlashcardDeck = {
+  name: string;
+  total: number;
+  due: number;
+  resourceId: string | null;
+};
+
+export type FlashcardsInput = {
+  deck: string;
+  resourceId?: string | null;
+  cards: FlashcardDraft[];
+};
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function cleanSide(value: string): string {
+  return value.replace(/\*\*/g, '').replace(/\s+/g, ' ').trim().slice(0, MAX_SIDE_LENGTH);
+}
+
+// Works on notes written as "Q:/A:" pairs and on numbered quizzes. A numbered line only opens a card after the answer
+// of a numbered question: under a "Q:" card it is a list item and continues the current side.
+export function parseFlashcards(text: string): FlashcardDraft[] {
+  const drafts: FlashcardDraft[] = [];
+  let current: FlashcardDraft | null = null;
+  let side: keyof FlashcardDraft | null = null;
+  let openedByMarker = false;
+
+  const flush = () => {
+    if (current && cleanSide(current.front) && cleanSide(current.back)) {
+      drafts.push({ front: cleanSide(current.front), back: cleanSide(current.back) });
+    }
+    current = null;
+    side = null;
+    openedByMarker = false;
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const question = questionPattern.exec(line);
+    if (question) {
+      flush();
+      current = { front: question[1], back: '' };
+      side = 'front';
+      openedByMarker = true;
+      continue;
+    }
+
+    const answer = answerPattern.exec(line);
+    if (answer && current) {
+      current.back = current.back ? `${current.back} ${answer[1]}` : answer[1];
+      side = 'back';
+      continue;
+    }
+
+    const numbered = numberedPattern.exec(line);
+    if (numbered && (!current || (side === 'back' && !openedByMarker))) {
+      flush();
+      current = { front: numbered[1], back: '' };
+      side = 'front';
+      continue;
+    }
+
+    if (current && side) {
+      current[side] = `${current[side]} ${line}`;
+    }
+  }
+  flush();
+
+  const seen = new Set<string>();
+  return drafts.filter((draft) => {
+    const key = draft.front.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function sortFlashcards(cards: Flashcard[]): Flashcard[] {
+  return [...cards].sort(
+    (a, b) =>
+      a.deck.localeCompare(b.deck)
+      || a.due_date.localeCompare(b.due_date)
+      || (a.created_at ?? '').localeCompare(b.created_at ?? '')
+  );
+}
+
+export function getFlashcardDecks(cards: Flashcard[], today = toIsoDate()): FlashcardDeck[] {
+  const decks = new Map<string, FlashcardDeck>();
+  for (const card of cards) {
+    const deck = decks.get(card.deck) ?? { name: card.deck, total: 0, due: 0, resourceId: card.resource_id };
+    deck.total += 1;
+    if (isReviewDue(card, today)) deck.due += 1;
+    decks.set(card.deck, deck);
+  }
+  return [...decks.values()].sort((a, b) => b.due - a.due || a.name.localeCompare(b.name));
+}
+
+export function getDueFlashcards(cards: Flashcard[], deck: string, today = toIsoDate()): Flashcard[] {
+  return cards
+    .filter((card) => card.deck === deck && isReviewDue(card, today))
+    .sort((a, b) => a.due_date.localeCompare(b.due_date) || (a.created_at ?? '').localeCompare(b.created_at ?? ''));
+}
+
+function normalizeFlashcardFromDb(value: unknown): Flashcard | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Partial<Flashcard>;
+  if (typeof raw.id !== 'string' || typeof raw.front !== 'string' || typeof raw.back !== 'string') return null;
+
+  return {
+    id: raw.id,
+    user_id: raw.user_id ?? null,
+    deck: typeof raw.deck === 'string' ? raw.deck : '',
+    front: raw.front,
+    back: raw.back,
+    resource_id: raw.resource_id ?? null,
+    ...normalizeReviewSchedule(raw),
+    created_at: raw.created_at ?? nowIso(),
+    updated_at: raw.updated_at ?? null,
+  };
+}
+
+async function decryptFlashcardRecord(card: Flashcard): Promise<Flashcard> {
+  return {
+    ...card,
+    deck: (await decryptE2eeString(card.deck)) ?? card.deck,
+    front: (await decryptE2eeString(card.front)) ?? card.front,
+    back: (await decryptE2eeString(card.back)) ?? card.back,
+  };
+}
+
+export async function getCachedFlashcards(userId: string): Promise<Flashcard[]> {
+  return sortFlashcards(await getLocalFlashcards(userId));
+}
+
+export async function fetchFlashcards(userId: string, options: RemoteReadOptions = {}): Promise<Flashcard[]> {
+  const localCards = await getLocalFlashcards(userId);
+  if (!options.remote) {
+    return sortFlashcards(localCards);
+  }
+
+  const next = await pullRemoteDelta({
+    userId,
+    entity: 'flashcard',
+    table: 'flashcards',
+    selectFields: flashcardSelectFields,
+    local: localCards,
+    normalize: normalizeFlashcardFromDb,
+    decrypt: decryptFlashcardRecord,
+    resolvePending: (records, remote, pending) => mergePendingReviewSchedules(records, remote, pending.upserts),
+    sort: sortFlashcards,
+    store: (records) => setLocalFlashcards(userId, records),
+  });
+  return next ?? sortFlashcards(localCards);
+}
+
+async function saveFlashcards(userId: string, cards: Flashcard[], isNew: boolean): Promise<Flashcard[]> {
+  await upsertLocalFlashcards(userId, cards);
+  for (const card of cards) {
+    await enqueueOutboxOperation({
+      id: createLocalId('op'),
+      entity: 'flashcard',
+      action: 'upsert',
+      userId,
+      record: card,
+      isNew,
+      createdAt: nowIso(),
+    });
+  }
+  return cards;
+}
+
+async function deleteFlashcards(userId: string, cardIds: string[]): Promise<void> {
+  await removeLocalFlashcards(userId, cardIds);
+  for (const cardId of cardIds) {
+    await enqueueOutboxOperation({
+      id: createLocalId('op'),
+      entity: 'flashcard',
+      action: 'delete',
+      userId,
+      recordId: cardId,
+      createdAt: nowIso(),
+    });
+  }
+}
+
+// Cards whose front already exists in the deck are skipped, so importing the same note twice adds nothing.
+export async function createFlashcards(userId: string, input: FlashcardsInput): Promise<Flashcard[]> {
+  const deck = input.deck.trim().slice(0, MAX_DECK_LENGTH);
+  if (!deck) {
+    throw new Error(FLASHCARD_DECK_REQUIRED_ERROR);
+  }
+  const drafts = input.cards
+    .map((draft) => ({ front: cleanSide(draft.front), back: cleanSide(draft.back) }))
+    .filter((draft) => draft.front && draft.back);
+  if (drafts.length === 0) {
+    throw new Error(FLASHCARD_EMPTY_ERROR);
+  }
+
+  const existing = await getLocalFlashcards(userId);
+  const seen = new Set(existing.filter((card) => card.deck === deck).map((card) => card.front.toLowerCase()));
+  const now = nowIso();
+  const cards: Flashcard[] = [];
+  for (const draft of drafts) {
+    const key = draft.front.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    cards.push({
+      id: createEntityId(),
+      user_id: userId,
+      deck,
+      front: draft.front,
+      back: draft.back,
+      resource_id: input.resourceId ?? null,
+      ...createReviewSchedule(),
+      created_at: now,
+    });
+  }
+  return saveFlashcards(userId, cards, true);
+}
+
+export async function recordFlashcardReview(userId: string, cardId: string, grade: ReviewGrade): Promise<Flashcard> {
+  const cards = await getLocalFlashcards(userId);
+  const current = cards.find((card) => card.id === cardId);
+  if (!current) {
+    throw new Error(FLASHCARD_NOT_FOUND_ERROR);
+  }
+  const [next] = await saveFlashcards(userId, [applyReviewGrade(current, grade)], false);
+  return next;
+}
+
+export async function deleteFlashcard(cardId: string, userId: string): Promise<void> {
+  await deleteFlashcards(userId, [cardId]);
+}
+
+export async function deleteFlashcardDeck(deck: string, userId: string): Promise<void> {
+  const cards = await getLocalFlashcards(userId);
+  await deleteFlashcards(
+    userId,
+    cards.filter((card) => card.deck === deck).map((card) => card.id)
+  );
+}
+
+export async function detachResourceFromFlashcards(resourceId: string, userId: string): Promise<void> {
+  const cards = await getLocalFlashcards(userId);
+  const linked = cards.filter((card) => card.resource_id === resourceId);
+  if (linked.length === 0) return;
+  await saveFlashcards(
+    userId,
+    linked.map((card) => ({ ...card, resource_id: null })),
+    false
+  );
+}
+
+export async function applyRemoteFlashcardUpsert(userId: string, row: unknown): Promise<boolean> {
+  const card = normalizeFlashcardFromDb(row);
+  if (!card) return false;
+  const pending = await getPendingRecordIds(userId, 'flashcard');
+  if (pending.deletes.has(card.id)) return false;
+  if (pending.upserts.has(card.id)) {
+    const current = (await getLocalFlashcards(userId)).find((local) => local.id === card.id);
+    if (!current) return false;
+    const merged = mergeReviewSchedules(current, card);
+    if (merged === current) return false;
+    await upsertLocalFlashcards(userId, [merged]);
+    return true;
+  }
+  await upsertLocalFlashcards(userId, [await decryptFlashcardRecord(card)]);
+  return true;
+}
+
+export async function applyRemoteFlashcardDelete(userId: string, cardId: string): Promise<boolean> {
+  const pending = await getPendingRecordIds(userId, 'flashcard');
+  if (pending.upserts.has(cardId)) return false;
+  if (!(await getLocalFlashcards(userId)).some((card) => card.id === cardId)) return false;
+  await removeLocalFlashcards(userId, [cardId]);
+  return true;
+}
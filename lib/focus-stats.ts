@@ -1,22 +1,11 @@
-import * as FileSystem from 'expo-file-system/legacy';
-import { Platform } from 'react-native';
+import { createLocalId, enqueueOutboxOperation } from '@/lib/offline-store';
+import { createPersistentStore } from '@/lib/persistent-store';
+import type { FocusDayStats, SyncedFocusStats } from '@/types/user-sync';
 
 const STORAGE_KEY = 'studyday-focus-stats-v1';
-const FILE_PATH = FileSystem.documentDirectory
-  ? `${FileSystem.documentDirectory}${STORAGE_KEY}.json`
-  : null;
-
-type FocusDayStats = {
-  sessions: number;
-  minutes: number;
-};
-
-type FocusUserStats = {
-  byDay: Record<string, FocusDayStats>;
-};
 
 type FocusStatsState = {
-  byUser: Record<string, FocusUserStats>;
+  byUser: Record<string, SyncedFocusStats>;
   updatedAt: string | null;
 };
 
@@ -33,10 +22,6 @@ const defaultState: FocusStatsState = {
   updatedAt: null,
 };
 
-let memoryState: FocusStatsState | null = null;
-let loadingPromise: Promise<FocusStatsState> | null = null;
-let writeChain: Promise<void> = Promise.resolve();
-
 function cloneState(state: FocusStatsState): FocusStatsState {
   return JSON.parse(JSON.stringify(state)) as FocusStatsState;
 }
@@ -48,6 +33,20 @@ function toIsoDate(value: Date): string {
   return `${year}-${month}-${day}`;
 }
 
+export function normalizeSyncedFocusStats(value: unknown): SyncedFocusStats {
+  const raw = value && typeof value === 'object' ? (value as Partial<SyncedFocusStats>) : {};
+  const byDay = raw.byDay && typeof raw.byDay === 'object' ? raw.byDay : {};
+  const normalizedByDay: Record<string, FocusDayStats> = {};
+  for (const [day, stats] of Object.entries(byDay)) {
+    const typedStats = stats as Partial<FocusDayStats>;
+    normalizedByDay[day] = {
+      sessions: Number.isFinite(typedStats.sessions) ? Math.max(0, Number(typedStats.sessions)) : 0,
+      minutes: Number.isFinite(typedStats.minutes) ? Math.max(0, Number(typedStats.minutes)) : 0,
+    };
+  }
+  return { byDay: normalizedByDay };
+}
+
 function normalizeState(value: unknown): FocusStatsState {
   if (!value || typeof value !== 'object') {
     return cloneState(defaultState);
@@ -57,108 +56,71 @@ function normalizeState(value: unknown): FocusStatsState {
   const byUser = raw.byUser && typeof raw.byUser === 'object' ? raw.byUser : {};
   return {
     byUser: Object.fromEntries(
-      Object.entries(byUser).map(([userId, userStats]) => {
-        const typedUser = userStats as Partial<FocusUserStats>;
-        const byDay = typedUser.byDay && typeof typedUser.byDay === 'object' ? typedUser.byDay : {};
-        const normalizedByDay: Record<string, FocusDayStats> = {};
-        for (const [day, stats] of Object.entries(byDay)) {
-          const typedStats = stats as Partial<FocusDayStats>;
-          normalizedByDay[day] = {
-            sessions: Number.isFinite(typedStats.sessions) ? Math.max(0, Number(typedStats.sessions)) : 0,
-            minutes: Number.isFinite(typedStats.minutes) ? Math.max(0, Number(typedStats.minutes)) : 0,
-          };
-        }
-        return [userId, { byDay: normalizedByDay }];
-      })
+      Object.entries(byUser).map(([userId, userStats]) => [userId, normalizeSyncedFocusStats(userStats)])
     ),
     updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : null,
   };
 }
 
-async function readFromStorage(): Promise<FocusStatsState> {
-  if (Platform.OS === 'web') {
-    try {
-      const raw = globalThis.localStorage?.getItem(STORAGE_KEY);
-      if (!raw) return cloneState(defaultState);
-      return normalizeState(JSON.parse(raw));
-    } catch {
-      return cloneState(defaultState);
-    }
-  }
-
-  if (!FILE_PATH) return cloneState(defaultState);
-
-  try {
-    const raw = await FileSystem.readAsStringAsync(FILE_PATH);
-    if (!raw) return cloneState(defaultState);
-    return normalizeState(JSON.parse(raw));
-  } catch {
-    return cloneState(defaultState);
+// Each device only ever adds sessions, so the larger count of a day is the most complete one.
+export function mergeSyncedFocusStats(local: SyncedFocusStats, remote: SyncedFocusStats): SyncedFocusStats {
+  const byDay: Record<string, FocusDayStats> = { ...remote.byDay };
+  for (const [day, stats] of Object.entries(local.byDay)) {
+    const other = byDay[day];
+    byDay[day] = other
+      ? { sessions: Math.max(stats.sessions, other.sessions), minutes: Math.max(stats.minutes, other.minutes) }
+      : stats;
   }
+  return { byDay };
 }
 
-async function writeToStorage(state: FocusStatsState): Promise<void> {
-  if (Platform.OS === 'web') {
-    try {
-      globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(state));
-    } catch {
-      // Ignore persistence errors.
-    }
-    return;
-  }
-
-  if (!FILE_PATH) return;
-
-  try {
-    await FileSystem.writeAsStringAsync(FILE_PATH, JSON.stringify(state));
-  } catch {
-    // Ignore persistence errors.
-  }
+export function hasUnsyncedFocusStats(local: SyncedFocusStats, remote: SyncedFocusStats): boolean {
+  return Object.entries(local.byDay).some(([day, stats]) => {
+    const other = remote.byDay[day];
+    return !other || stats.sessions > other.sessions || stats.minutes > other.minutes;
+  });
 }
 
-async function loadState(): Promise<FocusStatsState> {
-  if (memoryState) return cloneState(memoryState);
+const store = createPersistentStore<FocusStatsState>({
+  key: STORAGE_KEY,
+  defaultValue: defaultState,
+  normalize: normalizeState,
+  encrypted: true,
+});
 
-  if (!loadingPromise) {
-    loadingPromise = (async () => {
-      const loaded = await readFromStorage();
-      memoryState = normalizeState(loaded);
-      return cloneState(memoryState);
-    })();
-  }
-
-  return loadingPromise;
+async function updateState(mutator: (state: FocusStatsState) => void): Promise<FocusStatsState> {
+  return store.update((state) => {
+    mutator(state);
+    state.updatedAt = new Date().toISOString();
+  });
 }
 
-async function withWriteLock<T>(task: () => Promise<T>): Promise<T> {
-  let release: () => void = () => {};
-  const gate = new Promise<void>((resolve) => {
-    release = resolve;
-  });
-  const previous = writeChain;
-  writeChain = previous.then(() => gate);
-  await previous;
-  try {
-    return await task();
-  } finally {
-    release();
-  }
+function getUserStats(state: FocusStatsState, userId: string): SyncedFocusStats {
+  return state.byUser[userId] ?? { byDay: {} };
 }
 
-async function updateState(mutator: (state: FocusStatsState) => void): Promise<FocusStatsState> {
-  return withWriteLock(async () => {
-    const current = await loadState();
-    const next = cloneState(current);
-    mutator(next);
-    next.updatedAt = new Date().toISOString();
-    memoryState = normalizeState(next);
-    await writeToStorage(memoryState);
-    return cloneState(memoryState);
+async function queueFocusStatsSync(userId: string, record: SyncedFocusStats): Promise<void> {
+  await enqueueOutboxOperation({
+    id: createLocalId('op'),
+    entity: 'focus_stats',
+    action: 'upsert',
+    userId,
+    record,
+    createdAt: new Date().toISOString(),
   });
 }
 
-function getUserStats(state: FocusStatsState, userId: string): FocusUserStats {
-  return state.byUser[userId] ?? { byDay: {} };
+// Merges stats pulled from another device; days the server has not seen yet are queued for push.
+export async function applyRemoteFocusStats(userId: string, remote: SyncedFocusStats): Promise<void> {
+  const local = getUserStats(await store.load(), userId);
+  if (hasUnsyncedFocusStats(remote, local)) {
+    await updateState((state) => {
+      state.byUser[userId] = mergeSyncedFocusStats(getUserStats(state, userId), remote);
+    });
+  }
+  if (hasUnsyncedFocusStats(local, remote)) {
+    await queueFocusStatsSync(userId, mergeSyncedFocusStats(local, remote));
+  }
 }
 
 function computeStreakDays(byDay: Record<string, FocusDayStats>): number {
@@ -178,7 +140,7 @@ function computeStreakDays(byDay: Record<string, FocusDayStats>): number {
 
 export async function recordFocusSession(userId: string, minutes: number, at = new Date()): Promise<void> {
   const iso = toIsoDate(at);
-  await updateState((state) => {
+  const nextState = await updateState((state) => {
     const user = getUserStats(state, userId);
     const day = user.byDay[iso] ?? { sessions: 0, minutes: 0 };
     user.byDay[iso] = {
@@ -187,10 +149,11 @@ export async function recordFocusSession(userId: string, minutes: number, at = n
     };
     state.byUser[userId] = user;
   });
+  await queueFocusStatsSync(userId, getUserStats(nextState, userId));
 }
 
 export async function getFocusStats(userId: string): Promise<FocusStatsSummary> {
-  const state = await loadState();
+  const state = await store.load();
   const user = getUserStats(state, userId);
   const today = new Date();
   const todayKey = toIsoDate(today);
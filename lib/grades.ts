@@ -0,0 +1,376 @@
+import { decryptE2eeString } from '@/lib/offline-crypto';
+import {
+  createEntityId,
+  createLocalId,
+  enqueueOutboxOperation,
+  getLocalAssessmentById,
+  getLocalAssessments,
+  removeLocalAssessment,
+  setLocalAssessments,
+  upsertLocalAssessment,
+} from '@/lib/offline-store';
+import { getPendingRecordIds, pullRemoteDelta } from '@/lib/sync-delta';
+import type { Assessment, Course } from '@/types/supabase';
+
+export const GRADE_SCALE = 20;
+export const DEFAULT_PASSING_GRADE = 10;
+export const ASSESSMENT_TITLE_REQUIRED_ERROR = "Le titre de l'evaluation est obligatoire.";
+export const ASSESSMENT_SCORE_INVALID_ERROR = 'La note doit etre comprise entre 0 et la note maximale.';
+
+const TREND_WINDOW_DAYS = 30;
+const RECENT_SCORES_LIMIT = 8;
+const assessmentSelectFields = 'id, user_id, course_id, title, score, max_score, weight, date, created_at, updated_at';
+
+type RemoteReadOptions = {
+  remote?: boolean;
+};
+
+export type AssessmentInput = {
+  courseId: string;
+  title: string;
+  score: number | null;
+  maxScore: number;
+  weight: number;
+  date: string | null;
+};
+
+export type GradeProjection = {
+  status: 'secured' | 'reachable' | 'out_of_reach';
+  // Minimum grade (on GRADE_SCALE) needed on every remaining assessment to reach the target.
+  requiredGrade: number;
+};
+
+export type CourseGrade = {
+  course: Course;
+  assessments: Assessment[];
+  average: number | null;
+  gradedCount: number;
+  remainingCount: number;
+  projection: GradeProjection | null;
+  trend: number | null;
+};
+
+export type TermGrade = {
+  term: string | null;
+  average: number | null;
+  credits: number;
+  courses: CourseGrade[];
+};
+
+export type GradeOverview = {
+  average: number | null;
+  trend: number | null;
+  recent: { id: string; ratio: number; color: string }[];
+};
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function toPositiveNumber(value: unknown, fallback: number): number {
+  const number = typeof value === 'string' ? Number(value.replace(',', '.')) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : fallback;
+}
+
+export function parseGradeNumber(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const number = Number(trimmed.replace(',', '.'));
+  return Number.isFinite(number) ? number : null;
+}
+
+function normalizeAssessmentFromDb(value: unknown): Assessment | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Partial<Assessment>;
+  if (typeof raw.id !== 'string' || typeof raw.course_id !== 'string' || typeof raw.title !== 'string') return null;
+
+  const maxScore = toPositiveNumber(raw.max_score, GRADE_SCALE);
+  const score = typeof raw.score === 'number' || typeof raw.score === 'string' ? Number(raw.score) : null;
+  return {
+    id: raw.id,
+    user_id: raw.user_id ?? null,
+    course_id: raw.course_id,
+    title: raw.title,
+    score: score !== null && Number.isFinite(score) ? Math.max(0, Math.min(maxScore, score)) : null,
+    max_score: maxScore,
+    weight: toPositiveNumber(raw.weight, 1),
+    date: typeof raw.date === 'string' && /^\d{4}-\d{2}-\d{2}/.test(raw.date) ? raw.date.slice(0, 10) : null,
+    created_at: raw.created_at ?? null,
+    updated_at: raw.updated_at ?? null,
+  };
+}
+
+async function decryptAssessmentRecord(assessment: Assessment): Promise<Assessment> {
+  return {
+    ...assessment,
+    title: (await decryptE2eeString(assessment.title)) ?? assessment.title,
+  };
+}
+
+function compareAssessments(a: Assessment, b: Assessment): number {
+  const aKey = a.date ?? a.created_at ?? '';
+  const bKey = b.date ?? b.created_at ?? '';
+  if (aKey !== bKey) return aKey < bKey ? -1 : 1;
+  return (a.created_at ?? '').localeCompare(b.created_at ?? '');
+}
+
+function sortAssessments(assessments: Assessment[]): Assessment[] {
+  return [...assessments].sort(compareAssessments);
+}
+
+function isGraded(assessment: Assessment): assessment is Assessment & { score: number } {
+  return assessment.score !== null;
+}
+
+// Weighted mean of score / max_score, on GRADE_SCALE.
+export function computeWeightedAverage(assessments: Assessment[]): number | null {
+  let weighted = 0;
+  let weights = 0;
+  for (const assessment of assessments) {
+    if (!isGraded(assessment)) continue;
+    weighted += (assessment.score / assessment.max_score) * assessment.weight;
+    weights += assessment.weight;
+  }
+  return weights > 0 ? (weighted / weights) * GRADE_SCALE : null;
+}
+
+export function projectRequiredGrade(assessments: Assessment[], target = DEFAULT_PASSING_GRADE): GradeProjection | null {
+  let gradedPoints = 0;
+  let gradedWeight = 0;
+  let remainingWeight = 0;
+  for (const assessment of assessments) {
+    if (isGraded(assessment)) {
+      gradedPoints += (assessment.score / assessment.max_score) * assessment.weight;
+      gradedWeight += assessment.weight;
+    } else {
+      remainingWeight += assessment.weight;
+    }
+  }
+  if (remainingWeight === 0) return null;
+
+  const ratio = ((target / GRADE_SCALE) * (gradedWeight + remainingWeight) - gradedPoints) / remainingWeight;
+  if (ratio <= 0) return { status: 'secured', requiredGrade: 0 };
+  return {
+    status: ratio > 1 ? 'out_of_reach' : 'reachable',
+    requiredGrade: Math.round(ratio * GRADE_SCALE * 100) / 100,
+  };
+}
+
+// Difference made by the latest graded assessment.
+function computeCourseTrend(assessments: Assessment[]): number | null {
+  const graded = assessments.filter(isGraded);
+  if (graded.length < 2) return null;
+  const current = computeWeightedAverage(graded);
+  const previous = computeWeightedAverage(graded.slice(0, -1));
+  return current !== null && previous !== null ? current - previous : null;
+}
+
+export function buildCourseGrades(
+  courses: Course[],
+  assessments: Assessment[],
+  target = DEFAULT_PASSING_GRADE
+): CourseGrade[] {
+  const byCourse = new Map<string, Assessment[]>();
+  for (const assessment of sortAssessments(assessments)) {
+    byCourse.set(assessment.course_id, [...(byCourse.get(assessment.course_id) ?? []), assessment]);
+  }
+
+  return courses.map((course) => {
+    const list = byCourse.get(course.id) ?? [];
+    const gradedCount = list.filter(isGraded).length;
+    return {
+      course,
+      assessments: list,
+      average: computeWeightedAverage(list),
+      gradedCount,
+      remainingCount: list.length - gradedCount,
+      projection: projectRequiredGrade(list, target),
+      trend: computeCourseTrend(list),
+    };
+  });
+}
+
+// Course averages weighted by their coefficient (credits); courses without a coefficient count once.
+export function computeCoefficientAverage(courseGrades: CourseGrade[]): number | null {
+  let weighted = 0;
+  let credits = 0;
+  for (const grade of courseGrades) {
+    if (grade.average === null) continue;
+    const coefficient = grade.course.coefficient ?? 1;
+    weighted += grade.average * coefficient;
+    credits += coefficient;
+  }
+  return credits > 0 ? weighted / credits : null;
+}
+
+export function buildTermGrades(courseGrades: CourseGrade[]): TermGrade[] {
+  const byTerm = new Map<string | null, CourseGrade[]>();
+  for (const grade of courseGrades) {
+    const term = grade.course.term?.trim() || null;
+    byTerm.set(term, [...(byTerm.get(term) ?? []), grade]);
+  }
+
+  return [...byTerm.entries()]
+    .map(([term, grades]) => ({
+      term,
+      average: computeCoefficientAverage(grades),
+      credits: grades.reduce((sum, grade) => sum + (grade.course.coefficient ?? 1), 0),
+      courses: grades,
+    }))
+    .sort((a, b) => {
+      if (a.term === b.term) return 0;
+      if (a.term === null) return 1;
+      if (b.term === null) return -1;
+      return a.term.localeCompare(b.term);
+    });
+}
+
+export function buildGradeOverview(courses: Course[], assessments: Assessment[], now = new Date()): GradeOverview {
+  const known = new Map(courses.map((course) => [course.id, course]));
+  const relevant = assessments.filter((assessment) => known.has(assessment.course_id));
+  const average = computeCoefficientAverage(buildCourseGrades(courses, relevant));
+
+  const windowStart = new Date(now);
+  windowStart.setDate(windowStart.getDate() - TREND_WINDOW_DAYS);
+  const cutoff = windowStart.toISOString().slice(0, 10);
+  const before = relevant.filter((assessment) => (assessment.date ?? assessment.created_at ?? '') <= cutoff);
+  const previous = before.length < relevant.length ? computeCoefficientAverage(buildCourseGrades(courses, before)) : null;
+
+  const recent = sortAssessments(relevant.filter(isGraded))
+    .slice(-RECENT_SCORES_LIMIT)
+    .map((assessment) => ({
+      id: assessment.id,
+      ratio: (assessment.score as number) / assessment.max_score,
+      color: known.get(assessment.course_id)?.color ?? '',
+    }));
+
+  return {
+    average,
+    trend: average !== null && previous !== null ? average - previous : null,
+    recent,
+  };
+}
+
+export function formatGrade(value: number, locale: string): string {
+  return new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(value);
+}
+
+export async function getCachedAssessments(userId: string): Promise<Assessment[]> {
+  return sortAssessments(await getLocalAssessments(userId));
+}
+
+export async function fetchAssessments(userId: string, options: RemoteReadOptions = {}): Promise<Assessment[]> {
+  const localAssessments = await getLocalAssessments(userId);
+  if (!options.remote) {
+    return sortAssessments(localAssessments);
+  }
+
+  const next = await pullRemoteDelta({
+    userId,
+    entity: 'assessment',
+    table: 'assessments',
+    selectFields: assessmentSelectFields,
+    local: localAssessments,
+    normalize: normalizeAssessmentFromDb,
+    decrypt: decryptAssessmentRecord,
+    sort: sortAssessments,
+    store: (records) => setLocalAssessments(userId, records),
+  });
+  return next ?? sortAssessments(localAssessments);
+}
+
+function buildAssessmentRecord(
+  id: string,
+  userId: string,
+  input: AssessmentInput,
+  createdAt: string
+): Assessment {
+  const title = input.title.trim();
+  if (!title) {
+    throw new Error(ASSESSMENT_TITLE_REQUIRED_ERROR);
+  }
+  const maxScore = toPositiveNumber(input.maxScore, GRADE_SCALE);
+  if (input.score !== null && (!Number.isFinite(input.score) || input.score < 0 || input.score > maxScore)) {
+    throw new Error(ASSESSMENT_SCORE_INVALID_ERROR);
+  }
+
+  return {
+    id,
+    user_id: userId,
+    course_id: input.courseId,
+    title,
+    score: input.score,
+    max_score: maxScore,
+    weight: toPositiveNumber(input.weight, 1),
+    date: input.date && /^\d{4}-\d{2}-\d{2}$/.test(input.date) ? input.date : null,
+    created_at: createdAt,
+  };
+}
+
+export async function createAssessment(userId: string, input: AssessmentInput): Promise<Assessment> {
+  const now = nowIso();
+  const assessment = buildAssessmentRecord(createEntityId(), userId, input, now);
+
+  await upsertLocalAssessment(userId, assessment);
+  await enqueueOutboxOperation({
+    id: createLocalId('op'),
+    entity: 'assessment',
+    action: 'upsert',
+    userId,
+    record: assessment,
+    isNew: true,
+    createdAt: now,
+  });
+  return assessment;
+}
+
+export async function updateAssessment(
+  assessmentId: string,
+  userId: string,
+  input: AssessmentInput
+): Promise<Assessment> {
+  const current = await getLocalAssessmentById(userId, assessmentId);
+  const now = nowIso();
+  const next = buildAssessmentRecord(assessmentId, current?.user_id ?? userId, input, current?.created_at ?? now);
+
+  await upsertLocalAssessment(userId, next);
+  await enqueueOutboxOperation({
+    id: createLocalId('op'),
+    entity: 'assessment',
+    action: 'upsert',
+    userId,
+    record: next,
+    isNew: !current,
+    createdAt: now,
+  });
+  return next;
+}
+
+export async function deleteAssessment(assessmentId: string, userId: string): Promise<void> {
+  await removeLocalAssessment(userId, assessmentId);
+  await enqueueOutboxOperation({
+    id: createLocalId('op'),
+    entity: 'assessment',
+    action: 'delete',
+    userId,
+    recordId: assessmentId,
+    createdAt: nowIso(),
+  });
+}
+
+export async function applyRemoteAssessmentUpsert(userId: string, row: unknown): Promise<boolean> {
+  const assessment = normalizeAssessmentFromDb(row);
+  if (!assessment) return false;
+  const pending = await getPendingRecordIds(userId, 'assessment');
+  if (pending.upserts.has(assessment.id) || pending.deletes.has(assessment.id)) return false;
+  await upsertLocalAssessment(userId, await decryptAssessmentRecord(assessment));
+  return true;
+}
+
+export async function applyRemoteAssessmentDelete(userId: string, assessmentId: string): Promise<boolean> {
+  const pending = await getPendingRecordIds(userId, 'assessment');
+  if (pending.upserts.has(assessmentId)) return false;
+  if (!(await getLocalAssessmentById(userId, assessmentId))) return false;
+  await removeLocalAssessment(userId, assessmentId);
+  return true;
+}
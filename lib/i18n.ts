@@ -28,6 +28,299 @@ const dictionaries = {
       success: 'Synchronisation terminee ({count} element(s)).',
       error: 'La synchronisation a echoue. Reessaie.',
     },
+    courses: {
+      title: 'Matieres',
+      subtitle: 'Regroupe tes taches, ressources et sessions par matiere.',
+      filterAll: 'Toutes',
+      filterNone: 'Sans matiere',
+      manage: 'Gerer',
+      add: 'Ajouter une matiere',
+      none: 'Aucune',
+      field: 'Matiere',
+      unknown: 'Matiere supprimee',
+      emptyTitle: 'Aucune matiere',
+      emptyDescription: 'Cree tes matieres pour filtrer tes taches et ressources.',
+      createTitle: 'Nouvelle matiere',
+      editTitle: 'Modifier la matiere',
+      fieldName: 'Nom',
+      fieldColor: 'Couleur',
+      fieldTeacher: 'Enseignant',
+      fieldTerm: 'Semestre',
+      fieldCoefficient: 'Coefficient',
+      namePlaceholder: 'Ex: Mathematiques',
+      teacherPlaceholder: 'Ex: Mme Martin',
+      termPlaceholder: 'Ex: S1',
+      requiredName: 'Le nom de la matiere est obligatoire.',
+      invalidCoefficient: 'Le coefficient doit etre un nombre positif.',
+      saveError: "Impossible d'enregistrer la matiere.",
+      save: 'Enregistrer',
+      delete: 'Supprimer',
+      deleteTitle: 'Supprimer la matiere',
+      deleteMessage: 'Supprimer "{name}" et ses notes ?',
+      deleteLinkedMessage:
+        'Supprimer "{name}" et ses notes ? Les taches et ressources liees seront conservees sans matiere.',
+      stats: '{tasks} tache(s) ouverte(s) · {resources} ressource(s)',
+      coefficient: 'coef. {value}',
+    },
+    grades: {
+      title: 'Notes',
+      subtitle: "Suis tes moyennes et ce qu'il te faut aux prochaines evaluations.",
+      overall: 'Moyenne generale',
+      target: 'Objectif',
+      noTerm: 'Sans semestre',
+      termMeta: 'Moyenne {average} · {credits} credit(s)',
+      courseMeta: '{count} note(s) · coef. {credits}',
+      projectionNeeded: 'Il te faut {grade}/{scale} sur les {count} evaluation(s) restante(s)',
+      projectionOutOfReach: 'Objectif hors de portee ({grade}/{scale} requis)',
+      projectionSecured: 'Objectif assure',
+      projectionBelow: "Sous l'objectif, plus aucune evaluation prevue",
+      emptyTitle: 'Aucune matiere',
+      emptyDescription: 'Ajoute une matiere et son coefficient pour commencer a saisir tes notes.',
+      addAssessment: 'Ajouter une evaluation',
+      fieldTitle: 'Evaluation',
+      titlePlaceholder: 'Ex: Partiel',
+      fieldScore: 'Note',
+      scorePlaceholder: 'A venir',
+      fieldMaxScore: 'Sur',
+      fieldWeight: 'Poids',
+      fieldDate: 'Date',
+      fieldCredits: 'Coefficient',
+      upcomingHint: 'Laisse la note vide pour une evaluation a venir: elle sert a la projection.',
+      upcoming: 'A venir',
+      weight: 'poids {weight}',
+      requiredTitle: "Le titre de l'evaluation est obligatoire.",
+      invalidNumbers: 'Note, note maximale et poids doivent etre des nombres positifs.',
+      invalidScore: 'La note doit etre comprise entre 0 et la note maximale.',
+      invalidDate: 'Date invalide. Format attendu: YYYY-MM-DD.',
+      saveError: "Impossible d'enregistrer l'evaluation.",
+      deleteTitle: "Supprimer l'evaluation",
+      deleteMessage: 'Supprimer "{title}" ?',
+    },
+    timetable: {
+      title: 'Emploi du temps',
+      subtitle: 'Tes cours, TD et TP de la semaine.',
+      add: 'Ajouter un cours',
+      emptyTitle: 'Aucun cours',
+      emptyDescription: 'Ajoute tes cours fixes pour les voir dans le planning.',
+      createTitle: 'Nouveau cours',
+      editTitle: 'Modifier le cours',
+      fieldKind: 'Type',
+      fieldDay: 'Jour',
+      fieldStart: 'Debut',
+      fieldEnd: 'Fin',
+      fieldRoom: 'Salle',
+      roomPlaceholder: 'Ex: Amphi B',
+      fieldParity: 'Semaines',
+      fieldTermStart: 'Debut de periode',
+      fieldTermEnd: 'Fin de periode',
+      parityHint: 'La semaine A est celle du debut de periode, puis les semaines alternent.',
+      termRange: 'Du {start} au {end}',
+      saveError: "Impossible d'enregistrer le cours.",
+      deleteTitle: 'Supprimer le cours',
+      deleteMessage: 'Retirer ce cours de ton emploi du temps ?',
+      kind: {
+        lecture: 'Cours',
+        lab: 'TP',
+        tutorial: 'TD',
+      },
+      parity: {
+        all: 'Toutes',
+        A: 'Semaine A',
+        B: 'Semaine B',
+      },
+    },
+    exams: {
+      title: 'Examens',
+      subtitle: 'Compte a rebours et revisions planifiees avant chaque examen.',
+      add: 'Ajouter un examen',
+      emptyTitle: 'Aucun examen',
+      emptyDescription: 'Ajoute un examen pour generer tes taches et seances de revision.',
+      createTitle: 'Nouvel examen',
+      editTitle: "Modifier l'examen",
+      fieldSubject: 'Epreuve',
+      subjectPlaceholder: 'Ex: Partiel de chimie',
+      fieldDate: 'Date',
+      fieldTime: 'Heure',
+      fieldLocation: 'Lieu',
+      locationPlaceholder: 'Ex: Amphi A',
+      fieldTopics: 'Chapitres a reviser',
+      topicsPlaceholder: 'Un chapitre par ligne',
+      fieldOffsets: "Jours de revision avant l'examen",
+      offsetsHint: "Ex: 7, 3, 1 cree une revision a J-7, J-3 et J-1. Les chapitres sont repartis, la derniere revision reprend tout.",
+      saveAndPlan: 'Enregistrer et planifier',
+      saveError: "Impossible d'enregistrer l'examen.",
+      deleteTitle: "Supprimer l'examen",
+      deleteMessage: 'Les revisions non terminees et leurs seances seront aussi supprimees.',
+      upcoming: 'A venir',
+      pastSection: 'Passes',
+      countdown: 'J-{count}',
+      today: "Aujourd'hui",
+      todayShort: 'J',
+      past: 'Passe',
+      revisionProgress: '{done}/{total} revision(s) faite(s)',
+      noRevision: 'Aucune revision planifiee',
+      generated: '{count} revision(s) planifiee(s) dans tes taches et ton planning.',
+      nothingToGenerate: 'Aucune revision a planifier : les dates sont passees ou deja faites.',
+      revisionTaskTitle: 'Revision J-{offset} : {subject}',
+      finalTaskTitle: 'Revision finale : {subject}',
+      planTitle: 'Revisions : {subject}',
+    },
+    calendar: {
+      title: 'Calendrier',
+      subtitle: 'Echeances, sessions, examens et annonces au meme endroit.',
+      mode: {
+        month: 'Mois',
+        week: 'Semaine',
+        agenda: 'Agenda',
+      },
+      today: "Aujourd'hui",
+      previous: 'Periode precedente',
+      next: 'Periode suivante',
+      weekRange: '{start} - {end}',
+      agendaRange: '{days} prochains jours',
+      dayEmpty: 'Rien de prevu ce jour.',
+      agendaEmpty: 'Rien de prevu pour les prochaines semaines.',
+      dragHint: 'Reste appuye sur une tache puis depose-la sur un autre jour pour la replanifier.',
+      kind: {
+        task: 'Tache',
+        exam: 'Examen',
+      },
+      sessionMinutes: '{minutes} min',
+      announcementExpires: "Fin de l'annonce",
+      moveError: 'Impossible de replanifier la tache.',
+    },
+    flashcards: {
+      title: 'Flashcards',
+      subtitle: 'Paquets de cartes tires de tes notes et quiz.',
+      decks: 'Paquets',
+      deckMeta: '{due} a revoir · {total} carte(s)',
+      openSource: 'Voir la ressource',
+      review: 'Reviser',
+      add: 'Ajouter des cartes',
+      emptyTitle: 'Aucune carte',
+      emptyDescription: 'Colle des notes au format "Q: question" puis "A: reponse" ou enregistre un quiz IA.',
+      createTitle: 'Nouvelles cartes',
+      fieldDeck: 'Paquet',
+      deckPlaceholder: 'Ex: Histoire - Chapitre 3',
+      fieldCards: 'Cartes',
+      cardsPlaceholder: 'Q: Date de la prise de la Bastille ?\nA: 14 juillet 1789',
+      parsedCount: '{count} carte(s) reconnue(s)',
+      save: 'Enregistrer',
+      saveError: "Impossible d'enregistrer les cartes.",
+      created: '{count} carte(s) ajoutee(s).',
+      nothingNew: 'Ces cartes sont deja dans le paquet.',
+      delete: 'Supprimer',
+      deleteTitle: 'Supprimer le paquet',
+      deleteMessage: 'Supprimer "{deck}" et toutes ses cartes ?',
+      remaining: '{count} restante(s)',
+      front: 'Question',
+      back: 'Reponse',
+      tapToFlip: 'Touche la carte pour la retourner.',
+      showAnswer: 'Voir la reponse',
+      stopReview: 'Arreter la session',
+      doneTitle: 'Session terminee',
+      doneDescription: '{count} carte(s) revue(s).',
+      nothingDue: "Aucune carte a revoir aujourd'hui dans ce paquet.",
+      backToDecks: 'Retour aux paquets',
+      reviewError: "Impossible d'enregistrer la revision.",
+    },
+    syncIssues: {
+      title: 'Problemes de synchronisation',
+      subtitle: 'Operations locales rejetees par le serveur',
+      emptyTitle: 'Aucun probleme',
+      emptyDescription: 'Toutes les operations locales ont ete synchronisees ou sont en attente.',
+      failedSection: 'Echecs definitifs',
+      retryingSection: 'Nouvel essai programme',
+      attempts: '{count} essai(s)',
+      failedAt: 'Abandonne le {date}',
+      nextAttemptAt: 'Prochain essai : {date}',
+      retry: 'Reessayer',
+      discard: 'Abandonner',
+      entity: {
+        task: 'Tache',
+        resource: 'Ressource',
+        profile: 'Profil',
+        schedule: 'Planning',
+        course: 'Matiere',
+        assessment: 'Evaluation',
+        timetable: 'Emploi du temps',
+        exam: 'Examen',
+        review: 'Revision espacee',
+        flashcard: 'Carte de revision',
+        feedback: 'Avis',
+        preferences: 'Preferences',
+        focus_stats: 'Statistiques de focus',
+      },
+      deviceSnapshot: 'Donnees partagees entre tes appareils',
+      action: {
+        upsert: 'Enregistrement',
+        delete: 'Suppression',
+      },
+    },
+    syncHealth: {
+      title: 'Sante de la synchronisation',
+      subtitle: 'File d\'attente, historique et stockage local',
+      lastSync: 'Derniere synchronisation',
+      never: 'Jamais',
+      realtime: 'Temps reel',
+      realtimeOn: 'Connecte',
+      realtimeOff: 'Deconnecte',
+      localStorage: 'Stockage local',
+      fullSync: 'Tout re-telecharger',
+      fullSyncTitle: 'Re-telecharger les donnees',
+      fullSyncMessage: 'Toutes les donnees synchronisees seront telechargees a nouveau depuis le serveur. Tes modifications en attente sont conservees.',
+      fullSyncConfirm: 'Re-telecharger',
+      export: 'Exporter le journal',
+      exportTitle: 'Journal de synchronisation StudyDay',
+      exportError: 'Impossible de partager le journal.',
+      queueSection: 'File d\'attente ({count})',
+      queueEmpty: 'Aucune operation en attente.',
+      attemptsSection: 'Dernieres synchronisations',
+      attemptsEmpty: 'Aucune synchronisation enregistree.',
+      attemptSummary: '{synced} envoyee(s), {failed} en echec, {pending} restante(s)',
+      attemptSummaryPull: '{synced} envoyee(s), {failed} en echec, {pending} restante(s) · donnees recues',
+      duration: '{ms} ms',
+      storageSection: 'Stockage local',
+      storeErrorsSection: 'Erreurs de stockage',
+      ageNow: 'a l\'instant',
+      ageMinutes: 'il y a {count} min',
+      ageHours: 'il y a {count} h',
+      ageDays: 'il y a {count} j',
+      sizeBytes: '{value} o',
+      sizeKb: '{value} Ko',
+      sizeMb: '{value} Mo',
+    },
+    syncConflicts: {
+      title: 'Modifications concurrentes',
+      description: 'Ces champs ont ete modifies sur un autre appareil pendant que tu etais hors ligne. Ta version a ete conservee.',
+      localValue: 'Ta version : {value}',
+      remoteValue: 'Autre appareil : {value}',
+      keepLocal: 'Garder ma version',
+      useRemote: "Utiliser l'autre version",
+      emptyValue: '(vide)',
+      valueYes: 'Oui',
+      valueNo: 'Non',
+      fields: {
+        title: 'Titre',
+        description: 'Description',
+        status: 'Statut',
+        priority: 'Priorite',
+        due_date: 'Date limite',
+        completed_at: 'Date de fin',
+        is_persistent: 'Archive conservee',
+        subtasks: 'Sous-taches',
+        recurrence: 'Repetition',
+        due_at: 'Heure limite',
+        due_timezone: 'Fuseau horaire',
+        estimated_minutes: 'Duree estimee (min)',
+        blocked_by: 'Prerequis',
+        course_id: 'Matiere',
+        exam_id: 'Examen',
+        type: 'Type',
+        content: 'Contenu',
+        tags: 'Tags',
+      },
+    },
     reminders: {
       bannerTitle: 'Rappels intelligents',
       bannerMessage: '{count} rappel(s) ajoute(s)',
@@ -35,9 +328,18 @@ const dictionaries = {
       overdueMessage: 'La tache "{title}" est en retard.',
       dueTodayTitle: "Tache a faire aujourd'hui",
       dueTodayMessage: 'La tache "{title}" est due aujourd hui.',
+      dueTodayAtMessage: 'La tache "{title}" est due aujourd hui a {time}.',
+      dueSoonTitle: 'Echeance proche',
+      dueSoonMessage: 'La tache "{title}" est due dans {duration}.',
       dueTomorrowTitle: 'Preparation de demain',
       dueTomorrowMessage: 'La tache "{title}" est due demain.',
     },
+    taskTiming: {
+      minutes: '{minutes} min',
+      hours: '{hours} h',
+      hoursMinutes: '{hours} h {minutes}',
+      estimate: '~{duration}',
+    },
     nav: {
       home: 'Accueil',
       tasks: 'Taches',
@@ -143,6 +445,17 @@ const dictionaries = {
       todo: 'A faire',
       overdue: 'En retard',
       nextTasks: 'Prochaines taches',
+      courseWorkload: 'Charge par matiere',
+      courseWorkloadMeta: '{count} tache(s) · {duration}',
+      courseWorkloadCount: '{count} tache(s)',
+      courseWorkloadOverdue: '{count} en retard',
+      examCountdown: 'Prochains examens',
+      examEmpty: 'Aucun examen prevu.',
+      examDays: 'jours',
+      examRevisionsLeft: '{count} revision(s)',
+      dueReviews: "A reviser aujourd'hui ({count})",
+      dueReviewsPlan: 'Planning',
+      dueReviewsMore: '+{count} autre(s)',
       seeAll: 'Voir tout',
       seeResources: 'Voir ressources',
       quickAddTask: 'Ajouter une tache',
@@ -214,6 +527,18 @@ const dictionaries = {
         afternoon: 'Apres-midi',
         evening: 'Soir',
       },
+      fieldStrategy: 'Repartition',
+      strategy: {
+        balanced: 'Equilibree',
+        deadline: "Echeances d'abord",
+      },
+      strategyHint: {
+        balanced: 'Rythme regulier : les taches estimees passent en premier, puis les objectifs.',
+        deadline:
+          'Ajoute des sessions si besoin pour finir chaque tache avant son echeance, et signale ce qui ne rentre pas.',
+      },
+      extraSessions: '{count} session(s) ajoutee(s) pour tenir les echeances.',
+      deadlineGap: 'Il manque {duration} avant le {date} ({tasks}).',
       requiredTitle: 'Ajoute un titre pour generer le plan.',
       generate: 'Generer mon emploi du temps',
       updateAction: 'Mettre a jour cet emploi du temps',
@@ -226,6 +551,12 @@ const dictionaries = {
       summaryHours: 'Heures',
       summaryWeeks: 'Semaines',
       summaryRange: 'Periode',
+      taskWorkload: 'Charge estimee des taches : {duration}',
+      taskWorkloadUncovered: '{duration} de travail estime ne tient pas avant les echeances.',
+      skippedForClasses: '{count} session(s) retiree(s): aucun creneau libre autour des cours.',
+      timetableTitle: 'Cours fixes',
+      timetableCount: '{count} cours par semaine, evites par le planning',
+      timetableEmpty: 'Ajoute tes cours, TD et TP pour que le planning les evite',
       copy: 'Copier',
       copyTitle: 'Copie',
       copySuccess: 'Plan copie.',
@@ -240,6 +571,41 @@ const dictionaries = {
       weekLabel: 'Semaine {count}',
       weekPrev: 'Avant',
       weekNext: 'Apres',
+      weekShort: 'S{count}',
+      sessionsTitle: 'Sessions de la semaine',
+      reviewsTitle: 'Revisions espacees',
+      reviewsHint: 'Les fiches suivies en revision, regroupees en une session du soir par jour.',
+      reviewsCount: '{count} fiche(s)',
+      reviewsStart: 'Reviser',
+      sessionStatus: {
+        planned: 'Prevue',
+        done: 'Faite',
+        skipped: 'Sautee',
+        late: 'En retard',
+      },
+      rescheduledTo: 'Deplacee au {date}',
+      actualMinutes: '{actual}/{planned} min',
+      markDone: 'Fait',
+      markSkipped: 'Sauter',
+      reschedule: 'Deplacer',
+      startFocus: 'Focus',
+      undoStatus: 'Annuler',
+      rescheduleTitle: 'Deplacer la session',
+      rescheduleMessage: 'Choisis le nouveau jour.',
+      rescheduleUnavailable: "Le plan se termine avant le prochain jour disponible.",
+      adherencePlan: 'Assiduite : {percent}% ({done}/{due} sessions passees faites)',
+      adherenceWeek: 'Cette semaine : {percent}% · {actual}/{planned} min realisees',
+      lateSessions: '{count} session(s) en retard',
+      sessionUpdateError: 'Impossible de mettre a jour la session.',
+      replanAction: "Replanifier a partir d'aujourd'hui",
+      replanTitle: 'Replanification',
+      replanSummary: "{count} session(s) changent de place. Les sessions passees restent dans l'historique.",
+      replanMissed: 'Manquee',
+      replanMore: '+{count} autre(s) deplacement(s)',
+      replanUnplaced: '{count} session(s) manquee(s) ne rentrent plus avant la fin du plan.',
+      replanNothing: 'Ton plan est a jour, rien a deplacer.',
+      replanApply: 'Appliquer',
+      replanError: 'Impossible de replanifier cet emploi du temps.',
       tableSlotHeader: 'Creneau',
       tableEmptySlot: '--',
       sessionDetailTitle: '{day} · {slot}',
@@ -254,6 +620,9 @@ const dictionaries = {
       sortPriority: 'Priorite',
       sortRecent: 'Recentes',
       sortFavorites: 'Favoris',
+      subtaskProgress: '{done}/{total} etapes',
+      blockedBy: 'Bloquee par "{title}"',
+      blockedByMany: 'Bloquee par "{title}" et {count} autre(s)',
       filterAll: 'toutes',
       filterTodo: 'a-faire',
       filterDone: 'terminees',
@@ -261,6 +630,16 @@ const dictionaries = {
       windowAll: 'toutes dates',
       archiveNotice:
         'Les taches archivees non persistantes sont supprimees automatiquement apres 24h.',
+      viewBoard: 'Vue tableau',
+      viewList: 'Vue liste',
+      openCalendar: 'Ouvrir le calendrier',
+      board: {
+        todo: 'A faire',
+        in_progress: 'En cours',
+        done: 'Terminees',
+        empty: 'Depose une tache ici',
+        hint: 'Appui long sur une carte puis glisse-la vers une autre colonne pour changer son statut.',
+      },
       emptyTitle: 'Aucune tache',
       emptyDescription: 'Tu es a jour pour cette periode.',
       emptyAdd: 'Ajouter une tache',
@@ -276,6 +655,7 @@ const dictionaries = {
     },
     resources: {
       title: 'Ressources',
+      openFlashcards: 'Ouvrir les flashcards',
       sortRecent: 'Recentes',
       sortOldest: 'Anciennes',
       sortType: 'Type',
@@ -318,11 +698,14 @@ const dictionaries = {
       emptyDescription: 'Cette tache n existe plus.',
       createdAt: 'Date creation',
       dueDate: 'Date limite',
+      recurrence: 'Repetition',
+      estimate: 'Duree estimee',
       priority: 'Priorite',
       status: 'Statut',
       statusTodo: 'A faire',
       statusInProgress: 'En cours',
       statusDone: 'Terminee',
+      statusBlocked: 'Bloquee',
       description: 'Description',
       noDescription: 'Aucune description.',
       focus: 'Lancer un focus',
@@ -331,6 +714,22 @@ const dictionaries = {
       duplicateSuccess: 'Tache dupliquee.',
       duplicateError: 'Impossible de dupliquer cette tache.',
       edit: 'Editer la tache',
+      checklist: 'Checklist',
+      checklistProgress: '{done}/{total} terminees',
+      checklistEmpty: 'Aucune etape pour le moment.',
+      checklistPlaceholder: 'Ajouter une etape...',
+      checklistAdd: 'Ajouter',
+      checklistRemove: 'Supprimer l etape',
+      checklistError: 'Impossible de mettre a jour la checklist.',
+      breakdownWithAi: 'Decouper avec l IA',
+      dependencies: 'Prerequis',
+      dependenciesEmpty: 'Aucun prerequis.',
+      blockedNotice: 'Termine d abord les prerequis ci-dessous.',
+      dependencyAdd: 'Ajouter un prerequis',
+      dependencyRemove: 'Retirer le prerequis',
+      dependencyNoCandidate: 'Aucune autre tache ouverte ne peut devenir un prerequis.',
+      dependencyError: 'Impossible de mettre a jour les prerequis.',
+      dependents: 'Debloque : {titles}',
     },
     resourceDetail: {
       notFound: 'Ressource introuvable.',
@@ -359,6 +758,26 @@ const dictionaries = {
       aiSimplify: 'IA Simplifier',
       shareError: 'Impossible de partager cette ressource.',
       edit: 'Editer la ressource',
+      reviewTitle: 'Revision espacee',
+      reviewHint: 'Suis cette ressource pour la revoir a intervalles croissants selon ta memorisation.',
+      reviewEnroll: 'Suivre en revision',
+      reviewDueNow: "A reviser aujourd'hui",
+      reviewNext: 'Prochaine revision le {date}',
+      reviewStats: '{count} revision(s) · intervalle {days} j · {lapses} oubli(s)',
+      reviewPrompt: 'Te souviens-tu de son contenu ?',
+      reviewGrade: {
+        again: 'Oublie',
+        hard: 'Difficile',
+        good: 'Bien',
+        easy: 'Facile',
+      },
+      reviewInterval: '{days} j',
+      reviewStop: 'Ne plus suivre',
+      reviewStopTitle: 'Arreter la revision',
+      reviewStopMessage: "L'historique de revision de cette ressource sera supprime.",
+      reviewError: "Impossible d'enregistrer la revision.",
+      createFlashcards: 'Creer {count} carte(s)',
+      flashcardsError: 'Impossible de creer les cartes.',
     },
     activityNotifications: {
       title: 'Notifications',
@@ -383,6 +802,9 @@ const dictionaries = {
       activityTitle: "Analyse d'activite",
       activitySubtitle: 'Progression de tes taches',
       completionRate: 'Taux de completion',
+      gradesTitle: 'Moyenne',
+      gradesEmpty: 'Saisis tes notes pour suivre ta moyenne',
+      gradesTrend: '{delta} sur 30 jours',
       tasksPending: 'Taches en cours',
       totalTasksLabel: 'Taches totales',
       tasksCreated: 'Taches creees',
@@ -415,6 +837,12 @@ const dictionaries = {
       syncAutoEnabled: 'Les donnees locales sont synchronisees automatiquement.',
       syncAutoDisabled: 'Synchronisation manuelle activee. Lance la sync avec le bouton ci-dessous.',
       syncNow: 'Synchroniser maintenant',
+      realtimeSyncLabel: 'Mises a jour en direct',
+      realtimeSyncConnected: 'Connecte: les changements de tes autres appareils arrivent immediatement.',
+      realtimeSyncConnecting: 'Connexion en cours. La synchronisation periodique prend le relais en attendant.',
+      realtimeSyncDisabled: 'Desactive: les changements distants arrivent a la prochaine synchronisation.',
+      syncIssues: 'Problemes de synchronisation',
+      syncHealth: 'Diagnostic',
       notificationSoundTitle: 'Effets notifications',
       notificationSoundHint: 'Choisis le comportement sonore/haptique des notifications locales.',
       notificationSoundDevice: 'Appareil',
@@ -488,7 +916,45 @@ const dictionaries = {
       saveSuccess: 'Tache enregistree',
       requiredTitle: 'Le titre est obligatoire.',
       invalidDate: 'Format de date attendu: YYYY-MM-DD',
+      fieldDueTime: 'Heure (optionnel)',
+      dueTimePlaceholder: 'HH:MM',
+      invalidTime: 'Format d heure attendu: HH:MM',
+      fieldEstimate: 'Duree estimee (min)',
+      estimatePlaceholder: 'Ex: 45',
+      invalidEstimate: 'La duree estimee doit etre un nombre de minutes positif.',
       saveError: 'Impossible d enregistrer la tache.',
+      fieldRepeat: 'Repetition',
+      repeatMode: {
+        none: 'Aucune',
+        daily: 'Chaque jour',
+        weekly: 'Chaque semaine',
+        every_n_days: 'Tous les N jours',
+      },
+      repeatEveryDaysLabel: 'Intervalle (jours)',
+      fieldRepeatEnd: 'Fin de la repetition',
+      repeatEnd: {
+        never: 'Jamais',
+        until: 'Jusqu au',
+        count: 'Apres N fois',
+      },
+      repeatCountLabel: 'Nombre d occurrences',
+      repeatInvalidInterval: 'L intervalle doit etre un nombre de jours superieur ou egal a 2.',
+      repeatInvalidUntil: 'La date de fin doit suivre le format YYYY-MM-DD et ne pas preceder la date limite.',
+      repeatInvalidCount: 'Le nombre d occurrences doit etre un entier positif.',
+      repeatScopeTitle: 'Tache recurrente',
+      repeatScopeMessage: 'Appliquer les modifications a cette occurrence seulement ou a toutes les suivantes ?',
+      repeatScopeSingle: 'Cette occurrence',
+      repeatScopeSeries: 'Toutes les suivantes',
+    },
+    recurrence: {
+      daily: 'Tous les jours',
+      everyNDays: 'Tous les {count} jours',
+      weekly: 'Chaque semaine',
+      weeklyOn: 'Chaque semaine : {days}',
+      everyNWeeks: 'Toutes les {count} semaines',
+      everyNWeeksOn: 'Toutes les {count} semaines : {days}',
+      withUntil: '{label}, jusqu au {date}',
+      withCount: '{label}, {count} fois',
     },
     resourceEditor: {
       editTitle: 'Modifier ressource',
@@ -549,6 +1015,8 @@ const dictionaries = {
       breakDoneMessage: 'Tu peux lancer une nouvelle session focus.',
       focusLoggedTitle: 'Session focus enregistree',
       focusLoggedMessage: 'Session terminee sur "{title}".',
+      linkedSession: 'Session planifiee : {focus}',
+      sessionLoggedMessage: 'La session planifiee est marquee comme faite.',
     },
     profileEditor: {
       title: 'Modifier profil',
@@ -588,6 +1056,14 @@ const dictionaries = {
       inputLabel: 'Entree',
       inputPlaceholder: 'Decris ton besoin...',
       run: 'Executer',
+      applyBreakdown: 'Appliquer en sous-taches',
+      applyBreakdownSuccess: '{count} sous-tache(s) ajoutee(s).',
+      applyBreakdownEmpty: 'Aucune etape exploitable dans la reponse.',
+      applyBreakdownError: 'Impossible d appliquer le decoupage.',
+      openExams: 'Planifier dans mes examens',
+      saveFlashcards: 'Enregistrer {count} carte(s)',
+      saveFlashcardsError: "Impossible d'enregistrer les cartes.",
+      flashcardsDefaultDeck: 'Quiz IA',
       runError: 'Impossible d executer cette action.',
       onlineReady: 'Resultat genere avec IA distante.',
       offlineFallback: 'Resultat genere en fallback local hors ligne.',
@@ -640,6 +1116,298 @@ const dictionaries = {
       success: 'Sync completed ({count} item(s)).',
       error: 'Sync failed. Please try again.',
     },
+    courses: {
+      title: 'Courses',
+      subtitle: 'Group your tasks, resources and sessions by course.',
+      filterAll: 'All',
+      filterNone: 'No course',
+      manage: 'Manage',
+      add: 'Add a course',
+      none: 'None',
+      field: 'Course',
+      unknown: 'Deleted course',
+      emptyTitle: 'No courses',
+      emptyDescription: 'Create your courses to filter tasks and resources.',
+      createTitle: 'New course',
+      editTitle: 'Edit course',
+      fieldName: 'Name',
+      fieldColor: 'Color',
+      fieldTeacher: 'Teacher',
+      fieldTerm: 'Term',
+      fieldCoefficient: 'Coefficient',
+      namePlaceholder: 'E.g. Mathematics',
+      teacherPlaceholder: 'E.g. Ms Martin',
+      termPlaceholder: 'E.g. Fall',
+      requiredName: 'Course name is required.',
+      invalidCoefficient: 'Coefficient must be a positive number.',
+      saveError: 'Unable to save the course.',
+      save: 'Save',
+      delete: 'Delete',
+      deleteTitle: 'Delete course',
+      deleteMessage: 'Delete "{name}" and its grades?',
+      deleteLinkedMessage: 'Delete "{name}" and its grades? Linked tasks and resources will be kept without a course.',
+      stats: '{tasks} open task(s) · {resources} resource(s)',
+      coefficient: 'coef. {value}',
+    },
+    grades: {
+      title: 'Grades',
+      subtitle: 'Track your averages and what you need on upcoming assessments.',
+      overall: 'Overall average',
+      target: 'Target',
+      noTerm: 'No term',
+      termMeta: 'Average {average} · {credits} credit(s)',
+      courseMeta: '{count} grade(s) · coef. {credits}',
+      projectionNeeded: 'You need {grade}/{scale} on the {count} remaining assessment(s)',
+      projectionOutOfReach: 'Target out of reach ({grade}/{scale} required)',
+      projectionSecured: 'Target secured',
+      projectionBelow: 'Below target, no assessment left',
+      emptyTitle: 'No courses',
+      emptyDescription: 'Add a course and its coefficient to start recording grades.',
+      addAssessment: 'Add an assessment',
+      fieldTitle: 'Assessment',
+      titlePlaceholder: 'E.g. Midterm',
+      fieldScore: 'Score',
+      scorePlaceholder: 'Upcoming',
+      fieldMaxScore: 'Out of',
+      fieldWeight: 'Weight',
+      fieldDate: 'Date',
+      fieldCredits: 'Credits',
+      upcomingHint: 'Leave the score empty for an upcoming assessment: it is used for the projection.',
+      upcoming: 'Upcoming',
+      weight: 'weight {weight}',
+      requiredTitle: 'Assessment title is required.',
+      invalidNumbers: 'Score, max score and weight must be positive numbers.',
+      invalidScore: 'Score must be between 0 and the max score.',
+      invalidDate: 'Invalid date. Expected format: YYYY-MM-DD.',
+      saveError: 'Unable to save the assessment.',
+      deleteTitle: 'Delete assessment',
+      deleteMessage: 'Delete "{title}"?',
+    },
+    timetable: {
+      title: 'Timetable',
+      subtitle: 'Your weekly lectures, labs and tutorials.',
+      add: 'Add a class',
+      emptyTitle: 'No classes',
+      emptyDescription: 'Add your fixed classes to see them in the planner.',
+      createTitle: 'New class',
+      editTitle: 'Edit class',
+      fieldKind: 'Type',
+      fieldDay: 'Day',
+      fieldStart: 'Start',
+      fieldEnd: 'End',
+      fieldRoom: 'Room',
+      roomPlaceholder: 'E.g. Room 204',
+      fieldParity: 'Weeks',
+      fieldTermStart: 'Term start',
+      fieldTermEnd: 'Term end',
+      parityHint: 'Week A is the week the term starts, then weeks alternate.',
+      termRange: 'From {start} to {end}',
+      saveError: 'Unable to save the class.',
+      deleteTitle: 'Delete class',
+      deleteMessage: 'Remove this class from your timetable?',
+      kind: {
+        lecture: 'Lecture',
+        lab: 'Lab',
+        tutorial: 'Tutorial',
+      },
+      parity: {
+        all: 'Every week',
+        A: 'Week A',
+        B: 'Week B',
+      },
+    },
+    exams: {
+      title: 'Exams',
+      subtitle: 'Countdown and planned revisions before each exam.',
+      add: 'Add an exam',
+      emptyTitle: 'No exams',
+      emptyDescription: 'Add an exam to generate your revision tasks and sessions.',
+      createTitle: 'New exam',
+      editTitle: 'Edit exam',
+      fieldSubject: 'Exam',
+      subjectPlaceholder: 'E.g. Chemistry midterm',
+      fieldDate: 'Date',
+      fieldTime: 'Time',
+      fieldLocation: 'Location',
+      locationPlaceholder: 'E.g. Hall A',
+      fieldTopics: 'Topics to review',
+      topicsPlaceholder: 'One topic per line',
+      fieldOffsets: 'Revision days before the exam',
+      offsetsHint: 'E.g. 7, 3, 1 plans a revision 7, 3 and 1 day(s) before. Topics are spread out, the last revision covers everything.',
+      saveAndPlan: 'Save and plan',
+      saveError: 'Unable to save the exam.',
+      deleteTitle: 'Delete exam',
+      deleteMessage: 'Unfinished revisions and their sessions will be deleted too.',
+      upcoming: 'Upcoming',
+      pastSection: 'Past',
+      countdown: 'D-{count}',
+      today: 'Today',
+      todayShort: 'D',
+      past: 'Past',
+      revisionProgress: '{done}/{total} revision(s) done',
+      noRevision: 'No revision planned',
+      generated: '{count} revision(s) added to your tasks and planner.',
+      nothingToGenerate: 'Nothing to plan: revision days are past or already done.',
+      revisionTaskTitle: 'Revision D-{offset}: {subject}',
+      finalTaskTitle: 'Final revision: {subject}',
+      planTitle: 'Revisions: {subject}',
+    },
+    calendar: {
+      title: 'Calendar',
+      subtitle: 'Due dates, sessions, exams and announcements in one place.',
+      mode: {
+        month: 'Month',
+        week: 'Week',
+        agenda: 'Agenda',
+      },
+      today: 'Today',
+      previous: 'Previous period',
+      next: 'Next period',
+      weekRange: '{start} - {end}',
+      agendaRange: 'Next {days} days',
+      dayEmpty: 'Nothing planned this day.',
+      agendaEmpty: 'Nothing planned for the coming weeks.',
+      dragHint: 'Long-press a task, then drop it on another day to reschedule it.',
+      kind: {
+        task: 'Task',
+        exam: 'Exam',
+      },
+      sessionMinutes: '{minutes} min',
+      announcementExpires: 'Announcement ends',
+      moveError: 'Unable to reschedule the task.',
+    },
+    flashcards: {
+      title: 'Flashcards',
+      subtitle: 'Card decks built from your notes and quizzes.',
+      decks: 'Decks',
+      deckMeta: '{due} due · {total} card(s)',
+      openSource: 'Open resource',
+      review: 'Review',
+      add: 'Add cards',
+      emptyTitle: 'No cards',
+      emptyDescription: 'Paste notes as "Q: question" then "A: answer" or save an AI quiz.',
+      createTitle: 'New cards',
+      fieldDeck: 'Deck',
+      deckPlaceholder: 'Ex: History - Chapter 3',
+      fieldCards: 'Cards',
+      cardsPlaceholder: 'Q: When was the Bastille stormed?\nA: 14 July 1789',
+      parsedCount: '{count} card(s) recognized',
+      save: 'Save',
+      saveError: 'Unable to save the cards.',
+      created: '{count} card(s) added.',
+      nothingNew: 'These cards are already in the deck.',
+      delete: 'Delete',
+      deleteTitle: 'Delete deck',
+      deleteMessage: 'Delete "{deck}" and all its cards?',
+      remaining: '{count} left',
+      front: 'Question',
+      back: 'Answer',
+      tapToFlip: 'Tap the card to flip it.',
+      showAnswer: 'Show answer',
+      stopReview: 'End session',
+      doneTitle: 'Session complete',
+      doneDescription: '{count} card(s) reviewed.',
+      nothingDue: 'No cards due today in this deck.',
+      backToDecks: 'Back to decks',
+      reviewError: 'Unable to save the review.',
+    },
+    syncIssues: {
+      title: 'Sync issues',
+      subtitle: 'Local operations rejected by the server',
+      emptyTitle: 'No issues',
+      emptyDescription: 'All local operations were synchronized or are waiting to be sent.',
+      failedSection: 'Failed operations',
+      retryingSection: 'Retry scheduled',
+      attempts: '{count} attempt(s)',
+      failedAt: 'Gave up on {date}',
+      nextAttemptAt: 'Next attempt: {date}',
+      retry: 'Retry',
+      discard: 'Discard',
+      entity: {
+        task: 'Task',
+        resource: 'Resource',
+        profile: 'Profile',
+        schedule: 'Schedule',
+        course: 'Course',
+        assessment: 'Assessment',
+        timetable: 'Timetable',
+        exam: 'Exam',
+        review: 'Spaced review',
+        flashcard: 'Flashcard',
+        feedback: 'Feedback',
+        preferences: 'Preferences',
+        focus_stats: 'Focus stats',
+      },
+      deviceSnapshot: 'Data shared across your devices',
+      action: {
+        upsert: 'Save',
+        delete: 'Delete',
+      },
+    },
+    syncHealth: {
+      title: 'Sync health',
+      subtitle: 'Queue, history and local storage',
+      lastSync: 'Last sync',
+      never: 'Never',
+      realtime: 'Realtime',
+      realtimeOn: 'Connected',
+      realtimeOff: 'Disconnected',
+      localStorage: 'Local storage',
+      fullSync: 'Download everything again',
+      fullSyncTitle: 'Download data again',
+      fullSyncMessage: 'All synced data will be downloaded again from the server. Your pending changes are kept.',
+      fullSyncConfirm: 'Download',
+      export: 'Export log',
+      exportTitle: 'StudyDay sync log',
+      exportError: 'Unable to share the log.',
+      queueSection: 'Queue ({count})',
+      queueEmpty: 'No pending operation.',
+      attemptsSection: 'Recent syncs',
+      attemptsEmpty: 'No sync recorded yet.',
+      attemptSummary: '{synced} sent, {failed} failed, {pending} remaining',
+      attemptSummaryPull: '{synced} sent, {failed} failed, {pending} remaining · data received',
+      duration: '{ms} ms',
+      storageSection: 'Local storage',
+      storeErrorsSection: 'Storage errors',
+      ageNow: 'just now',
+      ageMinutes: '{count} min ago',
+      ageHours: '{count} h ago',
+      ageDays: '{count} d ago',
+      sizeBytes: '{value} B',
+      sizeKb: '{value} KB',
+      sizeMb: '{value} MB',
+    },
+    syncConflicts: {
+      title: 'Concurrent changes',
+      description: 'These fields were changed on another device while you were offline. Your version was kept.',
+      localValue: 'Your version: {value}',
+      remoteValue: 'Other device: {value}',
+      keepLocal: 'Keep mine',
+      useRemote: 'Use other version',
+      emptyValue: '(empty)',
+      valueYes: 'Yes',
+      valueNo: 'No',
+      fields: {
+        title: 'Title',
+        description: 'Description',
+        status: 'Status',
+        priority: 'Priority',
+        due_date: 'Due date',
+        completed_at: 'Completed at',
+        is_persistent: 'Kept in archive',
+        subtasks: 'Subtasks',
+        recurrence: 'Repeat',
+        due_at: 'Due time',
+        due_timezone: 'Time zone',
+        estimated_minutes: 'Estimated time (min)',
+        blocked_by: 'Prerequisites',
+        course_id: 'Course',
+        exam_id: 'Exam',
+        type: 'Type',
+        content: 'Content',
+        tags: 'Tags',
+      },
+    },
     reminders: {
       bannerTitle: 'Smart reminders',
       bannerMessage: '{count} reminder(s) added',
@@ -647,9 +1415,18 @@ const dictionaries = {
       overdueMessage: 'The task "{title}" is overdue.',
       dueTodayTitle: 'Task due today',
       dueTodayMessage: 'The task "{title}" is due today.',
+      dueTodayAtMessage: 'The task "{title}" is due today at {time}.',
+      dueSoonTitle: 'Due soon',
+      dueSoonMessage: 'The task "{title}" is due in {duration}.',
       dueTomorrowTitle: 'Prepare for tomorrow',
       dueTomorrowMessage: 'The task "{title}" is due tomorrow.',
     },
+    taskTiming: {
+      minutes: '{minutes} min',
+      hours: '{hours} h',
+      hoursMinutes: '{hours} h {minutes}',
+      estimate: '~{duration}',
+    },
     nav: {
       home: 'Home',
       tasks: 'Tasks',
@@ -754,6 +1531,17 @@ const dictionaries = {
       todo: 'To do',
       overdue: 'Overdue',
       nextTasks: 'Next tasks',
+      courseWorkload: 'Workload by course',
+      courseWorkloadMeta: '{count} task(s) · {duration}',
+      courseWorkloadCount: '{count} task(s)',
+      courseWorkloadOverdue: '{count} overdue',
+      examCountdown: 'Upcoming exams',
+      examEmpty: 'No exam scheduled.',
+      examDays: 'days',
+      examRevisionsLeft: '{count} revision(s)',
+      dueReviews: 'Due for review today ({count})',
+      dueReviewsPlan: 'Planner',
+      dueReviewsMore: '+{count} more',
       seeAll: 'See all',
       seeResources: 'See resources',
       quickAddTask: 'Add a task',
@@ -825,6 +1613,17 @@ const dictionaries = {
         afternoon: 'Afternoon',
         evening: 'Evening',
       },
+      fieldStrategy: 'Distribution',
+      strategy: {
+        balanced: 'Balanced',
+        deadline: 'Deadlines first',
+      },
+      strategyHint: {
+        balanced: 'Steady pace: estimated tasks come first, then your goals.',
+        deadline: 'Adds sessions when needed so each task is done before its due date, and flags what does not fit.',
+      },
+      extraSessions: '{count} session(s) added to meet the deadlines.',
+      deadlineGap: 'You need {duration} more before {date} ({tasks}).',
       requiredTitle: 'Add a title before generating the plan.',
       generate: 'Generate timetable',
       updateAction: 'Update this timetable',
@@ -837,6 +1636,12 @@ const dictionaries = {
       summaryHours: 'Hours',
       summaryWeeks: 'Weeks',
       summaryRange: 'Range',
+      taskWorkload: 'Estimated task workload: {duration}',
+      taskWorkloadUncovered: '{duration} of estimated work does not fit before the deadlines.',
+      skippedForClasses: '{count} session(s) dropped: no free slot around classes.',
+      timetableTitle: 'Fixed classes',
+      timetableCount: '{count} class(es) per week, avoided by the plan',
+      timetableEmpty: 'Add your lectures, labs and tutorials so the plan avoids them',
       copy: 'Copy',
       copyTitle: 'Copy',
       copySuccess: 'Plan copied.',
@@ -851,6 +1656,41 @@ const dictionaries = {
       weekLabel: 'Week {count}',
       weekPrev: 'Prev',
       weekNext: 'Next',
+      weekShort: 'W{count}',
+      sessionsTitle: 'Sessions this week',
+      reviewsTitle: 'Spaced reviews',
+      reviewsHint: 'Resources enrolled for review, grouped into one evening session per day.',
+      reviewsCount: '{count} card(s)',
+      reviewsStart: 'Review',
+      sessionStatus: {
+        planned: 'Planned',
+        done: 'Done',
+        skipped: 'Skipped',
+        late: 'Late',
+      },
+      rescheduledTo: 'Moved to {date}',
+      actualMinutes: '{actual}/{planned} min',
+      markDone: 'Done',
+      markSkipped: 'Skip',
+      reschedule: 'Move',
+      startFocus: 'Focus',
+      undoStatus: 'Undo',
+      rescheduleTitle: 'Move session',
+      rescheduleMessage: 'Pick the new day.',
+      rescheduleUnavailable: 'The plan ends before the next available day.',
+      adherencePlan: 'Adherence: {percent}% ({done}/{due} past sessions done)',
+      adherenceWeek: 'This week: {percent}% · {actual}/{planned} min done',
+      lateSessions: '{count} late session(s)',
+      sessionUpdateError: 'Unable to update the session.',
+      replanAction: 'Replan from today',
+      replanTitle: 'Replanning',
+      replanSummary: '{count} session(s) move. Past sessions stay in the history.',
+      replanMissed: 'Missed',
+      replanMore: '+{count} more move(s)',
+      replanUnplaced: '{count} missed session(s) no longer fit before the plan ends.',
+      replanNothing: 'Your plan is up to date, nothing to move.',
+      replanApply: 'Apply',
+      replanError: 'Unable to replan this schedule.',
       tableSlotHeader: 'Slot',
       tableEmptySlot: '--',
       sessionDetailTitle: '{day} · {slot}',
@@ -865,12 +1705,25 @@ const dictionaries = {
       sortPriority: 'Priority',
       sortRecent: 'Recent',
       sortFavorites: 'Favorites',
+      subtaskProgress: '{done}/{total} steps',
+      blockedBy: 'Blocked by "{title}"',
+      blockedByMany: 'Blocked by "{title}" and {count} more',
       filterAll: 'all',
       filterTodo: 'to-do',
       filterDone: 'done',
       filterArchived: 'archived',
       windowAll: 'all dates',
       archiveNotice: 'Non-persistent archived tasks are automatically deleted after 24h.',
+      viewBoard: 'Board view',
+      viewList: 'List view',
+      openCalendar: 'Open calendar',
+      board: {
+        todo: 'To do',
+        in_progress: 'In progress',
+        done: 'Done',
+        empty: 'Drop a task here',
+        hint: 'Long-press a card, then drag it to another column to change its status.',
+      },
       emptyTitle: 'No task',
       emptyDescription: 'You are up to date for this period.',
       emptyAdd: 'Add a task',
@@ -886,6 +1739,7 @@ const dictionaries = {
     },
     resources: {
       title: 'Resources',
+      openFlashcards: 'Open flashcards',
       sortRecent: 'Recent',
       sortOldest: 'Oldest',
       sortType: 'Type',
@@ -927,11 +1781,14 @@ const dictionaries = {
       emptyDescription: 'This task no longer exists.',
       createdAt: 'Created at',
       dueDate: 'Due date',
+      recurrence: 'Repeat',
+      estimate: 'Estimated time',
       priority: 'Priority',
       status: 'Status',
       statusTodo: 'To do',
       statusInProgress: 'In progress',
       statusDone: 'Done',
+      statusBlocked: 'Blocked',
       description: 'Description',
       noDescription: 'No description.',
       focus: 'Start focus',
@@ -940,6 +1797,22 @@ const dictionaries = {
       duplicateSuccess: 'Task duplicated.',
       duplicateError: 'Unable to duplicate this task.',
       edit: 'Edit task',
+      checklist: 'Checklist',
+      checklistProgress: '{done}/{total} done',
+      checklistEmpty: 'No steps yet.',
+      checklistPlaceholder: 'Add a step...',
+      checklistAdd: 'Add',
+      checklistRemove: 'Remove step',
+      checklistError: 'Unable to update the checklist.',
+      breakdownWithAi: 'Break down with AI',
+      dependencies: 'Prerequisites',
+      dependenciesEmpty: 'No prerequisites.',
+      blockedNotice: 'Finish the prerequisites below first.',
+      dependencyAdd: 'Add a prerequisite',
+      dependencyRemove: 'Remove prerequisite',
+      dependencyNoCandidate: 'No other open task can become a prerequisite.',
+      dependencyError: 'Unable to update prerequisites.',
+      dependents: 'Unblocks: {titles}',
     },
     resourceDetail: {
       notFound: 'Resource not found.',
@@ -968,6 +1841,26 @@ const dictionaries = {
       aiSimplify: 'AI simplify',
       shareError: 'Unable to share this resource.',
       edit: 'Edit resource',
+      reviewTitle: 'Spaced review',
+      reviewHint: 'Enroll this resource to review it at growing intervals based on how well you remember it.',
+      reviewEnroll: 'Enroll for review',
+      reviewDueNow: 'Due for review today',
+      reviewNext: 'Next review on {date}',
+      reviewStats: '{count} review(s) · {days} d interval · {lapses} lapse(s)',
+      reviewPrompt: 'How well do you remember it?',
+      reviewGrade: {
+        again: 'Again',
+        hard: 'Hard',
+        good: 'Good',
+        easy: 'Easy',
+      },
+      reviewInterval: '{days} d',
+      reviewStop: 'Stop reviewing',
+      reviewStopTitle: 'Stop reviewing',
+      reviewStopMessage: 'The review history of this resource will be deleted.',
+      reviewError: 'Unable to save the review.',
+      createFlashcards: 'Create {count} card(s)',
+      flashcardsError: 'Unable to create the cards.',
     },
     activityNotifications: {
       title: 'Notifications',
@@ -992,6 +1885,9 @@ const dictionaries = {
       activityTitle: 'Activity analysis',
       activitySubtitle: 'Your task progress',
       completionRate: 'Completion rate',
+      gradesTitle: 'Average',
+      gradesEmpty: 'Record your grades to track your average',
+      gradesTrend: '{delta} over 30 days',
       tasksPending: 'Pending tasks',
       totalTasksLabel: 'Total tasks',
       tasksCreated: 'Tasks created',
@@ -1024,6 +1920,12 @@ const dictionaries = {
       syncAutoEnabled: 'Local data is synchronized automatically.',
       syncAutoDisabled: 'Manual sync enabled. Use the button below to start synchronization.',
       syncNow: 'Sync now',
+      realtimeSyncLabel: 'Live updates',
+      realtimeSyncConnected: 'Connected: changes from your other devices show up right away.',
+      realtimeSyncConnecting: 'Connecting. Periodic sync covers the gap in the meantime.',
+      realtimeSyncDisabled: 'Off: remote changes show up on the next synchronization.',
+      syncIssues: 'Sync issues',
+      syncHealth: 'Diagnostics',
       notificationSoundTitle: 'Notification effects',
       notificationSoundHint: 'Choose how local notifications use your device feedback.',
       notificationSoundDevice: 'Device',
@@ -1097,7 +1999,45 @@ const dictionaries = {
       saveSuccess: 'Task saved',
       requiredTitle: 'Title is required.',
       invalidDate: 'Expected date format: YYYY-MM-DD',
+      fieldDueTime: 'Time (optional)',
+      dueTimePlaceholder: 'HH:MM',
+      invalidTime: 'Expected time format: HH:MM',
+      fieldEstimate: 'Estimated time (min)',
+      estimatePlaceholder: 'Ex: 45',
+      invalidEstimate: 'The estimated time must be a positive number of minutes.',
       saveError: 'Unable to save task.',
+      fieldRepeat: 'Repeat',
+      repeatMode: {
+        none: 'None',
+        daily: 'Every day',
+        weekly: 'Every week',
+        every_n_days: 'Every N days',
+      },
+      repeatEveryDaysLabel: 'Interval (days)',
+      fieldRepeatEnd: 'Ends',
+      repeatEnd: {
+        never: 'Never',
+        until: 'On date',
+        count: 'After N times',
+      },
+      repeatCountLabel: 'Number of occurrences',
+      repeatInvalidInterval: 'The interval must be a number of days of at least 2.',
+      repeatInvalidUntil: 'The end date must use the YYYY-MM-DD format and not be before the due date.',
+      repeatInvalidCount: 'The number of occurrences must be a positive integer.',
+      repeatScopeTitle: 'Recurring task',
+      repeatScopeMessage: 'Apply the changes to this occurrence only or to all following ones?',
+      repeatScopeSingle: 'This occurrence',
+      repeatScopeSeries: 'All following',
+    },
+    recurrence: {
+      daily: 'Every day',
+      everyNDays: 'Every {count} days',
+      weekly: 'Every week',
+      weeklyOn: 'Every week: {days}',
+      everyNWeeks: 'Every {count} weeks',
+      everyNWeeksOn: 'Every {count} weeks: {days}',
+      withUntil: '{label}, until {date}',
+      withCount: '{label}, {count} times',
     },
     resourceEditor: {
       editTitle: 'Edit resource',
@@ -1158,6 +2098,8 @@ const dictionaries = {
       breakDoneMessage: 'You can start a new focus session.',
       focusLoggedTitle: 'Focus session saved',
       focusLoggedMessage: 'Session completed on "{title}".',
+      linkedSession: 'Planned session: {focus}',
+      sessionLoggedMessage: 'The planned session is marked as done.',
     },
     profileEditor: {
       title: 'Edit profile',
@@ -1197,6 +2139,14 @@ const dictionaries = {
       inputLabel: 'Input',
       inputPlaceholder: 'Describe what you need...',
       run: 'Run',
+      applyBreakdown: 'Apply as subtasks',
+      applyBreakdownSuccess: '{count} subtask(s) added.',
+      applyBreakdownEmpty: 'No usable steps in the answer.',
+      applyBreakdownError: 'Unable to apply the breakdown.',
+      openExams: 'Plan it in my exams',
+      saveFlashcards: 'Save {count} card(s)',
+      saveFlashcardsError: 'Unable to save the cards.',
+      flashcardsDefaultDeck: 'AI quiz',
       runError: 'Unable to run this action.',
       onlineReady: 'Result generated with remote AI.',
       offlineFallback: 'Result generated with local offline fallback.',
@@ -0,0 +1,192 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { Platform } from 'react-native';
+
+import { decodeOfflinePayload, encodeOfflinePayload } from '@/lib/offline-crypto';
+
+const FILE_SUFFIX = '.json';
+const TEMP_SUFFIX = '.json.tmp';
+
+export type PartitionedStorage = {
+  listKeys: () => Promise<string[]>;
+  read: (key: string) => Promise<unknown>;
+  write: (key: string, value: unknown) => Promise<boolean>;
+  remove: (key: string) => Promise<void>;
+  measure: () => Promise<number>;
+};
+
+async function decodePartition(raw: string | null): Promise<unknown> {
+  if (!raw) return null;
+  const decoded = await decodeOfflinePayload(raw);
+  if (!decoded) return null;
+  try {
+    return JSON.parse(decoded) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+function createWebStorage(namespace: string): PartitionedStorage {
+  const prefix = `${namespace}:`;
+
+  return {
+    listKeys: async () => {
+      const storage = globalThis.localStorage;
+      if (!storage) return [];
+      const keys: string[] = [];
+      for (let index = 0; index < storage.length; index += 1) {
+        const name = storage.key(index);
+        if (name?.startsWith(prefix)) {
+          keys.push(name.slice(prefix.length));
+        }
+      }
+      return keys;
+    },
+    read: async (key) => {
+      try {
+        return await decodePartition(globalThis.localStorage?.getItem(`${prefix}${key}`) ?? null);
+      } catch {
+        return null;
+      }
+    },
+    write: async (key, value) => {
+      try {
+        const encoded = await encodeOfflinePayload(JSON.stringify(value));
+        globalThis.localStorage?.setItem(`${prefix}${key}`, encoded);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    remove: async (key) => {
+      try {
+        globalThis.localStorage?.removeItem(`${prefix}${key}`);
+      } catch {
+        // Ignore removal errors, the partition is dropped from memory anyway.
+      }
+    },
+    measure: async () => {
+      const storage = globalThis.localStorage;
+      if (!storage) return 0;
+      let bytes = 0;
+      for (let index = 0; index < storage.length; index += 1) {
+        const name = storage.key(index);
+        if (name?.startsWith(prefix)) {
+          bytes += storage.getItem(name)?.length ?? 0;
+        }
+      }
+      return bytes;
+    },
+  };
+}
+
+function createFileStorage(directory: string): PartitionedStorage {
+  let directoryReady: Promise<void> | null = null;
+
+  const ensureDirectory = () => {
+    if (!directoryReady) {
+      directoryReady = FileSystem.makeDirectoryAsync(directory, { intermediates: true }).catch(() => {});
+    }
+    return directoryReady;
+  };
+
+  const readFile = async (path: string) => {
+    try {
+      return await FileSystem.readAsStringAsync(path);
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    listKeys: async () => {
+      await ensureDirectory();
+      let names: string[] = [];
+      try {
+        names = await FileSystem.readDirectoryAsync(directory);
+      } catch {
+        return [];
+      }
+      const keys = new Set<string>();
+      for (const name of names) {
+        if (name.endsWith(TEMP_SUFFIX)) {
+          keys.add(name.slice(0, -TEMP_SUFFIX.length));
+        } else if (name.endsWith(FILE_SUFFIX)) {
+          keys.add(name.slice(0, -FILE_SUFFIX.length));
+        }
+      }
+      return [...keys];
+    },
+    read: async (key) => {
+      const value = await decodePartition(await readFile(`${directory}${key}${FILE_SUFFIX}`));
+      if (value !== null) return value;
+      // A crash between writing the temp file and renaming it leaves the latest copy in the temp file.
+      return decodePartition(await readFile(`${directory}${key}${TEMP_SUFFIX}`));
+    },
+    write: async (key, value) => {
+      await ensureDirectory();
+      const target = `${directory}${key}${FILE_SUFFIX}`;
+      const temp = `${directory}${key}${TEMP_SUFFIX}`;
+      try {
+        const encoded = await encodeOfflinePayload(JSON.stringify(value));
+        await FileSystem.writeAsStringAsync(temp, encoded);
+        await FileSystem.moveAsync({ from: temp, to: target });
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    remove: async (key) => {
+      try {
+        await FileSystem.deleteAsync(`${directory}${key}${FILE_SUFFIX}`, { idempotent: true });
+        await FileSystem.deleteAsync(`${directory}${key}${TEMP_SUFFIX}`, { idempotent: true });
+      } catch {
+        // Ignore removal errors, the partition is dropped from memory anyway.
+      }
+    },
+    measure: async () => {
+      let names: string[] = [];
+      try {
+        names = await FileSystem.readDirectoryAsync(directory);
+      } catch {
+        return 0;
+      }
+      let bytes = 0;
+      for (const name of names) {
+        try {
+          const info = await FileSystem.getInfoAsync(`${directory}${name}`);
+          bytes += info.exists ? info.size : 0;
+        } catch {
+          // Skip files removed while measuring.
+        }
+      }
+      return bytes;
+    },
+  };
+}
+
+function createMemoryStorage(): PartitionedStorage {
+  const partitions = new Map<string, unknown>();
+  return {
+    listKeys: async () => [...partitions.keys()],
+    read: async (key) => partitions.get(key) ?? null,
+    write: async (key, value) => {
+      partitions.set(key, value);
+      return true;
+    },
+    remove: async (key) => {
+      partitions.delete(key);
+    },
+    measure: async () =>
+      [...partitions.values()].reduce<number>((total, value) => total + JSON.stringify(value).length, 0),
+  };
+}
+
+export function createPartitionedStorage(namespace: string): PartitionedStorage {
+  if (Platform.OS === 'web') {
+    return createWebStorage(namespace);
+  }
+  if (!FileSystem.documentDirectory) {
+    return createMemoryStorage();
+  }
+  return createFileStorage(`${FileSystem.documentDirectory}${namespace}/`);
+}
@@ -2,13 +2,37 @@ import * as FileSystem from 'expo-file-system/legacy';
 import { Platform } from 'react-native';
 
 import { decodeOfflinePayload, encodeOfflinePayload } from '@/lib/offline-crypto';
-import type { Announcement, Profile, ProfileFeedback, Resource, Task } from '@/types/supabase';
-import type { StudySchedulePlan } from '@/types/study-schedule';
-
-const STORAGE_KEY = 'studyday-offline-state-v1';
-const FILE_PATH = FileSystem.documentDirectory
-  ? `${FileSystem.documentDirectory}${STORAGE_KEY}.json`
+import { createPartitionedStorage } from '@/lib/offline-storage-engine';
+import type { PersistentStoreSize } from '@/lib/persistent-store';
+import {
+  backupStorePayload,
+  defineStoreSchema,
+  getStoredSchemaVersion,
+  migrateStoreValue,
+  withSchemaVersion,
+} from '@/lib/store-migrations';
+import type {
+  Announcement,
+  Assessment,
+  Course,
+  Exam,
+  Flashcard,
+  Profile,
+  ProfileFeedback,
+  Resource,
+  ReviewItem,
+  Task,
+} from '@/types/supabase';
+import type { StudySchedulePlan, TimetableEntry } from '@/types/study-schedule';
+import type { SyncedFocusStats, SyncedPreferences } from '@/types/user-sync';
+
+const LEGACY_STORAGE_KEY = 'studyday-offline-state-v1';
+const LEGACY_FILE_PATH = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}${LEGACY_STORAGE_KEY}.json`
   : null;
+const STORAGE_NAMESPACE = 'studyday-offline-v2';
+const META_PARTITION = 'meta';
+const STORE_SCHEMA = defineStoreSchema(STORAGE_NAMESPACE);
 
 type OutboxTaskUpsert = {
   id: string;
@@ -16,6 +40,8 @@ type OutboxTaskUpsert = {
   action: 'upsert';
   userId: string;
   record: Task;
+  base?: Task | null;
+  isNew?: boolean;
   createdAt: string;
 };
 
@@ -34,6 +60,8 @@ type OutboxResourceUpsert = {
   action: 'upsert';
   userId: string;
   record: Resource;
+  base?: Resource | null;
+  isNew?: boolean;
   createdAt: string;
 };
 
@@ -61,6 +89,7 @@ type OutboxScheduleUpsert = {
   action: 'upsert';
   userId: string;
   record: StudySchedulePlan;
+  isNew?: boolean;
   createdAt: string;
 };
 
@@ -73,6 +102,120 @@ type OutboxScheduleDelete = {
   createdAt: string;
 };
 
+type OutboxCourseUpsert = {
+  id: string;
+  entity: 'course';
+  action: 'upsert';
+  userId: string;
+  record: Course;
+  isNew?: boolean;
+  createdAt: string;
+};
+
+type OutboxCourseDelete = {
+  id: string;
+  entity: 'course';
+  action: 'delete';
+  userId: string;
+  recordId: string;
+  createdAt: string;
+};
+
+type OutboxAssessmentUpsert = {
+  id: string;
+  entity: 'assessment';
+  action: 'upsert';
+  userId: string;
+  record: Assessment;
+  isNew?: boolean;
+  createdAt: string;
+};
+
+type OutboxAssessmentDelete = {
+  id: string;
+  entity: 'assessment';
+  action: 'delete';
+  userId: string;
+  recordId: string;
+  createdAt: string;
+};
+
+type OutboxTimetableUpsert = {
+  id: string;
+  entity: 'timetable';
+  action: 'upsert';
+  userId: string;
+  record: TimetableEntry;
+  isNew?: boolean;
+  createdAt: string;
+};
+
+type OutboxTimetableDelete = {
+  id: string;
+  entity: 'timetable';
+  action: 'delete';
+  userId: string;
+  recordId: string;
+  createdAt: string;
+};
+
+type OutboxExamUpsert = {
+  id: string;
+  entity: 'exam';
+  action: 'upsert';
+  userId: string;
+  record: Exam;
+  isNew?: boolean;
+  createdAt: string;
+};
+
+type OutboxExamDelete = {
+  id: string;
+  entity: 'exam';
+  action: 'delete';
+  userId: string;
+  recordId: string;
+  createdAt: string;
+};
+
+type OutboxReviewUpsert = {
+  id: string;
+  entity: 'review';
+  action: 'upsert';
+  userId: string;
+  record: ReviewItem;
+  isNew?: boolean;
+  createdAt: string;
+};
+
+type OutboxReviewDelete = {
+  id: string;
+  entity: 'review';
+  action: 'delete';
+  userId: string;
+  recordId: string;
+  createdAt: string;
+};
+
+type OutboxFlashcardUpsert = {
+  id: string;
+  entity: 'flashcard';
+  action: 'upsert';
+  userId: string;
+  record: Flashcard;
+  isNew?: boolean;
+  createdAt: string;
+};
+
+type OutboxFlashcardDelete = {
+  id: string;
+  entity: 'flashcard';
+  action: 'delete';
+  userId: string;
+  recordId: string;
+  createdAt: string;
+};
+
 type OutboxFeedbackUpsert = {
   id: string;
   entity: 'feedback';
@@ -82,7 +225,31 @@ type OutboxFeedbackUpsert = {
   createdAt: string;
 };
 
-export type OutboxOperation =
+type OutboxPreferencesUpsert = {
+  id: string;
+  entity: 'preferences';
+  action: 'upsert';
+  userId: string;
+  record: SyncedPreferences;
+  createdAt: string;
+};
+
+type OutboxFocusStatsUpsert = {
+  id: string;
+  entity: 'focus_stats';
+  action: 'upsert';
+  userId: string;
+  record: SyncedFocusStats;
+  createdAt: string;
+};
+
+type OutboxRetryState = {
+  attempts?: number;
+  nextAttemptAt?: string | null;
+  lastError?: string | null;
+};
+
+export type OutboxOperation = (
   | OutboxTaskUpsert
   | OutboxTaskDelete
   | OutboxResourceUpsert
@@ -90,7 +257,50 @@ export type OutboxOperation =
   | OutboxProfileUpsert
   | OutboxScheduleUpsert
   | OutboxScheduleDelete
-  | OutboxFeedbackUpsert;
+  | OutboxCourseUpsert
+  | OutboxCourseDelete
+  | OutboxAssessmentUpsert
+  | OutboxAssessmentDelete
+  | OutboxTimetableUpsert
+  | OutboxTimetableDelete
+  | OutboxExamUpsert
+  | OutboxExamDelete
+  | OutboxReviewUpsert
+  | OutboxReviewDelete
+  | OutboxFlashcardUpsert
+  | OutboxFlashcardDelete
+  | OutboxFeedbackUpsert
+  | OutboxPreferencesUpsert
+  | OutboxFocusStatsUpsert
+) & OutboxRetryState;
+
+export type DeadLetterOperation = {
+  operation: OutboxOperation;
+  error: string;
+  failedAt: string;
+};
+
+export type SyncConflict = {
+  id: string;
+  userId: string;
+  entity: 'task' | 'resource';
+  recordId: string;
+  field: string;
+  localValue: unknown;
+  remoteValue: unknown;
+  detectedAt: string;
+};
+
+export type SyncCursorEntity =
+  | 'task'
+  | 'resource'
+  | 'schedule'
+  | 'course'
+  | 'assessment'
+  | 'timetable'
+  | 'exam'
+  | 'review'
+  | 'flashcard';
 
 type OfflineState = {
   profilesByUser: Record<string, Profile>;
@@ -98,8 +308,17 @@ type OfflineState = {
   tasksByUser: Record<string, Task[]>;
   resourcesByUser: Record<string, Resource[]>;
   schedulesByUser: Record<string, StudySchedulePlan[]>;
+  coursesByUser: Record<string, Course[]>;
+  assessmentsByUser: Record<string, Assessment[]>;
+  timetableByUser: Record<string, TimetableEntry[]>;
+  examsByUser: Record<string, Exam[]>;
+  reviewsByUser: Record<string, ReviewItem[]>;
+  flashcardsByUser: Record<string, Flashcard[]>;
   announcements: Announcement[];
   outbox: OutboxOperation[];
+  conflicts: SyncConflict[];
+  deadLetter: DeadLetterOperation[];
+  syncCursorsByUser: Record<string, Partial<Record<SyncCursorEntity, string>>>;
   updatedAt: string | null;
 };
 
@@ -109,11 +328,42 @@ const defaultState: OfflineState = {
   tasksByUser: {},
   resourcesByUser: {},
   schedulesByUser: {},
+  coursesByUser: {},
+  assessmentsByUser: {},
+  timetableByUser: {},
+  examsByUser: {},
+  reviewsByUser: {},
+  flashcardsByUser: {},
   announcements: [],
   outbox: [],
+  conflicts: [],
+  deadLetter: [],
+  syncCursorsByUser: {},
   updatedAt: null,
 };
 
+const globalSections = ['announcements', 'outbox', 'conflicts', 'deadLetter'] as const;
+
+const userSections = {
+  profile: 'profilesByUser',
+  feedback: 'feedbackByUser',
+  tasks: 'tasksByUser',
+  resources: 'resourcesByUser',
+  schedules: 'schedulesByUser',
+  courses: 'coursesByUser',
+  assessments: 'assessmentsByUser',
+  timetable: 'timetableByUser',
+  exams: 'examsByUser',
+  reviews: 'reviewsByUser',
+  flashcards: 'flashcardsByUser',
+  cursors: 'syncCursorsByUser',
+} as const;
+
+type UserSectionPrefix = keyof typeof userSections;
+
+const storage = createPartitionedStorage(STORAGE_NAMESPACE);
+const unsavedPartitions = new Set<string>();
+
 let memoryState: OfflineState | null = null;
 let loadingPromise: Promise<OfflineState> | null = null;
 let writeChain: Promise<void> = Promise.resolve();
@@ -122,6 +372,61 @@ function cloneState(state: OfflineState): OfflineState {
   return JSON.parse(JSON.stringify(state)) as OfflineState;
 }
 
+function copyListsByUser<T>(value: Record<string, T[]>): Record<string, T[]> {
+  const copy: Record<string, T[]> = {};
+  for (const [userId, list] of Object.entries(value)) {
+    copy[userId] = [...list];
+  }
+  return copy;
+}
+
+// Copy-on-write: mutators may edit lists in place, records themselves are always replaced.
+function copyStateForWrite(state: OfflineState): OfflineState {
+  return {
+    ...state,
+    profilesByUser: { ...state.profilesByUser },
+    feedbackByUser: copyListsByUser(state.feedbackByUser),
+    tasksByUser: copyListsByUser(state.tasksByUser),
+    resourcesByUser: copyListsByUser(state.resourcesByUser),
+    schedulesByUser: copyListsByUser(state.schedulesByUser),
+    coursesByUser: copyListsByUser(state.coursesByUser),
+    assessmentsByUser: copyListsByUser(state.assessmentsByUser),
+    timetableByUser: copyListsByUser(state.timetableByUser),
+    examsByUser: copyListsByUser(state.examsByUser),
+    reviewsByUser: copyListsByUser(state.reviewsByUser),
+    flashcardsByUser: copyListsByUser(state.flashcardsByUser),
+    announcements: [...state.announcements],
+    outbox: [...state.outbox],
+    conflicts: [...state.conflicts],
+    deadLetter: [...state.deadLetter],
+    syncCursorsByUser: { ...state.syncCursorsByUser },
+  };
+}
+
+function deepFreeze(value: unknown): void {
+  if (!value || typeof value !== 'object' || Object.isFrozen(value)) return;
+  Object.freeze(value);
+  for (const child of Object.values(value)) {
+    deepFreeze(child);
+  }
+}
+
+// Getters hand out the records held in memory, without copying them. In development every record is frozen so an
+// in-place edit throws instead of changing memory without ever being persisted. Only the containers stay writable.
+function freezeRecords(state: OfflineState): void {
+  if (!__DEV__) return;
+  const byUserSections = Object.values(userSections).map((field) => state[field]);
+  for (const section of byUserSections) {
+    for (const value of Object.values(section)) {
+      if (Array.isArray(value)) value.forEach(deepFreeze);
+      else deepFreeze(value);
+    }
+  }
+  for (const list of [state.announcements, state.outbox, state.conflicts, state.deadLetter]) {
+    list.forEach(deepFreeze);
+  }
+}
+
 function ensureStateShape(value: unknown): OfflineState {
   if (!value || typeof value !== 'object') {
     return cloneState(defaultState);
@@ -136,8 +441,21 @@ function ensureStateShape(value: unknown): OfflineState {
       partial.resourcesByUser && typeof partial.resourcesByUser === 'object' ? partial.resourcesByUser : {},
     schedulesByUser:
       partial.schedulesByUser && typeof partial.schedulesByUser === 'object' ? partial.schedulesByUser : {},
+    coursesByUser: partial.coursesByUser && typeof partial.coursesByUser === 'object' ? partial.coursesByUser : {},
+    assessmentsByUser:
+      partial.assessmentsByUser && typeof partial.assessmentsByUser === 'object' ? partial.assessmentsByUser : {},
+    timetableByUser:
+      partial.timetableByUser && typeof partial.timetableByUser === 'object' ? partial.timetableByUser : {},
+    examsByUser: partial.examsByUser && typeof partial.examsByUser === 'object' ? partial.examsByUser : {},
+    reviewsByUser: partial.reviewsByUser && typeof partial.reviewsByUser === 'object' ? partial.reviewsByUser : {},
+    flashcardsByUser:
+      partial.flashcardsByUser && typeof partial.flashcardsByUser === 'object' ? partial.flashcardsByUser : {},
     announcements: Array.isArray(partial.announcements) ? partial.announcements : [],
     outbox: Array.isArray(partial.outbox) ? partial.outbox : [],
+    conflicts: Array.isArray(partial.conflicts) ? partial.conflicts : [],
+    deadLetter: Array.isArray(partial.deadLetter) ? partial.deadLetter : [],
+    syncCursorsByUser:
+      partial.syncCursorsByUser && typeof partial.syncCursorsByUser === 'object' ? partial.syncCursorsByUser : {},
     updatedAt: typeof partial.updatedAt === 'string' ? partial.updatedAt : null,
   };
 }
@@ -171,7 +489,7 @@ export function createLocalId(prefix: string): string {
 }
 
 function sanitizeStateForEntityIds(input: OfflineState): OfflineState {
-  const state = cloneState(input);
+  const state = copyStateForWrite(input);
   const feedbackIdMapByUser = new Map<string, Map<string, string>>();
   const taskIdMapByUser = new Map<string, Map<string, string>>();
   const resourceIdMapByUser = new Map<string, Map<string, string>>();
@@ -226,7 +544,19 @@ function sanitizeStateForEntityIds(input: OfflineState): OfflineState {
   });
 
   state.outbox = state.outbox.map((operation) => {
-    if (operation.entity === 'profile') {
+    // Courses, assessments, timetable entries, exams, reviews and flashcards came after local ids became uuids,
+    // so they never need remapping.
+    if (
+      operation.entity === 'profile'
+      || operation.entity === 'preferences'
+      || operation.entity === 'focus_stats'
+      || operation.entity === 'course'
+      || operation.entity === 'assessment'
+      || operation.entity === 'timetable'
+      || operation.entity === 'exam'
+      || operation.entity === 'review'
+      || operation.entity === 'flashcard'
+    ) {
       return operation;
     }
 
@@ -317,74 +647,211 @@ function sanitizeStateForEntityIds(input: OfflineState): OfflineState {
   return state;
 }
 
-async function readFromStorage(): Promise<OfflineState> {
-  if (Platform.OS === 'web') {
-    try {
-      const raw = globalThis.localStorage?.getItem(STORAGE_KEY);
-      if (!raw) return cloneState(defaultState);
-      const decoded = await decodeOfflinePayload(raw);
-      if (!decoded) return cloneState(defaultState);
-      return ensureStateShape(JSON.parse(decoded));
-    } catch {
-      return cloneState(defaultState);
+export function getOperationRecordId(operation: OutboxOperation): string {
+  // Preferences and focus stats are one snapshot per user: every edit targets the same record.
+  if (operation.entity === 'preferences' || operation.entity === 'focus_stats') return operation.userId;
+  return operation.action === 'upsert' ? operation.record.id : operation.recordId;
+}
+
+function isSameOperationTarget(a: OutboxOperation, b: OutboxOperation): boolean {
+  return a.userId === b.userId && a.entity === b.entity && getOperationRecordId(a) === getOperationRecordId(b);
+}
+
+function coalesceOutboxOperation(outbox: OutboxOperation[], operation: OutboxOperation): OutboxOperation[] {
+  let pendingIndex = -1;
+  for (let index = outbox.length - 1; index >= 0; index -= 1) {
+    if (isSameOperationTarget(outbox[index], operation)) {
+      pendingIndex = index;
+      break;
     }
   }
 
-  if (!FILE_PATH) {
-    return cloneState(defaultState);
+  const pending = pendingIndex === -1 ? null : outbox[pendingIndex];
+  if (!pending || pending.action !== 'upsert') {
+    return [...outbox, operation];
   }
 
-  try {
-    const raw = await FileSystem.readAsStringAsync(FILE_PATH);
-    if (!raw) return cloneState(defaultState);
-    const decoded = await decodeOfflinePayload(raw);
-    if (!decoded) return cloneState(defaultState);
-    return ensureStateShape(JSON.parse(decoded));
-  } catch {
-    return cloneState(defaultState);
+  if (operation.action === 'upsert') {
+    // Keep the slot, id and base of the first pending edit so the merge still compares against the server version.
+    const merged = {
+      ...pending,
+      record: operation.record,
+      attempts: 0,
+      nextAttemptAt: null,
+      lastError: null,
+    } as OutboxOperation;
+    return outbox.map((item, index) => (index === pendingIndex ? merged : item));
   }
+
+  const remaining = outbox.filter((_, index) => index !== pendingIndex);
+  if ('isNew' in pending && pending.isNew) {
+    return remaining;
+  }
+  return [...remaining, operation];
 }
 
-async function writeToStorage(nextState: OfflineState): Promise<void> {
-  const serialized = JSON.stringify(nextState);
-  const encoded = await encodeOfflinePayload(serialized);
+function compactOutbox(outbox: OutboxOperation[]): OutboxOperation[] {
+  return outbox.reduce<OutboxOperation[]>((acc, operation) => coalesceOutboxOperation(acc, operation), []);
+}
 
-  if (Platform.OS === 'web') {
-    try {
-      globalThis.localStorage?.setItem(STORAGE_KEY, encoded);
-    } catch {
-      // Ignore write errors, in-memory state remains available.
+function getStatePartitions(state: OfflineState): Map<string, unknown> {
+  const partitions = new Map<string, unknown>();
+  for (const section of globalSections) {
+    partitions.set(section, state[section]);
+  }
+  for (const [prefix, field] of Object.entries(userSections)) {
+    for (const [userId, value] of Object.entries(state[field])) {
+      partitions.set(`${prefix}.${userId}`, value);
     }
-    return;
   }
+  return partitions;
+}
 
-  if (!FILE_PATH) {
-    return;
+function isSamePartition(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => item === b[index]);
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const left = a as Record<string, unknown>;
+    const right = b as Record<string, unknown>;
+    const keys = Object.keys(left);
+    return keys.length === Object.keys(right).length && keys.every((key) => left[key] === right[key]);
   }
+  return false;
+}
 
+async function readLegacyState(): Promise<{ value: unknown; payload: string } | null> {
   try {
-    await FileSystem.writeAsStringAsync(FILE_PATH, encoded);
+    let payload: string | null = null;
+    if (Platform.OS === 'web') {
+      payload = globalThis.localStorage?.getItem(LEGACY_STORAGE_KEY) ?? null;
+    } else if (LEGACY_FILE_PATH) {
+      const info = await FileSystem.getInfoAsync(LEGACY_FILE_PATH);
+      payload = info.exists ? await FileSystem.readAsStringAsync(LEGACY_FILE_PATH) : null;
+    }
+    if (!payload) return null;
+    const decoded = await decodeOfflinePayload(payload);
+    if (!decoded) return null;
+    return { value: JSON.parse(decoded) as unknown, payload };
   } catch {
-    // Ignore write errors, in-memory state remains available.
+    return null;
+  }
+}
+
+async function retireLegacyState(legacy: { value: unknown; payload: string }): Promise<void> {
+  const backedUp = await backupStorePayload(LEGACY_STORAGE_KEY, getStoredSchemaVersion(legacy.value), legacy.payload);
+  if (!backedUp) return;
+
+  try {
+    if (Platform.OS === 'web') {
+      globalThis.localStorage?.removeItem(LEGACY_STORAGE_KEY);
+      return;
+    }
+    if (LEGACY_FILE_PATH) {
+      await FileSystem.deleteAsync(LEGACY_FILE_PATH, { idempotent: true });
+    }
+  } catch {
+    // Ignore cleanup errors, the partitions are the source of truth from now on.
+  }
+}
+
+type StoredState = {
+  state: OfflineState;
+  rewrite: boolean;
+  legacy: { value: unknown; payload: string } | null;
+};
+
+async function readFromStorage(): Promise<StoredState> {
+  const keys = await storage.listKeys();
+  if (!keys.includes(META_PARTITION)) {
+    const legacy = await readLegacyState();
+    if (legacy) {
+      const { value } = await migrateStoreValue(STORE_SCHEMA, legacy.value, async () => legacy.payload);
+      return { state: ensureStateShape(value), rewrite: true, legacy };
+    }
+    if (keys.length === 0) {
+      return { state: cloneState(defaultState), rewrite: false, legacy: null };
+    }
+  }
+
+  const raw: Record<string, unknown> = {};
+  for (const field of Object.values(userSections)) {
+    raw[field] = {};
+  }
+
+  for (const key of keys) {
+    const value = await storage.read(key);
+    if (value === null) continue;
+
+    if (key === META_PARTITION) {
+      const meta = value as { updatedAt?: unknown; schemaVersion?: unknown };
+      raw.updatedAt = meta.updatedAt;
+      raw.schemaVersion = meta.schemaVersion;
+      continue;
+    }
+    if ((globalSections as readonly string[]).includes(key)) {
+      raw[key] = value;
+      continue;
+    }
+
+    const separator = key.indexOf('.');
+    const prefix = key.slice(0, separator) as UserSectionPrefix;
+    const field = userSections[prefix];
+    if (separator === -1 || !field) continue;
+    if (prefix !== 'profile' && prefix !== 'cursors' && !Array.isArray(value)) continue;
+    (raw[field] as Record<string, unknown>)[key.slice(separator + 1)] = value;
+  }
+
+  const { value, migrated } = await migrateStoreValue(STORE_SCHEMA, raw, () => encodeOfflinePayload(JSON.stringify(raw)));
+  return { state: ensureStateShape(value), rewrite: migrated, legacy: null };
+}
+
+async function writeToStorage(previous: OfflineState | null, next: OfflineState): Promise<void> {
+  const before = previous ? getStatePartitions(previous) : new Map<string, unknown>();
+  const after = getStatePartitions(next);
+  let changed = previous === null;
+
+  for (const [key, value] of after) {
+    if (!unsavedPartitions.has(key) && before.has(key) && isSamePartition(before.get(key), value)) continue;
+    changed = true;
+    if (await storage.write(key, value)) {
+      unsavedPartitions.delete(key);
+    } else {
+      // Keep the in-memory state and retry this partition on the next write.
+      unsavedPartitions.add(key);
+    }
+  }
+
+  for (const key of before.keys()) {
+    if (after.has(key)) continue;
+    changed = true;
+    unsavedPartitions.delete(key);
+    await storage.remove(key);
+  }
+
+  if (changed) {
+    await storage.write(META_PARTITION, withSchemaVersion(STORE_SCHEMA, { updatedAt: next.updatedAt }));
   }
 }
 
 async function loadState(): Promise<OfflineState> {
   if (memoryState) {
-    return cloneState(memoryState);
+    return memoryState;
   }
 
   if (!loadingPromise) {
     loadingPromise = (async () => {
-      const loaded = await readFromStorage();
-      const normalized = ensureStateShape(loaded);
-      const sanitized = sanitizeStateForEntityIds(normalized);
-      const hasChanged = JSON.stringify(normalized) !== JSON.stringify(sanitized);
-      memoryState = ensureStateShape(sanitized);
-      if (hasChanged) {
-        await writeToStorage(memoryState);
+      const { state: loaded, rewrite, legacy } = await readFromStorage();
+      const sanitized = sanitizeStateForEntityIds(loaded);
+      sanitized.outbox = compactOutbox(sanitized.outbox);
+      freezeRecords(sanitized);
+      memoryState = sanitized;
+      await writeToStorage(rewrite ? null : loaded, memoryState);
+      if (legacy) {
+        await retireLegacyState(legacy);
       }
-      return cloneState(memoryState);
+      return memoryState;
     })();
   }
 
@@ -409,11 +876,12 @@ async function withWriteLock<T>(task: () => Promise<T>): Promise<T> {
 async function updateState(mutator: (state: OfflineState) => void): Promise<void> {
   await withWriteLock(async () => {
     const current = await loadState();
-    const next = cloneState(current);
+    const next = copyStateForWrite(current);
     mutator(next);
     next.updatedAt = nowIso();
-    memoryState = ensureStateShape(next);
-    await writeToStorage(memoryState);
+    freezeRecords(next);
+    memoryState = next;
+    await writeToStorage(current, next);
   });
 }
 
@@ -566,6 +1034,251 @@ export async function removeLocalSchedule(userId: string, scheduleId: string): P
   });
 }
 
+export async function getLocalCourses(userId: string): Promise<Course[]> {
+  const state = await loadState();
+  return [...(state.coursesByUser[userId] ?? [])];
+}
+
+export async function getLocalCourseById(userId: string, courseId: string): Promise<Course | null> {
+  const courses = await getLocalCourses(userId);
+  return courses.find((course) => course.id === courseId) ?? null;
+}
+
+export async function setLocalCourses(userId: string, courses: Course[]): Promise<void> {
+  await updateState((state) => {
+    state.coursesByUser[userId] = [...courses];
+  });
+}
+
+export async function upsertLocalCourse(userId: string, course: Course): Promise<void> {
+  await updateState((state) => {
+    const list = state.coursesByUser[userId] ?? [];
+    const index = list.findIndex((item) => item.id === course.id);
+    if (index === -1) {
+      list.push(course);
+    } else {
+      list[index] = course;
+    }
+    state.coursesByUser[userId] = list;
+  });
+}
+
+export async function removeLocalCourse(userId: string, courseId: string): Promise<void> {
+  await updateState((state) => {
+    const list = state.coursesByUser[userId] ?? [];
+    state.coursesByUser[userId] = list.filter((course) => course.id !== courseId);
+  });
+}
+
+export async function getLocalAssessments(userId: string): Promise<Assessment[]> {
+  const state = await loadState();
+  return [...(state.assessmentsByUser[userId] ?? [])];
+}
+
+export async function getLocalAssessmentById(userId: string, assessmentId: string): Promise<Assessment | null> {
+  const assessments = await getLocalAssessments(userId);
+  return assessments.find((assessment) => assessment.id === assessmentId) ?? null;
+}
+
+export async function setLocalAssessments(userId: string, assessments: Assessment[]): Promise<void> {
+  await updateState((state) => {
+    state.assessmentsByUser[userId] = [...assessments];
+  });
+}
+
+export async function upsertLocalAssessment(userId: string, assessment: Assessment): Promise<void> {
+  await updateState((state) => {
+    const list = state.assessmentsByUser[userId] ?? [];
+    const index = list.findIndex((item) => item.id === assessment.id);
+    if (index === -1) {
+      list.push(assessment);
+    } else {
+      list[index] = assessment;
+    }
+    state.assessmentsByUser[userId] = list;
+  });
+}
+
+export async function removeLocalAssessment(userId: string, assessmentId: string): Promise<void> {
+  await updateState((state) => {
+    const list = state.assessmentsByUser[userId] ?? [];
+    state.assessmentsByUser[userId] = list.filter((assessment) => assessment.id !== assessmentId);
+  });
+}
+
+// The server cascade removes the assessments of a deleted course: operations queued on them could only fail.
+export async function removeLocalAssessmentsForCourse(userId: string, courseId: string): Promise<void> {
+  await updateState((state) => {
+    const list = state.assessmentsByUser[userId] ?? [];
+    const removedIds = new Set(list.filter((assessment) => assessment.course_id === courseId).map((item) => item.id));
+    state.assessmentsByUser[userId] = list.filter((assessment) => !removedIds.has(assessment.id));
+    state.outbox = state.outbox.filter((operation) => {
+      if (operation.userId !== userId || operation.entity !== 'assessment') return true;
+      if (operation.action === 'delete') return !removedIds.has(operation.recordId);
+      return operation.record.course_id !== courseId && !removedIds.has(operation.record.id);
+    });
+  });
+}
+
+export async function getLocalTimetable(userId: string): Promise<TimetableEntry[]> {
+  const state = await loadState();
+  return [...(state.timetableByUser[userId] ?? [])];
+}
+
+export async function getLocalTimetableEntryById(userId: string, entryId: string): Promise<TimetableEntry | null> {
+  const entries = await getLocalTimetable(userId);
+  return entries.find((entry) => entry.id === entryId) ?? null;
+}
+
+export async function setLocalTimetable(userId: string, entries: TimetableEntry[]): Promise<void> {
+  await updateState((state) => {
+    state.timetableByUser[userId] = [...entries];
+  });
+}
+
+export async function upsertLocalTimetableEntry(userId: string, entry: TimetableEntry): Promise<void> {
+  await updateState((state) => {
+    const list = state.timetableByUser[userId] ?? [];
+    const index = list.findIndex((item) => item.id === entry.id);
+    if (index === -1) {
+      list.push(entry);
+    } else {
+      list[index] = entry;
+    }
+    state.timetableByUser[userId] = list;
+  });
+}
+
+export async function removeLocalTimetableEntry(userId: string, entryId: string): Promise<void> {
+  await updateState((state) => {
+    const list = state.timetableByUser[userId] ?? [];
+    state.timetableByUser[userId] = list.filter((entry) => entry.id !== entryId);
+  });
+}
+
+export async function getLocalExams(userId: string): Promise<Exam[]> {
+  const state = await loadState();
+  return [...(state.examsByUser[userId] ?? [])];
+}
+
+export async function getLocalExamById(userId: string, examId: string): Promise<Exam | null> {
+  const exams = await getLocalExams(userId);
+  return exams.find((exam) => exam.id === examId) ?? null;
+}
+
+export async function setLocalExams(userId: string, exams: Exam[]): Promise<void> {
+  await updateState((state) => {
+    state.examsByUser[userId] = [...exams];
+  });
+}
+
+export async function upsertLocalExam(userId: string, exam: Exam): Promise<void> {
+  await updateState((state) => {
+    const list = state.examsByUser[userId] ?? [];
+    const index = list.findIndex((item) => item.id === exam.id);
+    if (index === -1) {
+      list.push(exam);
+    } else {
+      list[index] = exam;
+    }
+    state.examsByUser[userId] = list;
+  });
+}
+
+export async function removeLocalExam(userId: string, examId: string): Promise<void> {
+  await updateState((state) => {
+    const list = state.examsByUser[userId] ?? [];
+    state.examsByUser[userId] = list.filter((exam) => exam.id !== examId);
+  });
+}
+
+export async function getLocalReviewItems(userId: string): Promise<ReviewItem[]> {
+  const state = await loadState();
+  return [...(state.reviewsByUser[userId] ?? [])];
+}
+
+export async function setLocalReviewItems(userId: string, items: ReviewItem[]): Promise<void> {
+  await updateState((state) => {
+    state.reviewsByUser[userId] = [...items];
+  });
+}
+
+export async function upsertLocalReviewItem(userId: string, item: ReviewItem): Promise<void> {
+  await updateState((state) => {
+    const list = state.reviewsByUser[userId] ?? [];
+    const index = list.findIndex((entry) => entry.id === item.id);
+    if (index === -1) {
+      list.push(item);
+    } else {
+      list[index] = item;
+    }
+    state.reviewsByUser[userId] = list;
+  });
+}
+
+export async function removeLocalReviewItem(userId: string, itemId: string): Promise<void> {
+  await updateState((state) => {
+    const list = state.reviewsByUser[userId] ?? [];
+    state.reviewsByUser[userId] = list.filter((item) => item.id !== itemId);
+  });
+}
+
+export async function getLocalFlashcards(userId: string): Promise<Flashcard[]> {
+  const state = await loadState();
+  return [...(state.flashcardsByUser[userId] ?? [])];
+}
+
+export async function setLocalFlashcards(userId: string, cards: Flashcard[]): Promise<void> {
+  await updateState((state) => {
+    state.flashcardsByUser[userId] = [...cards];
+  });
+}
+
+export async function upsertLocalFlashcards(userId: string, cards: Flashcard[]): Promise<void> {
+  await updateState((state) => {
+    const list = state.flashcardsByUser[userId] ?? [];
+    for (const card of cards) {
+      const index = list.findIndex((item) => item.id === card.id);
+      if (index === -1) {
+        list.push(card);
+      } else {
+        list[index] = card;
+      }
+    }
+    state.flashcardsByUser[userId] = list;
+  });
+}
+
+export async function removeLocalFlashcards(userId: string, cardIds: string[]): Promise<void> {
+  await updateState((state) => {
+    const list = state.flashcardsByUser[userId] ?? [];
+    state.flashcardsByUser[userId] = list.filter((card) => !cardIds.includes(card.id));
+  });
+}
+
+export async function getSyncCursor(userId: string, entity: SyncCursorEntity): Promise<string | null> {
+  const state = await loadState();
+  return state.syncCursorsByUser[userId]?.[entity] ?? null;
+}
+
+export async function setSyncCursor(userId: string, entity: SyncCursorEntity, cursor: string | null): Promise<void> {
+  await updateState((state) => {
+    const cursors = { ...(state.syncCursorsByUser[userId] ?? {}) };
+    if (cursor) {
+      cursors[entity] = cursor;
+    } else {
+      delete cursors[entity];
+    }
+    state.syncCursorsByUser[userId] = cursors;
+  });
+}
+
+export async function clearSyncCursors(userId: string): Promise<void> {
+  await updateState((state) => {
+    delete state.syncCursorsByUser[userId];
+  });
+}
+
 export async function getCachedAnnouncements(): Promise<Announcement[]> {
   const state = await loadState();
   return [...state.announcements];
@@ -588,6 +1301,12 @@ export async function upsertCachedAnnouncement(announcement: Announcement): Prom
   });
 }
 
+export async function removeCachedAnnouncement(announcementId: string): Promise<void> {
+  await updateState((state) => {
+    state.announcements = state.announcements.filter((item) => item.id !== announcementId);
+  });
+}
+
 export async function getOutboxOperations(userId?: string): Promise<OutboxOperation[]> {
   const state = await loadState();
   const operations = [...state.outbox];
@@ -597,9 +1316,14 @@ export async function getOutboxOperations(userId?: string): Promise<OutboxOperat
   return operations.filter((operation) => operation.userId === userId);
 }
 
+export async function getOutboxOperationById(operationId: string): Promise<OutboxOperation | null> {
+  const state = await loadState();
+  return state.outbox.find((operation) => operation.id === operationId) ?? null;
+}
+
 export async function enqueueOutboxOperation(operation: OutboxOperation): Promise<void> {
   await updateState((state) => {
-    state.outbox.push(operation);
+    state.outbox = coalesceOutboxOperation(state.outbox, operation);
   });
 }
 
@@ -609,11 +1333,115 @@ export async function removeOutboxOperation(operationId: string): Promise<void>
   });
 }
 
-export async function updateOutboxOperation(operationId: string, operation: OutboxOperation): Promise<void> {
+export async function completeOutboxOperation(synced: OutboxOperation): Promise<void> {
+  await updateState((state) => {
+    const index = state.outbox.findIndex((item) => item.id === synced.id);
+
+    if (index === -1) {
+      // The record was created and deleted locally while this upsert was in flight: delete it remotely too.
+      if (synced.action === 'upsert' && 'isNew' in synced && synced.isNew) {
+        state.outbox.push({
+          id: createLocalId('op'),
+          entity: synced.entity,
+          action: 'delete',
+          userId: synced.userId,
+          recordId: synced.record.id,
+          createdAt: nowIso(),
+        } as OutboxOperation);
+      }
+      return;
+    }
+
+    const stored = state.outbox[index];
+    if (JSON.stringify(stored) === JSON.stringify(synced)) {
+      state.outbox.splice(index, 1);
+      return;
+    }
+
+    // Newer edits were coalesced into this operation during the sync: keep them, based on what was just pushed.
+    if (stored.action === 'upsert' && synced.action === 'upsert') {
+      if (stored.entity === 'task' || stored.entity === 'resource') {
+        state.outbox[index] = { ...stored, base: synced.record, isNew: false } as OutboxOperation;
+      } else if (
+        stored.entity === 'schedule'
+        || stored.entity === 'course'
+        || stored.entity === 'assessment'
+        || stored.entity === 'timetable'
+        || stored.entity === 'exam'
+        || stored.entity === 'review'
+        || stored.entity === 'flashcard'
+      ) {
+        state.outbox[index] = { ...stored, isNew: false };
+      }
+    }
+  });
+}
+
+export async function updateOutboxOperation(
+  operationId: string,
+  updater: (operation: OutboxOperation) => OutboxOperation
+): Promise<void> {
+  await updateState((state) => {
+    const index = state.outbox.findIndex((item) => item.id === operationId);
+    if (index === -1) return;
+    state.outbox[index] = updater(state.outbox[index]);
+  });
+}
+
+export async function markOutboxOperationFailed(
+  operationId: string,
+  error: string,
+  nextAttemptAt: string
+): Promise<void> {
   await updateState((state) => {
     const index = state.outbox.findIndex((item) => item.id === operationId);
     if (index === -1) return;
-    state.outbox[index] = operation;
+    const stored = state.outbox[index];
+    state.outbox[index] = {
+      ...stored,
+      attempts: (stored.attempts ?? 0) + 1,
+      nextAttemptAt,
+      lastError: error,
+    };
+  });
+}
+
+export async function moveOutboxOperationToDeadLetter(operationId: string, error: string): Promise<void> {
+  await updateState((state) => {
+    const stored = state.outbox.find((item) => item.id === operationId);
+    if (!stored) return;
+    state.outbox = state.outbox.filter((item) => item.id !== operationId);
+    state.deadLetter.push({
+      operation: { ...stored, attempts: (stored.attempts ?? 0) + 1, nextAttemptAt: null, lastError: error },
+      error,
+      failedAt: nowIso(),
+    });
+  });
+}
+
+export async function getDeadLetterOperations(userId?: string): Promise<DeadLetterOperation[]> {
+  const state = await loadState();
+  if (!userId) {
+    return [...state.deadLetter];
+  }
+  return state.deadLetter.filter((entry) => entry.operation.userId === userId);
+}
+
+export async function retryDeadLetterOperation(operationId: string): Promise<void> {
+  await updateState((state) => {
+    const entry = state.deadLetter.find((item) => item.operation.id === operationId);
+    if (!entry) return;
+    state.deadLetter = state.deadLetter.filter((item) => item.operation.id !== operationId);
+
+    // A newer queued operation for the same record already carries the latest local state.
+    if (state.outbox.some((item) => isSameOperationTarget(item, entry.operation))) return;
+    state.outbox.push({ ...entry.operation, attempts: 0, nextAttemptAt: null, lastError: null });
+  });
+}
+
+export async function discardDeadLetterOperation(operationId: string): Promise<void> {
+  await updateState((state) => {
+    state.deadLetter = state.deadLetter.filter((item) => item.operation.id !== operationId);
   });
 }
 
@@ -624,3 +1452,48 @@ export async function getOutboxSize(userId?: string): Promise<number> {
   }
   return state.outbox.filter((operation) => operation.userId === userId).length;
 }
+
+export async function getOfflineStoreSize(): Promise<PersistentStoreSize> {
+  return { storeKey: STORAGE_NAMESPACE, bytes: await storage.measure() };
+}
+
+export async function getSyncConflicts(userId: string, recordId?: string): Promise<SyncConflict[]> {
+  const state = await loadState();
+  return state.conflicts.filter(
+    (conflict) => conflict.userId === userId && (!recordId || conflict.recordId === recordId)
+  );
+}
+
+export async function addSyncConflicts(conflicts: SyncConflict[]): Promise<void> {
+  if (conflicts.length === 0) return;
+  await updateState((state) => {
+    for (const conflict of conflicts) {
+      const index = state.conflicts.findIndex(
+        (item) =>
+          item.userId === conflict.userId
+          && item.entity === conflict.entity
+          && item.recordId === conflict.recordId
+          && item.field === conflict.field
+      );
+      if (index === -1) {
+        state.conflicts.push(conflict);
+      } else {
+        state.conflicts[index] = { ...conflict, id: state.conflicts[index].id };
+      }
+    }
+  });
+}
+
+export async function removeSyncConflict(conflictId: string): Promise<void> {
+  await updateState((state) => {
+    state.conflicts = state.conflicts.filter((conflict) => conflict.id !== conflictId);
+  });
+}
+
+export async function removeSyncConflictsForRecord(userId: string, recordId: string): Promise<void> {
+  await updateState((state) => {
+    state.conflicts = state.conflicts.filter(
+      (conflict) => conflict.userId !== userId || conflict.recordId !== recordId
+    );
+  });
+}
@@ -0,0 +1,224 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { Platform } from 'react-native';
+
+import { getErrorMessage } from '@/lib/errors';
+import { decodeOfflinePayload, encodeOfflinePayload } from '@/lib/offline-crypto';
+import {
+  defineStoreSchema,
+  migrateStoreValue,
+  serializeVersionedPayload,
+  type StoreMigration,
+} from '@/lib/store-migrations';
+
+const MAX_RECORDED_ERRORS = 20;
+
+export type PersistentStoreErrorOperation = 'read' | 'write';
+
+export type PersistentStoreError = {
+  storeKey: string;
+  operation: PersistentStoreErrorOperation;
+  message: string;
+  occurredAt: string;
+};
+
+export type PersistentStoreOptions<T> = {
+  key: string;
+  defaultValue: T;
+  normalize: (value: unknown) => T;
+  migrations?: StoreMigration[];
+  encrypted?: boolean;
+};
+
+export type PersistentStore<T> = {
+  load: () => Promise<T>;
+  update: (mutator: (draft: T) => void) => Promise<T>;
+  replace: (value: T) => Promise<T>;
+  subscribe: (listener: (value: T) => void) => () => void;
+};
+
+export type PersistentStoreSize = {
+  storeKey: string;
+  bytes: number;
+};
+
+const recordedErrors: PersistentStoreError[] = [];
+const storeSizers = new Map<string, () => Promise<number>>();
+const errorListeners = new Set<(error: PersistentStoreError) => void>();
+
+function reportStoreError(storeKey: string, operation: PersistentStoreErrorOperation, error: unknown) {
+  const entry: PersistentStoreError = {
+    storeKey,
+    operation,
+    message: getErrorMessage(error, operation === 'read' ? 'Lecture locale impossible.' : 'Ecriture locale impossible.'),
+    occurredAt: new Date().toISOString(),
+  };
+  recordedErrors.unshift(entry);
+  recordedErrors.splice(MAX_RECORDED_ERRORS);
+  errorListeners.forEach((listener) => listener(entry));
+}
+
+export function getPersistentStoreErrors(): PersistentStoreError[] {
+  return [...recordedErrors];
+}
+
+export function subscribeToPersistentStoreErrors(listener: (error: PersistentStoreError) => void): () => void {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+}
+
+export async function getPersistentStoreSizes(): Promise<PersistentStoreSize[]> {
+  return Promise.all(
+    [...storeSizers.entries()].map(async ([storeKey, measure]) => ({ storeKey, bytes: await measure() }))
+  );
+}
+
+function cloneValue<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+export function createPersistentStore<T extends object>(options: PersistentStoreOptions<T>): PersistentStore<T> {
+  const { key, defaultValue, normalize, encrypted = false } = options;
+  const schema = defineStoreSchema(key, options.migrations);
+  const filePath = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}${key}.json` : null;
+  const tempPath = filePath ? `${filePath}.tmp` : null;
+  const listeners = new Set<(value: T) => void>();
+
+  let memoryValue: T | null = null;
+  let loadingPromise: Promise<T> | null = null;
+  let writeChain: Promise<void> = Promise.resolve();
+
+  async function readPayload(): Promise<string | null> {
+    if (Platform.OS === 'web') {
+      return globalThis.localStorage?.getItem(key) ?? null;
+    }
+    if (!filePath || !tempPath) return null;
+
+    const info = await FileSystem.getInfoAsync(filePath);
+    if (info.exists) {
+      return FileSystem.readAsStringAsync(filePath);
+    }
+    // A crash between writing the temp file and renaming it leaves the latest copy in the temp file.
+    const tempInfo = await FileSystem.getInfoAsync(tempPath);
+    return tempInfo.exists ? FileSystem.readAsStringAsync(tempPath) : null;
+  }
+
+  async function writeValue(value: T): Promise<void> {
+    try {
+      const serialized = serializeVersionedPayload(schema, value);
+      const payload = encrypted ? await encodeOfflinePayload(serialized) : serialized;
+
+      if (Platform.OS === 'web') {
+        globalThis.localStorage?.setItem(key, payload);
+        return;
+      }
+      if (!filePath || !tempPath) return;
+
+      await FileSystem.writeAsStringAsync(tempPath, payload);
+      await FileSystem.moveAsync({ from: tempPath, to: filePath });
+    } catch (error) {
+      // The in-memory value stays authoritative until the next successful write.
+      reportStoreError(key, 'write', error);
+    }
+  }
+
+  async function readValue(): Promise<T> {
+    try {
+      const payload = await readPayload();
+      if (!payload) return normalize(cloneValue(defaultValue));
+
+      const decoded = await decodeOfflinePayload(payload);
+      if (decoded === null) {
+        throw new Error('Donnees locales illisibles avec la cle de chiffrement actuelle.');
+      }
+
+      const { value, migrated } = await migrateStoreValue(schema, JSON.parse(decoded) as unknown, async () => payload);
+      const normalized = normalize(value);
+      if (migrated) {
+        await writeValue(normalized);
+      }
+      return normalized;
+    } catch (error) {
+      reportStoreError(key, 'read', error);
+      return normalize(cloneValue(defaultValue));
+    }
+  }
+
+  async function load(): Promise<T> {
+    if (memoryValue) return cloneValue(memoryValue);
+
+    if (!loadingPromise) {
+      loadingPromise = (async () => {
+        memoryValue = await readValue();
+        return cloneValue(memoryValue);
+      })();
+    }
+
+    return loadingPromise.then(cloneValue);
+  }
+
+  async function withWriteLock<R>(task: () => Promise<R>): Promise<R> {
+    let release: () => void = () => {};
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const previous = writeChain;
+    writeChain = previous.then(() => gate);
+    await previous;
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  function commit(next: T): T {
+    memoryValue = normalize(next);
+    const snapshot = cloneValue(memoryValue);
+    listeners.forEach((listener) => listener(cloneValue(snapshot)));
+    return snapshot;
+  }
+
+  async function update(mutator: (draft: T) => void): Promise<T> {
+    return withWriteLock(async () => {
+      const next = await load();
+      mutator(next);
+      const snapshot = commit(next);
+      await writeValue(snapshot);
+      return snapshot;
+    });
+  }
+
+  async function replace(value: T): Promise<T> {
+    return withWriteLock(async () => {
+      const snapshot = commit(cloneValue(value));
+      await writeValue(snapshot);
+      return snapshot;
+    });
+  }
+
+  async function measure(): Promise<number> {
+    try {
+      if (Platform.OS === 'web') {
+        return globalThis.localStorage?.getItem(key)?.length ?? 0;
+      }
+      if (!filePath) return 0;
+      const info = await FileSystem.getInfoAsync(filePath);
+      return info.exists ? info.size : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  storeSizers.set(key, measure);
+
+  function subscribe(listener: (value: T) => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  return { load, update, replace, subscribe };
+}
@@ -0,0 +1,148 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+
+import { applyRemoteCourseDelete, applyRemoteCourseUpsert } from '@/lib/courses';
+import { applyRemoteExamDelete, applyRemoteExamUpsert } from '@/lib/exams';
+import { applyRemoteFlashcardDelete, applyRemoteFlashcardUpsert } from '@/lib/flashcards';
+import { applyRemoteAssessmentDelete, applyRemoteAssessmentUpsert } from '@/lib/grades';
+import { applyRemoteReviewDelete, applyRemoteReviewUpsert } from '@/lib/reviews';
+import {
+  applyRemoteAnnouncement,
+  applyRemoteAnnouncementDelete,
+  applyRemoteResourceDelete,
+  applyRemoteResourceUpsert,
+  applyRemoteTaskDelete,
+  applyRemoteTaskUpsert,
+} from '@/lib/student-api';
+import { applyRemoteScheduleDelete, applyRemoteScheduleUpsert } from '@/lib/study-schedule';
+import { supabase } from '@/lib/supabase';
+import { applyRemoteTimetableDelete, applyRemoteTimetableUpsert } from '@/lib/timetable';
+import type { Announcement, Resource, Task } from '@/types/supabase';
+
+export type RemoteChangeEntity =
+  | 'task'
+  | 'resource'
+  | 'schedule'
+  | 'course'
+  | 'assessment'
+  | 'timetable'
+  | 'exam'
+  | 'review'
+  | 'flashcard'
+  | 'announcement';
+
+type RemoteChangeHandlers = {
+  onChange: (entity: RemoteChangeEntity) => void;
+  onConnectionChange: (connected: boolean) => void;
+};
+
+type Row = { [key: string]: unknown };
+
+const userTables: { table: string; entity: Exclude<RemoteChangeEntity, 'announcement'> }[] = [
+  { table: 'tasks', entity: 'task' },
+  { table: 'resources', entity: 'resource' },
+  { table: 'study_schedules', entity: 'schedule' },
+  { table: 'courses', entity: 'course' },
+  { table: 'assessments', entity: 'assessment' },
+  { table: 'timetable_entries', entity: 'timetable' },
+  { table: 'exams', entity: 'exam' },
+  { table: 'review_items', entity: 'review' },
+  { table: 'flashcards', entity: 'flashcard' },
+];
+
+function getRowId(row: Row): string | null {
+  return typeof row.id === 'string' ? row.id : null;
+}
+
+async function applyUserRowChange(
+  userId: string,
+  entity: Exclude<RemoteChangeEntity, 'announcement'>,
+  payload: RealtimePostgresChangesPayload<Row>
+): Promise<boolean> {
+  if (payload.eventType === 'DELETE') {
+    const recordId = getRowId(payload.old);
+    if (!recordId) return false;
+    // Delete events cannot be filtered server side and only carry the primary key under RLS: each handler
+    // ignores ids missing from the local store, which covers rows that belong to someone else.
+    if (entity === 'task') return applyRemoteTaskDelete(userId, recordId);
+    if (entity === 'resource') return applyRemoteResourceDelete(userId, recordId);
+    if (entity === 'course') return applyRemoteCourseDelete(userId, recordId);
+    if (entity === 'assessment') return applyRemoteAssessmentDelete(userId, recordId);
+    if (entity === 'timetable') return applyRemoteTimetableDelete(userId, recordId);
+    if (entity === 'exam') return applyRemoteExamDelete(userId, recordId);
+    if (entity === 'review') return applyRemoteReviewDelete(userId, recordId);
+    if (entity === 'flashcard') return applyRemoteFlashcardDelete(userId, recordId);
+    return applyRemoteScheduleDelete(userId, recordId);
+  }
+
+  if (!getRowId(payload.new) || payload.new.user_id !== userId) return false;
+  if (entity === 'task') return applyRemoteTaskUpsert(userId, payload.new as Task);
+  if (entity === 'resource') return applyRemoteResourceUpsert(userId, payload.new as Resource);
+  if (entity === 'course') return applyRemoteCourseUpsert(userId, payload.new);
+  if (entity === 'assessment') return applyRemoteAssessmentUpsert(userId, payload.new);
+  if (entity === 'timetable') return applyRemoteTimetableUpsert(userId, payload.new);
+  if (entity === 'exam') return applyRemoteExamUpsert(userId, payload.new);
+  if (entity === 'review') return applyRemoteReviewUpsert(userId, payload.new);
+  if (entity === 'flashcard') return applyRemoteFlashcardUpsert(userId, payload.new);
+  return applyRemoteScheduleUpsert(userId, payload.new);
+}
+
+async function applyAnnouncementChange(payload: RealtimePostgresChangesPayload<Row>): Promise<boolean> {
+  if (payload.eventType === 'DELETE') {
+    const announcementId = getRowId(payload.old);
+    if (!announcementId) return false;
+    await applyRemoteAnnouncementDelete(announcementId);
+    return true;
+  }
+
+  if (!getRowId(payload.new)) return false;
+  await applyRemoteAnnouncement(payload.new as Announcement);
+  return true;
+}
+
+export function subscribeToRemoteChanges(userId: string, handlers: RemoteChangeHandlers): () => void {
+  let active = true;
+  let queue: Promise<void> = Promise.resolve();
+
+  const enqueue = (entity: RemoteChangeEntity, apply: () => Promise<boolean>) => {
+    queue = queue
+      .then(async () => {
+        if (!active) return;
+        const applied = await apply();
+        if (applied && active) {
+          handlers.onChange(entity);
+        }
+      })
+      .catch(() => {
+        // A broken event is caught up by the next delta pull.
+      });
+  };
+
+  let channel = supabase.channel(`studyday-sync-${userId}`);
+
+  for (const { table, entity } of userTables) {
+    channel = channel
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter: `user_id=eq.${userId}` }, (payload) =>
+        enqueue(entity, () => applyUserRowChange(userId, entity, payload))
+      )
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter: `user_id=eq.${userId}` }, (payload) =>
+        enqueue(entity, () => applyUserRowChange(userId, entity, payload))
+      )
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, (payload) =>
+        enqueue(entity, () => applyUserRowChange(userId, entity, payload))
+      );
+  }
+
+  channel = channel.on('postgres_changes', { event: '*', schema: 'public', table: 'announcements' }, (payload) =>
+    enqueue('announcement', () => applyAnnouncementChange(payload))
+  );
+
+  channel.subscribe((status) => {
+    if (!active) return;
+    handlers.onConnectionChange(status === 'SUBSCRIBED');
+  });
+
+  return () => {
+    active = false;
+    void supabase.removeChannel(channel);
+  };
+}
@@ -1,10 +1,6 @@
-import * as FileSystem from 'expo-file-system/legacy';
-import { Platform } from 'react-native';
+import { createPersistentStore } from '@/lib/persistent-store';
 
 const STORAGE_KEY = 'studyday-reminder-state-v1';
-const FILE_PATH = FileSystem.documentDirectory
-  ? `${FileSystem.documentDirectory}${STORAGE_KEY}.json`
-  : null;
 
 type ReminderState = {
   byUser: Record<string, Record<string, string>>;
@@ -16,10 +12,6 @@ const defaultState: ReminderState = {
   updatedAt: null,
 };
 
-let memoryState: ReminderState | null = null;
-let loadingPromise: Promise<ReminderState> | null = null;
-let writeChain: Promise<void> = Promise.resolve();
-
 function cloneState(state: ReminderState): ReminderState {
   return JSON.parse(JSON.stringify(state)) as ReminderState;
 }
@@ -48,85 +40,16 @@ function normalizeState(value: unknown): ReminderState {
   };
 }
 
-async function readFromStorage(): Promise<ReminderState> {
-  if (Platform.OS === 'web') {
-    try {
-      const raw = globalThis.localStorage?.getItem(STORAGE_KEY);
-      if (!raw) return cloneState(defaultState);
-      return normalizeState(JSON.parse(raw));
-    } catch {
-      return cloneState(defaultState);
-    }
-  }
-
-  if (!FILE_PATH) return cloneState(defaultState);
-
-  try {
-    const raw = await FileSystem.readAsStringAsync(FILE_PATH);
-    if (!raw) return cloneState(defaultState);
-    return normalizeState(JSON.parse(raw));
-  } catch {
-    return cloneState(defaultState);
-  }
-}
-
-async function writeToStorage(state: ReminderState): Promise<void> {
-  if (Platform.OS === 'web') {
-    try {
-      globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(state));
-    } catch {
-      // Ignore persistence errors.
-    }
-    return;
-  }
-
-  if (!FILE_PATH) return;
-
-  try {
-    await FileSystem.writeAsStringAsync(FILE_PATH, JSON.stringify(state));
-  } catch {
-    // Ignore persistence errors.
-  }
-}
-
-async function loadState(): Promise<ReminderState> {
-  if (memoryState) return cloneState(memoryState);
-
-  if (!loadingPromise) {
-    loadingPromise = (async () => {
-      const loaded = await readFromStorage();
-      memoryState = normalizeState(loaded);
-      return cloneState(memoryState);
-    })();
-  }
-
-  return loadingPromise;
-}
-
-async function withWriteLock<T>(task: () => Promise<T>): Promise<T> {
-  let release: () => void = () => {};
-  const gate = new Promise<void>((resolve) => {
-    release = resolve;
-  });
-  const previous = writeChain;
-  writeChain = previous.then(() => gate);
-  await previous;
-  try {
-    return await task();
-  } finally {
-    release();
-  }
-}
+const store = createPersistentStore<ReminderState>({
+  key: STORAGE_KEY,
+  defaultValue: defaultState,
+  normalize: normalizeState,
+});
 
 async function updateState(mutator: (state: ReminderState) => void): Promise<ReminderState> {
-  return withWriteLock(async () => {
-    const current = await loadState();
-    const next = cloneState(current);
-    mutator(next);
-    next.updatedAt = new Date().toISOString();
-    memoryState = normalizeState(next);
-    await writeToStorage(memoryState);
-    return cloneState(memoryState);
+  return store.update((state) => {
+    mutator(state);
+    state.updatedAt = new Date().toISOString();
   });
 }
 
@@ -135,7 +58,7 @@ export async function shouldSendReminder(
   reminderKey: string,
   cooldownMs: number
 ): Promise<boolean> {
-  const state = await loadState();
+  const state = await store.load();
   const userRecord = state.byUser[userId] ?? {};
   const lastSentAt = userRecord[reminderKey];
   if (!lastSentAt) return true;
@@ -0,0 +1,354 @@
+import { toIsoDate } from '@/lib/format';
+import {
+  createEntityId,
+  createLocalId,
+  enqueueOutboxOperation,
+  getLocalReviewItems,
+  removeLocalReviewItem,
+  setLocalReviewItems,
+  upsertLocalReviewItem,
+} from '@/lib/offline-store';
+import { getPendingRecordIds, pullRemoteDelta } from '@/lib/sync-delta';
+import type { StudyDayKey, StudyScheduleSession } from '@/types/study-schedule';
+import type { Resource, ReviewGrade, ReviewItem, ReviewLogEntry, ReviewSchedule } from '@/types/supabase';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+export const REVIEW_NOT_ENROLLED_ERROR = "Cette ressource n'est pas suivie en revision.";
+
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const MAX_INTERVAL_DAYS = 365;
+const MAX_HISTORY_ENTRIES = 200;
+const REVIEW_MINUTES_PER_ITEM = 5;
+const MIN_REVIEW_SESSION_MINUTES = 10;
+const MAX_REVIEW_SESSION_MINUTES = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_KEYS: StudyDayKey[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+const reviewSelectFields =
+  'id, user_id, resource_id, ease_factor, interval_days, repetitions, lapses, due_date, last_reviewed_at, history, created_at, updated_at';
+
+// SM-2 recall quality for each button: below 3 counts as a lapse.
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+type RemoteReadOptions = {
+  remote?: boolean;
+};
+
+export type ReviewSession = StudyScheduleSession & {
+  resourceIds: string[];
+};
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function shiftDate(value: string, days: number): string {
+  const date = new Date(`${value}T00:00:00Z`);
+  return new Date(date.getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function isReviewGrade(value: unknown): value is ReviewGrade {
+  return typeof value === 'string' && REVIEW_GRADES.includes(value as ReviewGrade);
+}
+
+function normalizeHistory(value: unknown): ReviewLogEntry[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(
+      (entry): entry is ReviewLogEntry =>
+        Boolean(entry)
+        && typeof entry === 'object'
+        && typeof (entry as ReviewLogEntry).reviewed_at === 'string'
+        && isReviewGrade((entry as ReviewLogEntry).grade)
+    )
+    .map((entry) => ({
+      reviewed_at: entry.reviewed_at,
+      grade: entry.grade,
+      interval_days: Number(entry.interval_days) || 0,
+      ease_factor: Number(entry.ease_factor) || DEFAULT_EASE_FACTOR,
+    }));
+}
+
+// Shared by every reviewable row (resources and flashcards), so numeric columns may arrive as strings.
+export function normalizeReviewSchedule(raw: Partial<ReviewSchedule>): ReviewSchedule {
+  const dueDate = typeof raw.due_date === 'string' ? raw.due_date.slice(0, 10) : '';
+  return {
+    ease_factor: Math.max(MIN_EASE_FACTOR, Number(raw.ease_factor) || DEFAULT_EASE_FACTOR),
+    interval_days: Math.max(0, Math.round(Number(raw.interval_days) || 0)),
+    repetitions: Math.max(0, Math.round(Number(raw.repetitions) || 0)),
+    lapses: Math.max(0, Math.round(Number(raw.lapses) || 0)),
+    due_date: datePattern.test(dueDate) ? dueDate : toIsoDate(),
+    last_reviewed_at: raw.last_reviewed_at ?? null,
+    history: normalizeHistory(raw.history),
+  };
+}
+
+// A new schedule is due today so the first recall happens while the material is still fresh.
+export function createReviewSchedule(): ReviewSchedule {
+  return {
+    ease_factor: DEFAULT_EASE_FACTOR,
+    interval_days: 0,
+    repetitions: 0,
+    lapses: 0,
+    due_date: toIsoDate(),
+    last_reviewed_at: null,
+    history: [],
+  };
+}
+
+function normalizeReviewItemFromDb(value: unknown): ReviewItem | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Partial<ReviewItem>;
+  if (typeof raw.id !== 'string' || typeof raw.resource_id !== 'string') return null;
+
+  return {
+    id: raw.id,
+    user_id: raw.user_id ?? null,
+    resource_id: raw.resource_id,
+    ...normalizeReviewSchedule(raw),
+    created_at: raw.created_at ?? nowIso(),
+    updated_at: raw.updated_at ?? null,
+  };
+}
+
+function sortReviewItems(items: ReviewItem[]): ReviewItem[] {
+  return [...items].sort((a, b) => a.due_date.localeCompare(b.due_date) || a.id.localeCompare(b.id));
+}
+
+function getNextSchedule(item: ReviewSchedule, grade: ReviewGrade) {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    Math.round((item.ease_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))) * 100) / 100
+  );
+
+  if (quality < 3) {
+    return { easeFactor, intervalDays: 1, repetitions: 0, lapses: item.lapses + 1 };
+  }
+
+  const repetitions = item.repetitions + 1;
+  let intervalDays = Math.round(item.interval_days * easeFactor);
+  if (repetitions === 1) intervalDays = 1;
+  if (repetitions === 2) intervalDays = 6;
+  return {
+    easeFactor,
+    intervalDays: Math.min(MAX_INTERVAL_DAYS, Math.max(1, intervalDays)),
+    repetitions,
+    lapses: item.lapses,
+  };
+}
+
+export function previewReviewInterval(item: ReviewSchedule, grade: ReviewGrade): number {
+  return getNextSchedule(item, grade).intervalDays;
+}
+
+export function applyReviewGrade<T extends ReviewSchedule>(item: T, grade: ReviewGrade, now = new Date()): T {
+  const next = getNextSchedule(item, grade);
+  const reviewedAt = now.toISOString();
+  return {
+    ...item,
+    ease_factor: next.easeFactor,
+    interval_days: next.intervalDays,
+    repetitions: next.repetitions,
+    lapses: next.lapses,
+    due_date: shiftDate(toIsoDate(now), next.intervalDays),
+    last_reviewed_at: reviewedAt,
+    history: [
+      ...item.history,
+      { reviewed_at: reviewedAt, grade, interval_days: next.intervalDays, ease_factor: next.easeFactor },
+    ].slice(-MAX_HISTORY_ENTRIES),
+  };
+}
+
+// Reviews graded offline on several devices all count: the histories are joined on their timestamps and SM-2
+// is replayed over the result. Returns the local record itself when the other side brings nothing new.
+export function mergeReviewSchedules<T extends ReviewSchedule>(local: T, other: Partial<ReviewSchedule>): T {
+  const byTime = new Map(local.history.map((entry) => [entry.reviewed_at, entry]));
+  const known = byTime.size;
+  for (const entry of normalizeHistory(other.history)) {
+    if (!byTime.has(entry.reviewed_at) && !Number.isNaN(Date.parse(entry.reviewed_at))) {
+      byTime.set(entry.reviewed_at, entry);
+    }
+  }
+  if (byTime.size === known) return local;
+
+  const history = [...byTime.values()].sort(
+    (a, b) => Date.parse(a.reviewed_at) - Date.parse(b.reviewed_at) || a.reviewed_at.localeCompare(b.reviewed_at)
+  );
+  return history.reduce<T>(
+    (schedule, entry) => applyReviewGrade(schedule, entry.grade, new Date(entry.reviewed_at)),
+    { ...local, ...createReviewSchedule() }
+  );
+}
+
+export function mergePendingReviewSchedules<T extends ReviewSchedule & { id: string }>(
+  items: T[],
+  remoteItems: T[],
+  pendingUpserts: Set<string>
+): T[] {
+  const remoteById = new Map(remoteItems.map((item) => [item.id, item]));
+  return items.map((item) => {
+    const remote = pendingUpserts.has(item.id) ? remoteById.get(item.id) : undefined;
+    return remote ? mergeReviewSchedules(item, remote) : item;
+  });
+}
+
+export function isReviewDue(item: ReviewSchedule, today = toIsoDate()): boolean {
+  return item.due_date <= today;
+}
+
+export function getDueReviewItems(items: ReviewItem[], today = toIsoDate()): ReviewItem[] {
+  return sortReviewItems(items.filter((item) => isReviewDue(item, today)));
+}
+
+export function getDueReviewResources(items: ReviewItem[], resources: Resource[], today = toIsoDate()): Resource[] {
+  const resourcesById = new Map(resources.map((resource) => [resource.id, resource]));
+  return getDueReviewItems(items, today)
+    .map((item) => resourcesById.get(item.resource_id))
+    .filter((resource): resource is Resource => Boolean(resource));
+}
+
+// One evening session per day over the window; overdue reviews land on the first day.
+export function buildReviewSessions(
+  items: ReviewItem[],
+  titlesByResourceId: Map<string, string>,
+  from: string,
+  days: number
+): ReviewSession[] {
+  const end = shiftDate(from, days - 1);
+  const byDate = new Map<string, ReviewItem[]>();
+  for (const item of sortReviewItems(items)) {
+    if (!titlesByResourceId.has(item.resource_id) || item.due_date > end) continue;
+    const date = item.due_date < from ? from : item.due_date;
+    byDate.set(date, [...(byDate.get(date) ?? []), item]);
+  }
+
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayItems]) => ({
+      id: `review-${date}`,
+      date,
+      day: DAY_KEYS[new Date(`${date}T00:00:00Z`).getUTCDay()],
+      slot: 'evening',
+      durationMinutes: Math.min(
+        MAX_REVIEW_SESSION_MINUTES,
+        Math.max(MIN_REVIEW_SESSION_MINUTES, dayItems.length * REVIEW_MINUTES_PER_ITEM)
+      ),
+      focus: dayItems.map((item) => titlesByResourceId.get(item.resource_id)).join(', '),
+      resourceIds: dayItems.map((item) => item.resource_id),
+    }));
+}
+
+export async function getCachedReviewItems(userId: string): Promise<ReviewItem[]> {
+  return sortReviewItems(await getLocalReviewItems(userId));
+}
+
+export async function getReviewItemForResource(userId: string, resourceId: string): Promise<ReviewItem | null> {
+  const items = await getLocalReviewItems(userId);
+  return items.find((item) => item.resource_id === resourceId) ?? null;
+}
+
+export async function fetchReviewItems(userId: string, options: RemoteReadOptions = {}): Promise<ReviewItem[]> {
+  const localItems = await getLocalReviewItems(userId);
+  if (!options.remote) {
+    return sortReviewItems(localItems);
+  }
+
+  const next = await pullRemoteDelta({
+    userId,
+    entity: 'review',
+    table: 'review_items',
+    selectFields: reviewSelectFields,
+    local: localItems,
+    normalize: normalizeReviewItemFromDb,
+    resolvePending: (records, remote, pending) => mergePendingReviewSchedules(records, remote, pending.upserts),
+    sort: sortReviewItems,
+    store: (records) => setLocalReviewItems(userId, records),
+  });
+  return next ?? sortReviewItems(localItems);
+}
+
+async function saveReviewItem(userId: string, item: ReviewItem, isNew: boolean): Promise<ReviewItem> {
+  await upsertLocalReviewItem(userId, item);
+  await enqueueOutboxOperation({
+    id: createLocalId('op'),
+    entity: 'review',
+    action: 'upsert',
+    userId,
+    record: item,
+    isNew,
+    createdAt: nowIso(),
+  });
+  return item;
+}
+
+async function deleteReviewItem(userId: string, itemId: string): Promise<void> {
+  await removeLocalReviewItem(userId, itemId);
+  await enqueueOutboxOperation({
+    id: createLocalId('op'),
+    entity: 'review',
+    action: 'delete',
+    userId,
+    recordId: itemId,
+    createdAt: nowIso(),
+  });
+}
+
+export async function enrollResourceForReview(userId: string, resourceId: string): Promise<ReviewItem> {
+  const existing = await getReviewItemForResource(userId, resourceId);
+  if (existing) return existing;
+  return saveReviewItem(
+    userId,
+    {
+      id: createEntityId(),
+      user_id: userId,
+      resource_id: resourceId,
+      ...createReviewSchedule(),
+      created_at: nowIso(),
+    },
+    true
+  );
+}
+
+export async function recordResourceReview(userId: string, resourceId: string, grade: ReviewGrade): Promise<ReviewItem> {
+  const current = await getReviewItemForResource(userId, resourceId);
+  if (!current) {
+    throw new Error(REVIEW_NOT_ENROLLED_ERROR);
+  }
+  return saveReviewItem(userId, applyReviewGrade(current, grade), false);
+}
+
+export async function unenrollResourceFromReview(userId: string, resourceId: string): Promise<void> {
+  const items = await getLocalReviewItems(userId);
+  for (const item of items) {
+    if (item.resource_id === resourceId) {
+      await deleteReviewItem(userId, item.id);
+    }
+  }
+}
+
+export async function applyRemoteReviewUpsert(userId: string, row: unknown): Promise<boolean> {
+  const item = normalizeReviewItemFromDb(row);
+  if (!item) return false;
+  const pending = await getPendingRecordIds(userId, 'review');
+  if (pending.deletes.has(item.id)) return false;
+  if (pending.upserts.has(item.id)) {
+    const current = (await getLocalReviewItems(userId)).find((local) => local.id === item.id);
+    if (!current) return false;
+    const merged = mergeReviewSchedules(current, item);
+    if (merged === current) return false;
+    await upsertLocalReviewItem(userId, merged);
+    return true;
+  }
+  await upsertLocalReviewItem(userId, item);
+  return true;
+}
+
+export async function applyRemoteReviewDelete(userId: string, itemId: string): Promise<boolean> {
+  const pending = await getPendingRecordIds(userId, 'review');
+  if (pending.upserts.has(itemId)) return false;
+  if (!(await getLocalReviewItems(userId)).some((item) => item.id === itemId)) return false;
+  await removeLocalReviewItem(userId, itemId);
+  return true;
+}
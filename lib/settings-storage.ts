@@ -1,5 +1,4 @@
-import * as FileSystem from 'expo-file-system/legacy';
-import { Platform } from 'react-native';
+import { createPersistentStore } from '@/lib/persistent-store';
 
 export type ThemeMode = 'system' | 'light' | 'dark';
 export type AppLanguage = 'fr' | 'en';
@@ -10,18 +9,17 @@ export type AppSettings = {
   themeMode: ThemeMode;
   language: AppLanguage;
   syncMode: SyncMode;
+  realtimeSync: boolean;
   notificationSoundMode: NotificationSoundMode;
 };
 
 const STORAGE_KEY = 'studyday-app-settings-v1';
-const FILE_PATH = FileSystem.documentDirectory
-  ? `${FileSystem.documentDirectory}${STORAGE_KEY}.json`
-  : null;
 
 export const defaultSettings: AppSettings = {
   themeMode: 'dark',
   language: 'fr',
   syncMode: 'auto',
+  realtimeSync: true,
   notificationSoundMode: 'device',
 };
 
@@ -51,55 +49,23 @@ function normalizeSettings(value: unknown): AppSettings {
     themeMode: isThemeMode(raw.themeMode) ? raw.themeMode : defaultSettings.themeMode,
     language: isLanguage(raw.language) ? raw.language : defaultSettings.language,
     syncMode: isSyncMode(raw.syncMode) ? raw.syncMode : defaultSettings.syncMode,
+    realtimeSync: typeof raw.realtimeSync === 'boolean' ? raw.realtimeSync : defaultSettings.realtimeSync,
     notificationSoundMode: isNotificationSoundMode(raw.notificationSoundMode)
       ? raw.notificationSoundMode
       : defaultSettings.notificationSoundMode,
   };
 }
 
-export async function loadAppSettings(): Promise<AppSettings> {
-  if (Platform.OS === 'web') {
-    try {
-      const raw = globalThis.localStorage?.getItem(STORAGE_KEY);
-      if (!raw) return { ...defaultSettings };
-      return normalizeSettings(JSON.parse(raw));
-    } catch {
-      return { ...defaultSettings };
-    }
-  }
+const store = createPersistentStore<AppSettings>({
+  key: STORAGE_KEY,
+  defaultValue: defaultSettings,
+  normalize: normalizeSettings,
+});
 
-  if (!FILE_PATH) {
-    return { ...defaultSettings };
-  }
-
-  try {
-    const raw = await FileSystem.readAsStringAsync(FILE_PATH);
-    if (!raw) return { ...defaultSettings };
-    return normalizeSettings(JSON.parse(raw));
-  } catch {
-    return { ...defaultSettings };
-  }
+export async function loadAppSettings(): Promise<AppSettings> {
+  return store.load();
 }
 
 export async function saveAppSettings(settings: AppSettings): Promise<void> {
-  const normalized = normalizeSettings(settings);
-
-  if (Platform.OS === 'web') {
-    try {
-      globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(normalized));
-    } catch {
-      // Ignore persistence errors and keep runtime settings.
-    }
-    return;
-  }
-
-  if (!FILE_PATH) {
-    return;
-  }
-
-  try {
-    await FileSystem.writeAsStringAsync(FILE_PATH, JSON.stringify(normalized));
-  } catch {
-    // Ignore persistence errors and keep runtime settings.
-  }
+  await store.replace(normalizeSettings(settings));
 }
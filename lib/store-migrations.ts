@@ -0,0 +1,106 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { Platform } from 'react-native';
+
+const SCHEMA_VERSION_FIELD = 'schemaVersion';
+const INITIAL_SCHEMA_VERSION = 1;
+
+type StoreValue = Record<string, unknown>;
+
+export type StoreMigration = {
+  version: number;
+  migrate: (value: StoreValue) => StoreValue;
+};
+
+export type StoreSchema = {
+  storeKey: string;
+  version: number;
+  migrations: StoreMigration[];
+};
+
+export type MigrationResult = {
+  value: unknown;
+  migrated: boolean;
+};
+
+export function defineStoreSchema(storeKey: string, migrations: StoreMigration[] = []): StoreSchema {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+  const latest = sorted[sorted.length - 1];
+  return {
+    storeKey,
+    version: latest ? Math.max(INITIAL_SCHEMA_VERSION, latest.version) : INITIAL_SCHEMA_VERSION,
+    migrations: sorted,
+  };
+}
+
+// Files written before versioning have no schemaVersion: they hold the initial shape.
+export function getStoredSchemaVersion(value: unknown): number {
+  if (!value || typeof value !== 'object') return INITIAL_SCHEMA_VERSION;
+  const version = (value as StoreValue)[SCHEMA_VERSION_FIELD];
+  return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : INITIAL_SCHEMA_VERSION;
+}
+
+export function withSchemaVersion<T extends object>(schema: StoreSchema, value: T): T & { schemaVersion: number } {
+  return { ...value, [SCHEMA_VERSION_FIELD]: schema.version } as T & { schemaVersion: number };
+}
+
+export function getStoreBackupKey(storeKey: string, version: number): string {
+  return `${storeKey}.v${version}.backup`;
+}
+
+export async function backupStorePayload(storeKey: string, version: number, payload: string): Promise<boolean> {
+  const backupKey = getStoreBackupKey(storeKey, version);
+
+  if (Platform.OS === 'web') {
+    try {
+      globalThis.localStorage?.setItem(backupKey, payload);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  if (!FileSystem.documentDirectory) {
+    return false;
+  }
+
+  try {
+    await FileSystem.writeAsStringAsync(`${FileSystem.documentDirectory}${backupKey}.json`, payload);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function migrateStoreValue(
+  schema: StoreSchema,
+  value: unknown,
+  getBackupPayload: () => Promise<string>
+): Promise<MigrationResult> {
+  if (!value || typeof value !== 'object') {
+    return { value, migrated: false };
+  }
+
+  const fromVersion = getStoredSchemaVersion(value);
+  // A newer build wrote this file: keep it untouched and let normalization read what it can.
+  if (fromVersion >= schema.version) {
+    return { value, migrated: false };
+  }
+
+  await backupStorePayload(schema.storeKey, fromVersion, await getBackupPayload());
+
+  let next: StoreValue = { ...(value as StoreValue) };
+  try {
+    for (const migration of schema.migrations) {
+      if (migration.version <= fromVersion) continue;
+      next = migration.migrate(next);
+    }
+  } catch {
+    return { value, migrated: false };
+  }
+
+  return { value: withSchemaVersion(schema, next), migrated: true };
+}
+
+export function serializeVersionedPayload(schema: StoreSchema, value: object): string {
+  return JSON.stringify(withSchemaVersion(schema, value));
+}
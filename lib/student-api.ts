@@ -1,4 +1,8 @@
+import { buildCourseWorkloads, fetchCourses, getCachedCourses } from '@/lib/courses';
 import { getErrorMessage } from '@/lib/errors';
+import { fetchExams, getCachedExams, getUpcomingExams } from '@/lib/exams';
+import { detachResourceFromFlashcards, fetchFlashcards } from '@/lib/flashcards';
+import { fetchAssessments } from '@/lib/grades';
 import { decryptE2eeString } from '@/lib/offline-crypto';
 import {
   createEntityId,
@@ -10,68 +14,135 @@ import {
   getLocalTaskById,
   getLocalTasks,
   getOutboxOperations,
-  getOutboxSize,
+  getSyncConflicts,
+  getSyncCursor,
+  removeCachedAnnouncement,
   removeLocalResource,
   removeLocalTask,
+  removeSyncConflict,
+  removeSyncConflictsForRecord,
   setCachedAnnouncements,
   setLocalResources,
   setLocalTasks,
+  setSyncCursor,
   upsertCachedAnnouncement,
   upsertLocalResource,
   upsertLocalTask,
+  type SyncConflict,
 } from '@/lib/offline-store';
-import { isLikelyNetworkError } from '@/lib/sync-engine';
+import {
+  fetchReviewItems,
+  getCachedReviewItems,
+  getDueReviewResources,
+  unenrollResourceFromReview,
+} from '@/lib/reviews';
+import {
+  applyRemoteDelta,
+  fetchRemoteTombstones,
+  getDeltaSince,
+  getLatestCursor,
+  getPendingRecordIds,
+  getUsableCursor,
+  isMissingUpdatedAtColumnError,
+  mergeById,
+} from '@/lib/sync-delta';
+import {
+  isLikelyNetworkError,
+  isMissingOptionalResourceColumnError,
+  isMissingOptionalTaskColumnError,
+} from '@/lib/sync-engine';
 import { supabase } from '@/lib/supabase';
+import { findDependencyCycle, indexTasksById, normalizeBlockedBy } from '@/lib/task-dependencies';
+import {
+  getDaysBetween,
+  getNextOccurrenceDate,
+  normalizeRecurrence,
+  parseRecurrenceRule,
+  shiftIsoDate,
+} from '@/lib/task-recurrence';
+import { createSubtask, decryptSubtasks, normalizeSubtasks } from '@/lib/task-subtasks';
+import {
+  buildDueAt,
+  compareTasksByDue,
+  getDeviceTimeZone,
+  getDueTimeInput,
+  isTaskOverdue,
+  normalizeDueAt,
+  normalizeEstimatedMinutes,
+} from '@/lib/task-timing';
+import { fetchTimetable } from '@/lib/timetable';
 import type { Announcement, Resource, Task } from '@/types/supabase';
 
 const todayIso = () => new Date().toISOString().slice(0, 10);
 const ARCHIVE_RETENTION_MS = 24 * 60 * 60 * 1000;
+export const TASK_DEPENDENCY_CYCLE_ERROR = 'Cette dependance creerait un cycle entre les taches.';
 const taskSelectFields =
-  'id, user_id, title, description, status, priority, due_date, completed_at, is_persistent, created_at';
+  'id, user_id, title, description, status, priority, due_date, due_at, due_timezone, estimated_minutes, completed_at, is_persistent, subtasks, recurrence, blocked_by, course_id, exam_id, created_at, updated_at';
+const taskSelectFieldsWithoutCursor =
+  'id, user_id, title, description, status, priority, due_date, due_at, due_timezone, estimated_minutes, completed_at, is_persistent, subtasks, recurrence, blocked_by, course_id, exam_id, created_at';
+const resourceSelectFields = 'id, user_id, title, type, content, file_url, tags, course_id, created_at, updated_at';
+const resourceSelectFieldsWithoutCursor = 'id, user_id, title, type, content, file_url, tags, course_id, created_at';
+const legacyResourceSelectFields = 'id, user_id, title, type, content, file_url, tags, created_at';
 const legacyTaskSelectFields = 'id, user_id, title, description, status, priority, due_date, created_at';
 type RemoteReadOptions = {
   remote?: boolean;
 };
 
-function isMissingTaskArchiveColumnError(error: unknown): boolean {
-  if (!error || typeof error !== 'object') return false;
-  const typed = error as { code?: unknown; message?: unknown };
-  if (typed.code !== '42703') return false;
-  const message = typeof typed.message === 'string' ? typed.message.toLowerCase() : '';
-  return (
-    message.includes('tasks.is_persistent')
-    || message.includes('tasks.completed_at')
-    || message.includes('column is_persistent')
-    || message.includes('column completed_at')
-    || message.includes('is_persistent does not exist')
-    || message.includes('completed_at does not exist')
-  );
-}
-
-function withTaskArchiveDefaults(task: Omit<Task, 'completed_at' | 'is_persistent'>): Task {
+type LegacyTask = Omit<
+  Task,
+  | 'due_at'
+  | 'due_timezone'
+  | 'estimated_minutes'
+  | 'completed_at'
+  | 'is_persistent'
+  | 'subtasks'
+  | 'recurrence'
+  | 'blocked_by'
+  | 'course_id'
+  | 'exam_id'
+>;
+
+function withTaskArchiveDefaults(task: LegacyTask): Task {
   return {
     ...task,
+    due_at: null,
+    due_timezone: null,
+    estimated_minutes: null,
     completed_at: null,
     is_persistent: false,
+    subtasks: [],
+    recurrence: null,
+    blocked_by: [],
+    course_id: null,
+    exam_id: null,
   };
 }
 
 function normalizeTask(task: Task): Task {
   return {
     ...task,
+    due_at: normalizeDueAt(task.due_at),
+    due_timezone: task.due_timezone ?? null,
+    estimated_minutes: normalizeEstimatedMinutes(task.estimated_minutes),
     completed_at: task.completed_at ?? null,
     is_persistent: Boolean(task.is_persistent),
+    subtasks: normalizeSubtasks(task.subtasks),
+    recurrence: normalizeRecurrence(task.recurrence),
+    blocked_by: normalizeBlockedBy(task.blocked_by, task.id),
+    course_id: task.course_id ?? null,
+    exam_id: task.exam_id ?? null,
   };
 }
 
 async function decryptTaskRecord(task: Task): Promise<Task> {
   const title = await decryptE2eeString(task.title);
   const description = await decryptE2eeString(task.description);
-  return {
+  return normalizeTask({
     ...task,
     title: title ?? task.title,
     description,
-  };
+    subtasks: await decryptSubtasks(task.subtasks),
+  });
 }
 
 async function decryptTaskRecords(tasks: Task[]): Promise<Task[]> {
@@ -97,6 +168,7 @@ async function decryptResourceRecord(resource: Resource): Promise<Resource> {
     content,
     file_url: fileUrl,
     tags,
+    course_id: resource.course_id ?? null,
   };
 }
 
@@ -180,17 +252,13 @@ async function purgeExpiredRemoteArchivedTasks(userId: string): Promise<void> {
     .eq('is_persistent', false)
     .lte('completed_at', cutoff);
 
-  if (error && !isLikelyNetworkError(error) && !isMissingTaskArchiveColumnError(error)) {
+  if (error && !isLikelyNetworkError(error) && !isMissingOptionalTaskColumnError(error)) {
     throw error;
   }
 }
 
 function sortTasks(tasks: Task[]): Task[] {
-  return [...tasks].sort((a, b) => {
-    const aDate = a.due_date ?? '9999-12-31';
-    const bDate = b.due_date ?? '9999-12-31';
-    return aDate.localeCompare(bDate);
-  });
+  return [...tasks].sort(compareTasksByDue);
 }
 
 function sortResources(resources: Resource[]): Resource[] {
@@ -201,17 +269,6 @@ function sortResources(resources: Resource[]): Resource[] {
   });
 }
 
-function mergeById<T extends { id: string }>(remote: T[], local: T[]): T[] {
-  const map = new Map<string, T>();
-  for (const item of remote) {
-    map.set(item.id, item);
-  }
-  for (const item of local) {
-    map.set(item.id, item);
-  }
-  return [...map.values()];
-}
-
 export async function fetchTasks(userId: string, options: RemoteReadOptions = {}) {
   const localTasks = await getNormalizedLocalTasks(userId);
 
@@ -221,20 +278,35 @@ export async function fetchTasks(userId: string, options: RemoteReadOptions = {}
 
   await purgeExpiredRemoteArchivedTasks(userId);
 
-  const { data, error } = await supabase
-    .from('tasks')
-    .select(taskSelectFields)
-    .eq('user_id', userId)
-    .order('due_date', { ascending: true, nullsFirst: false })
-    .returns<Task[]>();
+  let cursor = getUsableCursor(await getSyncCursor(userId, 'task'));
+  const tombstones = cursor ? await fetchRemoteTombstones(userId, 'task', getDeltaSince(cursor)) : null;
+  if (!tombstones) cursor = null;
+
+  let query = supabase.from('tasks').select(taskSelectFields).eq('user_id', userId);
+  if (cursor) {
+    query = query.gt('updated_at', getDeltaSince(cursor));
+  }
+  let { data, error } = await query.order('due_date', { ascending: true, nullsFirst: false }).returns<Task[]>();
+
+  if (error && isMissingUpdatedAtColumnError(error)) {
+    cursor = null;
+    const full = await supabase
+      .from('tasks')
+      .select(taskSelectFieldsWithoutCursor)
+      .eq('user_id', userId)
+      .order('due_date', { ascending: true, nullsFirst: false })
+      .returns<Task[]>();
+    data = full.data;
+    error = full.error;
+  }
 
-  if (error && isMissingTaskArchiveColumnError(error)) {
+  if (error && isMissingOptionalTaskColumnError(error)) {
     const legacy = await supabase
       .from('tasks')
       .select(legacyTaskSelectFields)
       .eq('user_id', userId)
       .order('due_date', { ascending: true, nullsFirst: false })
-      .returns<Omit<Task, 'completed_at' | 'is_persistent'>[]>();
+      .returns<LegacyTask[]>();
 
     if (legacy.error) {
       if (isLikelyNetworkError(legacy.error)) {
@@ -248,15 +320,9 @@ export async function fetchTasks(userId: string, options: RemoteReadOptions = {}
 
     const legacyWithDefaults = await decryptTaskRecords((legacy.data ?? []).map(withTaskArchiveDefaults));
     const next = await purgeExpiredLocalArchivedTasks(userId, sortTasks(legacyWithDefaults));
-    const pendingCount = await getOutboxSize(userId);
-    if (pendingCount > 0) {
-      const merged = sortTasks(mergeById(next, localTasks));
-      await setLocalTasks(userId, merged);
-      return merged;
-    }
-
-    await setLocalTasks(userId, next);
-    return next;
+    const merged = sortTasks(mergeById(next, localTasks, await getPendingRecordIds(userId, 'task')));
+    await setLocalTasks(userId, merged);
+    return merged;
   }
 
   if (error) {
@@ -270,20 +336,23 @@ export async function fetchTasks(userId: string, options: RemoteReadOptions = {}
   }
 
   const decryptedTasks = await decryptTaskRecords(data ?? []);
-  const next = await purgeExpiredLocalArchivedTasks(userId, sortTasks(decryptedTasks));
-  const pendingCount = await getOutboxSize(userId);
-  if (pendingCount > 0) {
-    const merged = sortTasks(mergeById(next, localTasks));
-    await setLocalTasks(userId, merged);
-    return merged;
-  }
-
-  await setLocalTasks(userId, next);
-  return next;
+  const pending = await getPendingRecordIds(userId, 'task');
+  const next = cursor && tombstones
+    ? applyRemoteDelta(localTasks, decryptedTasks, tombstones.recordIds, pending)
+    : mergeById(decryptedTasks, localTasks, pending);
+  const merged = sortTasks(await purgeExpiredLocalArchivedTasks(userId, next));
+  await setLocalTasks(userId, merged);
+  await setSyncCursor(
+    userId,
+    'task',
+    getLatestCursor(cursor, [...decryptedTasks.map((task) => task.updated_at), tombstones?.latest])
+  );
+  return merged;
 }
 
 export async function fetchTaskById(userId: string, taskId: string, options: RemoteReadOptions = {}) {
-  const localTask = await getLocalTaskById(userId, taskId);
+  const storedTask = await getLocalTaskById(userId, taskId);
+  const localTask = storedTask ? normalizeTask(storedTask) : null;
 
   if (!options.remote) {
     return localTask;
@@ -291,18 +360,18 @@ export async function fetchTaskById(userId: string, taskId: string, options: Rem
 
   const { data, error } = await supabase
     .from('tasks')
-    .select(taskSelectFields)
+    .select(taskSelectFieldsWithoutCursor)
     .eq('id', taskId)
     .eq('user_id', userId)
     .maybeSingle<Task>();
 
-  if (error && isMissingTaskArchiveColumnError(error)) {
+  if (error && isMissingOptionalTaskColumnError(error)) {
     const legacy = await supabase
       .from('tasks')
       .select(legacyTaskSelectFields)
       .eq('id', taskId)
       .eq('user_id', userId)
-      .maybeSingle<Omit<Task, 'completed_at' | 'is_persistent'>>();
+      .maybeSingle<LegacyTask>();
 
     if (legacy.error) {
       if (localTask) return localTask;
@@ -332,14 +401,36 @@ export async function fetchTaskById(userId: string, taskId: string, options: Rem
   return data;
 }
 
+async function saveNewTask(userId: string, task: Task): Promise<Task> {
+  await upsertLocalTask(userId, task);
+  await enqueueOutboxOperation({
+    id: createLocalId('op'),
+    entity: 'task',
+    action: 'upsert',
+    userId,
+    record: task,
+    isNew: true,
+    createdAt: task.created_at ?? new Date().toISOString(),
+  });
+  return task;
+}
+
 export async function createTask(input: {
   userId: string;
   title: string;
   description?: string;
   dueDate?: string;
+  dueTime?: string | null;
+  estimatedMinutes?: number | null;
   priority: 'low' | 'medium' | 'high';
   isPersistent?: boolean;
+  subtasks?: string[];
+  recurrenceRule?: string | null;
+  blockedBy?: string[];
+  courseId?: string | null;
+  examId?: string | null;
 }) {
+  const dueAt = buildDueAt(input.dueDate, input.dueTime);
   const now = new Date().toISOString();
   const task: Task = {
     id: createEntityId(),
@@ -349,21 +440,50 @@ export async function createTask(input: {
     status: 'todo',
     priority: input.priority,
     due_date: input.dueDate || null,
+    due_at: dueAt,
+    due_timezone: dueAt ? getDeviceTimeZone() : null,
+    estimated_minutes: normalizeEstimatedMinutes(input.estimatedMinutes),
     completed_at: null,
     is_persistent: Boolean(input.isPersistent),
+    subtasks: (input.subtasks ?? []).map(createSubtask).filter((subtask) => subtask.title),
+    recurrence: parseRecurrenceRule(input.recurrenceRule)
+      ? { rule: input.recurrenceRule as string, series_id: createEntityId(), index: 1 }
+      : null,
+    blocked_by: normalizeBlockedBy(input.blockedBy),
+    course_id: input.courseId ?? null,
+    exam_id: input.examId ?? null,
     created_at: now,
   };
 
-  await upsertLocalTask(input.userId, task);
-  await enqueueOutboxOperation({
-    id: createLocalId('op'),
-    entity: 'task',
-    action: 'upsert',
-    userId: input.userId,
-    record: task,
-    createdAt: now,
+  return saveNewTask(input.userId, task);
+}
+
+async function createNextOccurrence(userId: string, task: Task): Promise<Task | null> {
+  const recurrence = task.recurrence;
+  const rule = parseRecurrenceRule(recurrence?.rule);
+  if (!recurrence || !rule) return null;
+
+  const series = (await getNormalizedLocalTasks(userId)).filter(
+    (item) => item.recurrence?.series_id === recurrence.series_id
+  );
+  // Completing an occurrence again (after reopening it) must not spawn a second copy of the next one.
+  if (series.some((item) => (item.recurrence?.index ?? 0) > recurrence.index)) return null;
+
+  const dueDate = getNextOccurrenceDate(rule, task.due_date ?? todayIso(), recurrence.index);
+  if (!dueDate) return null;
+
+  return saveNewTask(userId, {
+    ...task,
+    id: createEntityId(),
+    status: 'todo',
+    due_date: dueDate,
+    due_at: buildDueAt(dueDate, getDueTimeInput(task.due_at)),
+    completed_at: null,
+    subtasks: task.subtasks.map((subtask) => ({ ...subtask, done: false })),
+    recurrence: { ...recurrence, index: recurrence.index + 1 },
+    created_at: new Date().toISOString(),
+    updated_at: undefined,
   });
-  return task;
 }
 
 export async function duplicateTask(input: {
@@ -376,13 +496,20 @@ export async function duplicateTask(input: {
     title: input.title,
     description: input.source.description ?? undefined,
     dueDate: input.source.due_date ?? undefined,
+    dueTime: getDueTimeInput(input.source.due_at) || null,
+    estimatedMinutes: input.source.estimated_minutes,
     priority: input.source.priority,
     isPersistent: input.source.is_persistent,
+    subtasks: input.source.subtasks.map((subtask) => subtask.title),
+    recurrenceRule: input.source.recurrence?.rule,
+    blockedBy: input.source.blocked_by,
+    courseId: input.source.course_id,
   });
 }
 
 export async function updateTask(taskId: string, userId: string, patch: Partial<Task>) {
-  const localCurrent = await getLocalTaskById(userId, taskId);
+  const stored = await getLocalTaskById(userId, taskId);
+  const localCurrent = stored ? normalizeTask(stored) : null;
   const now = new Date().toISOString();
 
   const next: Task = {
@@ -393,8 +520,17 @@ export async function updateTask(taskId: string, userId: string, patch: Partial<
     status: patch.status ?? localCurrent?.status ?? 'todo',
     priority: patch.priority ?? localCurrent?.priority ?? 'medium',
     due_date: patch.due_date !== undefined ? patch.due_date : (localCurrent?.due_date ?? null),
+    due_at: patch.due_at !== undefined ? patch.due_at : (localCurrent?.due_at ?? null),
+    due_timezone: patch.due_timezone !== undefined ? patch.due_timezone : (localCurrent?.due_timezone ?? null),
+    estimated_minutes:
+      patch.estimated_minutes !== undefined ? patch.estimated_minutes : (localCurrent?.estimated_minutes ?? null),
     completed_at: patch.completed_at !== undefined ? patch.completed_at : (localCurrent?.completed_at ?? null),
     is_persistent: patch.is_persistent ?? localCurrent?.is_persistent ?? false,
+    subtasks: patch.subtasks ?? localCurrent?.subtasks ?? [],
+    recurrence: patch.recurrence !== undefined ? patch.recurrence : (localCurrent?.recurrence ?? null),
+    blocked_by: normalizeBlockedBy(patch.blocked_by ?? localCurrent?.blocked_by, taskId),
+    course_id: patch.course_id !== undefined ? patch.course_id : (localCurrent?.course_id ?? null),
+    exam_id: patch.exam_id !== undefined ? patch.exam_id : (localCurrent?.exam_id ?? null),
     created_at: localCurrent?.created_at ?? now,
   };
 
@@ -405,13 +541,84 @@ export async function updateTask(taskId: string, userId: string, patch: Partial<
     action: 'upsert',
     userId,
     record: next,
+    base: localCurrent,
     createdAt: now,
   });
+
+  if (next.status === 'done' && localCurrent?.status !== 'done' && next.recurrence) {
+    await createNextOccurrence(userId, next);
+  }
+}
+
+export async function setTaskDependencies(taskId: string, userId: string, blockedBy: string[]) {
+  const tasks = await getNormalizedLocalTasks(userId);
+  const next = normalizeBlockedBy(blockedBy, taskId);
+  if (findDependencyCycle(taskId, next, indexTasksById(tasks))) {
+    throw new Error(TASK_DEPENDENCY_CYCLE_ERROR);
+  }
+  await updateTask(taskId, userId, { blocked_by: next });
+}
+
+type TaskSeriesPatch = Partial<
+  Pick<
+    Task,
+    | 'title'
+    | 'description'
+    | 'priority'
+    | 'is_persistent'
+    | 'due_date'
+    | 'due_at'
+    | 'due_timezone'
+    | 'estimated_minutes'
+    | 'course_id'
+  >
+> & {
+  recurrenceRule?: string | null;
+};
+
+// Applies an edit to this occurrence and every pending occurrence after it; due dates move by the same offset.
+export async function updateTaskSeries(taskId: string, userId: string, patch: TaskSeriesPatch) {
+  const stored = await getLocalTaskById(userId, taskId);
+  const current = stored ? normalizeTask(stored) : null;
+  const { recurrenceRule, ...fields } = patch;
+  if (!current?.recurrence) {
+    const recurrence = recurrenceRule && parseRecurrenceRule(recurrenceRule)
+      ? { rule: recurrenceRule, series_id: createEntityId(), index: 1 }
+      : null;
+    await updateTask(taskId, userId, recurrenceRule !== undefined ? { ...fields, recurrence } : fields);
+    return;
+  }
+
+  const { series_id: seriesId, index: fromIndex } = current.recurrence;
+  const dayShift = fields.due_date && current.due_date ? getDaysBetween(current.due_date, fields.due_date) : 0;
+  const occurrences = (await getNormalizedLocalTasks(userId)).filter(
+    (task) =>
+      task.id === current.id
+      || (task.recurrence?.series_id === seriesId && task.recurrence.index > fromIndex && task.status !== 'done')
+  );
+
+  for (const occurrence of occurrences) {
+    const recurrence = occurrence.recurrence;
+    const occurrencePatch: Partial<Task> = { ...fields };
+    if (occurrence.id !== current.id) {
+      occurrencePatch.due_date = occurrence.due_date && dayShift !== 0
+        ? shiftIsoDate(occurrence.due_date, dayShift)
+        : occurrence.due_date;
+      if (fields.due_at !== undefined) {
+        occurrencePatch.due_at = buildDueAt(occurrencePatch.due_date, getDueTimeInput(fields.due_at));
+      }
+    }
+    if (recurrenceRule !== undefined && recurrence) {
+      occurrencePatch.recurrence = recurrenceRule ? { ...recurrence, rule: recurrenceRule } : null;
+    }
+    await updateTask(occurrence.id, userId, occurrencePatch);
+  }
 }
 
 export async function deleteTask(taskId: string, userId: string) {
   const now = new Date().toISOString();
   await removeLocalTask(userId, taskId);
+  await removeSyncConflictsForRecord(userId, taskId);
   await enqueueOutboxOperation({
     id: createLocalId('op'),
     entity: 'task',
@@ -429,12 +636,39 @@ export async function fetchResources(userId: string, options: RemoteReadOptions
     return sortResources(localResources);
   }
 
-  const { data, error } = await supabase
-    .from('resources')
-    .select('id, user_id, title, type, content, file_url, tags, created_at')
-    .eq('user_id', userId)
-    .order('created_at', { ascending: false })
-    .returns<Resource[]>();
+  let cursor = getUsableCursor(await getSyncCursor(userId, 'resource'));
+  const tombstones = cursor ? await fetchRemoteTombstones(userId, 'resource', getDeltaSince(cursor)) : null;
+  if (!tombstones) cursor = null;
+
+  let query = supabase.from('resources').select(resourceSelectFields).eq('user_id', userId);
+  if (cursor) {
+    query = query.gt('updated_at', getDeltaSince(cursor));
+  }
+  let { data, error } = await query.order('created_at', { ascending: false }).returns<Resource[]>();
+
+  if (error && isMissingUpdatedAtColumnError(error)) {
+    cursor = null;
+    const full = await supabase
+      .from('resources')
+      .select(resourceSelectFieldsWithoutCursor)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .returns<Resource[]>();
+    data = full.data;
+    error = full.error;
+  }
+
+  if (error && isMissingOptionalResourceColumnError(error)) {
+    cursor = null;
+    const legacy = await supabase
+      .from('resources')
+      .select(legacyResourceSelectFields)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .returns<Resource[]>();
+    data = legacy.data;
+    error = legacy.error;
+  }
 
   if (error) {
     if (isLikelyNetworkError(error)) {
@@ -447,16 +681,19 @@ export async function fetchResources(userId: string, options: RemoteReadOptions
   }
 
   const decryptedResources = await decryptResourceRecords(data ?? []);
-  const next = sortResources(decryptedResources);
-  const pendingCount = await getOutboxSize(userId);
-  if (pendingCount > 0) {
-    const merged = sortResources(mergeById(next, localResources));
-    await setLocalResources(userId, merged);
-    return merged;
-  }
-
-  await setLocalResources(userId, next);
-  return next;
+  const pending = await getPendingRecordIds(userId, 'resource');
+  const merged = sortResources(
+    cursor && tombstones
+      ? applyRemoteDelta(localResources, decryptedResources, tombstones.recordIds, pending)
+      : mergeById(decryptedResources, localResources, pending)
+  );
+  await setLocalResources(userId, merged);
+  await setSyncCursor(
+    userId,
+    'resource',
+    getLatestCursor(cursor, [...decryptedResources.map((resource) => resource.updated_at), tombstones?.latest])
+  );
+  return merged;
 }
 
 export async function fetchResourceById(userId: string, resourceId: string, options: RemoteReadOptions = {}) {
@@ -466,13 +703,24 @@ export async function fetchResourceById(userId: string, resourceId: string, opti
     return localResource;
   }
 
-  const { data, error } = await supabase
+  let { data, error } = await supabase
     .from('resources')
-    .select('id, user_id, title, type, content, file_url, tags, created_at')
+    .select(resourceSelectFieldsWithoutCursor)
     .eq('id', resourceId)
     .eq('user_id', userId)
     .maybeSingle<Resource>();
 
+  if (error && isMissingOptionalResourceColumnError(error)) {
+    const legacy = await supabase
+      .from('resources')
+      .select(legacyResourceSelectFields)
+      .eq('id', resourceId)
+      .eq('user_id', userId)
+      .maybeSingle<Resource>();
+    data = legacy.data;
+    error = legacy.error;
+  }
+
   if (error) {
     if (localResource) return localResource;
     if (isLikelyNetworkError(error)) return null;
@@ -506,6 +754,7 @@ export async function createResource(input: {
   content?: string;
   fileUrl?: string;
   tags: string[];
+  courseId?: string | null;
 }) {
   const now = new Date().toISOString();
   const resource: Resource = {
@@ -516,6 +765,7 @@ export async function createResource(input: {
     content: input.content?.trim() || null,
     file_url: input.fileUrl?.trim() || null,
     tags: input.tags,
+    course_id: input.courseId ?? null,
     created_at: now,
   };
 
@@ -526,6 +776,7 @@ export async function createResource(input: {
     action: 'upsert',
     userId: input.userId,
     record: resource,
+    isNew: true,
     createdAt: now,
   });
   return resource;
@@ -543,6 +794,7 @@ export async function duplicateResource(input: {
     content: input.source.content ?? undefined,
     fileUrl: input.source.file_url ?? undefined,
     tags: input.source.tags ?? [],
+    courseId: input.source.course_id,
   });
 }
 
@@ -558,6 +810,7 @@ export async function updateResource(resourceId: string, userId: string, patch:
     content: patch.content !== undefined ? patch.content : (localCurrent?.content ?? null),
     file_url: patch.file_url !== undefined ? patch.file_url : (localCurrent?.file_url ?? null),
     tags: patch.tags !== undefined ? patch.tags : (localCurrent?.tags ?? []),
+    course_id: patch.course_id !== undefined ? patch.course_id : (localCurrent?.course_id ?? null),
     created_at: localCurrent?.created_at ?? now,
   };
 
@@ -568,6 +821,7 @@ export async function updateResource(resourceId: string, userId: string, patch:
     action: 'upsert',
     userId,
     record: next,
+    base: localCurrent,
     createdAt: now,
   });
 }
@@ -575,6 +829,9 @@ export async function updateResource(resourceId: string, userId: string, patch:
 export async function deleteResource(resourceId: string, userId: string) {
   const now = new Date().toISOString();
   await removeLocalResource(userId, resourceId);
+  await removeSyncConflictsForRecord(userId, resourceId);
+  await unenrollResourceFromReview(userId, resourceId);
+  await detachResourceFromFlashcards(resourceId, userId);
   await enqueueOutboxOperation({
     id: createLocalId('op'),
     entity: 'resource',
@@ -585,6 +842,35 @@ export async function deleteResource(resourceId: string, userId: string) {
   });
 }
 
+// Called before a course is deleted so no task or resource keeps pointing at it.
+export async function detachCourse(courseId: string, userId: string) {
+  const tasks = await getNormalizedLocalTasks(userId);
+  for (const task of tasks.filter((item) => item.course_id === courseId)) {
+    await updateTask(task.id, userId, { course_id: null });
+  }
+  const resources = await getLocalResources(userId);
+  for (const resource of resources.filter((item) => item.course_id === courseId)) {
+    await updateResource(resource.id, userId, { course_id: null });
+  }
+}
+
+export async function getRecordSyncConflicts(userId: string, recordId: string): Promise<SyncConflict[]> {
+  return getSyncConflicts(userId, recordId);
+}
+
+export async function resolveSyncConflict(conflict: SyncConflict, choice: 'local' | 'remote'): Promise<void> {
+  if (choice === 'remote') {
+    const patch = { [conflict.field]: conflict.remoteValue };
+    if (conflict.entity === 'task') {
+      await updateTask(conflict.recordId, conflict.userId, patch as Partial<Task>);
+    } else {
+      await updateResource(conflict.recordId, conflict.userId, patch as Partial<Resource>);
+    }
+  }
+
+  await removeSyncConflict(conflict.id);
+}
+
 export async function fetchAnnouncements(options: RemoteReadOptions = {}) {
   const localAnnouncements = await getCachedAnnouncements();
   if (!options.remote) {
@@ -643,9 +929,12 @@ export async function fetchDashboardSummary(userId: string, options: RemoteReadO
   const tasks = await fetchTasks(userId, options);
   const resources = await fetchResources(userId, options);
   const announcements = await fetchAnnouncements(options);
+  const courses = await fetchCourses(userId, options);
+  const exams = await fetchExams(userId, options);
+  const reviews = await fetchReviewItems(userId, options);
 
   const todoTasks = tasks.filter((task) => task.status !== 'done');
-  const overdue = todoTasks.filter((task) => (task.due_date ? task.due_date < todayIso() : false));
+  const overdue = todoTasks.filter((task) => isTaskOverdue(task));
 
   return {
     tasks,
@@ -655,6 +944,9 @@ export async function fetchDashboardSummary(userId: string, options: RemoteReadO
     todoCount: todoTasks.length,
     overdueCount: overdue.length,
     latestAnnouncement: announcements[0] ?? null,
+    courseWorkloads: buildCourseWorkloads(courses, tasks),
+    upcomingExams: getUpcomingExams(exams).slice(0, 3),
+    dueReviewResources: getDueReviewResources(reviews, resources),
   };
 }
 
@@ -662,9 +954,12 @@ export async function getCachedDashboardSummary(userId: string) {
   const tasks = await getCachedTasks(userId);
   const resources = await getCachedResources(userId);
   const announcements = await getCachedAnnouncements();
+  const courses = await getCachedCourses(userId);
+  const exams = await getCachedExams(userId);
+  const reviews = await getCachedReviewItems(userId);
 
   const todoTasks = tasks.filter((task) => task.status !== 'done');
-  const overdue = todoTasks.filter((task) => (task.due_date ? task.due_date < todayIso() : false));
+  const overdue = todoTasks.filter((task) => isTaskOverdue(task));
 
   return {
     tasks,
@@ -674,6 +969,9 @@ export async function getCachedDashboardSummary(userId: string) {
     todoCount: todoTasks.length,
     overdueCount: overdue.length,
     latestAnnouncement: announcements[0] ?? null,
+    courseWorkloads: buildCourseWorkloads(courses, tasks),
+    upcomingExams: getUpcomingExams(exams).slice(0, 3),
+    dueReviewResources: getDueReviewResources(reviews, resources),
   };
 }
 
@@ -694,5 +992,58 @@ export async function hydrateLocalDataFromRemote(userId: string): Promise<void>
     fetchTasks(userId, { remote: true }),
     fetchResources(userId, { remote: true }),
     fetchAnnouncements({ remote: true }),
+    fetchCourses(userId, { remote: true }),
+    fetchAssessments(userId, { remote: true }),
+    fetchTimetable(userId, { remote: true }),
+    fetchExams(userId, { remote: true }),
+    fetchReviewItems(userId, { remote: true }),
+    fetchFlashcards(userId, { remote: true }),
   ]);
 }
+
+export async function applyRemoteTaskUpsert(userId: string, row: Task): Promise<boolean> {
+  const pending = await getPendingRecordIds(userId, 'task');
+  if (pending.upserts.has(row.id) || pending.deletes.has(row.id)) return false;
+  const task = normalizeTask(await decryptTaskRecord(row));
+  if (shouldPurgeArchivedTask(task)) return false;
+  await upsertLocalTask(userId, task);
+  return true;
+}
+
+export async function applyRemoteTaskDelete(userId: string, taskId: string): Promise<boolean> {
+  const pending = await getPendingRecordIds(userId, 'task');
+  if (pending.upserts.has(taskId)) return false;
+  if (!(await getLocalTaskById(userId, taskId))) return false;
+  await removeLocalTask(userId, taskId);
+  await removeSyncConflictsForRecord(userId, taskId);
+  return true;
+}
+
+export async function applyRemoteResourceUpsert(userId: string, row: Resource): Promise<boolean> {
+  const pending = await getPendingRecordIds(userId, 'resource');
+  if (pending.upserts.has(row.id) || pending.deletes.has(row.id)) return false;
+  await upsertLocalResource(userId, await decryptResourceRecord(row));
+  return true;
+}
+
+export async function applyRemoteResourceDelete(userId: string, resourceId: string): Promise<boolean> {
+  const pending = await getPendingRecordIds(userId, 'resource');
+  if (pending.upserts.has(resourceId)) return false;
+  if (!(await getLocalResourceById(userId, resourceId))) return false;
+  await removeLocalResource(userId, resourceId);
+  await removeSyncConflictsForRecord(userId, resourceId);
+  return true;
+}
+
+export async function applyRemoteAnnouncement(row: Announcement): Promise<void> {
+  const expired = row.expires_at ? Date.parse(row.expires_at) < Date.now() : false;
+  if (!row.is_active || expired) {
+    await removeCachedAnnouncement(row.id);
+    return;
+  }
+  await upsertCachedAnnouncement(row);
+}
+
+export async function applyRemoteAnnouncementDelete(announcementId: string): Promise<void> {
+  await removeCachedAnnouncement(announcementId);
+}
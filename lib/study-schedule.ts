@@ -4,26 +4,73 @@ import {
   enqueueOutboxOperation,
   getLocalScheduleById,
   getLocalSchedules,
-  getOutboxSize,
+  getSyncCursor,
   removeLocalSchedule,
   setLocalSchedules,
+  setSyncCursor,
   upsertLocalSchedule,
 } from '@/lib/offline-store';
 import { decryptE2eeString } from '@/lib/offline-crypto';
+import {
+  applyRemoteDelta,
+  fetchRemoteTombstones,
+  getDeltaSince,
+  getLatestCursor,
+  getPendingRecordIds,
+  getUsableCursor,
+  mergeById,
+} from '@/lib/sync-delta';
 import { isLikelyNetworkError } from '@/lib/sync-engine';
 import { supabase } from '@/lib/supabase';
+import { orderTasksByDependencies } from '@/lib/task-dependencies';
+import { compareTasksByDue } from '@/lib/task-timing';
+import { getLongestFreeMinutes } from '@/lib/timetable';
 import type { Resource, Task } from '@/types/supabase';
 import type {
   StudyDayKey,
+  StudyDeadlineGap,
   StudyPeriodPreset,
   StudySchedulePlan,
   StudySchedulePreferences,
   StudyScheduleSession,
+  StudyScheduleStrategy,
+  StudySessionStatus,
   StudySlot,
+  TimetableEntry,
 } from '@/types/study-schedule';
 
 const DAY_ORDER: StudyDayKey[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
 const SLOT_ORDER: StudySlot[] = ['morning', 'afternoon', 'evening'];
+
+export const STUDY_SESSION_STATUSES: StudySessionStatus[] = ['planned', 'done', 'skipped', 'rescheduled'];
+export const STUDY_SCHEDULE_STRATEGIES: StudyScheduleStrategy[] = ['balanced', 'deadline'];
+export const STUDY_SESSION_DATE_INVALID_ERROR = 'La nouvelle date de la session est invalide.';
+export const STUDY_REPLAN_STALE_ERROR = "Le plan a change depuis l'apercu. Relance la replanification.";
+
+export type StudyAdherence = {
+  due: number;
+  done: number;
+  skipped: number;
+  late: number;
+  plannedMinutes: number;
+  actualMinutes: number;
+  percent: number | null;
+};
+
+export type StudyReplanMove = {
+  focus: string;
+  fromDate: string;
+  fromSlot: StudySlot;
+  toDate: string;
+  toSlot: StudySlot;
+  missed: boolean;
+};
+
+export type StudyReplanPreview = {
+  plan: StudySchedulePlan;
+  moves: StudyReplanMove[];
+  unplaced: StudyScheduleSession[];
+};
 type RemoteReadOptions = {
   remote?: boolean;
 };
@@ -97,6 +144,14 @@ function rotateSlot(preferred: StudySlot, offset: number): StudySlot {
   return SLOT_ORDER[(start + offset) % SLOT_ORDER.length];
 }
 
+function sortSessions(sessions: StudyScheduleSession[]): StudyScheduleSession[] {
+  return [...sessions].sort((a, b) => {
+    const byDate = a.date.localeCompare(b.date);
+    if (byDate !== 0) return byDate;
+    return SLOT_ORDER.indexOf(a.slot) - SLOT_ORDER.indexOf(b.slot);
+  });
+}
+
 export function resolveStudyPeriodEndDate(startDate: string, preset: StudyPeriodPreset, customWeeks: number | null): string {
   const safeStart = parseIsoDate(startDate) ?? new Date();
 
@@ -135,6 +190,7 @@ function normalizePreferences(preferences: StudySchedulePreferences): StudySched
   const sessionMinutes = clamp(Math.round(preferences.sessionMinutes), 15, 240);
   const includeWeekend = Boolean(preferences.includeWeekend);
   const selectedDays = normalizeSelectedDays(preferences.selectedDays, includeWeekend, sessionsPerWeek);
+  const strategy: StudyScheduleStrategy = preferences.strategy === 'deadline' ? 'deadline' : 'balanced';
 
   return {
     ...preferences,
@@ -146,6 +202,7 @@ function normalizePreferences(preferences: StudySchedulePreferences): StudySched
     sessionMinutes,
     includeWeekend,
     selectedDays,
+    strategy,
   };
 }
 
@@ -193,14 +250,73 @@ function buildFocusPool(goal: string, tasks: Task[], resources: Resource[]): str
   return ['Revision generale', 'Exercices pratiques', 'Synthese'];
 }
 
-function buildSessions(preferences: StudySchedulePreferences, focusPool: string[]): StudyScheduleSession[] {
+type TaskWorkload = {
+  taskId: string;
+  courseId: string | null;
+  title: string;
+  deadline: string;
+  hardDeadline: boolean;
+  remainingMinutes: number;
+};
+
+const priorityOrder: Record<Task['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+// Open tasks with an estimate, earliest deadline first but never before their prerequisites.
+// Overdue work is due at the start of the period.
+function buildTaskWorkloads(preferences: StudySchedulePreferences, tasks: Task[]): TaskWorkload[] {
+  const open = tasks.filter((task) => task.status !== 'done');
+  return orderTasksByDependencies(
+    open,
+    (a, b) => compareTasksByDue(a, b) || priorityOrder[a.priority] - priorityOrder[b.priority]
+  )
+    .filter((task) => task.estimated_minutes && task.title.trim())
+    .map((task) => {
+      const due = task.due_date ?? preferences.endDate;
+      const deadline =
+        due < preferences.startDate ? preferences.startDate : due > preferences.endDate ? preferences.endDate : due;
+      return {
+        taskId: task.id,
+        courseId: task.course_id ?? null,
+        title: task.title.trim(),
+        deadline,
+        hardDeadline: Boolean(task.due_date) && due <= preferences.endDate,
+        remainingMinutes: task.estimated_minutes ?? 0,
+      };
+    });
+}
+
+function fitsAroundClasses(timetable: TimetableEntry[], date: string, slot: StudySlot, minutes: number): boolean {
+  return timetable.length === 0 || getLongestFreeMinutes(timetable, date, slot) >= minutes;
+}
+
+function createPlannedSession(date: Date, slot: StudySlot, minutes: number): StudyScheduleSession {
+  return {
+    id: createEntityId(),
+    date: toIsoDate(date),
+    day: getDayKey(date),
+    slot,
+    durationMinutes: minutes,
+    focus: '',
+    taskId: null,
+    courseId: null,
+  };
+}
+
+// A session placed on top of a class moves to the next free slot of the week, or is dropped.
+function placeSessions(
+  preferences: StudySchedulePreferences,
+  timetable: TimetableEntry[]
+): { sessions: StudyScheduleSession[]; skippedForClasses: number } {
   const start = parseIsoDate(preferences.startDate);
   const end = parseIsoDate(preferences.endDate);
-  if (!start || !end || end.getTime() < start.getTime()) return [];
+  if (!start || !end || end.getTime() < start.getTime()) return { sessions: [], skippedForClasses: 0 };
+
+  const fits = (date: Date, slot: StudySlot) =>
+    fitsAroundClasses(timetable, toIsoDate(date), slot, preferences.sessionMinutes);
 
   const sessions: StudyScheduleSession[] = [];
+  let skippedForClasses = 0;
   let cursorWeekStart = new Date(start);
-  let focusIndex = 0;
 
   while (cursorWeekStart.getTime() <= end.getTime()) {
     const weekEnd = addDays(cursorWeekStart, 6);
@@ -214,28 +330,188 @@ function buildSessions(preferences: StudySchedulePreferences, focusPool: string[
     }
 
     if (candidates.length > 0) {
+      const taken = new Set<string>();
       for (let index = 0; index < preferences.sessionsPerWeek; index += 1) {
-        const dayDate = candidates[index % candidates.length];
-        const day = getDayKey(dayDate);
-        sessions.push({
-          id: createEntityId(),
-          date: toIsoDate(dayDate),
-          day,
-          slot: rotateSlot(preferences.preferredSlot, index),
-          durationMinutes: preferences.sessionMinutes,
-          focus: focusPool[focusIndex % focusPool.length],
-        });
-        focusIndex += 1;
+        let dayDate: Date | null = candidates[index % candidates.length];
+        let slot = rotateSlot(preferences.preferredSlot, index);
+
+        if (!fits(dayDate, slot)) {
+          dayDate = null;
+          for (let dayOffset = 0; dayOffset < candidates.length && !dayDate; dayOffset += 1) {
+            const candidate = candidates[(index + dayOffset) % candidates.length];
+            for (let slotOffset = 0; slotOffset < SLOT_ORDER.length; slotOffset += 1) {
+              const candidateSlot = rotateSlot(slot, slotOffset);
+              if (taken.has(`${toIsoDate(candidate)}:${candidateSlot}`)) continue;
+              if (!fits(candidate, candidateSlot)) continue;
+              dayDate = candidate;
+              slot = candidateSlot;
+              break;
+            }
+          }
+        }
+
+        if (!dayDate) {
+          skippedForClasses += 1;
+          continue;
+        }
+
+        taken.add(`${toIsoDate(dayDate)}:${slot}`);
+        sessions.push(createPlannedSession(dayDate, slot, preferences.sessionMinutes));
       }
     }
 
     cursorWeekStart = addDays(cursorWeekStart, 7);
   }
 
-  return sessions.sort((a, b) => {
-    const byDate = a.date.localeCompare(b.date);
-    if (byDate !== 0) return byDate;
-    return SLOT_ORDER.indexOf(a.slot) - SLOT_ORDER.indexOf(b.slot);
+  return { sessions: sortSessions(sessions), skippedForClasses };
+}
+
+// Estimated task work fills the sessions before each deadline; the remaining sessions rotate through the focus pool.
+function fillSessions(sessions: StudyScheduleSession[], focusPool: string[], workloads: TaskWorkload[]): void {
+  let focusIndex = 0;
+  for (const session of sessions) {
+    const workload = workloads.find((item) => item.remainingMinutes > 0 && item.deadline >= session.date);
+    if (workload) {
+      workload.remainingMinutes -= session.durationMinutes;
+      session.focus = workload.title;
+      session.taskId = workload.taskId;
+      session.courseId = workload.courseId;
+      continue;
+    }
+    session.focus = focusPool[focusIndex % focusPool.length];
+    focusIndex += 1;
+  }
+}
+
+// Deadline strategy: the regular cadence first, then extra sessions (fewest sessions per day first, preferred
+// slot first) until every deadline has enough sessions before it. Each session goes to a single task, so the
+// need is counted in whole sessions. Whatever still does not fit is reported per deadline.
+function buildDeadlineSessions(
+  preferences: StudySchedulePreferences,
+  focusPool: string[],
+  workloads: TaskWorkload[],
+  timetable: TimetableEntry[]
+): { sessions: StudyScheduleSession[]; skippedForClasses: number; extraSessions: number; gaps: StudyDeadlineGap[] } {
+  const { sessions, skippedForClasses } = placeSessions(preferences, timetable);
+  const start = parseIsoDate(preferences.startDate);
+  const end = parseIsoDate(preferences.endDate);
+  const taken = new Set(sessions.map((session) => `${session.date}:${session.slot}`));
+  const spare: { date: Date; slot: StudySlot }[] = [];
+  if (start && end) {
+    for (let date = new Date(start); date.getTime() <= end.getTime(); date = addDays(date, 1)) {
+      if (!preferences.selectedDays.includes(getDayKey(date))) continue;
+      for (const slot of SLOT_ORDER) {
+        if (taken.has(`${toIsoDate(date)}:${slot}`)) continue;
+        if (!fitsAroundClasses(timetable, toIsoDate(date), slot, preferences.sessionMinutes)) continue;
+        spare.push({ date: new Date(date), slot });
+      }
+    }
+  }
+
+  const perDay = new Map<string, number>();
+  for (const session of sessions) perDay.set(session.date, (perDay.get(session.date) ?? 0) + 1);
+  const slotRank = (slot: StudySlot) => (SLOT_ORDER.indexOf(slot) - SLOT_ORDER.indexOf(preferences.preferredSlot) + 3) % 3;
+
+  const deadlines = [...new Set(workloads.filter((item) => item.hardDeadline).map((item) => item.deadline))].sort();
+  let extraSessions = 0;
+  for (const deadline of deadlines) {
+    const needed = workloads
+      .filter((item) => item.hardDeadline && item.deadline <= deadline)
+      .reduce((total, item) => total + Math.ceil(item.remainingMinutes / preferences.sessionMinutes), 0);
+    let available = sessions.filter((session) => session.date <= deadline).length;
+
+    while (available < needed) {
+      const candidates = spare.filter((item) => toIsoDate(item.date) <= deadline);
+      if (candidates.length === 0) break;
+      candidates.sort(
+        (a, b) =>
+          (perDay.get(toIsoDate(a.date)) ?? 0) - (perDay.get(toIsoDate(b.date)) ?? 0) ||
+          slotRank(a.slot) - slotRank(b.slot) ||
+          a.date.getTime() - b.date.getTime()
+      );
+      const pick = candidates[0];
+      spare.splice(spare.indexOf(pick), 1);
+      sessions.push(createPlannedSession(pick.date, pick.slot, preferences.sessionMinutes));
+      perDay.set(toIsoDate(pick.date), (perDay.get(toIsoDate(pick.date)) ?? 0) + 1);
+      available += 1;
+      extraSessions += 1;
+    }
+  }
+
+  const sorted = sortSessions(sessions);
+  fillSessions(sorted, focusPool, workloads);
+
+  const gapsByDeadline = new Map<string, StudyDeadlineGap>();
+  for (const item of workloads) {
+    if (!item.hardDeadline || item.remainingMinutes <= 0) continue;
+    const gap = gapsByDeadline.get(item.deadline) ?? { deadline: item.deadline, missingMinutes: 0, taskIds: [] };
+    gap.missingMinutes += item.remainingMinutes;
+    gap.taskIds.push(item.taskId);
+    gapsByDeadline.set(item.deadline, gap);
+  }
+
+  return {
+    sessions: sorted,
+    skippedForClasses,
+    extraSessions,
+    gaps: [...gapsByDeadline.values()].sort((a, b) => a.deadline.localeCompare(b.deadline)),
+  };
+}
+
+export function getStudySessionStatus(session: StudyScheduleSession): StudySessionStatus {
+  return session.status && STUDY_SESSION_STATUSES.includes(session.status) ? session.status : 'planned';
+}
+
+// Rescheduled sessions are counted on their new date; planned ones only count once their day has passed.
+export function computeStudyAdherence(sessions: StudyScheduleSession[], today: string): StudyAdherence {
+  const result: StudyAdherence = {
+    due: 0,
+    done: 0,
+    skipped: 0,
+    late: 0,
+    plannedMinutes: 0,
+    actualMinutes: 0,
+    percent: null,
+  };
+
+  for (const session of sessions) {
+    const status = getStudySessionStatus(session);
+    if (status === 'rescheduled') continue;
+    if (status === 'planned' && session.date >= today) continue;
+    result.due += 1;
+    result.plannedMinutes += session.durationMinutes;
+    if (status === 'done') {
+      result.done += 1;
+      result.actualMinutes += session.actualMinutes ?? session.durationMinutes;
+    } else if (status === 'skipped') {
+      result.skipped += 1;
+    } else {
+      result.late += 1;
+    }
+  }
+
+  result.percent = result.due > 0 ? Math.round((result.done / result.due) * 100) : null;
+  return result;
+}
+
+// Regenerating a plan keeps what was already done or skipped on the same day and slot.
+function carrySessionProgress(sessions: StudyScheduleSession[], previous: StudyScheduleSession[]): StudyScheduleSession[] {
+  const progress = new Map<string, StudyScheduleSession>();
+  for (const session of previous) {
+    const status = getStudySessionStatus(session);
+    if (status === 'done' || status === 'skipped') progress.set(`${session.date}:${session.slot}`, session);
+  }
+  if (progress.size === 0) return sessions;
+
+  return sessions.map((session) => {
+    const match = progress.get(`${session.date}:${session.slot}`);
+    if (!match) return session;
+    return {
+      ...session,
+      status: match.status,
+      actualMinutes: match.actualMinutes ?? null,
+      completedAt: match.completedAt ?? null,
+    };
   });
 }
 
@@ -248,17 +524,6 @@ function sortPlans(plans: StudySchedulePlan[]): StudySchedulePlan[] {
   });
 }
 
-function mergeById<T extends { id: string }>(remote: T[], local: T[]): T[] {
-  const map = new Map<string, T>();
-  for (const item of remote) {
-    map.set(item.id, item);
-  }
-  for (const item of local) {
-    map.set(item.id, item);
-  }
-  return [...map.values()];
-}
-
 function normalizePlanFromDb(value: unknown): StudySchedulePlan | null {
   if (!value || typeof value !== 'object') return null;
   const raw = value as Partial<StudySchedulePlan>;
@@ -331,6 +596,7 @@ export function getDefaultStudySchedulePreferences(today = new Date()): StudySch
     includeWeekend: false,
     selectedDays: ['mon', 'tue', 'wed', 'thu', 'fri'],
     preferredSlot: 'evening',
+    strategy: 'balanced',
   };
 }
 
@@ -344,10 +610,18 @@ export async function getStudySchedulePlans(userId: string, options: RemoteReadO
     return sortPlans(localPlans);
   }
 
-  const { data, error } = await supabase
+  let cursor = getUsableCursor(await getSyncCursor(userId, 'schedule'));
+  const tombstones = cursor ? await fetchRemoteTombstones(userId, 'schedule', getDeltaSince(cursor)) : null;
+  if (!tombstones) cursor = null;
+
+  let query = supabase
     .from('study_schedules')
     .select('id, user_id, title, goal, preferences, summary, sessions, is_pinned, created_at, updated_at')
-    .eq('user_id', userId)
+    .eq('user_id', userId);
+  if (cursor) {
+    query = query.gt('updated_at', getDeltaSince(cursor));
+  }
+  const { data, error } = await query
     .order('is_pinned', { ascending: false })
     .order('updated_at', { ascending: false });
 
@@ -363,10 +637,19 @@ export async function getStudySchedulePlans(userId: string, options: RemoteReadO
 
   const normalizedRemotePlans = (data ?? []).map(normalizePlanFromDb).filter(Boolean) as StudySchedulePlan[];
   const remotePlans = await Promise.all(normalizedRemotePlans.map((plan) => decryptSchedulePlanRecord(plan)));
-  const pendingCount = await getOutboxSize(userId);
+  const pending = await getPendingRecordIds(userId, 'schedule');
 
-  const next = pendingCount > 0 ? sortPlans(mergeById(remotePlans, localPlans)) : sortPlans(remotePlans);
+  const next = sortPlans(
+    cursor && tombstones
+      ? applyRemoteDelta(localPlans, remotePlans, tombstones.recordIds, pending)
+      : mergeById(remotePlans, localPlans, pending)
+  );
   await setLocalSchedules(userId, next);
+  await setSyncCursor(
+    userId,
+    'schedule',
+    getLatestCursor(cursor, [...remotePlans.map((plan) => plan.updated_at), tombstones?.latest])
+  );
   return next;
 }
 
@@ -416,13 +699,26 @@ type GenerateInput = {
   preferences: StudySchedulePreferences;
   tasks?: Task[];
   resources?: Resource[];
+  timetable?: TimetableEntry[];
   existingPlanId?: string;
 };
 
 export async function generateAndSaveStudySchedule(input: GenerateInput): Promise<StudySchedulePlan> {
   const normalizedPreferences = normalizePreferences(input.preferences);
   const focusPool = buildFocusPool(normalizedPreferences.goal, input.tasks ?? [], input.resources ?? []);
-  const sessions = buildSessions(normalizedPreferences, focusPool);
+  const workloads = buildTaskWorkloads(normalizedPreferences, input.tasks ?? []);
+  const taskMinutes = workloads.reduce((total, item) => total + item.remainingMinutes, 0);
+  const timetable = input.timetable ?? [];
+  let built: ReturnType<typeof buildDeadlineSessions>;
+  if (normalizedPreferences.strategy === 'deadline') {
+    built = buildDeadlineSessions(normalizedPreferences, focusPool, workloads, timetable);
+  } else {
+    const placed = placeSessions(normalizedPreferences, timetable);
+    fillSessions(placed.sessions, focusPool, workloads);
+    built = { ...placed, extraSessions: 0, gaps: [] };
+  }
+  const { sessions, skippedForClasses } = built;
+  const uncoveredTaskMinutes = workloads.reduce((total, item) => total + Math.max(0, item.remainingMinutes), 0);
 
   const totalDays = daysDiffInclusive(normalizedPreferences.startDate, normalizedPreferences.endDate);
   const totalWeeks = Math.max(1, Math.ceil(totalDays / 7));
@@ -445,25 +741,311 @@ export async function generateAndSaveStudySchedule(input: GenerateInput): Promis
       totalWeeks,
       startDate: normalizedPreferences.startDate,
       endDate: normalizedPreferences.endDate,
+      taskMinutes,
+      uncoveredTaskMinutes,
+      skippedForClasses,
+      ...(normalizedPreferences.strategy === 'deadline'
+        ? { extraSessions: built.extraSessions, deadlineGaps: built.gaps }
+        : {}),
     },
-    sessions,
+    sessions: existing ? carrySessionProgress(sessions, existing.sessions) : sessions,
     is_pinned: existing?.is_pinned ?? false,
     created_at: existing?.created_at ?? now,
     updated_at: now,
   };
 
-  await upsertLocalSchedule(input.userId, plan);
+  return savePlan(input.userId, plan, !existing);
+}
+
+async function savePlan(userId: string, plan: StudySchedulePlan, isNew: boolean): Promise<StudySchedulePlan> {
+  await upsertLocalSchedule(userId, plan);
   await enqueueOutboxOperation({
     id: createLocalId('op'),
     entity: 'schedule',
     action: 'upsert',
-    userId: input.userId,
+    userId,
     record: plan,
-    createdAt: now,
+    isNew,
+    createdAt: plan.updated_at,
   });
   return plan;
 }
 
+type SessionsInput = {
+  userId: string;
+  title: string;
+  goal: string;
+  sessions: StudyScheduleSession[];
+  existingPlanId?: string | null;
+};
+
+// Saves sessions placed by another generator (exam revisions) as a regular plan, so the planner can show them.
+export async function saveStudyScheduleSessions(input: SessionsInput): Promise<StudySchedulePlan> {
+  const sessions = sortSessions(input.sessions);
+  const defaults = getDefaultStudySchedulePreferences();
+  const startDate = sessions[0]?.date ?? defaults.startDate;
+  const endDate = sessions[sessions.length - 1]?.date ?? startDate;
+  const totalWeeks = Math.max(1, Math.ceil(daysDiffInclusive(startDate, endDate) / 7));
+  const totalMinutes = sessions.reduce((total, session) => total + session.durationMinutes, 0);
+  const selectedDays = DAY_ORDER.filter((day) => sessions.some((session) => session.day === day));
+
+  const preferences: StudySchedulePreferences = {
+    ...defaults,
+    title: input.title,
+    goal: input.goal,
+    periodPreset: 'custom',
+    startDate,
+    endDate,
+    customWeeks: totalWeeks,
+    sessionsPerWeek: clamp(Math.ceil(sessions.length / totalWeeks), 1, 21),
+    sessionMinutes: sessions[0]?.durationMinutes ?? defaults.sessionMinutes,
+    includeWeekend: selectedDays.includes('sat') || selectedDays.includes('sun'),
+    selectedDays: selectedDays.length > 0 ? selectedDays : defaults.selectedDays,
+    preferredSlot: sessions[0]?.slot ?? defaults.preferredSlot,
+  };
+
+  const existing = input.existingPlanId ? await getLocalScheduleById(input.userId, input.existingPlanId) : null;
+  const now = nowIso();
+  return savePlan(
+    input.userId,
+    {
+      id: existing?.id ?? createEntityId(),
+      user_id: input.userId,
+      title: input.title,
+      goal: input.goal,
+      preferences,
+      summary: {
+        totalSessions: sessions.length,
+        totalHours: Math.round(totalMinutes / 60),
+        totalWeeks,
+        startDate,
+        endDate,
+      },
+      sessions,
+      is_pinned: existing?.is_pinned ?? false,
+      created_at: existing?.created_at ?? now,
+      updated_at: now,
+    },
+    !existing
+  );
+}
+
+async function updatePlanSession(
+  userId: string,
+  scheduleId: string,
+  sessionId: string,
+  update: (session: StudyScheduleSession) => StudyScheduleSession[]
+): Promise<StudySchedulePlan | null> {
+  const current = await getLocalScheduleById(userId, scheduleId);
+  if (!current || !current.sessions.some((session) => session.id === sessionId)) return null;
+
+  const sessions = current.sessions.flatMap((session) => (session.id === sessionId ? update(session) : [session]));
+  return savePlan(userId, { ...current, sessions: sortSessions(sessions), updated_at: nowIso() }, false);
+}
+
+export async function setStudySessionStatus(input: {
+  userId: string;
+  scheduleId: string;
+  sessionId: string;
+  status: Exclude<StudySessionStatus, 'rescheduled'>;
+  actualMinutes?: number | null;
+}): Promise<StudySchedulePlan | null> {
+  return updatePlanSession(input.userId, input.scheduleId, input.sessionId, (session) => {
+    if (input.status !== 'done') {
+      return [{ ...session, status: input.status, actualMinutes: null, completedAt: null, rescheduledTo: null }];
+    }
+    const minutes = input.actualMinutes ?? session.actualMinutes ?? session.durationMinutes;
+    return [
+      {
+        ...session,
+        status: 'done',
+        actualMinutes: clamp(Math.round(minutes), 1, 24 * 60),
+        completedAt: session.completedAt ?? nowIso(),
+        rescheduledTo: null,
+      },
+    ];
+  });
+}
+
+// Each focus round spent on a session adds to its actual time and marks it done.
+export async function logFocusOnStudySession(
+  userId: string,
+  scheduleId: string,
+  sessionId: string,
+  minutes: number
+): Promise<StudySchedulePlan | null> {
+  return updatePlanSession(userId, scheduleId, sessionId, (session) => {
+    const previous = getStudySessionStatus(session) === 'done' ? (session.actualMinutes ?? 0) : 0;
+    return [
+      {
+        ...session,
+        status: 'done',
+        actualMinutes: clamp(Math.round(previous + minutes), 1, 24 * 60),
+        completedAt: session.completedAt ?? nowIso(),
+        rescheduledTo: null,
+      },
+    ];
+  });
+}
+
+// The original session stays in the plan as rescheduled, so the week it left still shows the change.
+export async function rescheduleStudySession(input: {
+  userId: string;
+  scheduleId: string;
+  sessionId: string;
+  date: string;
+  slot?: StudySlot;
+}): Promise<StudySchedulePlan | null> {
+  const date = parseIsoDate(input.date);
+  if (!date) throw new Error(STUDY_SESSION_DATE_INVALID_ERROR);
+
+  return updatePlanSession(input.userId, input.scheduleId, input.sessionId, (session) => [
+    { ...session, status: 'rescheduled', rescheduledTo: input.date },
+    {
+      ...session,
+      id: createEntityId(),
+      date: input.date,
+      day: getDayKey(date),
+      slot: input.slot ?? session.slot,
+      status: 'planned',
+      actualMinutes: null,
+      completedAt: null,
+      rescheduledTo: null,
+    },
+  ]);
+}
+
+// Free slots left in each remaining week once the sessions that stay are counted, preferred slot first.
+function findFreeReplanSlots(
+  preferences: StudySchedulePreferences,
+  sessions: StudyScheduleSession[],
+  today: string,
+  timetable: TimetableEntry[]
+): { date: string; slot: StudySlot }[] {
+  const start = parseIsoDate(preferences.startDate);
+  const end = parseIsoDate(preferences.endDate);
+  if (!start || !end || today > preferences.endDate) return [];
+
+  const taken = new Set(sessions.map((session) => `${session.date}:${session.slot}`));
+  const free: { date: string; slot: StudySlot }[] = [];
+
+  for (let weekStart = new Date(start); weekStart.getTime() <= end.getTime(); weekStart = addDays(weekStart, 7)) {
+    const firstDay = toIsoDate(weekStart);
+    const lastDay = toIsoDate(addDays(weekStart, 6));
+    if (lastDay < today) continue;
+
+    let capacity =
+      preferences.sessionsPerWeek - sessions.filter((session) => session.date >= firstDay && session.date <= lastDay).length;
+    if (capacity <= 0) continue;
+
+    const days: string[] = [];
+    for (let offset = 0; offset < 7; offset += 1) {
+      const date = addDays(weekStart, offset);
+      const iso = toIsoDate(date);
+      if (iso < today || date.getTime() > end.getTime()) continue;
+      if (preferences.selectedDays.includes(getDayKey(date))) days.push(iso);
+    }
+
+    for (let slotOffset = 0; slotOffset < SLOT_ORDER.length && capacity > 0; slotOffset += 1) {
+      const slot = rotateSlot(preferences.preferredSlot, slotOffset);
+      for (const date of days) {
+        if (capacity <= 0) break;
+        if (taken.has(`${date}:${slot}`)) continue;
+        if (timetable.length > 0 && getLongestFreeMinutes(timetable, date, slot) < preferences.sessionMinutes) continue;
+        taken.add(`${date}:${slot}`);
+        free.push({ date, slot });
+        capacity -= 1;
+      }
+    }
+  }
+
+  return free;
+}
+
+// Past sessions and their outcomes stay as they are. Missed sessions and the upcoming ones are laid out again,
+// oldest first, over the upcoming slots plus the free capacity of each remaining week; a missed session keeps
+// its history as rescheduled and comes back as a new session. Nothing is saved until the preview is applied.
+export function previewStudyPlanReplan(
+  plan: StudySchedulePlan,
+  input: { today: string; timetable?: TimetableEntry[] }
+): StudyReplanPreview {
+  const preferences = normalizePreferences(plan.preferences);
+  const sessions = sortSessions(plan.sessions);
+  const isOpen = (session: StudyScheduleSession) => getStudySessionStatus(session) === 'planned';
+  const missed = sessions.filter((session) => isOpen(session) && session.date < input.today);
+  const upcoming = sessions.filter((session) => isOpen(session) && session.date >= input.today);
+  const settled = sessions.filter((session) => !isOpen(session));
+  const staying = settled.filter((session) => getStudySessionStatus(session) !== 'rescheduled');
+
+  const slots = [
+    ...upcoming.map((session) => ({ date: session.date, slot: session.slot })),
+    ...findFreeReplanSlots(preferences, [...staying, ...upcoming], input.today, input.timetable ?? []),
+  ].sort((a, b) => a.date.localeCompare(b.date) || SLOT_ORDER.indexOf(a.slot) - SLOT_ORDER.indexOf(b.slot));
+  const placeable = Math.max(0, slots.length - upcoming.length);
+  const placedMissed = missed.slice(0, placeable);
+  const unplaced = missed.slice(placeable);
+  const missedIds = new Set(placedMissed.map((session) => session.id));
+
+  const nextSessions: StudyScheduleSession[] = [...settled, ...unplaced];
+  const moves: StudyReplanMove[] = [];
+  [...placedMissed, ...upcoming].forEach((session, index) => {
+    const target = slots[index];
+    const moved: StudyScheduleSession = {
+      ...session,
+      date: target.date,
+      day: getDayKey(parseIsoDate(target.date) as Date),
+      slot: target.slot,
+    };
+    const missedSession = missedIds.has(session.id);
+    if (missedSession) {
+      nextSessions.push({ ...session, status: 'rescheduled', rescheduledTo: target.date });
+      nextSessions.push({
+        ...moved,
+        id: createEntityId(),
+        status: 'planned',
+        actualMinutes: null,
+        completedAt: null,
+        rescheduledTo: null,
+      });
+    } else {
+      nextSessions.push(moved);
+    }
+    if (missedSession || target.date !== session.date || target.slot !== session.slot) {
+      moves.push({
+        focus: session.focus,
+        fromDate: session.date,
+        fromSlot: session.slot,
+        toDate: target.date,
+        toSlot: target.slot,
+        missed: missedSession,
+      });
+    }
+  });
+
+  const active = nextSessions.filter((session) => getStudySessionStatus(session) !== 'rescheduled');
+  return {
+    plan: {
+      ...plan,
+      sessions: sortSessions(nextSessions),
+      summary: {
+        ...plan.summary,
+        totalSessions: active.length,
+        totalHours: Math.round(active.reduce((total, session) => total + session.durationMinutes, 0) / 60),
+      },
+    },
+    moves,
+    unplaced,
+  };
+}
+
+export async function applyStudyPlanReplan(userId: string, preview: StudyReplanPreview): Promise<StudySchedulePlan> {
+  const current = await getLocalScheduleById(userId, preview.plan.id);
+  if (!current || current.updated_at !== preview.plan.updated_at) {
+    throw new Error(STUDY_REPLAN_STALE_ERROR);
+  }
+  return savePlan(userId, { ...preview.plan, updated_at: nowIso() }, false);
+}
+
 export async function togglePinStudySchedulePlan(scheduleId: string, userId: string, pinned?: boolean): Promise<void> {
   const current = await getLocalScheduleById(userId, scheduleId);
   if (!current) return;
@@ -501,3 +1083,20 @@ export async function deleteStudySchedulePlan(scheduleId: string, userId: string
 export async function hydrateStudySchedulesFromRemote(userId: string): Promise<void> {
   await getStudySchedulePlans(userId, { remote: true });
 }
+
+export async function applyRemoteScheduleUpsert(userId: string, row: unknown): Promise<boolean> {
+  const plan = normalizePlanFromDb(row);
+  if (!plan) return false;
+  const pending = await getPendingRecordIds(userId, 'schedule');
+  if (pending.upserts.has(plan.id) || pending.deletes.has(plan.id)) return false;
+  await upsertLocalSchedule(userId, await decryptSchedulePlanRecord(plan));
+  return true;
+}
+
+export async function applyRemoteScheduleDelete(userId: string, scheduleId: string): Promise<boolean> {
+  const pending = await getPendingRecordIds(userId, 'schedule');
+  if (pending.upserts.has(scheduleId)) return false;
+  if (!(await getLocalScheduleById(userId, scheduleId))) return false;
+  await removeLocalSchedule(userId, scheduleId);
+  return true;
+}
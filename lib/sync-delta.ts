@@ -0,0 +1,190 @@
+import {
+  getDeadLetterOperations,
+  getOutboxOperations,
+  getSyncCursor,
+  setSyncCursor,
+  type SyncCursorEntity,
+} from '@/lib/offline-store';
+import { supabase } from '@/lib/supabase';
+
+const CURSOR_OVERLAP_MS = 5_000;
+const TOMBSTONE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+const tombstoneTableByEntity: Record<SyncCursorEntity, string> = {
+  task: 'tasks',
+  resource: 'resources',
+  schedule: 'study_schedules',
+  course: 'courses',
+  assessment: 'assessments',
+  timetable: 'timetable_entries',
+  exam: 'exams',
+  review: 'review_items',
+  flashcard: 'flashcards',
+};
+
+export type PendingRecordIds = {
+  upserts: Set<string>;
+  deletes: Set<string>;
+};
+
+// Dead-lettered operations still count: the user can retry them, so the local copy must outlive a full pull.
+export async function getPendingRecordIds(userId: string, entity: SyncCursorEntity): Promise<PendingRecordIds> {
+  const pending: PendingRecordIds = { upserts: new Set(), deletes: new Set() };
+  const [outbox, deadLetter] = await Promise.all([getOutboxOperations(userId), getDeadLetterOperations(userId)]);
+  for (const operation of [...deadLetter.map((entry) => entry.operation), ...outbox]) {
+    if (operation.entity !== entity) continue;
+    if (operation.action === 'upsert') {
+      pending.upserts.add(operation.record.id);
+    } else {
+      pending.deletes.add(operation.recordId);
+    }
+  }
+  return pending;
+}
+
+export function mergeById<T extends { id: string }>(remote: T[], local: T[], pending: PendingRecordIds): T[] {
+  const map = new Map<string, T>();
+  for (const item of remote) {
+    if (pending.deletes.has(item.id)) continue;
+    map.set(item.id, item);
+  }
+  // Only records with queued edits keep their local copy; the sync merges them field by field.
+  for (const item of local) {
+    if (!pending.upserts.has(item.id)) continue;
+    map.set(item.id, item);
+  }
+  return [...map.values()];
+}
+
+export function applyRemoteDelta<T extends { id: string }>(
+  local: T[],
+  changed: T[],
+  deletedIds: string[],
+  pending: PendingRecordIds
+): T[] {
+  const map = new Map<string, T>();
+  for (const item of local) {
+    map.set(item.id, item);
+  }
+  for (const item of changed) {
+    if (pending.upserts.has(item.id) || pending.deletes.has(item.id)) continue;
+    map.set(item.id, item);
+  }
+  for (const id of deletedIds) {
+    if (pending.upserts.has(id)) continue;
+    map.delete(id);
+  }
+  return [...map.values()];
+}
+
+export function isMissingUpdatedAtColumnError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const typed = error as { code?: unknown; message?: unknown };
+  if (typed.code !== '42703') return false;
+  const message = typeof typed.message === 'string' ? typed.message.toLowerCase() : '';
+  return message.includes('updated_at');
+}
+
+// A cursor older than the tombstone retention may have missed deletions: pull everything again.
+export function getUsableCursor(cursor: string | null): string | null {
+  if (!cursor) return null;
+  const cursorMs = Date.parse(cursor);
+  if (Number.isNaN(cursorMs)) return null;
+  if (Date.now() - cursorMs > TOMBSTONE_RETENTION_MS) return null;
+  return cursor;
+}
+
+// Re-read a small window before the cursor to catch rows committed late with an earlier timestamp.
+export function getDeltaSince(cursor: string): string {
+  return new Date(Date.parse(cursor) - CURSOR_OVERLAP_MS).toISOString();
+}
+
+export function getLatestCursor(current: string | null, values: (string | null | undefined)[]): string | null {
+  let latest = current;
+  for (const value of values) {
+    if (!value) continue;
+    if (!latest || Date.parse(value) > Date.parse(latest)) {
+      latest = value;
+    }
+  }
+  return latest;
+}
+
+export async function fetchRemoteTombstones(
+  userId: string,
+  entity: SyncCursorEntity,
+  since: string
+): Promise<{ recordIds: string[]; latest: string | null } | null> {
+  const { data, error } = await supabase
+    .from('sync_tombstones')
+    .select('record_id, deleted_at')
+    .eq('user_id', userId)
+    .eq('table_name', tombstoneTableByEntity[entity])
+    .gt('deleted_at', since)
+    .returns<{ record_id: string; deleted_at: string }[]>();
+
+  if (error) {
+    return null;
+  }
+
+  const rows = data ?? [];
+  return {
+    recordIds: rows.map((row) => row.record_id),
+    latest: getLatestCursor(null, rows.map((row) => row.deleted_at)),
+  };
+}
+
+type DeltaRecord = {
+  id: string;
+  updated_at?: string | null;
+};
+
+export type RemoteDeltaPull<T extends DeltaRecord> = {
+  userId: string;
+  entity: SyncCursorEntity;
+  table: string;
+  selectFields: string;
+  local: T[];
+  normalize: (row: unknown) => T | null;
+  decrypt?: (record: T) => Promise<T>;
+  // Lets records with queued edits take in what the pull brought for them, instead of keeping the local copy as is.
+  resolvePending?: (records: T[], remote: T[], pending: PendingRecordIds) => T[];
+  sort: (records: T[]) => T[];
+  store: (records: T[]) => Promise<void>;
+};
+
+// Pulls the rows changed since the entity cursor, or every row without a usable one, stores the merged list and
+// moves the cursor. Returns null when the table cannot be read, e.g. its optional setup script was never run,
+// so callers keep their local copy.
+export async function pullRemoteDelta<T extends DeltaRecord>(pull: RemoteDeltaPull<T>): Promise<T[] | null> {
+  let cursor = getUsableCursor(await getSyncCursor(pull.userId, pull.entity));
+  const tombstones = cursor ? await fetchRemoteTombstones(pull.userId, pull.entity, getDeltaSince(cursor)) : null;
+  if (!tombstones) cursor = null;
+
+  let query = supabase.from(pull.table).select(pull.selectFields).eq('user_id', pull.userId);
+  if (cursor) {
+    query = query.gt('updated_at', getDeltaSince(cursor));
+  }
+  const { data, error } = await query;
+  if (error) {
+    return null;
+  }
+
+  const normalized = ((data ?? []) as unknown[]).map(pull.normalize).filter(Boolean) as T[];
+  const decrypt = pull.decrypt;
+  const remote = decrypt ? await Promise.all(normalized.map((record) => decrypt(record))) : normalized;
+  const pending = await getPendingRecordIds(pull.userId, pull.entity);
+
+  const merged =
+    cursor && tombstones
+      ? applyRemoteDelta(pull.local, remote, tombstones.recordIds, pending)
+      : mergeById(remote, pull.local, pending);
+  const next = pull.sort(pull.resolvePending ? pull.resolvePending(merged, remote, pending) : merged);
+  await pull.store(next);
+  await setSyncCursor(
+    pull.userId,
+    pull.entity,
+    getLatestCursor(cursor, [...remote.map((record) => record.updated_at), tombstones?.latest])
+  );
+  return next;
+}
@@ -1,18 +1,96 @@
 import { getErrorMessage } from '@/lib/errors';
-import { encryptE2eeString } from '@/lib/offline-crypto';
+import { decryptE2eeString, encryptE2eeString } from '@/lib/offline-crypto';
 import {
+  addSyncConflicts,
+  createLocalId,
+  getLocalFlashcards,
+  getLocalResourceById,
+  getLocalReviewItems,
+  getLocalTaskById,
+  getOperationRecordId,
   getOutboxOperations,
   setLocalProfile,
   upsertLocalSchedule,
   updateOutboxOperation,
+  upsertLocalFlashcards,
   upsertLocalResource,
-  removeOutboxOperation,
+  upsertLocalReviewItem,
+  upsertLocalTask,
+  completeOutboxOperation,
+  discardDeadLetterOperation,
+  getDeadLetterOperations,
+  getOutboxOperationById,
+  retryDeadLetterOperation,
+  markOutboxOperationFailed,
+  moveOutboxOperationToDeadLetter,
+  type DeadLetterOperation,
   type OutboxOperation,
+  type SyncConflict,
 } from '@/lib/offline-store';
+import { mergeReviewSchedules } from '@/lib/reviews';
 import { loadAppSettings } from '@/lib/settings-storage';
 import { supabase } from '@/lib/supabase';
 import { uploadLocalAssetToBucket } from '@/lib/supabase-storage-api';
-import type { StudySchedulePlan } from '@/types/study-schedule';
+import { mergeRecordFields, type FieldConflict } from '@/lib/sync-merge';
+import { normalizeBlockedBy } from '@/lib/task-dependencies';
+import { normalizeRecurrence } from '@/lib/task-recurrence';
+import { decryptSubtasks, encryptSubtasks } from '@/lib/task-subtasks';
+import { normalizeDueAt } from '@/lib/task-timing';
+import { pushUserSyncState } from '@/lib/user-sync';
+import type { StudySchedulePlan, TimetableEntry } from '@/types/study-schedule';
+import type { Assessment, Course, Exam, Flashcard, Resource, ReviewItem, ReviewSchedule, Task } from '@/types/supabase';
+
+type TaskUpsertOperation = Extract<OutboxOperation, { entity: 'task'; action: 'upsert' }>;
+type ResourceUpsertOperation = Extract<OutboxOperation, { entity: 'resource'; action: 'upsert' }>;
+type ReviewUpsertOperation = Extract<OutboxOperation, { entity: 'review'; action: 'upsert' }>;
+type FlashcardUpsertOperation = Extract<OutboxOperation, { entity: 'flashcard'; action: 'upsert' }>;
+
+const taskMergeFields = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'due_date',
+  'completed_at',
+  'is_persistent',
+  'subtasks',
+  'recurrence',
+  'due_at',
+  'due_timezone',
+  'estimated_minutes',
+  'blocked_by',
+  'course_id',
+  'exam_id',
+] as const satisfies readonly (keyof Task)[];
+
+const optionalTaskColumns = [
+  'is_persistent',
+  'completed_at',
+  'subtasks',
+  'recurrence',
+  'due_at',
+  'due_timezone',
+  'estimated_minutes',
+  'blocked_by',
+  'course_id',
+  'exam_id',
+];
+
+const resourceMergeFields = [
+  'title',
+  'type',
+  'content',
+  'tags',
+  'course_id',
+] as const satisfies readonly (keyof Resource)[];
+
+const optionalResourceColumns = ['course_id'];
+
+const reviewScheduleColumns = 'ease_factor, interval_days, repetitions, lapses, due_date, last_reviewed_at, history';
+
+const MAX_SYNC_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
 
 const networkErrorHints = [
   'network',
@@ -49,21 +127,68 @@ export async function shouldAutoSync(): Promise<boolean> {
   return settings.syncMode === 'auto';
 }
 
-function isMissingTaskArchiveColumnError(error: unknown): boolean {
+function isMissingOptionalColumnError(error: unknown, table: string, columns: string[]): boolean {
   if (!error || typeof error !== 'object') return false;
   const typed = error as { code?: unknown; message?: unknown };
   if (typed.code !== '42703') return false;
   const message = typeof typed.message === 'string' ? typed.message.toLowerCase() : '';
-  return (
-    message.includes('tasks.is_persistent')
-    || message.includes('tasks.completed_at')
-    || message.includes('column is_persistent')
-    || message.includes('column completed_at')
-    || message.includes('is_persistent does not exist')
-    || message.includes('completed_at does not exist')
+  return columns.some(
+    (column) =>
+      message.includes(`${table}.${column}`)
+      || message.includes(`column ${column}`)
+      || message.includes(`${column} does not exist`)
   );
 }
 
+export function isMissingOptionalTaskColumnError(error: unknown): boolean {
+  return isMissingOptionalColumnError(error, 'tasks', optionalTaskColumns);
+}
+
+export function isMissingOptionalResourceColumnError(error: unknown): boolean {
+  return isMissingOptionalColumnError(error, 'resources', optionalResourceColumns);
+}
+
+async function encryptCourseRecord(record: Course): Promise<Course> {
+  return {
+    ...record,
+    name: (await encryptE2eeString(record.name)) ?? record.name,
+    teacher: await encryptE2eeString(record.teacher),
+    term: await encryptE2eeString(record.term),
+  };
+}
+
+async function encryptAssessmentRecord(record: Assessment): Promise<Assessment> {
+  return {
+    ...record,
+    title: (await encryptE2eeString(record.title)) ?? record.title,
+  };
+}
+
+async function encryptTimetableRecord(record: TimetableEntry): Promise<TimetableEntry> {
+  return {
+    ...record,
+    room: await encryptE2eeString(record.room),
+  };
+}
+
+async function encryptExamRecord(record: Exam): Promise<Exam> {
+  return {
+    ...record,
+    subject: (await encryptE2eeString(record.subject)) ?? record.subject,
+    location: await encryptE2eeString(record.location),
+    topics: await Promise.all(record.topics.map(async (topic) => (await encryptE2eeString(topic)) ?? topic)),
+  };
+}
+
+async function encryptFlashcardRecord(record: Flashcard): Promise<Flashcard> {
+  return {
+    ...record,
+    deck: (await encryptE2eeString(record.deck)) ?? record.deck,
+    front: (await encryptE2eeString(record.front)) ?? record.front,
+    back: (await encryptE2eeString(record.back)) ?? record.back,
+  };
+}
+
 async function encryptScheduleRecord(record: StudySchedulePlan): Promise<StudySchedulePlan> {
   const encryptedTitle = await encryptE2eeString(record.title);
   const encryptedGoal = await encryptE2eeString(record.goal);
@@ -89,11 +214,168 @@ async function encryptScheduleRecord(record: StudySchedulePlan): Promise<StudySc
   };
 }
 
-async function syncOperation(operation: OutboxOperation): Promise<void> {
+function toSyncConflicts<T>(
+  operation: TaskUpsertOperation | ResourceUpsertOperation,
+  conflicts: FieldConflict<T>[]
+): SyncConflict[] {
+  const detectedAt = new Date().toISOString();
+  return conflicts.map((conflict) => ({
+    id: createLocalId('conflict'),
+    userId: operation.userId,
+    entity: operation.entity,
+    recordId: operation.record.id,
+    field: conflict.field,
+    localValue: conflict.localValue,
+    remoteValue: conflict.remoteValue,
+    detectedAt,
+  }));
+}
+
+async function mergeTaskWithRemote(operation: TaskUpsertOperation): Promise<Task> {
+  const base = operation.base;
+  if (!base) return operation.record;
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', operation.record.id)
+    .eq('user_id', operation.userId)
+    .maybeSingle<Task>();
+  if (error) throw error;
+  if (!data) return operation.record;
+
+  const remote: Task = {
+    ...data,
+    title: (await decryptE2eeString(data.title)) ?? data.title,
+    description: await decryptE2eeString(data.description),
+    subtasks: await decryptSubtasks(data.subtasks),
+    ...('recurrence' in data ? { recurrence: normalizeRecurrence(data.recurrence) } : {}),
+    ...('due_at' in data ? { due_at: normalizeDueAt(data.due_at) } : {}),
+    ...('blocked_by' in data ? { blocked_by: normalizeBlockedBy(data.blocked_by, data.id) } : {}),
+    ...('course_id' in data ? { course_id: data.course_id ?? null } : {}),
+    ...('exam_id' in data ? { exam_id: data.exam_id ?? null } : {}),
+  };
+  const { merged, remoteFields, conflicts } = mergeRecordFields(base, operation.record, remote, taskMergeFields);
+  await addSyncConflicts(toSyncConflicts(operation, conflicts));
+
+  if (remoteFields.length > 0) {
+    // Later local edits may already be queued for this task: only refresh the fields they left untouched.
+    const current = await getLocalTaskById(operation.userId, operation.record.id);
+    if (current) {
+      const patched = { ...current };
+      for (const field of remoteFields) {
+        if (JSON.stringify(current[field]) === JSON.stringify(operation.record[field])) {
+          Object.assign(patched, { [field]: merged[field] });
+        }
+      }
+      await upsertLocalTask(operation.userId, patched);
+    }
+  }
+
+  return merged;
+}
+
+async function mergeResourceWithRemote(operation: ResourceUpsertOperation, record: Resource): Promise<Resource> {
+  const base = operation.base;
+  if (!base) return record;
+
+  const { data, error } = await supabase
+    .from('resources')
+    .select('*')
+    .eq('id', record.id)
+    .eq('user_id', operation.userId)
+    .maybeSingle<Resource>();
+  if (error) throw error;
+  if (!data) return record;
+
+  const remote: Resource = {
+    ...data,
+    title: (await decryptE2eeString(data.title)) ?? data.title,
+    content: await decryptE2eeString(data.content),
+    tags: Array.isArray(data.tags)
+      ? await Promise.all(data.tags.map(async (tag) => (await decryptE2eeString(tag)) ?? tag))
+      : [],
+    ...('course_id' in data ? { course_id: data.course_id ?? null } : {}),
+  };
+  const { merged, remoteFields, conflicts } = mergeRecordFields(base, record, remote, resourceMergeFields);
+  await addSyncConflicts(toSyncConflicts({ ...operation, record }, conflicts));
+
+  if (remoteFields.length > 0) {
+    const current = await getLocalResourceById(operation.userId, record.id);
+    if (current) {
+      const patched = { ...current };
+      for (const field of remoteFields) {
+        if (JSON.stringify(current[field]) === JSON.stringify(record[field])) {
+          Object.assign(patched, { [field]: merged[field] });
+        }
+      }
+      await upsertLocalResource(operation.userId, patched);
+    }
+  }
+
+  return merged;
+}
+
+async function fetchRemoteReviewSchedule(
+  table: 'review_items' | 'flashcards',
+  recordId: string,
+  userId: string
+): Promise<Partial<ReviewSchedule> | null> {
+  const { data, error } = await supabase
+    .from(table)
+    .select(reviewScheduleColumns)
+    .eq('id', recordId)
+    .eq('user_id', userId)
+    .maybeSingle<Partial<ReviewSchedule>>();
+  if (error) throw error;
+  return data;
+}
+
+// Review and flashcard rows are replaced whole on push: reviews another device pushed first are merged in beforehand.
+async function mergeReviewItemWithRemote(operation: ReviewUpsertOperation): Promise<ReviewItem> {
+  const remote = await fetchRemoteReviewSchedule('review_items', operation.record.id, operation.userId);
+  if (!remote) return operation.record;
+
+  const merged = mergeReviewSchedules(operation.record, remote);
+  if (merged !== operation.record) {
+    const current = (await getLocalReviewItems(operation.userId)).find((item) => item.id === operation.record.id);
+    if (current) {
+      await upsertLocalReviewItem(operation.userId, mergeReviewSchedules(current, remote));
+    }
+  }
+  return merged;
+}
+
+async function mergeFlashcardWithRemote(operation: FlashcardUpsertOperation): Promise<Flashcard> {
+  const remote = await fetchRemoteReviewSchedule('flashcards', operation.record.id, operation.userId);
+  if (!remote) return operation.record;
+
+  const merged = mergeReviewSchedules(operation.record, remote);
+  if (merged !== operation.record) {
+    const current = (await getLocalFlashcards(operation.userId)).find((card) => card.id === operation.record.id);
+    if (current) {
+      await upsertLocalFlashcards(operation.userId, [mergeReviewSchedules(current, remote)]);
+    }
+  }
+  return merged;
+}
+
+// Returns the operation as it was pushed, including local rewrites such as uploaded file URLs.
+async function syncOperation(operation: OutboxOperation): Promise<OutboxOperation> {
+  if (operation.entity === 'preferences' || operation.entity === 'focus_stats') {
+    return pushUserSyncState(operation);
+  }
+
   if (
     operation.entity === 'task'
     || operation.entity === 'resource'
     || operation.entity === 'schedule'
+    || operation.entity === 'course'
+    || operation.entity === 'assessment'
+    || operation.entity === 'timetable'
+    || operation.entity === 'exam'
+    || operation.entity === 'review'
+    || operation.entity === 'flashcard'
     || operation.entity === 'feedback'
   ) {
     const { error: profileError } = await supabase
@@ -115,7 +397,11 @@ async function syncOperation(operation: OutboxOperation): Promise<void> {
       });
       record = { ...record, avatar_url: uploadedAvatar };
       await setLocalProfile(operation.userId, record);
-      await updateOutboxOperation(operation.id, { ...operation, record });
+      await updateOutboxOperation(operation.id, (stored) =>
+        stored.entity === 'profile' && stored.record.avatar_url === operation.record.avatar_url
+          ? { ...stored, record: { ...stored.record, avatar_url: uploadedAvatar } }
+          : stored
+      );
     }
 
     const encryptedProfileRecord = {
@@ -126,20 +412,22 @@ async function syncOperation(operation: OutboxOperation): Promise<void> {
 
     const { error } = await supabase.from('profiles').upsert(encryptedProfileRecord, { onConflict: 'id' });
     if (error) throw error;
-    return;
+    return { ...operation, record };
   }
 
   if (operation.entity === 'task') {
     if (operation.action === 'upsert') {
+      const record = await mergeTaskWithRemote(operation);
       const encryptedTaskRecord = {
-        ...operation.record,
-        title: (await encryptE2eeString(operation.record.title)) ?? operation.record.title,
-        description: await encryptE2eeString(operation.record.description),
+        ...record,
+        title: (await encryptE2eeString(record.title)) ?? record.title,
+        description: await encryptE2eeString(record.description),
+        subtasks: await encryptSubtasks(record.subtasks ?? []),
       };
 
       const { error } = await supabase.from('tasks').upsert(encryptedTaskRecord, { onConflict: 'id' });
       if (error) {
-        if (!isMissingTaskArchiveColumnError(error)) {
+        if (!isMissingOptionalTaskColumnError(error)) {
           throw error;
         }
 
@@ -156,7 +444,7 @@ async function syncOperation(operation: OutboxOperation): Promise<void> {
         const legacyUpsert = await supabase.from('tasks').upsert(legacyRecord, { onConflict: 'id' });
         if (legacyUpsert.error) throw legacyUpsert.error;
       }
-      return;
+      return operation;
     }
 
     const { error } = await supabase
@@ -165,7 +453,7 @@ async function syncOperation(operation: OutboxOperation): Promise<void> {
       .eq('id', operation.recordId)
       .eq('user_id', operation.userId);
     if (error) throw error;
-    return;
+    return operation;
   }
 
   if (operation.entity === 'schedule') {
@@ -174,7 +462,7 @@ async function syncOperation(operation: OutboxOperation): Promise<void> {
       const { error } = await supabase.from('study_schedules').upsert(encryptedRecord, { onConflict: 'id' });
       if (error) throw error;
       await upsertLocalSchedule(operation.userId, operation.record);
-      return;
+      return operation;
     }
 
     const { error } = await supabase
@@ -183,7 +471,115 @@ async function syncOperation(operation: OutboxOperation): Promise<void> {
       .eq('id', operation.recordId)
       .eq('user_id', operation.userId);
     if (error) throw error;
-    return;
+    return operation;
+  }
+
+  if (operation.entity === 'course') {
+    if (operation.action === 'upsert') {
+      const { error } = await supabase
+        .from('courses')
+        .upsert(await encryptCourseRecord(operation.record), { onConflict: 'id' });
+      if (error) throw error;
+      return operation;
+    }
+
+    const { error } = await supabase
+      .from('courses')
+      .delete()
+      .eq('id', operation.recordId)
+      .eq('user_id', operation.userId);
+    if (error) throw error;
+    return operation;
+  }
+
+  if (operation.entity === 'assessment') {
+    if (operation.action === 'upsert') {
+      const { error } = await supabase
+        .from('assessments')
+        .upsert(await encryptAssessmentRecord(operation.record), { onConflict: 'id' });
+      if (error) throw error;
+      return operation;
+    }
+
+    const { error } = await supabase
+      .from('assessments')
+      .delete()
+      .eq('id', operation.recordId)
+      .eq('user_id', operation.userId);
+    if (error) throw error;
+    return operation;
+  }
+
+  if (operation.entity === 'timetable') {
+    if (operation.action === 'upsert') {
+      const { error } = await supabase
+        .from('timetable_entries')
+        .upsert(await encryptTimetableRecord(operation.record), { onConflict: 'id' });
+      if (error) throw error;
+      return operation;
+    }
+
+    const { error } = await supabase
+      .from('timetable_entries')
+      .delete()
+      .eq('id', operation.recordId)
+      .eq('user_id', operation.userId);
+    if (error) throw error;
+    return operation;
+  }
+
+  if (operation.entity === 'exam') {
+    if (operation.action === 'upsert') {
+      const { error } = await supabase
+        .from('exams')
+        .upsert(await encryptExamRecord(operation.record), { onConflict: 'id' });
+      if (error) throw error;
+      return operation;
+    }
+
+    const { error } = await supabase
+      .from('exams')
+      .delete()
+      .eq('id', operation.recordId)
+      .eq('user_id', operation.userId);
+    if (error) throw error;
+    return operation;
+  }
+
+  if (operation.entity === 'review') {
+    if (operation.action === 'upsert') {
+      const record = await mergeReviewItemWithRemote(operation);
+      const { error } = await supabase.from('review_items').upsert(record, { onConflict: 'id' });
+      if (error) throw error;
+      return operation;
+    }
+
+    const { error } = await supabase
+      .from('review_items')
+      .delete()
+      .eq('id', operation.recordId)
+      .eq('user_id', operation.userId);
+    if (error) throw error;
+    return operation;
+  }
+
+  if (operation.entity === 'flashcard') {
+    if (operation.action === 'upsert') {
+      const record = await mergeFlashcardWithRemote(operation);
+      const { error } = await supabase
+        .from('flashcards')
+        .upsert(await encryptFlashcardRecord(record), { onConflict: 'id' });
+      if (error) throw error;
+      return operation;
+    }
+
+    const { error } = await supabase
+      .from('flashcards')
+      .delete()
+      .eq('id', operation.recordId)
+      .eq('user_id', operation.userId);
+    if (error) throw error;
+    return operation;
   }
 
   if (operation.entity === 'feedback') {
@@ -194,7 +590,7 @@ async function syncOperation(operation: OutboxOperation): Promise<void> {
 
     const { error } = await supabase.from('profile_feedback').upsert(encryptedFeedbackRecord, { onConflict: 'id' });
     if (error) throw error;
-    return;
+    return operation;
   }
 
   if (operation.action === 'upsert') {
@@ -210,9 +606,16 @@ async function syncOperation(operation: OutboxOperation): Promise<void> {
       });
       record = { ...record, file_url: uploadedFile };
       await upsertLocalResource(operation.userId, record);
-      await updateOutboxOperation(operation.id, { ...operation, record });
+      await updateOutboxOperation(operation.id, (stored) =>
+        stored.entity === 'resource' && stored.action === 'upsert' && stored.record.file_url === localFileUri
+          ? { ...stored, record: { ...stored.record, file_url: uploadedFile } }
+          : stored
+      );
     }
 
+    const pushed = { ...operation, record };
+    record = await mergeResourceWithRemote(operation, record);
+
     const encryptedResourceRecord = {
       ...record,
       title: (await encryptE2eeString(record.title)) ?? record.title,
@@ -224,8 +627,16 @@ async function syncOperation(operation: OutboxOperation): Promise<void> {
     };
 
     const { error } = await supabase.from('resources').upsert(encryptedResourceRecord, { onConflict: 'id' });
-    if (error) throw error;
-    return;
+    if (error) {
+      if (!isMissingOptionalResourceColumnError(error)) {
+        throw error;
+      }
+
+      const { course_id: _courseId, ...legacyRecord } = encryptedResourceRecord;
+      const legacyUpsert = await supabase.from('resources').upsert(legacyRecord, { onConflict: 'id' });
+      if (legacyUpsert.error) throw legacyUpsert.error;
+    }
+    return pushed;
   }
 
   const { error } = await supabase
@@ -234,25 +645,93 @@ async function syncOperation(operation: OutboxOperation): Promise<void> {
     .eq('id', operation.recordId)
     .eq('user_id', operation.userId);
   if (error) throw error;
+  return operation;
+}
+
+function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+function isWaitingForRetry(operation: OutboxOperation, now: number): boolean {
+  if (!operation.nextAttemptAt) return false;
+  const nextAttemptAt = Date.parse(operation.nextAttemptAt);
+  return !Number.isNaN(nextAttemptAt) && nextAttemptAt > now;
+}
+
+// Records an upsert points to through a foreign key: it cannot land before their own insert does.
+function getParentRecordIds(operation: OutboxOperation): string[] {
+  if (operation.action !== 'upsert') return [];
+  switch (operation.entity) {
+    case 'task':
+      return [operation.record.course_id, operation.record.exam_id].filter((id): id is string => Boolean(id));
+    case 'resource':
+    case 'assessment':
+    case 'timetable':
+    case 'exam':
+      return operation.record.course_id ? [operation.record.course_id] : [];
+    case 'review':
+    case 'flashcard':
+      return operation.record.resource_id ? [operation.record.resource_id] : [];
+    default:
+      return [];
+  }
 }
 
 export async function syncPendingOperations(userId?: string): Promise<{
   syncedCount: number;
   pendingCount: number;
+  failedCount: number;
+  lastError: string | null;
 }> {
   const operations = await getOutboxOperations(userId);
   let syncedCount = 0;
+  let failedCount = 0;
+  let lastError: string | null = null;
+  // Once an operation is held back, later ones on the same record, or on a child of a record not inserted yet,
+  // wait with it instead of failing on its account.
+  const heldRecordIds = new Set<string>();
+  const unsyncedRecordIds = new Set<string>();
+  const holdBack = (operation: OutboxOperation) => {
+    const recordId = getOperationRecordId(operation);
+    heldRecordIds.add(recordId);
+    if ('isNew' in operation && operation.isNew) unsyncedRecordIds.add(recordId);
+  };
+
+  for (const queued of operations) {
+    // Re-read the operation: edits made while earlier ones were syncing may have coalesced or cancelled it.
+    const operation = await getOutboxOperationById(queued.id);
+    if (!operation) continue;
+    if (
+      heldRecordIds.has(getOperationRecordId(operation))
+      || getParentRecordIds(operation).some((id) => unsyncedRecordIds.has(id))
+      || isWaitingForRetry(operation, Date.now())
+    ) {
+      holdBack(operation);
+      continue;
+    }
 
-  for (const operation of operations) {
     try {
-      await syncOperation(operation);
-      await removeOutboxOperation(operation.id);
+      const synced = await syncOperation(operation);
+      await completeOutboxOperation(synced);
       syncedCount += 1;
     } catch (error) {
       if (isLikelyNetworkError(error)) {
+        lastError = getErrorMessage(error, 'Reseau indisponible.');
         break;
       }
-      throw new Error(getErrorMessage(error, 'Echec de synchronisation des donnees locales.'));
+
+      failedCount += 1;
+      holdBack(operation);
+      const message = getErrorMessage(error, 'Echec de synchronisation des donnees locales.');
+      lastError = message;
+      const attempts = (operation.attempts ?? 0) + 1;
+      if (attempts >= MAX_SYNC_ATTEMPTS) {
+        await moveOutboxOperationToDeadLetter(operation.id, message);
+        continue;
+      }
+
+      const nextAttemptAt = new Date(Date.now() + getRetryDelayMs(attempts)).toISOString();
+      await markOutboxOperationFailed(operation.id, message, nextAttemptAt);
     }
   }
 
@@ -260,5 +739,26 @@ export async function syncPendingOperations(userId?: string): Promise<{
   return {
     syncedCount,
     pendingCount: remaining.length,
+    failedCount,
+    lastError,
+  };
+}
+
+export async function getSyncIssues(userId: string): Promise<{
+  failed: DeadLetterOperation[];
+  retrying: OutboxOperation[];
+}> {
+  const [failed, queued] = await Promise.all([getDeadLetterOperations(userId), getOutboxOperations(userId)]);
+  return {
+    failed: [...failed].sort((a, b) => b.failedAt.localeCompare(a.failedAt)),
+    retrying: queued.filter((operation) => Boolean(operation.lastError)),
   };
 }
+
+export async function retryFailedOperation(operationId: string): Promise<void> {
+  await retryDeadLetterOperation(operationId);
+}
+
+export async function discardFailedOperation(operationId: string): Promise<void> {
+  await discardDeadLetterOperation(operationId);
+}
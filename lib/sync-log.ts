@@ -0,0 +1,103 @@
+import { createPersistentStore } from '@/lib/persistent-store';
+
+const STORAGE_KEY = 'studyday-sync-log-v1';
+
+const MAX_ATTEMPTS_PER_USER = 30;
+
+export type SyncAttemptStatus = 'success' | 'error';
+
+export type SyncAttempt = {
+  id: string;
+  startedAt: string;
+  durationMs: number;
+  pulled: boolean;
+  status: SyncAttemptStatus;
+  syncedCount: number;
+  failedCount: number;
+  pendingCount: number;
+  error: string | null;
+};
+
+type SyncLogState = {
+  byUser: Record<string, SyncAttempt[]>;
+  updatedAt: string | null;
+};
+
+const defaultState: SyncLogState = {
+  byUser: {},
+  updatedAt: null,
+};
+
+function cloneState(state: SyncLogState): SyncLogState {
+  return JSON.parse(JSON.stringify(state)) as SyncLogState;
+}
+
+function toCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.round(value)) : 0;
+}
+
+function normalizeAttempt(value: unknown): SyncAttempt | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Partial<SyncAttempt>;
+  if (typeof raw.id !== 'string' || typeof raw.startedAt !== 'string') return null;
+
+  return {
+    id: raw.id,
+    startedAt: raw.startedAt,
+    durationMs: toCount(raw.durationMs),
+    pulled: raw.pulled === true,
+    status: raw.status === 'error' ? 'error' : 'success',
+    syncedCount: toCount(raw.syncedCount),
+    failedCount: toCount(raw.failedCount),
+    pendingCount: toCount(raw.pendingCount),
+    error: typeof raw.error === 'string' && raw.error ? raw.error : null,
+  };
+}
+
+function normalizeState(value: unknown): SyncLogState {
+  if (!value || typeof value !== 'object') {
+    return cloneState(defaultState);
+  }
+
+  const raw = value as Partial<SyncLogState>;
+  const byUser = raw.byUser && typeof raw.byUser === 'object' ? raw.byUser : {};
+  return {
+    byUser: Object.fromEntries(
+      Object.entries(byUser).map(([userId, attempts]) => [
+        userId,
+        (Array.isArray(attempts) ? attempts : [])
+          .map(normalizeAttempt)
+          .filter((attempt): attempt is SyncAttempt => Boolean(attempt))
+          .slice(0, MAX_ATTEMPTS_PER_USER),
+      ])
+    ),
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : null,
+  };
+}
+
+const store = createPersistentStore<SyncLogState>({
+  key: STORAGE_KEY,
+  defaultValue: defaultState,
+  normalize: normalizeState,
+  encrypted: true,
+});
+
+async function updateState(mutator: (state: SyncLogState) => void): Promise<SyncLogState> {
+  return store.update((state) => {
+    mutator(state);
+    state.updatedAt = new Date().toISOString();
+  });
+}
+
+export async function recordSyncAttempt(userId: string, attempt: SyncAttempt): Promise<void> {
+  await updateState((state) => {
+    const attempts = state.byUser[userId] ?? [];
+    state.byUser[userId] = [attempt, ...attempts].slice(0, MAX_ATTEMPTS_PER_USER);
+  });
+}
+
+export async function getSyncAttempts(userId: string): Promise<SyncAttempt[]> {
+  const state = await store.load();
+  return state.byUser[userId] ?? [];
+}
+
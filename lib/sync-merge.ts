@@ -0,0 +1,53 @@
+export type FieldConflict<T> = {
+  field: keyof T & string;
+  localValue: T[keyof T];
+  remoteValue: T[keyof T];
+};
+
+export type ThreeWayMergeResult<T> = {
+  merged: T;
+  remoteFields: (keyof T & string)[];
+  conflicts: FieldConflict<T>[];
+};
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || a === undefined || b === undefined) return false;
+  if (typeof a !== 'object' || typeof b !== 'object') return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Three-way merge against the version the local edit was derived from.
+// Fields changed on both sides keep the local value and are reported as conflicts.
+export function mergeRecordFields<T extends object>(
+  base: T,
+  local: T,
+  remote: T,
+  fields: readonly (keyof T & string)[]
+): ThreeWayMergeResult<T> {
+  const merged = { ...local };
+  const remoteFields: (keyof T & string)[] = [];
+  const conflicts: FieldConflict<T>[] = [];
+
+  for (const field of fields) {
+    const remoteValue = remote[field];
+    // Columns missing from the remote row (older schema) cannot be compared.
+    if (remoteValue === undefined) continue;
+
+    const localChanged = !isSameValue(base[field], local[field]);
+    const remoteChanged = !isSameValue(base[field], remoteValue);
+    if (!remoteChanged) continue;
+
+    if (!localChanged) {
+      merged[field] = remoteValue;
+      remoteFields.push(field);
+      continue;
+    }
+
+    if (!isSameValue(local[field], remoteValue)) {
+      conflicts.push({ field, localValue: local[field], remoteValue });
+    }
+  }
+
+  return { merged, remoteFields, conflicts };
+}
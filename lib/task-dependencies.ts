@@ -0,0 +1,105 @@
+import type { Task } from '@/types/supabase';
+
+type DependencyTask = Pick<Task, 'id' | 'status' | 'blocked_by'>;
+
+export function normalizeBlockedBy(value: unknown, taskId?: string): string[] {
+  let raw = value;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw) as unknown;
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(raw)) return [];
+
+  const ids: string[] = [];
+  for (const item of raw) {
+    if (typeof item !== 'string' || !item || item === taskId || ids.includes(item)) continue;
+    ids.push(item);
+  }
+  return ids;
+}
+
+export function indexTasksById<T extends DependencyTask>(tasks: T[]): Map<string, T> {
+  return new Map(tasks.map((task) => [task.id, task]));
+}
+
+// Prerequisites that were deleted no longer block anything.
+export function getBlockingTasks<T extends DependencyTask>(task: DependencyTask, tasksById: Map<string, T>): T[] {
+  const blockers: T[] = [];
+  for (const id of task.blocked_by) {
+    const blocker = tasksById.get(id);
+    if (blocker && blocker.status !== 'done') blockers.push(blocker);
+  }
+  return blockers;
+}
+
+export function isTaskBlocked(task: DependencyTask, tasksById: Map<string, DependencyTask>): boolean {
+  return task.status !== 'done' && getBlockingTasks(task, tasksById).length > 0;
+}
+
+export function getDependentTasks<T extends DependencyTask>(taskId: string, tasks: T[]): T[] {
+  return tasks.filter((task) => task.blocked_by.includes(taskId));
+}
+
+// Returns the chain of ids that would loop back to `taskId` if it were blocked by `blockedBy`, or null.
+export function findDependencyCycle(
+  taskId: string,
+  blockedBy: string[],
+  tasksById: Map<string, DependencyTask>
+): string[] | null {
+  const visited = new Set<string>();
+
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (id === taskId) return [...path, id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+    for (const next of tasksById.get(id)?.blocked_by ?? []) {
+      const cycle = visit(next, [...path, id]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  for (const id of blockedBy) {
+    const cycle = visit(id, [taskId]);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+// Topological order: a task never comes before an open task that blocks it. Among the tasks that are
+// ready at each step, `compare` decides. Tasks left in a cycle (e.g. synced from an older client) are appended.
+export function orderTasksByDependencies<T extends DependencyTask>(tasks: T[], compare: (a: T, b: T) => number): T[] {
+  const included = indexTasksById(tasks);
+  const remainingBlockers = new Map<string, number>();
+  const dependents = new Map<string, string[]>();
+
+  for (const task of tasks) {
+    const blockers = task.blocked_by.filter((id) => included.get(id) && included.get(id)?.status !== 'done');
+    remainingBlockers.set(task.id, blockers.length);
+    for (const id of blockers) {
+      dependents.set(id, [...(dependents.get(id) ?? []), task.id]);
+    }
+  }
+
+  const ready = tasks.filter((task) => remainingBlockers.get(task.id) === 0);
+  const ordered: T[] = [];
+  while (ready.length > 0) {
+    ready.sort(compare);
+    const next = ready.shift() as T;
+    ordered.push(next);
+    for (const id of dependents.get(next.id) ?? []) {
+      const count = (remainingBlockers.get(id) ?? 0) - 1;
+      remainingBlockers.set(id, count);
+      if (count === 0) ready.push(included.get(id) as T);
+    }
+  }
+
+  if (ordered.length < tasks.length) {
+    const placed = new Set(ordered.map((task) => task.id));
+    ordered.push(...tasks.filter((task) => !placed.has(task.id)).sort(compare));
+  }
+  return ordered;
+}
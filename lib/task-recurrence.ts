@@ -0,0 +1,187 @@
+import { formatDateLabel, toIsoDate } from '@/lib/format';
+import type { I18nParams } from '@/lib/i18n';
+import type { StudyDayKey } from '@/types/study-schedule';
+import type { TaskRecurrence } from '@/types/supabase';
+
+export type RecurrenceFrequency = 'daily' | 'weekly';
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: RecurrenceWeekday[];
+  until: string | null;
+  count: number | null;
+};
+
+export const RECURRENCE_WEEKDAYS: RecurrenceWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const WEEKDAY_LABEL_KEYS: Record<RecurrenceWeekday, StudyDayKey> = {
+  MO: 'mon',
+  TU: 'tue',
+  WE: 'wed',
+  TH: 'thu',
+  FR: 'fri',
+  SA: 'sat',
+  SU: 'sun',
+};
+
+const MAX_INTERVAL = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const [year, month, day] = value.split('-').map((item) => Number(item));
+  const date = new Date(year, month - 1, day);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function getWeekday(date: Date): RecurrenceWeekday {
+  return RECURRENCE_WEEKDAYS[(date.getDay() + 6) % 7];
+}
+
+function getWeekStart(date: Date): Date {
+  return addDays(date, -((date.getDay() + 6) % 7));
+}
+
+function clampInterval(value: number): number {
+  return Number.isFinite(value) ? Math.min(MAX_INTERVAL, Math.max(1, Math.round(value))) : 1;
+}
+
+// Supports the RRULE subset the editor produces: FREQ=DAILY|WEEKLY, INTERVAL, BYDAY, UNTIL and COUNT.
+export function parseRecurrenceRule(rule: string | null | undefined): RecurrenceRule | null {
+  if (!rule) return null;
+  const parts = new Map<string, string>();
+  for (const segment of rule.replace(/^RRULE:/i, '').split(';')) {
+    const [key, value] = segment.split('=');
+    if (key && value) parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY') return null;
+
+  const weekdays = (parts.get('BYDAY') ?? '')
+    .split(',')
+    .filter((day): day is RecurrenceWeekday => RECURRENCE_WEEKDAYS.includes(day as RecurrenceWeekday));
+  const untilRaw = parts.get('UNTIL')?.slice(0, 8) ?? '';
+  const until = /^\d{8}$/.test(untilRaw) ? `${untilRaw.slice(0, 4)}-${untilRaw.slice(4, 6)}-${untilRaw.slice(6, 8)}` : null;
+  const count = Number(parts.get('COUNT'));
+
+  return {
+    frequency: freq === 'DAILY' ? 'daily' : 'weekly',
+    interval: clampInterval(Number(parts.get('INTERVAL') ?? 1)),
+    weekdays: RECURRENCE_WEEKDAYS.filter((day) => weekdays.includes(day)),
+    until: until && parseDate(until) ? until : null,
+    count: Number.isInteger(count) && count > 0 ? count : null,
+  };
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency === 'daily' ? 'DAILY' : 'WEEKLY'}`];
+  const interval = clampInterval(rule.interval);
+  if (interval > 1) parts.push(`INTERVAL=${interval}`);
+  if (rule.frequency === 'weekly' && rule.weekdays.length > 0) {
+    parts.push(`BYDAY=${RECURRENCE_WEEKDAYS.filter((day) => rule.weekdays.includes(day)).join(',')}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+export function normalizeRecurrence(value: unknown): TaskRecurrence | null {
+  let raw = value;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw) as unknown;
+    } catch {
+      return null;
+    }
+  }
+  if (!raw || typeof raw !== 'object') return null;
+
+  const typed = raw as Partial<TaskRecurrence>;
+  if (typeof typed.rule !== 'string' || !parseRecurrenceRule(typed.rule)) return null;
+  if (typeof typed.series_id !== 'string' || !typed.series_id) return null;
+  const index = Number(typed.index);
+  return {
+    rule: typed.rule,
+    series_id: typed.series_id,
+    index: Number.isInteger(index) && index > 0 ? index : 1,
+  };
+}
+
+// Returns the due date of the occurrence after `fromIso`, or null once UNTIL or COUNT ends the series.
+export function getNextOccurrenceDate(rule: RecurrenceRule, fromIso: string, currentIndex: number): string | null {
+  if (rule.count && currentIndex >= rule.count) return null;
+  const from = parseDate(fromIso);
+  if (!from) return null;
+
+  let next: Date | null = null;
+  if (rule.frequency === 'daily') {
+    next = addDays(from, rule.interval);
+  } else {
+    const weekdays = rule.weekdays.length > 0 ? rule.weekdays : [getWeekday(from)];
+    const fromWeek = getWeekStart(from).getTime();
+    for (let offset = 1; offset <= 7 * (rule.interval + 1); offset += 1) {
+      const candidate = addDays(from, offset);
+      const weeksApart = Math.round((getWeekStart(candidate).getTime() - fromWeek) / (7 * DAY_MS));
+      if (weeksApart % rule.interval !== 0) continue;
+      if (weekdays.includes(getWeekday(candidate))) {
+        next = candidate;
+        break;
+      }
+    }
+  }
+
+  if (!next) return null;
+  const nextIso = toIsoDate(next);
+  if (rule.until && nextIso > rule.until) return null;
+  return nextIso;
+}
+
+export function shiftIsoDate(value: string, days: number): string {
+  const date = parseDate(value);
+  return date ? toIsoDate(addDays(date, days)) : value;
+}
+
+export function getDaysBetween(fromIso: string, toIso: string): number {
+  const from = parseDate(fromIso);
+  const to = parseDate(toIso);
+  if (!from || !to) return 0;
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+export function getWeekdayLabelKey(day: RecurrenceWeekday): string {
+  return `schedulePlanner.day.${WEEKDAY_LABEL_KEYS[day]}`;
+}
+
+export function getWeekdayOfIsoDate(value: string): RecurrenceWeekday | null {
+  const date = parseDate(value);
+  return date ? getWeekday(date) : null;
+}
+
+export function describeRecurrence(
+  rule: RecurrenceRule,
+  t: (key: string, params?: I18nParams) => string,
+  locale: string
+): string {
+  const days = rule.weekdays.map((day) => t(getWeekdayLabelKey(day))).join(', ');
+  let label: string;
+  if (rule.frequency === 'daily') {
+    label = rule.interval > 1 ? t('recurrence.everyNDays', { count: rule.interval }) : t('recurrence.daily');
+  } else if (rule.interval > 1) {
+    label = days
+      ? t('recurrence.everyNWeeksOn', { count: rule.interval, days })
+      : t('recurrence.everyNWeeks', { count: rule.interval });
+  } else {
+    label = days ? t('recurrence.weeklyOn', { days }) : t('recurrence.weekly');
+  }
+
+  if (rule.until) return t('recurrence.withUntil', { label, date: formatDateLabel(rule.until, locale) });
+  if (rule.count) return t('recurrence.withCount', { label, count: rule.count });
+  return label;
+}
@@ -1,8 +1,10 @@
 import { markReminderSent, shouldSendReminder } from '@/lib/reminder-state';
+import { formatMinutesDuration, getDueTimeInput } from '@/lib/task-timing';
 import type { Task } from '@/types/supabase';
 
 const REMINDER_COOLDOWN_MS = 18 * 60 * 60 * 1000;
 const MAX_REMINDERS_PER_RUN = 3;
+const DUE_SOON_WINDOW_MS = 3 * 60 * 60 * 1000;
 
 type ReminderTranslator = (key: string, params?: Record<string, string | number>) => string;
 
@@ -42,6 +44,7 @@ function getPriorityRank(priority: Task['priority']): number {
 
 function buildCandidates(tasks: Task[], t: ReminderTranslator): Candidate[] {
   const today = new Date();
+  const now = today.getTime();
   const todayIso = toIsoDate(today);
   const tomorrowIso = dayOffsetIso(today, 1);
 
@@ -49,11 +52,17 @@ function buildCandidates(tasks: Task[], t: ReminderTranslator): Candidate[] {
 
   for (const task of tasks) {
     if (task.status === 'done') continue;
-    if (!task.due_date) continue;
 
-    if (task.due_date < todayIso) {
+    const dueAt = task.due_at ? new Date(task.due_at) : null;
+    const hasDueTime = Boolean(dueAt && !Number.isNaN(dueAt.getTime()));
+    const dueDay = hasDueTime ? toIsoDate(dueAt as Date) : task.due_date;
+    if (!dueDay) continue;
+    const dueKey = hasDueTime ? (task.due_at as string) : dueDay;
+
+    const isOverdue = hasDueTime ? (dueAt as Date).getTime() < now : dueDay < todayIso;
+    if (isOverdue) {
       candidates.push({
-        reminderKey: `${task.id}:overdue:${task.due_date}`,
+        reminderKey: `${task.id}:overdue:${dueKey}`,
         taskId: task.id,
         title: t('reminders.overdueTitle'),
         message: t('reminders.overdueMessage', { title: task.title }),
@@ -63,26 +72,41 @@ function buildCandidates(tasks: Task[], t: ReminderTranslator): Candidate[] {
       continue;
     }
 
-    if (task.due_date === todayIso) {
+    if (hasDueTime && (dueAt as Date).getTime() - now <= DUE_SOON_WINDOW_MS) {
+      const minutesLeft = ((dueAt as Date).getTime() - now) / 60_000;
       candidates.push({
-        reminderKey: `${task.id}:today:${task.due_date}`,
+        reminderKey: `${task.id}:soon:${dueKey}`,
         taskId: task.id,
-        title: t('reminders.dueTodayTitle'),
-        message: t('reminders.dueTodayMessage', { title: task.title }),
+        title: t('reminders.dueSoonTitle'),
+        message: t('reminders.dueSoonMessage', { title: task.title, duration: formatMinutesDuration(minutesLeft, t) }),
         priorityRank: getPriorityRank(task.priority),
         dueRank: 1,
       });
       continue;
     }
 
-    if (task.due_date === tomorrowIso) {
+    if (dueDay === todayIso) {
+      candidates.push({
+        reminderKey: `${task.id}:today:${dueKey}`,
+        taskId: task.id,
+        title: t('reminders.dueTodayTitle'),
+        message: hasDueTime
+          ? t('reminders.dueTodayAtMessage', { title: task.title, time: getDueTimeInput(task.due_at) })
+          : t('reminders.dueTodayMessage', { title: task.title }),
+        priorityRank: getPriorityRank(task.priority),
+        dueRank: 2,
+      });
+      continue;
+    }
+
+    if (dueDay === tomorrowIso) {
       candidates.push({
-        reminderKey: `${task.id}:tomorrow:${task.due_date}`,
+        reminderKey: `${task.id}:tomorrow:${dueKey}`,
         taskId: task.id,
         title: t('reminders.dueTomorrowTitle'),
         message: t('reminders.dueTomorrowMessage', { title: task.title }),
         priorityRank: getPriorityRank(task.priority),
-        dueRank: 2,
+        dueRank: 3,
       });
     }
   }
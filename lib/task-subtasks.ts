@@ -0,0 +1,84 @@
+import { decryptE2eeString, encryptE2eeString } from '@/lib/offline-crypto';
+import { createLocalId } from '@/lib/offline-store';
+import type { Task, TaskSubtask } from '@/types/supabase';
+
+const MAX_SUBTASK_TITLE_LENGTH = 200;
+const MAX_BREAKDOWN_STEPS = 30;
+
+const listMarkerPattern = /^\s*(?:[-*•+]|\d+\s*[.)-]|\[[ xX]?\])\s+(.+)$/;
+
+function cleanTitle(value: string): string {
+  return value
+    .replace(/\*\*|__|`/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_SUBTASK_TITLE_LENGTH);
+}
+
+export function createSubtask(title: string): TaskSubtask {
+  return { id: createLocalId('sub'), title: cleanTitle(title), done: false };
+}
+
+export function normalizeSubtasks(value: unknown): TaskSubtask[] {
+  let raw = value;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw) as unknown;
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(raw)) return [];
+
+  const seen = new Set<string>();
+  const subtasks: TaskSubtask[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const typed = item as Partial<TaskSubtask>;
+    if (typeof typed.id !== 'string' || !typed.id || seen.has(typed.id)) continue;
+    if (typeof typed.title !== 'string' || !typed.title.trim()) continue;
+    seen.add(typed.id);
+    subtasks.push({ id: typed.id, title: typed.title, done: typed.done === true });
+  }
+  return subtasks;
+}
+
+// The column holds the whole checklist as one end-to-end encrypted JSON string.
+export async function encryptSubtasks(subtasks: TaskSubtask[]): Promise<string> {
+  const serialized = JSON.stringify(subtasks);
+  return (await encryptE2eeString(serialized)) ?? serialized;
+}
+
+export async function decryptSubtasks(value: unknown): Promise<TaskSubtask[]> {
+  if (typeof value !== 'string') return normalizeSubtasks(value);
+  return normalizeSubtasks(await decryptE2eeString(value));
+}
+
+export function getSubtaskProgress(task: Pick<Task, 'subtasks'>): { done: number; total: number } {
+  const subtasks = task.subtasks ?? [];
+  return {
+    done: subtasks.filter((subtask) => subtask.done).length,
+    total: subtasks.length,
+  };
+}
+
+// Keeps list items from an AI breakdown; falls back to plain lines when the answer has no list markers.
+export function parseBreakdownSteps(text: string): string[] {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const listed = lines
+    .map((line) => listMarkerPattern.exec(line)?.[1] ?? null)
+    .filter((line): line is string => Boolean(line));
+  const candidates = listed.length > 0 ? listed : lines.filter((line) => !line.endsWith(':') && !line.startsWith('#'));
+
+  const seen = new Set<string>();
+  const steps: string[] = [];
+  for (const candidate of candidates) {
+    const title = cleanTitle(candidate);
+    const key = title.toLowerCase();
+    if (!title || seen.has(key)) continue;
+    seen.add(key);
+    steps.push(title);
+    if (steps.length >= MAX_BREAKDOWN_STEPS) break;
+  }
+  return steps;
+}
@@ -0,0 +1,105 @@
+import { formatDateLabel } from '@/lib/format';
+import type { I18nParams } from '@/lib/i18n';
+import type { Task } from '@/types/supabase';
+
+const MAX_ESTIMATED_MINUTES = 24 * 60;
+const timePattern = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+type TimingTranslator = (key: string, params?: I18nParams) => string;
+
+export function getDeviceTimeZone(): string | null {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null;
+  } catch {
+    return null;
+  }
+}
+
+export function isValidDueTime(value: string): boolean {
+  return timePattern.test(value);
+}
+
+// The instant is built from the device wall clock, so "18:00" means 18:00 where the task was edited.
+export function buildDueAt(dueDate: string | null | undefined, dueTime: string | null | undefined): string | null {
+  if (!dueDate || !dueTime || !/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) return null;
+  const match = timePattern.exec(dueTime.trim());
+  if (!match) return null;
+  const [year, month, day] = dueDate.split('-').map((item) => Number(item));
+  const date = new Date(year, month - 1, day, Number(match[1]), Number(match[2]));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export function getDueTimeInput(dueAt: string | null | undefined): string {
+  if (!dueAt) return '';
+  const date = new Date(dueAt);
+  if (Number.isNaN(date.getTime())) return '';
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+export function normalizeDueAt(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export function normalizeEstimatedMinutes(value: unknown): number | null {
+  const minutes = typeof value === 'string' ? Number(value) : value;
+  if (typeof minutes !== 'number' || !Number.isFinite(minutes)) return null;
+  const rounded = Math.round(minutes);
+  return rounded > 0 ? Math.min(MAX_ESTIMATED_MINUTES, rounded) : null;
+}
+
+// Date-only tasks are due at the end of their local day.
+export function getTaskDueTimestamp(task: Pick<Task, 'due_date' | 'due_at'>): number | null {
+  if (task.due_at) {
+    const time = new Date(task.due_at).getTime();
+    if (!Number.isNaN(time)) return time;
+  }
+  if (!task.due_date || !/^\d{4}-\d{2}-\d{2}$/.test(task.due_date)) return null;
+  const [year, month, day] = task.due_date.split('-').map((item) => Number(item));
+  const endOfDay = new Date(year, month - 1, day, 23, 59, 59, 999).getTime();
+  return Number.isNaN(endOfDay) ? null : endOfDay;
+}
+
+export function compareTasksByDue(a: Pick<Task, 'due_date' | 'due_at'>, b: Pick<Task, 'due_date' | 'due_at'>): number {
+  const aDue = getTaskDueTimestamp(a) ?? Number.POSITIVE_INFINITY;
+  const bDue = getTaskDueTimestamp(b) ?? Number.POSITIVE_INFINITY;
+  if (aDue === bDue) return 0;
+  return aDue < bDue ? -1 : 1;
+}
+
+export function isTaskOverdue(task: Pick<Task, 'status' | 'due_date' | 'due_at'>, now = Date.now()): boolean {
+  if (task.status === 'done') return false;
+  const due = getTaskDueTimestamp(task);
+  return due !== null && due < now;
+}
+
+export function formatDueTime(dueAt: string | null | undefined, locale: string): string | null {
+  if (!dueAt) return null;
+  const date = new Date(dueAt);
+  if (Number.isNaN(date.getTime())) return null;
+  return new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit' }).format(date);
+}
+
+export function formatMinutesDuration(minutes: number, t: TimingTranslator): string {
+  const safe = Math.max(1, Math.round(minutes));
+  const hours = Math.floor(safe / 60);
+  const rest = safe % 60;
+  if (hours === 0) return t('taskTiming.minutes', { minutes: rest });
+  if (rest === 0) return t('taskTiming.hours', { hours });
+  return t('taskTiming.hoursMinutes', { hours, minutes: String(rest).padStart(2, '0') });
+}
+
+export function formatTaskDueLabel(
+  task: Pick<Task, 'due_date' | 'due_at' | 'estimated_minutes'>,
+  locale: string,
+  t: TimingTranslator
+): string {
+  const date = formatDateLabel(task.due_date, locale, t('common.noDate'));
+  const time = formatDueTime(task.due_at, locale);
+  const parts = [time ? `${date} ${time}` : date];
+  if (task.estimated_minutes) {
+    parts.push(t('taskTiming.estimate', { duration: formatMinutesDuration(task.estimated_minutes, t) }));
+  }
+  return parts.join(' · ');
+}
@@ -0,0 +1,294 @@
+import { decryptE2eeString } from '@/lib/offline-crypto';
+import {
+  createEntityId,
+  createLocalId,
+  enqueueOutboxOperation,
+  getLocalTimetable,
+  getLocalTimetableEntryById,
+  removeLocalTimetableEntry,
+  setLocalTimetable,
+  upsertLocalTimetableEntry,
+} from '@/lib/offline-store';
+import { getPendingRecordIds, pullRemoteDelta } from '@/lib/sync-delta';
+import type {
+  StudyDayKey,
+  StudySlot,
+  TimetableEntry,
+  TimetableKind,
+  TimetableWeekParity,
+} from '@/types/study-schedule';
+
+export const TIMETABLE_KINDS: TimetableKind[] = ['lecture', 'lab', 'tutorial'];
+export const TIMETABLE_PARITIES: TimetableWeekParity[] = ['all', 'A', 'B'];
+export const TIMETABLE_TIME_INVALID_ERROR = 'Les horaires du cours sont invalides.';
+export const TIMETABLE_TERM_INVALID_ERROR = 'Les dates de periode du cours sont invalides.';
+
+// Time windows (minutes since midnight) covered by each study slot.
+export const SLOT_WINDOWS: Record<StudySlot, { start: number; end: number }> = {
+  morning: { start: 8 * 60, end: 12 * 60 },
+  afternoon: { start: 13 * 60, end: 18 * 60 },
+  evening: { start: 18 * 60, end: 22 * 60 },
+};
+
+const DAY_KEYS: StudyDayKey[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const timePattern = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+const timetableSelectFields =
+  'id, user_id, course_id, kind, weekday, start_time, end_time, room, week_parity, term_start, term_end, created_at, updated_at';
+
+type RemoteReadOptions = {
+  remote?: boolean;
+};
+
+export type TimetableEntryInput = {
+  courseId: string | null;
+  kind: TimetableKind;
+  weekday: StudyDayKey;
+  startTime: string;
+  endTime: string;
+  room?: string | null;
+  weekParity: TimetableWeekParity;
+  termStart?: string | null;
+  termEnd?: string | null;
+};
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+export function timeToMinutes(value: string): number | null {
+  const match = timePattern.exec(value.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+function parseUtcDate(value: string): Date | null {
+  if (!datePattern.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function getMondayUtc(date: Date): number {
+  const offset = (date.getUTCDay() + 6) % 7;
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - offset);
+}
+
+function getIsoWeekNumber(date: Date): number {
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  return Math.ceil(((thursday.getTime() - yearStart) / (24 * 60 * 60 * 1000) + 1) / 7);
+}
+
+// Week A is the week containing the term start, then weeks alternate. Without a term start,
+// odd ISO weeks are A.
+export function getWeekParity(isoDate: string, termStart: string | null): 'A' | 'B' {
+  const date = parseUtcDate(isoDate);
+  if (!date) return 'A';
+  const start = termStart ? parseUtcDate(termStart) : null;
+  if (start) {
+    const weeks = Math.round((getMondayUtc(date) - getMondayUtc(start)) / WEEK_MS);
+    return Math.abs(weeks) % 2 === 0 ? 'A' : 'B';
+  }
+  return getIsoWeekNumber(date) % 2 === 1 ? 'A' : 'B';
+}
+
+export function isEntryOnDate(entry: TimetableEntry, isoDate: string): boolean {
+  const date = parseUtcDate(isoDate);
+  if (!date || DAY_KEYS[date.getUTCDay()] !== entry.weekday) return false;
+  if (entry.term_start && isoDate < entry.term_start) return false;
+  if (entry.term_end && isoDate > entry.term_end) return false;
+  return entry.week_parity === 'all' || getWeekParity(isoDate, entry.term_start) === entry.week_parity;
+}
+
+export function getEntriesOnDate(entries: TimetableEntry[], isoDate: string): TimetableEntry[] {
+  return entries.filter((entry) => isEntryOnDate(entry, isoDate)).sort(compareEntries);
+}
+
+export function getEntriesInSlot(entries: TimetableEntry[], isoDate: string, slot: StudySlot): TimetableEntry[] {
+  const window = SLOT_WINDOWS[slot];
+  return getEntriesOnDate(entries, isoDate).filter((entry) => {
+    const start = timeToMinutes(entry.start_time) ?? 0;
+    const end = timeToMinutes(entry.end_time) ?? 0;
+    return start < window.end && end > window.start;
+  });
+}
+
+// Longest stretch of the slot that no class of the day overlaps.
+export function getLongestFreeMinutes(entries: TimetableEntry[], isoDate: string, slot: StudySlot): number {
+  const window = SLOT_WINDOWS[slot];
+  let cursor = window.start;
+  let longest = 0;
+  for (const entry of getEntriesInSlot(entries, isoDate, slot)) {
+    const start = Math.max(window.start, timeToMinutes(entry.start_time) ?? window.start);
+    const end = Math.min(window.end, timeToMinutes(entry.end_time) ?? window.end);
+    longest = Math.max(longest, start - cursor);
+    cursor = Math.max(cursor, end);
+  }
+  return Math.max(longest, window.end - cursor);
+}
+
+function compareEntries(a: TimetableEntry, b: TimetableEntry): number {
+  const byDay = ((DAY_KEYS.indexOf(a.weekday) + 6) % 7) - ((DAY_KEYS.indexOf(b.weekday) + 6) % 7);
+  if (byDay !== 0) return byDay;
+  return a.start_time.localeCompare(b.start_time);
+}
+
+function sortEntries(entries: TimetableEntry[]): TimetableEntry[] {
+  return [...entries].sort(compareEntries);
+}
+
+function normalizeEntryFromDb(value: unknown): TimetableEntry | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Partial<TimetableEntry>;
+  if (typeof raw.id !== 'string' || typeof raw.user_id !== 'string') return null;
+  if (!raw.weekday || !DAY_KEYS.includes(raw.weekday)) return null;
+  const startTime = typeof raw.start_time === 'string' ? raw.start_time.slice(0, 5) : '';
+  const endTime = typeof raw.end_time === 'string' ? raw.end_time.slice(0, 5) : '';
+  if (!timePattern.test(startTime) || !timePattern.test(endTime)) return null;
+
+  return {
+    id: raw.id,
+    user_id: raw.user_id,
+    course_id: raw.course_id ?? null,
+    kind: raw.kind && TIMETABLE_KINDS.includes(raw.kind) ? raw.kind : 'lecture',
+    weekday: raw.weekday,
+    start_time: startTime,
+    end_time: endTime,
+    room: raw.room ?? null,
+    week_parity: raw.week_parity && TIMETABLE_PARITIES.includes(raw.week_parity) ? raw.week_parity : 'all',
+    term_start: typeof raw.term_start === 'string' && datePattern.test(raw.term_start) ? raw.term_start : null,
+    term_end: typeof raw.term_end === 'string' && datePattern.test(raw.term_end) ? raw.term_end : null,
+    created_at: raw.created_at ?? nowIso(),
+    updated_at: raw.updated_at ?? null,
+  };
+}
+
+async function decryptEntryRecord(entry: TimetableEntry): Promise<TimetableEntry> {
+  return {
+    ...entry,
+    room: await decryptE2eeString(entry.room),
+  };
+}
+
+function buildEntryRecord(id: string, userId: string, input: TimetableEntryInput, createdAt: string): TimetableEntry {
+  const start = timeToMinutes(input.startTime);
+  const end = timeToMinutes(input.endTime);
+  if (start === null || end === null || end <= start) {
+    throw new Error(TIMETABLE_TIME_INVALID_ERROR);
+  }
+  const termStart = input.termStart?.trim() || null;
+  const termEnd = input.termEnd?.trim() || null;
+  if (
+    (termStart && !parseUtcDate(termStart))
+    || (termEnd && !parseUtcDate(termEnd))
+    || (termStart && termEnd && termEnd < termStart)
+  ) {
+    throw new Error(TIMETABLE_TERM_INVALID_ERROR);
+  }
+
+  return {
+    id,
+    user_id: userId,
+    course_id: input.courseId,
+    kind: input.kind,
+    weekday: input.weekday,
+    start_time: input.startTime.trim(),
+    end_time: input.endTime.trim(),
+    room: input.room?.trim() || null,
+    week_parity: input.weekParity,
+    term_start: termStart,
+    term_end: termEnd,
+    created_at: createdAt,
+  };
+}
+
+export async function getCachedTimetable(userId: string): Promise<TimetableEntry[]> {
+  return sortEntries(await getLocalTimetable(userId));
+}
+
+export async function fetchTimetable(userId: string, options: RemoteReadOptions = {}): Promise<TimetableEntry[]> {
+  const localEntries = await getLocalTimetable(userId);
+  if (!options.remote) {
+    return sortEntries(localEntries);
+  }
+
+  const next = await pullRemoteDelta({
+    userId,
+    entity: 'timetable',
+    table: 'timetable_entries',
+    selectFields: timetableSelectFields,
+    local: localEntries,
+    normalize: normalizeEntryFromDb,
+    decrypt: decryptEntryRecord,
+    sort: sortEntries,
+    store: (records) => setLocalTimetable(userId, records),
+  });
+  return next ?? sortEntries(localEntries);
+}
+
+async function saveEntry(userId: string, entry: TimetableEntry, isNew: boolean): Promise<TimetableEntry> {
+  await upsertLocalTimetableEntry(userId, entry);
+  await enqueueOutboxOperation({
+    id: createLocalId('op'),
+    entity: 'timetable',
+    action: 'upsert',
+    userId,
+    record: entry,
+    isNew,
+    createdAt: nowIso(),
+  });
+  return entry;
+}
+
+export async function createTimetableEntry(userId: string, input: TimetableEntryInput): Promise<TimetableEntry> {
+  return saveEntry(userId, buildEntryRecord(createEntityId(), userId, input, nowIso()), true);
+}
+
+export async function updateTimetableEntry(
+  entryId: string,
+  userId: string,
+  input: TimetableEntryInput
+): Promise<TimetableEntry> {
+  const current = await getLocalTimetableEntryById(userId, entryId);
+  const next = buildEntryRecord(entryId, current?.user_id ?? userId, input, current?.created_at ?? nowIso());
+  return saveEntry(userId, next, !current);
+}
+
+export async function deleteTimetableEntry(entryId: string, userId: string): Promise<void> {
+  await removeLocalTimetableEntry(userId, entryId);
+  await enqueueOutboxOperation({
+    id: createLocalId('op'),
+    entity: 'timetable',
+    action: 'delete',
+    userId,
+    recordId: entryId,
+    createdAt: nowIso(),
+  });
+}
+
+export async function detachCourseFromTimetable(courseId: string, userId: string): Promise<void> {
+  const entries = await getLocalTimetable(userId);
+  for (const entry of entries) {
+    if (entry.course_id === courseId) {
+      await saveEntry(userId, { ...entry, course_id: null }, false);
+    }
+  }
+}
+
+export async function applyRemoteTimetableUpsert(userId: string, row: unknown): Promise<boolean> {
+  const entry = normalizeEntryFromDb(row);
+  if (!entry) return false;
+  const pending = await getPendingRecordIds(userId, 'timetable');
+  if (pending.upserts.has(entry.id) || pending.deletes.has(entry.id)) return false;
+  await upsertLocalTimetableEntry(userId, await decryptEntryRecord(entry));
+  return true;
+}
+
+export async function applyRemoteTimetableDelete(userId: string, entryId: string): Promise<boolean> {
+  const pending = await getPendingRecordIds(userId, 'timetable');
+  if (pending.upserts.has(entryId)) return false;
+  if (!(await getLocalTimetableEntryById(userId, entryId))) return false;
+  await removeLocalTimetableEntry(userId, entryId);
+  return true;
+}
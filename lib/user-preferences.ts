@@ -1,10 +1,8 @@
-import * as FileSystem from 'expo-file-system/legacy';
-import { Platform } from 'react-native';
+import { createLocalId, enqueueOutboxOperation } from '@/lib/offline-store';
+import { createPersistentStore } from '@/lib/persistent-store';
+import type { FavoriteChange, SyncedPreferences } from '@/types/user-sync';
 
 const STORAGE_KEY = 'studyday-user-preferences-v1';
-const FILE_PATH = FileSystem.documentDirectory
-  ? `${FileSystem.documentDirectory}${STORAGE_KEY}.json`
-  : null;
 
 const MAX_RECENT_SEARCHES = 8;
 
@@ -15,25 +13,15 @@ type UserPreferences = {
 };
 
 type UserPreferencesState = {
-  byUser: Record<string, UserPreferences>;
+  byUser: Record<string, SyncedPreferences>;
   updatedAt: string | null;
 };
 
-const defaultUserPreferences: UserPreferences = {
-  favoriteTaskIds: [],
-  favoriteResourceIds: [],
-  recentSearches: [],
-};
-
 const defaultState: UserPreferencesState = {
   byUser: {},
   updatedAt: null,
 };
 
-let memoryState: UserPreferencesState | null = null;
-let loadingPromise: Promise<UserPreferencesState> | null = null;
-let writeChain: Promise<void> = Promise.resolve();
-
 function cloneState(state: UserPreferencesState): UserPreferencesState {
   return JSON.parse(JSON.stringify(state)) as UserPreferencesState;
 }
@@ -50,22 +38,74 @@ function dedupeNonEmpty(values: string[]): string[] {
   return out;
 }
 
-function normalizeUserPreferences(value: unknown): UserPreferences {
+function createEmptyPreferences(): SyncedPreferences {
+  return {
+    favoriteTasks: {},
+    favoriteResources: {},
+    recentSearches: [],
+    recentSearchesUpdatedAt: null,
+  };
+}
+
+function toTimestamp(value: string | null | undefined): number {
+  const parsed = value ? Date.parse(value) : Number.NaN;
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+// Version 1 kept plain favourite lists: give each entry a change time that preserves the list order.
+function seedFavoriteChanges(ids: unknown, updatedAt: unknown): Record<string, FavoriteChange> {
+  const base = toTimestamp(typeof updatedAt === 'string' ? updatedAt : null);
+  const changes: Record<string, FavoriteChange> = {};
+  if (!Array.isArray(ids)) return changes;
+  dedupeNonEmpty(ids.filter((id): id is string => typeof id === 'string')).forEach((id, index) => {
+    changes[id] = { favorite: true, changedAt: new Date(Math.max(0, base - index)).toISOString() };
+  });
+  return changes;
+}
+
+function migrateFavoriteListsToChanges(value: Record<string, unknown>): Record<string, unknown> {
+  const byUser = value.byUser && typeof value.byUser === 'object' ? (value.byUser as Record<string, unknown>) : {};
+  const migrated: Record<string, unknown> = {};
+
+  for (const [userId, preferences] of Object.entries(byUser)) {
+    if (!preferences || typeof preferences !== 'object') continue;
+    const raw = preferences as Record<string, unknown>;
+    migrated[userId] = {
+      favoriteTasks: seedFavoriteChanges(raw.favoriteTaskIds, value.updatedAt),
+      favoriteResources: seedFavoriteChanges(raw.favoriteResourceIds, value.updatedAt),
+      recentSearches: raw.recentSearches,
+      recentSearchesUpdatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : null,
+    };
+  }
+
+  return { ...value, byUser: migrated };
+}
+
+function normalizeFavoriteChanges(value: unknown): Record<string, FavoriteChange> {
+  if (!value || typeof value !== 'object') return {};
+  const changes: Record<string, FavoriteChange> = {};
+  for (const [id, change] of Object.entries(value as Record<string, unknown>)) {
+    if (!id.trim() || !change || typeof change !== 'object') continue;
+    const raw = change as Partial<FavoriteChange>;
+    if (typeof raw.favorite !== 'boolean' || typeof raw.changedAt !== 'string') continue;
+    changes[id] = { favorite: raw.favorite, changedAt: raw.changedAt };
+  }
+  return changes;
+}
+
+export function normalizeSyncedPreferences(value: unknown): SyncedPreferences {
   if (!value || typeof value !== 'object') {
-    return { ...defaultUserPreferences };
+    return createEmptyPreferences();
   }
 
-  const raw = value as Partial<UserPreferences>;
+  const raw = value as Partial<SyncedPreferences>;
   return {
-    favoriteTaskIds: Array.isArray(raw.favoriteTaskIds)
-      ? dedupeNonEmpty(raw.favoriteTaskIds)
-      : [],
-    favoriteResourceIds: Array.isArray(raw.favoriteResourceIds)
-      ? dedupeNonEmpty(raw.favoriteResourceIds)
-      : [],
+    favoriteTasks: normalizeFavoriteChanges(raw.favoriteTasks),
+    favoriteResources: normalizeFavoriteChanges(raw.favoriteResources),
     recentSearches: Array.isArray(raw.recentSearches)
       ? dedupeNonEmpty(raw.recentSearches).slice(0, MAX_RECENT_SEARCHES)
       : [],
+    recentSearchesUpdatedAt: typeof raw.recentSearchesUpdatedAt === 'string' ? raw.recentSearchesUpdatedAt : null,
   };
 }
 
@@ -76,10 +116,10 @@ function normalizeState(value: unknown): UserPreferencesState {
 
   const raw = value as Partial<UserPreferencesState>;
   const byUserRaw = raw.byUser && typeof raw.byUser === 'object' ? raw.byUser : {};
-  const byUser: Record<string, UserPreferences> = {};
+  const byUser: Record<string, SyncedPreferences> = {};
 
   for (const [userId, preferences] of Object.entries(byUserRaw)) {
-    byUser[userId] = normalizeUserPreferences(preferences);
+    byUser[userId] = normalizeSyncedPreferences(preferences);
   }
 
   return {
@@ -88,153 +128,168 @@ function normalizeState(value: unknown): UserPreferencesState {
   };
 }
 
-async function readFromStorage(): Promise<UserPreferencesState> {
-  if (Platform.OS === 'web') {
-    try {
-      const raw = globalThis.localStorage?.getItem(STORAGE_KEY);
-      if (!raw) return cloneState(defaultState);
-      return normalizeState(JSON.parse(raw));
-    } catch {
-      return cloneState(defaultState);
+function mergeFavoriteChanges(
+  local: Record<string, FavoriteChange>,
+  remote: Record<string, FavoriteChange>
+): Record<string, FavoriteChange> {
+  const merged: Record<string, FavoriteChange> = { ...remote };
+  for (const [id, change] of Object.entries(local)) {
+    const other = merged[id];
+    if (!other || toTimestamp(change.changedAt) >= toTimestamp(other.changedAt)) {
+      merged[id] = change;
     }
   }
+  return merged;
+}
 
-  if (!FILE_PATH) {
-    return cloneState(defaultState);
-  }
+// Favourites merge per id (latest add or remove wins), recent searches as a whole list (latest edit wins).
+export function mergeSyncedPreferences(local: SyncedPreferences, remote: SyncedPreferences): SyncedPreferences {
+  const keepLocalSearches = toTimestamp(local.recentSearchesUpdatedAt) >= toTimestamp(remote.recentSearchesUpdatedAt);
+  return {
+    favoriteTasks: mergeFavoriteChanges(local.favoriteTasks, remote.favoriteTasks),
+    favoriteResources: mergeFavoriteChanges(local.favoriteResources, remote.favoriteResources),
+    recentSearches: keepLocalSearches ? local.recentSearches : remote.recentSearches,
+    recentSearchesUpdatedAt: keepLocalSearches ? local.recentSearchesUpdatedAt : remote.recentSearchesUpdatedAt,
+  };
+}
 
-  try {
-    const raw = await FileSystem.readAsStringAsync(FILE_PATH);
-    if (!raw) return cloneState(defaultState);
-    return normalizeState(JSON.parse(raw));
-  } catch {
-    return cloneState(defaultState);
-  }
+function hasNewerFavoriteChanges(
+  local: Record<string, FavoriteChange>,
+  remote: Record<string, FavoriteChange>
+): boolean {
+  return Object.entries(local).some(([id, change]) => {
+    const other = remote[id];
+    return !other || toTimestamp(change.changedAt) > toTimestamp(other.changedAt);
+  });
 }
 
-async function writeToStorage(state: UserPreferencesState): Promise<void> {
-  if (Platform.OS === 'web') {
-    try {
-      globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(state));
-    } catch {
-      // Ignore write errors, keep runtime state.
-    }
-    return;
-  }
+export function hasUnsyncedPreferences(local: SyncedPreferences, remote: SyncedPreferences): boolean {
+  return (
+    hasNewerFavoriteChanges(local.favoriteTasks, remote.favoriteTasks)
+    || hasNewerFavoriteChanges(local.favoriteResources, remote.favoriteResources)
+    || toTimestamp(local.recentSearchesUpdatedAt) > toTimestamp(remote.recentSearchesUpdatedAt)
+  );
+}
 
-  if (!FILE_PATH) {
-    return;
-  }
+const store = createPersistentStore<UserPreferencesState>({
+  key: STORAGE_KEY,
+  defaultValue: defaultState,
+  normalize: normalizeState,
+  migrations: [{ version: 2, migrate: migrateFavoriteListsToChanges }],
+  encrypted: true,
+});
 
-  try {
-    await FileSystem.writeAsStringAsync(FILE_PATH, JSON.stringify(state));
-  } catch {
-    // Ignore write errors, keep runtime state.
-  }
+async function updateState(mutator: (state: UserPreferencesState) => void): Promise<UserPreferencesState> {
+  return store.update((state) => {
+    mutator(state);
+    state.updatedAt = new Date().toISOString();
+  });
 }
 
-async function loadState(): Promise<UserPreferencesState> {
-  if (memoryState) return cloneState(memoryState);
+function getSyncedByUser(state: UserPreferencesState, userId: string): SyncedPreferences {
+  return state.byUser[userId] ?? createEmptyPreferences();
+}
 
-  if (!loadingPromise) {
-    loadingPromise = (async () => {
-      const loaded = await readFromStorage();
-      memoryState = normalizeState(loaded);
-      return cloneState(memoryState);
-    })();
-  }
+function listFavoriteIds(changes: Record<string, FavoriteChange>): string[] {
+  return Object.entries(changes)
+    .filter(([, change]) => change.favorite)
+    .sort(([, a], [, b]) => toTimestamp(b.changedAt) - toTimestamp(a.changedAt))
+    .map(([id]) => id);
+}
 
-  return loadingPromise;
+function getByUser(state: UserPreferencesState, userId: string): UserPreferences {
+  const synced = getSyncedByUser(state, userId);
+  return {
+    favoriteTaskIds: listFavoriteIds(synced.favoriteTasks),
+    favoriteResourceIds: listFavoriteIds(synced.favoriteResources),
+    recentSearches: synced.recentSearches,
+  };
 }
 
-async function withWriteLock<T>(task: () => Promise<T>): Promise<T> {
-  let release: () => void = () => {};
-  const gate = new Promise<void>((resolve) => {
-    release = resolve;
+async function queuePreferencesSync(userId: string, record: SyncedPreferences): Promise<void> {
+  await enqueueOutboxOperation({
+    id: createLocalId('op'),
+    entity: 'preferences',
+    action: 'upsert',
+    userId,
+    record,
+    createdAt: new Date().toISOString(),
   });
-  const previous = writeChain;
-  writeChain = previous.then(() => gate);
-  await previous;
-  try {
-    return await task();
-  } finally {
-    release();
-  }
 }
 
-async function updateState(mutator: (state: UserPreferencesState) => void): Promise<UserPreferencesState> {
-  return withWriteLock(async () => {
-    const current = await loadState();
-    const next = cloneState(current);
-    mutator(next);
-    next.updatedAt = new Date().toISOString();
-    memoryState = normalizeState(next);
-    await writeToStorage(memoryState);
-    return cloneState(memoryState);
+async function updateUserPreferences(
+  userId: string,
+  mutator: (current: SyncedPreferences) => SyncedPreferences
+): Promise<UserPreferences> {
+  const nextState = await updateState((state) => {
+    state.byUser[userId] = mutator(getSyncedByUser(state, userId));
   });
+  await queuePreferencesSync(userId, getSyncedByUser(nextState, userId));
+  return getByUser(nextState, userId);
 }
 
-function getByUser(state: UserPreferencesState, userId: string): UserPreferences {
-  return state.byUser[userId] ?? { ...defaultUserPreferences };
+export function subscribeToUserPreferences(
+  userId: string,
+  listener: (preferences: UserPreferences) => void
+): () => void {
+  return store.subscribe((state) => listener(getByUser(state, userId)));
 }
 
 export async function getUserPreferences(userId: string): Promise<UserPreferences> {
-  const state = await loadState();
+  const state = await store.load();
   return getByUser(state, userId);
 }
 
+// Merges a snapshot pulled from another device; local edits the server has not seen yet are queued for push.
+export async function applyRemotePreferences(userId: string, remote: SyncedPreferences): Promise<void> {
+  const local = getSyncedByUser(await store.load(), userId);
+  if (hasUnsyncedPreferences(remote, local)) {
+    await updateState((state) => {
+      state.byUser[userId] = mergeSyncedPreferences(getSyncedByUser(state, userId), remote);
+    });
+  }
+  if (hasUnsyncedPreferences(local, remote)) {
+    await queuePreferencesSync(userId, mergeSyncedPreferences(local, remote));
+  }
+}
+
+function toggleFavorite(changes: Record<string, FavoriteChange>, id: string): Record<string, FavoriteChange> {
+  const favorite = !changes[id]?.favorite;
+  return { ...changes, [id]: { favorite, changedAt: new Date().toISOString() } };
+}
+
 export async function toggleFavoriteTask(userId: string, taskId: string): Promise<UserPreferences> {
-  const nextState = await updateState((state) => {
-    const current = getByUser(state, userId);
-    const exists = current.favoriteTaskIds.includes(taskId);
-    const favoriteTaskIds = exists
-      ? current.favoriteTaskIds.filter((id) => id !== taskId)
-      : [taskId, ...current.favoriteTaskIds];
-    state.byUser[userId] = {
-      ...current,
-      favoriteTaskIds,
-    };
-  });
-  return getByUser(nextState, userId);
+  return updateUserPreferences(userId, (current) => ({
+    ...current,
+    favoriteTasks: toggleFavorite(current.favoriteTasks, taskId),
+  }));
 }
 
 export async function toggleFavoriteResource(userId: string, resourceId: string): Promise<UserPreferences> {
-  const nextState = await updateState((state) => {
-    const current = getByUser(state, userId);
-    const exists = current.favoriteResourceIds.includes(resourceId);
-    const favoriteResourceIds = exists
-      ? current.favoriteResourceIds.filter((id) => id !== resourceId)
-      : [resourceId, ...current.favoriteResourceIds];
-    state.byUser[userId] = {
-      ...current,
-      favoriteResourceIds,
-    };
-  });
-  return getByUser(nextState, userId);
+  return updateUserPreferences(userId, (current) => ({
+    ...current,
+    favoriteResources: toggleFavorite(current.favoriteResources, resourceId),
+  }));
 }
 
 export async function saveRecentSearch(userId: string, query: string): Promise<UserPreferences> {
   const cleaned = query.trim();
   if (!cleaned) return getUserPreferences(userId);
 
-  const nextState = await updateState((state) => {
-    const current = getByUser(state, userId);
+  return updateUserPreferences(userId, (current) => {
     const withoutDuplicate = current.recentSearches.filter((item) => item.toLowerCase() !== cleaned.toLowerCase());
-    state.byUser[userId] = {
+    return {
       ...current,
       recentSearches: [cleaned, ...withoutDuplicate].slice(0, MAX_RECENT_SEARCHES),
+      recentSearchesUpdatedAt: new Date().toISOString(),
     };
   });
-  return getByUser(nextState, userId);
 }
 
 export async function clearRecentSearches(userId: string): Promise<UserPreferences> {
-  const nextState = await updateState((state) => {
-    const current = getByUser(state, userId);
-    state.byUser[userId] = {
-      ...current,
-      recentSearches: [],
-    };
-  });
-  return getByUser(nextState, userId);
+  return updateUserPreferences(userId, (current) => ({
+    ...current,
+    recentSearches: [],
+    recentSearchesUpdatedAt: new Date().toISOString(),
+  }));
 }
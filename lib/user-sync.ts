@@ -0,0 +1,92 @@
+import { decryptE2eeString, encryptE2eeString } from '@/lib/offline-crypto';
+import {
+  applyRemoteFocusStats,
+  mergeSyncedFocusStats,
+  normalizeSyncedFocusStats,
+} from '@/lib/focus-stats';
+import type { OutboxOperation } from '@/lib/offline-store';
+import { supabase } from '@/lib/supabase';
+import {
+  applyRemotePreferences,
+  mergeSyncedPreferences,
+  normalizeSyncedPreferences,
+} from '@/lib/user-preferences';
+import type { UserSyncKind } from '@/types/user-sync';
+
+type UserSyncOperation = Extract<OutboxOperation, { entity: UserSyncKind }>;
+
+async function fetchRemoteSnapshot(userId: string, kind: UserSyncKind): Promise<unknown> {
+  const { data, error } = await supabase
+    .from('user_sync_state')
+    .select('payload')
+    .eq('user_id', userId)
+    .eq('kind', kind)
+    .maybeSingle();
+  if (error) throw error;
+
+  const payload = typeof data?.payload === 'string' ? data.payload : null;
+  if (!payload) return null;
+
+  const decrypted = await decryptE2eeString(payload);
+  try {
+    return JSON.parse(decrypted ?? '') as unknown;
+  } catch {
+    // Never overwrite a snapshot this device cannot read: it would wipe the other devices' data.
+    throw new Error('Donnees synchronisees illisibles avec la cle de chiffrement actuelle.');
+  }
+}
+
+async function saveRemoteSnapshot(userId: string, kind: UserSyncKind, snapshot: object): Promise<void> {
+  const serialized = JSON.stringify(snapshot);
+  const { error } = await supabase.from('user_sync_state').upsert(
+    {
+      user_id: userId,
+      kind,
+      payload: (await encryptE2eeString(serialized)) ?? serialized,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'user_id,kind' }
+  );
+  if (error) throw error;
+}
+
+// The server keeps one merged snapshot per kind: merge with it before writing so other devices' edits survive.
+export async function pushUserSyncState(operation: UserSyncOperation): Promise<UserSyncOperation> {
+  const remote = await fetchRemoteSnapshot(operation.userId, operation.entity);
+
+  if (operation.entity === 'preferences') {
+    const merged = mergeSyncedPreferences(operation.record, normalizeSyncedPreferences(remote));
+    await saveRemoteSnapshot(operation.userId, operation.entity, merged);
+    await applyRemotePreferences(operation.userId, merged);
+    return operation;
+  }
+
+  const merged = mergeSyncedFocusStats(operation.record, normalizeSyncedFocusStats(remote));
+  await saveRemoteSnapshot(operation.userId, operation.entity, merged);
+  await applyRemoteFocusStats(operation.userId, merged);
+  return operation;
+}
+
+async function fetchRemoteSnapshotOrSkip(userId: string, kind: UserSyncKind): Promise<{ value: unknown } | null> {
+  try {
+    return { value: await fetchRemoteSnapshot(userId, kind) };
+  } catch {
+    // Offline or unreadable: keep the local copy, pending edits are pushed by the outbox.
+    return null;
+  }
+}
+
+export async function hydrateUserSyncStateFromRemote(userId: string): Promise<void> {
+  const [preferences, focusStats] = await Promise.all([
+    fetchRemoteSnapshotOrSkip(userId, 'preferences'),
+    fetchRemoteSnapshotOrSkip(userId, 'focus_stats'),
+  ]);
+
+  // A missing snapshot still goes through the merge so data recorded before sync existed gets uploaded.
+  if (preferences) {
+    await applyRemotePreferences(userId, normalizeSyncedPreferences(preferences.value));
+  }
+  if (focusStats) {
+    await applyRemoteFocusStats(userId, normalizeSyncedFocusStats(focusStats.value));
+  }
+}
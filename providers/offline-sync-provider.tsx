@@ -1,15 +1,25 @@
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import { AppState } from 'react-native';
 
-import { getOutboxSize } from '@/lib/offline-store';
+import { getErrorMessage } from '@/lib/errors';
+import { clearSyncCursors, createLocalId, getOutboxSize } from '@/lib/offline-store';
+import { subscribeToRemoteChanges } from '@/lib/realtime-sync';
 import { hydrateLocalDataFromRemote } from '@/lib/student-api';
 import { hydrateStudySchedulesFromRemote } from '@/lib/study-schedule';
 import { syncPendingOperations } from '@/lib/sync-engine';
+import { recordSyncAttempt, type SyncAttempt } from '@/lib/sync-log';
+import { hydrateUserSyncStateFromRemote } from '@/lib/user-sync';
 import { useAuth } from '@/providers/auth-provider';
 import { useSettings } from '@/providers/settings-provider';
 
 const SYNC_INTERVAL_MS = 45_000;
 const PENDING_REFRESH_MS = 12_000;
+const REALTIME_PULL_INTERVAL_MS = 5 * 60_000;
+const REMOTE_CHANGE_NOTIFY_DELAY_MS = 300;
+
+type RunSyncOptions = {
+  pull?: boolean;
+};
 
 type OfflineSyncContextValue = {
   pendingOperations: number;
@@ -17,7 +27,10 @@ type OfflineSyncContextValue = {
   lastSyncAt: string | null;
   lastSyncStatus: 'success' | 'error' | null;
   lastSyncedCount: number;
+  realtimeConnected: boolean;
+  dataVersion: number;
   triggerSync: () => Promise<void>;
+  forceFullSync: () => Promise<void>;
 };
 
 const OfflineSyncContext = createContext<OfflineSyncContextValue>({
@@ -26,18 +39,26 @@ const OfflineSyncContext = createContext<OfflineSyncContextValue>({
   lastSyncAt: null,
   lastSyncStatus: null,
   lastSyncedCount: 0,
+  realtimeConnected: false,
+  dataVersion: 0,
   triggerSync: async () => {},
+  forceFullSync: async () => {},
 });
 
 export function OfflineSyncProvider({ children }: { children: React.ReactNode }) {
   const { session, refreshProfile } = useAuth();
-  const { syncMode } = useSettings();
+  const { syncMode, realtimeSync } = useSettings();
   const [pendingOperations, setPendingOperations] = useState(0);
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSyncAt, setLastSyncAt] = useState<string | null>(null);
   const [lastSyncStatus, setLastSyncStatus] = useState<'success' | 'error' | null>(null);
   const [lastSyncedCount, setLastSyncedCount] = useState(0);
+  const [realtimeConnected, setRealtimeConnected] = useState(false);
+  const [dataVersion, setDataVersion] = useState(0);
   const syncingRef = useRef(false);
+  const inFlightSyncRef = useRef<Promise<void> | null>(null);
+  const realtimeConnectedRef = useRef(false);
+  const lastPullAtRef = useRef(0);
 
   const userId = session?.user?.id;
 
@@ -51,30 +72,65 @@ export function OfflineSyncProvider({ children }: { children: React.ReactNode })
     setPendingOperations(next);
   }, [userId]);
 
-  const runSync = useCallback(async () => {
+  const runSync = useCallback(async (options: RunSyncOptions = {}) => {
     if (!userId) return;
+    const pull = options.pull ?? true;
     if (syncingRef.current) return;
 
     syncingRef.current = true;
+    let settle: () => void = () => {};
+    inFlightSyncRef.current = new Promise<void>((resolve) => {
+      settle = resolve;
+    });
     setIsSyncing(true);
     setLastSyncStatus(null);
 
+    const startedAt = new Date();
+    const attempt: SyncAttempt = {
+      id: createLocalId('sync'),
+      startedAt: startedAt.toISOString(),
+      durationMs: 0,
+      pulled: pull,
+      status: 'success',
+      syncedCount: 0,
+      failedCount: 0,
+      pendingCount: 0,
+      error: null,
+    };
+
     try {
       const result = await syncPendingOperations(userId);
-      await Promise.all([
-        hydrateLocalDataFromRemote(userId),
-        hydrateStudySchedulesFromRemote(userId),
-        refreshProfile({ remote: true }),
-      ]);
-      setLastSyncStatus('success');
+      attempt.syncedCount = result.syncedCount;
+      attempt.failedCount = result.failedCount;
+      attempt.pendingCount = result.pendingCount;
+      attempt.error = result.lastError;
+      if (pull) {
+        await Promise.all([
+          hydrateLocalDataFromRemote(userId),
+          hydrateStudySchedulesFromRemote(userId),
+          hydrateUserSyncStateFromRemote(userId),
+          refreshProfile({ remote: true }),
+        ]);
+        lastPullAtRef.current = Date.now();
+        setDataVersion((previous) => previous + 1);
+      }
+      // A network error stops the push early without counting a failure: it still has to show as one.
+      attempt.status = result.failedCount > 0 || result.lastError ? 'error' : 'success';
+      setLastSyncStatus(attempt.status);
       setLastSyncedCount(result.syncedCount);
-    } catch {
+    } catch (error) {
+      attempt.status = 'error';
+      attempt.error = getErrorMessage(error, 'La synchronisation a echoue.');
       setLastSyncStatus('error');
       setLastSyncedCount(0);
     } finally {
       syncingRef.current = false;
+      inFlightSyncRef.current = null;
+      settle();
       setIsSyncing(false);
       setLastSyncAt(new Date().toISOString());
+      attempt.durationMs = Date.now() - startedAt.getTime();
+      await recordSyncAttempt(userId, attempt);
       await refreshPending();
     }
   }, [refreshPending, refreshProfile, userId]);
@@ -83,6 +139,21 @@ export function OfflineSyncProvider({ children }: { children: React.ReactNode })
     await runSync();
   }, [runSync]);
 
+  // Dropping the cursors turns the next pull into a full download of every synced table. A sync already running
+  // would skip the requested one and move the cursors again, so it is waited for on both sides of the reset.
+  const forceFullSync = useCallback(async () => {
+    if (!userId) return;
+    while (inFlightSyncRef.current) await inFlightSyncRef.current;
+    await clearSyncCursors(userId);
+    while (inFlightSyncRef.current) await inFlightSyncRef.current;
+    await runSync({ pull: true });
+  }, [runSync, userId]);
+
+  const runSyncRef = useRef(runSync);
+  useEffect(() => {
+    runSyncRef.current = runSync;
+  }, [runSync]);
+
   useEffect(() => {
     if (!userId) {
       setPendingOperations(0);
@@ -103,7 +174,9 @@ export function OfflineSyncProvider({ children }: { children: React.ReactNode })
     const interval = setInterval(
       () => {
         if (syncMode === 'auto') {
-          void runSync();
+          // While the realtime channel is up, remote rows arrive by push: only drain the outbox between slower pulls.
+          const pull = !realtimeConnectedRef.current || Date.now() - lastPullAtRef.current >= REALTIME_PULL_INTERVAL_MS;
+          void runSync({ pull });
           return;
         }
         void refreshPending();
@@ -126,6 +199,41 @@ export function OfflineSyncProvider({ children }: { children: React.ReactNode })
     };
   }, [refreshPending, runSync, syncMode, userId]);
 
+  useEffect(() => {
+    if (!userId || syncMode !== 'auto' || !realtimeSync) {
+      realtimeConnectedRef.current = false;
+      setRealtimeConnected(false);
+      return;
+    }
+
+    let notifyTimeout: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = subscribeToRemoteChanges(userId, {
+      onChange: () => {
+        if (notifyTimeout) return;
+        notifyTimeout = setTimeout(() => {
+          notifyTimeout = null;
+          setDataVersion((previous) => previous + 1);
+        }, REMOTE_CHANGE_NOTIFY_DELAY_MS);
+      },
+      onConnectionChange: (connected) => {
+        const wasConnected = realtimeConnectedRef.current;
+        realtimeConnectedRef.current = connected;
+        setRealtimeConnected(connected);
+        // Changes made while the channel was down are not replayed: catch up with a delta pull.
+        if (connected && !wasConnected) {
+          void runSyncRef.current();
+        }
+      },
+    });
+
+    return () => {
+      if (notifyTimeout) clearTimeout(notifyTimeout);
+      unsubscribe();
+      realtimeConnectedRef.current = false;
+      setRealtimeConnected(false);
+    };
+  }, [realtimeSync, syncMode, userId]);
+
   const value = useMemo<OfflineSyncContextValue>(
     () => ({
       pendingOperations,
@@ -133,9 +241,22 @@ export function OfflineSyncProvider({ children }: { children: React.ReactNode })
       lastSyncAt,
       lastSyncStatus,
       lastSyncedCount,
+      realtimeConnected,
+      dataVersion,
       triggerSync,
+      forceFullSync,
     }),
-    [isSyncing, lastSyncAt, lastSyncStatus, lastSyncedCount, pendingOperations, triggerSync]
+    [
+      dataVersion,
+      forceFullSync,
+      isSyncing,
+      lastSyncAt,
+      lastSyncStatus,
+      lastSyncedCount,
+      pendingOperations,
+      realtimeConnected,
+      triggerSync,
+    ]
   );
 
   return <OfflineSyncContext.Provider value={value}>{children}</OfflineSyncContext.Provider>;
@@ -14,11 +14,13 @@ type SettingsContextValue = {
   language: AppLanguage;
   themeMode: ThemeMode;
   syncMode: SyncMode;
+  realtimeSync: boolean;
   notificationSoundMode: NotificationSoundMode;
   settingsLoading: boolean;
   setLanguage: (value: AppLanguage) => void;
   setThemeMode: (value: ThemeMode) => void;
   setSyncMode: (value: SyncMode) => void;
+  setRealtimeSync: (value: boolean) => void;
   setNotificationSoundMode: (value: NotificationSoundMode) => void;
 };
 
@@ -28,6 +30,7 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
   const [language, setLanguageState] = useState<AppLanguage>(defaultSettings.language);
   const [themeMode, setThemeModeState] = useState<ThemeMode>(defaultSettings.themeMode);
   const [syncMode, setSyncModeState] = useState<SyncMode>(defaultSettings.syncMode);
+  const [realtimeSync, setRealtimeSyncState] = useState(defaultSettings.realtimeSync);
   const [notificationSoundMode, setNotificationSoundModeState] = useState<NotificationSoundMode>(
     defaultSettings.notificationSoundMode
   );
@@ -42,6 +45,7 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
       setLanguageState(loaded.language);
       setThemeModeState(loaded.themeMode);
       setSyncModeState(loaded.syncMode);
+      setRealtimeSyncState(loaded.realtimeSync);
       setNotificationSoundModeState(loaded.notificationSoundMode);
       setSettingsLoading(false);
     })();
@@ -63,28 +67,34 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
     setSyncModeState(value);
   };
 
+  const setRealtimeSync = (value: boolean) => {
+    setRealtimeSyncState(value);
+  };
+
   const setNotificationSoundMode = (value: NotificationSoundMode) => {
     setNotificationSoundModeState(value);
   };
 
   useEffect(() => {
     if (settingsLoading) return;
-    void saveAppSettings({ language, themeMode, syncMode, notificationSoundMode });
-  }, [language, notificationSoundMode, settingsLoading, syncMode, themeMode]);
+    void saveAppSettings({ language, themeMode, syncMode, realtimeSync, notificationSoundMode });
+  }, [language, notificationSoundMode, realtimeSync, settingsLoading, syncMode, themeMode]);
 
   const value = useMemo<SettingsContextValue>(
     () => ({
       language,
       themeMode,
       syncMode,
+      realtimeSync,
       notificationSoundMode,
       settingsLoading,
       setLanguage,
       setThemeMode,
       setSyncMode,
+      setRealtimeSync,
       setNotificationSoundMode,
     }),
-    [language, notificationSoundMode, settingsLoading, syncMode, themeMode]
+    [language, notificationSoundMode, realtimeSync, settingsLoading, syncMode, themeMode]
   );
 
   return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
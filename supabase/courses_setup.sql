@@ -0,0 +1,91 @@
+-- StudyDay - Courses (subjects) linked to tasks, resources and schedule sessions
+-- Run this in Supabase SQL Editor (project database)
+-- Requires sync_cursors_setup.sql (touch_updated_at, record_sync_tombstone)
+
+-- 1) Courses table (name, teacher and term are end-to-end encrypted by the app)
+create table if not exists public.courses (
+  id uuid primary key,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null,
+  color text not null default '#4F46E5',
+  teacher text,
+  term text,
+  coefficient numeric(5, 2) check (coefficient is null or coefficient > 0),
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+create index if not exists courses_user_updated_at_idx
+  on public.courses (user_id, updated_at);
+
+alter table public.courses enable row level security;
+
+drop policy if exists "courses_select_own" on public.courses;
+drop policy if exists "courses_insert_own" on public.courses;
+drop policy if exists "courses_update_own" on public.courses;
+drop policy if exists "courses_delete_own" on public.courses;
+
+create policy "courses_select_own"
+on public.courses
+for select
+to authenticated
+using (user_id = auth.uid());
+
+create policy "courses_insert_own"
+on public.courses
+for insert
+to authenticated
+with check (user_id = auth.uid());
+
+create policy "courses_update_own"
+on public.courses
+for update
+to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create policy "courses_delete_own"
+on public.courses
+for delete
+to authenticated
+using (user_id = auth.uid());
+
+grant select, insert, update, delete on public.courses to authenticated;
+
+drop trigger if exists courses_touch_updated_at on public.courses;
+create trigger courses_touch_updated_at
+before insert or update on public.courses
+for each row execute function public.touch_updated_at();
+
+drop trigger if exists courses_record_tombstone on public.courses;
+create trigger courses_record_tombstone
+after delete on public.courses
+for each row execute function public.record_sync_tombstone();
+
+-- 2) Links from tasks and resources (a deleted course leaves its records without a course)
+alter table public.tasks
+  add column if not exists course_id uuid references public.courses(id) on delete set null;
+
+alter table public.resources
+  add column if not exists course_id uuid references public.courses(id) on delete set null;
+
+create index if not exists tasks_course_id_idx
+  on public.tasks (course_id);
+
+create index if not exists resources_course_id_idx
+  on public.resources (course_id);
+
+-- 3) Realtime
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'courses'
+  ) then
+    alter publication supabase_realtime add table public.courses;
+  end if;
+end;
+$$;
@@ -0,0 +1,88 @@
+-- StudyDay - Exam calendar with generated revision tasks and sessions
+-- Run this in Supabase SQL Editor (project database)
+-- Requires courses_setup.sql
+
+-- 1) Exams table (subject, location and topics are end-to-end encrypted by the app)
+create table if not exists public.exams (
+  id uuid primary key,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  course_id uuid references public.courses(id) on delete set null,
+  subject text not null,
+  exam_date date not null,
+  exam_time text check (exam_time is null or exam_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  location text,
+  topics text[] not null default '{}',
+  revision_offsets integer[] not null default '{7,3,1}',
+  schedule_id uuid references public.study_schedules(id) on delete set null,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+create index if not exists exams_user_updated_at_idx
+  on public.exams (user_id, updated_at);
+
+alter table public.exams enable row level security;
+
+drop policy if exists "exams_select_own" on public.exams;
+drop policy if exists "exams_insert_own" on public.exams;
+drop policy if exists "exams_update_own" on public.exams;
+drop policy if exists "exams_delete_own" on public.exams;
+
+create policy "exams_select_own"
+on public.exams
+for select
+to authenticated
+using (user_id = auth.uid());
+
+create policy "exams_insert_own"
+on public.exams
+for insert
+to authenticated
+with check (user_id = auth.uid());
+
+create policy "exams_update_own"
+on public.exams
+for update
+to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create policy "exams_delete_own"
+on public.exams
+for delete
+to authenticated
+using (user_id = auth.uid());
+
+grant select, insert, update, delete on public.exams to authenticated;
+
+drop trigger if exists exams_touch_updated_at on public.exams;
+create trigger exams_touch_updated_at
+before insert or update on public.exams
+for each row execute function public.touch_updated_at();
+
+drop trigger if exists exams_record_tombstone on public.exams;
+create trigger exams_record_tombstone
+after delete on public.exams
+for each row execute function public.record_sync_tombstone();
+
+-- 2) Revision tasks point at their exam (a deleted exam leaves completed revisions without one)
+alter table public.tasks
+  add column if not exists exam_id uuid references public.exams(id) on delete set null;
+
+create index if not exists tasks_exam_id_idx
+  on public.tasks (exam_id);
+
+-- 3) Realtime
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'exams'
+  ) then
+    alter publication supabase_realtime add table public.exams;
+  end if;
+end;
+$$;
@@ -0,0 +1,90 @@
+-- StudyDay - Flashcard decks reviewed with spaced repetition
+-- Run this in Supabase SQL Editor (project database)
+-- Requires sync_cursors_setup.sql
+
+-- 1) Flashcards (deck, front and back are end-to-end encrypted by the app; SM-2 state as in review_items)
+create table if not exists public.flashcards (
+  id uuid primary key,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  deck text not null,
+  front text not null,
+  back text not null,
+  resource_id uuid references public.resources(id) on delete set null,
+  ease_factor numeric(4, 2) not null default 2.5 check (ease_factor >= 1.3),
+  interval_days integer not null default 0 check (interval_days >= 0),
+  repetitions integer not null default 0 check (repetitions >= 0),
+  lapses integer not null default 0 check (lapses >= 0),
+  due_date date not null default current_date,
+  last_reviewed_at timestamp with time zone,
+  history jsonb not null default '[]'::jsonb,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+create index if not exists flashcards_resource_id_idx
+  on public.flashcards (resource_id);
+
+create index if not exists flashcards_user_updated_at_idx
+  on public.flashcards (user_id, updated_at);
+
+create index if not exists flashcards_user_due_date_idx
+  on public.flashcards (user_id, due_date);
+
+alter table public.flashcards enable row level security;
+
+drop policy if exists "flashcards_select_own" on public.flashcards;
+drop policy if exists "flashcards_insert_own" on public.flashcards;
+drop policy if exists "flashcards_update_own" on public.flashcards;
+drop policy if exists "flashcards_delete_own" on public.flashcards;
+
+create policy "flashcards_select_own"
+on public.flashcards
+for select
+to authenticated
+using (user_id = auth.uid());
+
+create policy "flashcards_insert_own"
+on public.flashcards
+for insert
+to authenticated
+with check (user_id = auth.uid());
+
+create policy "flashcards_update_own"
+on public.flashcards
+for update
+to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create policy "flashcards_delete_own"
+on public.flashcards
+for delete
+to authenticated
+using (user_id = auth.uid());
+
+grant select, insert, update, delete on public.flashcards to authenticated;
+
+drop trigger if exists flashcards_touch_updated_at on public.flashcards;
+create trigger flashcards_touch_updated_at
+before insert or update on public.flashcards
+for each row execute function public.touch_updated_at();
+
+drop trigger if exists flashcards_record_tombstone on public.flashcards;
+create trigger flashcards_record_tombstone
+after delete on public.flashcards
+for each row execute function public.record_sync_tombstone();
+
+-- 2) Realtime
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'flashcards'
+  ) then
+    alter publication supabase_realtime add table public.flashcards;
+  end if;
+end;
+$$;
@@ -0,0 +1,82 @@
+-- StudyDay - Grade tracker (assessments per course)
+-- Run this in Supabase SQL Editor (project database)
+-- Requires courses_setup.sql
+
+-- 1) Assessments table (title is end-to-end encrypted by the app, a null score is an upcoming assessment)
+create table if not exists public.assessments (
+  id uuid primary key,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  course_id uuid not null references public.courses(id) on delete cascade,
+  title text not null,
+  score numeric(7, 2) check (score is null or score >= 0),
+  max_score numeric(7, 2) not null default 20 check (max_score > 0),
+  weight numeric(6, 2) not null default 1 check (weight > 0),
+  date date,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+create index if not exists assessments_user_updated_at_idx
+  on public.assessments (user_id, updated_at);
+
+create index if not exists assessments_course_id_idx
+  on public.assessments (course_id);
+
+alter table public.assessments enable row level security;
+
+drop policy if exists "assessments_select_own" on public.assessments;
+drop policy if exists "assessments_insert_own" on public.assessments;
+drop policy if exists "assessments_update_own" on public.assessments;
+drop policy if exists "assessments_delete_own" on public.assessments;
+
+create policy "assessments_select_own"
+on public.assessments
+for select
+to authenticated
+using (user_id = auth.uid());
+
+create policy "assessments_insert_own"
+on public.assessments
+for insert
+to authenticated
+with check (user_id = auth.uid());
+
+create policy "assessments_update_own"
+on public.assessments
+for update
+to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create policy "assessments_delete_own"
+on public.assessments
+for delete
+to authenticated
+using (user_id = auth.uid());
+
+grant select, insert, update, delete on public.assessments to authenticated;
+
+drop trigger if exists assessments_touch_updated_at on public.assessments;
+create trigger assessments_touch_updated_at
+before insert or update on public.assessments
+for each row execute function public.touch_updated_at();
+
+drop trigger if exists assessments_record_tombstone on public.assessments;
+create trigger assessments_record_tombstone
+after delete on public.assessments
+for each row execute function public.record_sync_tombstone();
+
+-- 2) Realtime
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'assessments'
+  ) then
+    alter publication supabase_realtime add table public.assessments;
+  end if;
+end;
+$$;
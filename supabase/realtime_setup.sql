@@ -0,0 +1,21 @@
+-- StudyDay - Realtime push of row changes
+-- Run this in Supabase SQL Editor (project database)
+
+-- 1) Publish the tables to the realtime channel (RLS still decides which rows each client receives)
+do $$
+declare
+  target text;
+begin
+  foreach target in array array['tasks', 'resources', 'study_schedules', 'announcements'] loop
+    if not exists (
+      select 1
+      from pg_publication_tables
+      where pubname = 'supabase_realtime'
+        and schemaname = 'public'
+        and tablename = target
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', target);
+    end if;
+  end loop;
+end;
+$$;
@@ -0,0 +1,87 @@
+-- StudyDay - Spaced repetition reviews for resources
+-- Run this in Supabase SQL Editor (project database)
+-- Requires sync_cursors_setup.sql
+
+-- 1) Review items (SM-2 state per enrolled resource, with the recall history as jsonb)
+create table if not exists public.review_items (
+  id uuid primary key,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  resource_id uuid not null references public.resources(id) on delete cascade,
+  ease_factor numeric(4, 2) not null default 2.5 check (ease_factor >= 1.3),
+  interval_days integer not null default 0 check (interval_days >= 0),
+  repetitions integer not null default 0 check (repetitions >= 0),
+  lapses integer not null default 0 check (lapses >= 0),
+  due_date date not null default current_date,
+  last_reviewed_at timestamp with time zone,
+  history jsonb not null default '[]'::jsonb,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+create index if not exists review_items_resource_id_idx
+  on public.review_items (resource_id);
+
+create index if not exists review_items_user_updated_at_idx
+  on public.review_items (user_id, updated_at);
+
+create index if not exists review_items_user_due_date_idx
+  on public.review_items (user_id, due_date);
+
+alter table public.review_items enable row level security;
+
+drop policy if exists "review_items_select_own" on public.review_items;
+drop policy if exists "review_items_insert_own" on public.review_items;
+drop policy if exists "review_items_update_own" on public.review_items;
+drop policy if exists "review_items_delete_own" on public.review_items;
+
+create policy "review_items_select_own"
+on public.review_items
+for select
+to authenticated
+using (user_id = auth.uid());
+
+create policy "review_items_insert_own"
+on public.review_items
+for insert
+to authenticated
+with check (user_id = auth.uid());
+
+create policy "review_items_update_own"
+on public.review_items
+for update
+to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create policy "review_items_delete_own"
+on public.review_items
+for delete
+to authenticated
+using (user_id = auth.uid());
+
+grant select, insert, update, delete on public.review_items to authenticated;
+
+drop trigger if exists review_items_touch_updated_at on public.review_items;
+create trigger review_items_touch_updated_at
+before insert or update on public.review_items
+for each row execute function public.touch_updated_at();
+
+drop trigger if exists review_items_record_tombstone on public.review_items;
+create trigger review_items_record_tombstone
+after delete on public.review_items
+for each row execute function public.record_sync_tombstone();
+
+-- 2) Realtime
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'review_items'
+  ) then
+    alter publication supabase_realtime add table public.review_items;
+  end if;
+end;
+$$;
@@ -0,0 +1,106 @@
+-- StudyDay - Incremental sync (updated_at cursors + deletion tombstones)
+-- Run this in Supabase SQL Editor (project database)
+
+-- 1) updated_at columns, maintained by the server clock
+alter table public.tasks
+  add column if not exists updated_at timestamp with time zone not null default now();
+
+alter table public.resources
+  add column if not exists updated_at timestamp with time zone not null default now();
+
+alter table public.study_schedules
+  add column if not exists updated_at timestamp with time zone not null default now();
+
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_touch_updated_at on public.tasks;
+create trigger tasks_touch_updated_at
+before insert or update on public.tasks
+for each row execute function public.touch_updated_at();
+
+drop trigger if exists resources_touch_updated_at on public.resources;
+create trigger resources_touch_updated_at
+before insert or update on public.resources
+for each row execute function public.touch_updated_at();
+
+drop trigger if exists study_schedules_touch_updated_at on public.study_schedules;
+create trigger study_schedules_touch_updated_at
+before insert or update on public.study_schedules
+for each row execute function public.touch_updated_at();
+
+create index if not exists tasks_user_updated_at_idx
+  on public.tasks (user_id, updated_at);
+
+create index if not exists resources_user_updated_at_idx
+  on public.resources (user_id, updated_at);
+
+create index if not exists study_schedules_user_updated_at_idx
+  on public.study_schedules (user_id, updated_at);
+
+-- 2) Tombstones so clients can replay remote deletions
+create table if not exists public.sync_tombstones (
+  id bigint generated always as identity primary key,
+  user_id uuid not null,
+  table_name text not null,
+  record_id uuid not null,
+  deleted_at timestamp with time zone not null default now()
+);
+
+create index if not exists sync_tombstones_user_table_deleted_at_idx
+  on public.sync_tombstones (user_id, table_name, deleted_at);
+
+alter table public.sync_tombstones enable row level security;
+
+drop policy if exists "sync_tombstones_select_own" on public.sync_tombstones;
+
+create policy "sync_tombstones_select_own"
+on public.sync_tombstones
+for select
+to authenticated
+using (user_id = auth.uid());
+
+create or replace function public.record_sync_tombstone()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.user_id is not null then
+    insert into public.sync_tombstones (user_id, table_name, record_id)
+    values (old.user_id, tg_table_name, old.id);
+  end if;
+
+  return old;
+end;
+$$;
+
+drop trigger if exists tasks_record_tombstone on public.tasks;
+create trigger tasks_record_tombstone
+after delete on public.tasks
+for each row execute function public.record_sync_tombstone();
+
+drop trigger if exists resources_record_tombstone on public.resources;
+create trigger resources_record_tombstone
+after delete on public.resources
+for each row execute function public.record_sync_tombstone();
+
+drop trigger if exists study_schedules_record_tombstone on public.study_schedules;
+create trigger study_schedules_record_tombstone
+after delete on public.study_schedules
+for each row execute function public.record_sync_tombstone();
+
+-- 3) Tombstone cleanup (re-run periodically; clients with an older cursor do a full pull)
+delete from public.sync_tombstones
+where deleted_at < now() - interval '90 days';
+
+comment on table public.sync_tombstones is
+  'Deleted row ids per user, read by clients pulling changes since their updated_at cursor.';
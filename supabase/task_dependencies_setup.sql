@@ -0,0 +1,8 @@
+-- StudyDay - Task dependencies (prerequisites)
+-- Run this in Supabase SQL Editor (project database)
+
+alter table public.tasks
+  add column if not exists blocked_by text[] not null default '{}';
+
+comment on column public.tasks.blocked_by is
+  'Ids of the tasks that must be done before this one. Cycles are rejected by the app.';
@@ -0,0 +1,12 @@
+-- StudyDay - Recurring tasks
+-- Run this in Supabase SQL Editor (project database)
+
+alter table public.tasks
+  add column if not exists recurrence jsonb;
+
+comment on column public.tasks.recurrence is
+  'Recurrence of the task: { rule, series_id, index }. rule is an RRULE subset (FREQ=DAILY|WEEKLY, INTERVAL, BYDAY, UNTIL, COUNT).';
+
+create index if not exists tasks_recurrence_series_idx
+  on public.tasks ((recurrence ->> 'series_id'))
+  where recurrence is not null;
@@ -0,0 +1,8 @@
+-- StudyDay - Task checklists (subtasks)
+-- Run this in Supabase SQL Editor (project database)
+
+alter table public.tasks
+  add column if not exists subtasks text;
+
+comment on column public.tasks.subtasks is
+  'End-to-end encrypted JSON array of { id, title, done } checklist items.';
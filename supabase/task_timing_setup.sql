@@ -0,0 +1,19 @@
+-- StudyDay - Task due times and estimated effort
+-- Run this in Supabase SQL Editor (project database)
+
+alter table public.tasks
+  add column if not exists due_at timestamptz,
+  add column if not exists due_timezone text,
+  add column if not exists estimated_minutes integer;
+
+alter table public.tasks
+  drop constraint if exists tasks_estimated_minutes_check;
+
+alter table public.tasks
+  add constraint tasks_estimated_minutes_check
+  check (estimated_minutes is null or (estimated_minutes > 0 and estimated_minutes <= 1440));
+
+comment on column public.tasks.due_at is
+  'Exact deadline when the task has a time of day. due_date keeps the calendar day.';
+comment on column public.tasks.due_timezone is
+  'IANA time zone of the device where the due time was set.';
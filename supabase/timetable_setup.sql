@@ -0,0 +1,84 @@
+-- StudyDay - Class timetable (weekly recurring lectures, labs and tutorials)
+-- Run this in Supabase SQL Editor (project database)
+-- Requires courses_setup.sql
+
+-- 1) Timetable entries (room is end-to-end encrypted by the app)
+create table if not exists public.timetable_entries (
+  id uuid primary key,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  course_id uuid references public.courses(id) on delete set null,
+  kind text not null default 'lecture' check (kind in ('lecture', 'lab', 'tutorial')),
+  weekday text not null check (weekday in ('mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun')),
+  start_time text not null check (start_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  end_time text not null check (end_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  room text,
+  week_parity text not null default 'all' check (week_parity in ('all', 'A', 'B')),
+  term_start date,
+  term_end date,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  check (end_time > start_time),
+  check (term_start is null or term_end is null or term_end >= term_start)
+);
+
+create index if not exists timetable_entries_user_updated_at_idx
+  on public.timetable_entries (user_id, updated_at);
+
+alter table public.timetable_entries enable row level security;
+
+drop policy if exists "timetable_entries_select_own" on public.timetable_entries;
+drop policy if exists "timetable_entries_insert_own" on public.timetable_entries;
+drop policy if exists "timetable_entries_update_own" on public.timetable_entries;
+drop policy if exists "timetable_entries_delete_own" on public.timetable_entries;
+
+create policy "timetable_entries_select_own"
+on public.timetable_entries
+for select
+to authenticated
+using (user_id = auth.uid());
+
+create policy "timetable_entries_insert_own"
+on public.timetable_entries
+for insert
+to authenticated
+with check (user_id = auth.uid());
+
+create policy "timetable_entries_update_own"
+on public.timetable_entries
+for update
+to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create policy "timetable_entries_delete_own"
+on public.timetable_entries
+for delete
+to authenticated
+using (user_id = auth.uid());
+
+grant select, insert, update, delete on public.timetable_entries to authenticated;
+
+drop trigger if exists timetable_entries_touch_updated_at on public.timetable_entries;
+create trigger timetable_entries_touch_updated_at
+before insert or update on public.timetable_entries
+for each row execute function public.touch_updated_at();
+
+drop trigger if exists timetable_entries_record_tombstone on public.timetable_entries;
+create trigger timetable_entries_record_tombstone
+after delete on public.timetable_entries
+for each row execute function public.record_sync_tombstone();
+
+-- 2) Realtime
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'timetable_entries'
+  ) then
+    alter publication supabase_realtime add table public.timetable_entries;
+  end if;
+end;
+$$;
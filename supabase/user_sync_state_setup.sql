@@ -0,0 +1,42 @@
+-- StudyDay - Multi-device sync of preferences, favourites and focus stats
+-- Run this in Supabase SQL Editor (project database)
+
+-- One end-to-end encrypted snapshot per user and kind; clients merge before writing.
+create table if not exists public.user_sync_state (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  kind text not null check (kind in ('preferences', 'focus_stats')),
+  payload text not null,
+  updated_at timestamp with time zone not null default now(),
+  primary key (user_id, kind)
+);
+
+alter table public.user_sync_state enable row level security;
+
+drop policy if exists "user_sync_state_select_own" on public.user_sync_state;
+create policy "user_sync_state_select_own"
+on public.user_sync_state
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists "user_sync_state_insert_own" on public.user_sync_state;
+create policy "user_sync_state_insert_own"
+on public.user_sync_state
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+drop policy if exists "user_sync_state_update_own" on public.user_sync_state;
+create policy "user_sync_state_update_own"
+on public.user_sync_state
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists "user_sync_state_delete_own" on public.user_sync_state;
+create policy "user_sync_state_delete_own"
+on public.user_sync_state
+for delete
+to authenticated
+using (auth.uid() = user_id);
@@ -1,6 +1,10 @@
 export type StudyPeriodPreset = 'year' | 'semester' | 'trimester' | 'custom';
 export type StudyDayKey = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
 export type StudySlot = 'morning' | 'afternoon' | 'evening';
+export type StudySessionStatus = 'planned' | 'done' | 'skipped' | 'rescheduled';
+export type StudyScheduleStrategy = 'balanced' | 'deadline';
+export type TimetableKind = 'lecture' | 'lab' | 'tutorial';
+export type TimetableWeekParity = 'all' | 'A' | 'B';
 
 export type StudySchedulePreferences = {
   title: string;
@@ -14,6 +18,13 @@ export type StudySchedulePreferences = {
   includeWeekend: boolean;
   selectedDays: StudyDayKey[];
   preferredSlot: StudySlot;
+  strategy?: StudyScheduleStrategy;
+};
+
+export type StudyDeadlineGap = {
+  deadline: string;
+  missingMinutes: number;
+  taskIds: string[];
 };
 
 export type StudyScheduleSession = {
@@ -23,6 +34,12 @@ export type StudyScheduleSession = {
   slot: StudySlot;
   durationMinutes: number;
   focus: string;
+  taskId?: string | null;
+  courseId?: string | null;
+  status?: StudySessionStatus;
+  actualMinutes?: number | null;
+  completedAt?: string | null;
+  rescheduledTo?: string | null;
 };
 
 export type StudySchedulePlan = {
@@ -37,9 +54,30 @@ export type StudySchedulePlan = {
     totalWeeks: number;
     startDate: string;
     endDate: string;
+    taskMinutes?: number;
+    uncoveredTaskMinutes?: number;
+    skippedForClasses?: number;
+    extraSessions?: number;
+    deadlineGaps?: StudyDeadlineGap[];
   };
   sessions: StudyScheduleSession[];
   is_pinned: boolean;
   created_at: string;
   updated_at: string;
 };
+
+export type TimetableEntry = {
+  id: string;
+  user_id: string;
+  course_id: string | null;
+  kind: TimetableKind;
+  weekday: StudyDayKey;
+  start_time: string;
+  end_time: string;
+  room: string | null;
+  week_parity: TimetableWeekParity;
+  term_start: string | null;
+  term_end: string | null;
+  created_at: string;
+  updated_at?: string | null;
+};
@@ -6,6 +6,18 @@ export type Profile = {
   created_at: string | null;
 };
 
+export type TaskSubtask = {
+  id: string;
+  title: string;
+  done: boolean;
+};
+
+export type TaskRecurrence = {
+  rule: string;
+  series_id: string;
+  index: number;
+};
+
 export type Task = {
   id: string;
   user_id: string | null;
@@ -14,9 +26,18 @@ export type Task = {
   status: 'todo' | 'in_progress' | 'done';
   priority: 'low' | 'medium' | 'high';
   due_date: string | null;
+  due_at: string | null;
+  due_timezone: string | null;
+  estimated_minutes: number | null;
   completed_at: string | null;
   is_persistent: boolean;
+  subtasks: TaskSubtask[];
+  recurrence: TaskRecurrence | null;
+  blocked_by: string[];
+  course_id: string | null;
+  exam_id: string | null;
   created_at: string | null;
+  updated_at?: string | null;
 };
 
 export type Resource = {
@@ -27,7 +48,87 @@ export type Resource = {
   content: string | null;
   file_url: string | null;
   tags: string[] | null;
+  course_id: string | null;
+  created_at: string | null;
+  updated_at?: string | null;
+};
+
+export type Course = {
+  id: string;
+  user_id: string | null;
+  name: string;
+  color: string;
+  teacher: string | null;
+  term: string | null;
+  coefficient: number | null;
+  created_at: string | null;
+  updated_at?: string | null;
+};
+
+export type Assessment = {
+  id: string;
+  user_id: string | null;
+  course_id: string;
+  title: string;
+  score: number | null;
+  max_score: number;
+  weight: number;
+  date: string | null;
+  created_at: string | null;
+  updated_at?: string | null;
+};
+
+export type Exam = {
+  id: string;
+  user_id: string | null;
+  course_id: string | null;
+  subject: string;
+  exam_date: string;
+  exam_time: string | null;
+  location: string | null;
+  topics: string[];
+  revision_offsets: number[];
+  schedule_id: string | null;
+  created_at: string | null;
+  updated_at?: string | null;
+};
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export type ReviewLogEntry = {
+  reviewed_at: string;
+  grade: ReviewGrade;
+  interval_days: number;
+  ease_factor: number;
+};
+
+export type ReviewSchedule = {
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_date: string;
+  last_reviewed_at: string | null;
+  history: ReviewLogEntry[];
+};
+
+export type ReviewItem = ReviewSchedule & {
+  id: string;
+  user_id: string | null;
+  resource_id: string;
+  created_at: string | null;
+  updated_at?: string | null;
+};
+
+export type Flashcard = ReviewSchedule & {
+  id: string;
+  user_id: string | null;
+  deck: string;
+  front: string;
+  back: string;
+  resource_id: string | null;
   created_at: string | null;
+  updated_at?: string | null;
 };
 
 export type Announcement = {
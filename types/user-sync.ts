@@ -0,0 +1,22 @@
+export type UserSyncKind = 'preferences' | 'focus_stats';
+
+export type FavoriteChange = {
+  favorite: boolean;
+  changedAt: string;
+};
+
+export type SyncedPreferences = {
+  favoriteTasks: Record<string, FavoriteChange>;
+  favoriteResources: Record<string, FavoriteChange>;
+  recentSearches: string[];
+  recentSearchesUpdatedAt: string | null;
+};
+
+export type FocusDayStats = {
+  sessions: number;
+  minutes: number;
+};
+
+export type SyncedFocusStats = {
+  byDay: Record<string, FocusDayStats>;
+};